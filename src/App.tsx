@@ -2,17 +2,19 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { CartProvider } from "@/contexts/CartContext";
 import { AuthProvider } from "@/contexts/AuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import AdminRoute from "@/components/AdminRoute";
+import AdminHomeRedirect from "@/components/AdminHomeRedirect";
 import Home from "./pages/Home";
 import Products from "./pages/Products";
 import ProductDetail from "./pages/ProductDetail";
 import Cart from "./pages/Cart";
 import { Checkout } from "./pages/Checkout";
 import Orders from "./pages/Orders";
+import Addresses from "./pages/Addresses";
 import Login from "./pages/Login";
 import SignUp from "./pages/SignUp";
 import AdminLogin from "./pages/admin/AdminLogin";
@@ -20,6 +22,17 @@ import AdminLayout from "./pages/admin/AdminLayout";
 import AdminProducts from "./pages/admin/AdminProducts";
 import ProductForm from "./pages/admin/ProductForm";
 import AdminOrders from "./pages/admin/AdminOrders";
+import AdminOrderDetail from "./pages/admin/AdminOrderDetail";
+import AdminPaymentReconciliation from "./pages/admin/AdminPaymentReconciliation";
+import AdminUsers from "./pages/admin/AdminUsers";
+import AdminCategories from "./pages/admin/AdminCategories";
+import AdminPersonalization from "./pages/admin/AdminPersonalization";
+import AdminDelivery from "./pages/admin/AdminDelivery";
+import AdminDeliveryZones from "./pages/admin/AdminDeliveryZones";
+import AdminInventory from "./pages/admin/AdminInventory";
+import AdminPromotions from "./pages/admin/AdminPromotions";
+import AdminOverview from "./pages/admin/AdminOverview";
+import AdminReviews from "./pages/admin/AdminReviews";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -46,6 +59,9 @@ const App = () => (
               <Route path="/orders" element={<ProtectedRoute />}>
                 <Route index element={<Orders />} />
               </Route>
+              <Route path="/addresses" element={<ProtectedRoute />}>
+                <Route index element={<Addresses />} />
+              </Route>
 
               {/* Admin Login */}
               <Route path="/admin" element={<AdminLogin />} />
@@ -53,11 +69,38 @@ const App = () => (
               {/* Protected Admin Dashboard Routes */}
               <Route path="/admin/dashboard" element={<AdminRoute />}>
                 <Route element={<AdminLayout />}>
-                  <Route index element={<Navigate to="orders" replace />} />
-                  <Route path="orders" element={<AdminOrders />} />
+                  <Route index element={<AdminHomeRedirect />} />
+                  <Route element={<AdminRoute permission="analytics.view" />}>
+                    <Route path="overview" element={<AdminOverview />} />
+                  </Route>
                   <Route path="products" element={<AdminProducts />} />
-                  <Route path="products/new" element={<ProductForm />} />
-                  <Route path="products/:id/edit" element={<ProductForm />} />
+                  <Route element={<AdminRoute permission="orders.view" />}>
+                    <Route path="orders" element={<AdminOrders />} />
+                    <Route path="orders/:id" element={<AdminOrderDetail />} />
+                  </Route>
+                  <Route element={<AdminRoute permission="orders.approve" />}>
+                    <Route path="orders/reconcile" element={<AdminPaymentReconciliation />} />
+                  </Route>
+                  <Route element={<AdminRoute permission="products.edit" />}>
+                    <Route path="products/new" element={<ProductForm />} />
+                    <Route path="products/:id/edit" element={<ProductForm />} />
+                    <Route path="categories" element={<AdminCategories />} />
+                    <Route path="personalization" element={<AdminPersonalization />} />
+                    <Route path="inventory" element={<AdminInventory />} />
+                  </Route>
+                  <Route element={<AdminRoute permission="delivery.manage" />}>
+                    <Route path="delivery" element={<AdminDelivery />} />
+                    <Route path="zones" element={<AdminDeliveryZones />} />
+                  </Route>
+                  <Route element={<AdminRoute permission="promotions.manage" />}>
+                    <Route path="promotions" element={<AdminPromotions />} />
+                  </Route>
+                  <Route element={<AdminRoute permission="reviews.moderate" />}>
+                    <Route path="reviews" element={<AdminReviews />} />
+                  </Route>
+                  <Route element={<AdminRoute permission="users.manage" />}>
+                    <Route path="users" element={<AdminUsers />} />
+                  </Route>
                 </Route>
               </Route>
 
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { LocateFixed } from "lucide-react";
+import { AddressFormInput } from "@/lib/addresses";
+import { DeliveryZone } from "@/lib/delivery";
+
+interface AddressFieldsProps {
+  // Only active zones should be passed in.
+  zones: DeliveryZone[];
+  // Hides the "Home" / "Work" label, which only matters in the address book.
+  showLabel?: boolean;
+}
+
+// The structured address inputs, for use inside a <Form> whose values hold
+// the address under `address`.
+const AddressFields = ({ zones, showLabel = true }: AddressFieldsProps) => {
+  const form = useFormContext<{ address: AddressFormInput }>();
+  const [isLocating, setIsLocating] = useState(false);
+  const latitude = form.watch("address.latitude");
+  const longitude = form.watch("address.longitude");
+
+  const shareLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error("Your browser cannot share your location.");
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        form.setValue("address.latitude", Number(position.coords.latitude.toFixed(6)), { shouldValidate: true });
+        form.setValue("address.longitude", Number(position.coords.longitude.toFixed(6)), { shouldValidate: true });
+        setIsLocating(false);
+      },
+      (error) => {
+        toast.error(`Could not get your location: ${error.message}`);
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 15000 },
+    );
+  };
+
+  const clearLocation = () => {
+    form.setValue("address.latitude", "");
+    form.setValue("address.longitude", "");
+  };
+
+  return (
+    <div className="space-y-4">
+      {showLabel && (
+        <FormField
+          control={form.control}
+          name="address.label"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Label (optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Home, Office" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      <div className="grid sm:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="address.recipient_name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Recipient Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Who will receive the order" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="address.recipient_phone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Recipient Phone</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. 0712345678" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={form.control}
+        name="address.delivery_zone_id"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Delivery Zone</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose your zone" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {zones.map((zone) => (
+                  <SelectItem key={zone.id} value={zone.id}>
+                    {zone.name}
+                    {zone.areas && <span className="text-muted-foreground"> — {zone.areas}</span>}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid sm:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="address.area"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Estate or Area</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Kilimani" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="address.street"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Street</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Kasuku Road" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <div className="grid sm:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="address.building"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Building & Unit (optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Apt 4B, Jade Court" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="address.landmark"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Landmark (optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Opposite Yaya Centre" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={form.control}
+        name="address.instructions"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Delivery Instructions (optional)</FormLabel>
+            <FormControl>
+              <Textarea placeholder="Anything else that helps our rider, e.g. call at the gate" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="space-y-2">
+        <Label>GPS Location (optional)</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={shareLocation} disabled={isLocating}>
+            <LocateFixed className="mr-2 h-4 w-4" />
+            {isLocating ? "Locating..." : "Use my current location"}
+          </Button>
+          {latitude !== "" && longitude !== "" && (
+            <>
+              <span className="text-sm text-muted-foreground font-mono">
+                {latitude}, {longitude}
+              </span>
+              <Button type="button" variant="ghost" size="sm" onClick={clearLocation}>
+                Clear
+              </Button>
+            </>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Helps our rider find you. Only share it if you are at the delivery address right now.
+        </p>
+        {form.formState.errors.address?.longitude && (
+          <p className="text-sm font-medium text-destructive">{form.formState.errors.address.longitude.message}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AddressFields;
@@ -0,0 +1,11 @@
+import { Navigate } from "react-router-dom";
+import { usePermission } from "@/hooks/use-permission";
+
+// The dashboard opens on the sales overview for staff who may see it, and on
+// the orders list for everyone else.
+const AdminHomeRedirect = () => {
+  const canViewAnalytics = usePermission("analytics.view");
+  return <Navigate to={canViewAnalytics ? "overview" : "orders"} replace />;
+};
+
+export default AdminHomeRedirect;
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import AdminRoute from "./AdminRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { Permission } from "@/lib/permissions";
+
+vi.mock("@/contexts/AuthContext", () => ({ useAuth: vi.fn() }));
+
+const signIn = ({ user = { id: "user-1" }, permissions = [] as Permission[], loading = false } = {}) => {
+  vi.mocked(useAuth).mockReturnValue({ user, permissions, loading } as unknown as ReturnType<typeof useAuth>);
+};
+
+// Opens the reviews queue, which needs reviews.moderate, or the dashboard
+// home, which any staff member may see.
+const visit = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/" element={<p>Shop</p>} />
+        <Route path="/admin" element={<p>Admin login</p>} />
+        <Route element={<AdminRoute />}>
+          <Route path="/admin/dashboard" element={<p>Dashboard</p>} />
+          <Route path="/admin/dashboard/products" element={<p>Products</p>} />
+        </Route>
+        <Route element={<AdminRoute permission="reviews.moderate" />}>
+          <Route path="/admin/dashboard/reviews" element={<p>Reviews</p>} />
+        </Route>
+      </Routes>
+    </MemoryRouter>,
+  );
+
+describe("AdminRoute", () => {
+  it("waits while the session is loading", () => {
+    signIn({ user: null, loading: true });
+    visit("/admin/dashboard/reviews");
+
+    expect(screen.getByText("Loading...")).toBeInTheDocument();
+  });
+
+  it("lets staff with the permission in", () => {
+    signIn({ permissions: ["orders.view", "reviews.moderate"] });
+    visit("/admin/dashboard/reviews");
+
+    expect(screen.getByText("Reviews")).toBeInTheDocument();
+  });
+
+  it("lets any staff member into routes that need no permission", () => {
+    signIn({ permissions: ["orders.view"] });
+    visit("/admin/dashboard");
+
+    expect(screen.getByText("Dashboard")).toBeInTheDocument();
+  });
+
+  it("sends staff without the permission to the catalogue", () => {
+    signIn({ permissions: ["orders.view"] });
+    visit("/admin/dashboard/reviews");
+
+    expect(screen.getByText("Products")).toBeInTheDocument();
+  });
+
+  it("sends signed-in customers to the shop", () => {
+    signIn();
+    visit("/admin/dashboard/reviews");
+
+    expect(screen.getByText("Shop")).toBeInTheDocument();
+  });
+
+  it("sends visitors who are not signed in to the admin login", () => {
+    signIn({ user: null });
+    visit("/admin/dashboard");
+
+    expect(screen.getByText("Admin login")).toBeInTheDocument();
+  });
+});
@@ -1,19 +1,33 @@
 import { Navigate, Outlet } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { Permission } from "@/lib/permissions";
 
-const AdminRoute = () => {
-  const { user, role, loading } = useAuth();
+interface AdminRouteProps {
+  // Required for these routes. Without it, any staff member may enter.
+  permission?: Permission;
+}
+
+const AdminRoute = ({ permission }: AdminRouteProps) => {
+  const { user, permissions, loading } = useAuth();
 
   if (loading) {
     return <div>Loading...</div>; // Or a spinner component
   }
 
-  // If user is authenticated and is an admin, allow access.
-  if (user && role === 'admin') {
+  const isStaff = permissions.length > 0;
+
+  // If the user is staff with the required permission, allow access.
+  if (user && isStaff && (!permission || permissions.includes(permission))) {
     return <Outlet />;
   }
 
-  // If user is authenticated but not an admin, redirect to home.
+  // Staff without this permission go to the catalogue, which every staff
+  // member can see.
+  if (user && isStaff) {
+    return <Navigate to="/admin/dashboard/products" replace />;
+  }
+
+  // If user is authenticated but not staff, redirect to home.
   if (user) {
     return <Navigate to="/" />;
   }
@@ -22,4 +36,4 @@ const AdminRoute = () => {
   return <Navigate to="/admin" />;
 };
 
-export default AdminRoute;
\ No newline at end of file
+export default AdminRoute;
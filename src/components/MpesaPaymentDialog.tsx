@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { startMpesaPayment } from "@/lib/payments";
+import { getPayment, orderKeys } from "@/data/orders";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CheckCircle2, Loader2, Smartphone, XCircle } from "lucide-react";
+
+const POLL_INTERVAL_MS = 3000;
+
+interface MpesaPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string | null;
+  phone: string;
+  amount: number;
+  onPaid: () => void;
+}
+
+// Sends an STK push as soon as it opens, then polls the payment until the
+// M-Pesa callback has marked it as succeeded, failed or cancelled.
+const MpesaPaymentDialog = ({ open, onOpenChange, orderId, phone, amount, onPaid }: MpesaPaymentDialogProps) => {
+  const [paymentId, setPaymentId] = useState<string | null>(null);
+  const [pushError, setPushError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const hasStarted = useRef(false);
+
+  const sendPrompt = useCallback(async () => {
+    if (!orderId) return;
+    setIsSending(true);
+    setPushError(null);
+    setPaymentId(null);
+    try {
+      const response = await startMpesaPayment(orderId, phone);
+      setPaymentId(response.paymentId);
+    } catch (error) {
+      setPushError(error instanceof Error ? error.message : "Failed to start the M-Pesa payment.");
+    } finally {
+      setIsSending(false);
+    }
+  }, [orderId, phone]);
+
+  useEffect(() => {
+    if (open && !hasStarted.current) {
+      hasStarted.current = true;
+      sendPrompt();
+    }
+    if (!open) {
+      hasStarted.current = false;
+    }
+  }, [open, sendPrompt]);
+
+  const { data: payment } = useQuery({
+    queryKey: orderKeys.payment(paymentId),
+    queryFn: () => getPayment(paymentId!),
+    enabled: !!paymentId,
+    refetchInterval: (query) => (query.state.data?.status === "pending" ? POLL_INTERVAL_MS : false),
+  });
+
+  const hasFailed = !!pushError || payment?.status === "failed" || payment?.status === "cancelled";
+
+  // Closing the dialog after a successful payment counts as continuing.
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && payment?.status === "succeeded") {
+      onPaid();
+      return;
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pay with M-Pesa</DialogTitle>
+          <DialogDescription>
+            Ksh {amount.toFixed(2)} to Sweet Aura from {phone}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center text-center gap-3 py-6">
+          {payment?.status === "succeeded" ? (
+            <>
+              <CheckCircle2 className="h-14 w-14 text-green-600" />
+              <p className="font-semibold text-lg">Payment received</p>
+              <p className="text-sm text-muted-foreground">
+                M-Pesa receipt <span className="font-mono text-foreground">{payment.mpesa_receipt_number}</span>
+              </p>
+            </>
+          ) : hasFailed ? (
+            <>
+              <XCircle className="h-14 w-14 text-destructive" />
+              <p className="font-semibold text-lg">
+                {payment?.status === "cancelled" ? "Payment cancelled" : "Payment not completed"}
+              </p>
+              <p className="text-sm text-muted-foreground">{pushError || payment?.result_desc}</p>
+            </>
+          ) : (
+            <>
+              {isSending ? (
+                <Loader2 className="h-14 w-14 animate-spin text-primary" />
+              ) : (
+                <Smartphone className="h-14 w-14 text-primary animate-pulse" />
+              )}
+              <p className="font-semibold text-lg">
+                {isSending ? "Sending payment request..." : "Check your phone"}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Enter your M-Pesa PIN on the prompt to complete payment. This page will update automatically.
+              </p>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {payment?.status === "succeeded" ? (
+            <Button className="w-full" onClick={onPaid}>Continue</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Pay Later
+              </Button>
+              {hasFailed && <Button onClick={sendPrompt}>Try Again</Button>}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MpesaPaymentDialog;
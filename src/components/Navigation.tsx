@@ -1,8 +1,9 @@
-import { ShoppingCart, LogOut, User as UserIcon, Shield, Package } from "lucide-react";
+import { ShoppingCart, LogOut, User as UserIcon, Shield, Package, MapPin } from "lucide-react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { useCart } from "@/contexts/CartContext";
 import { useAuth } from "@/contexts/AuthContext";
+import { useIsStaff } from "@/hooks/use-permission";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,10 +13,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Skeleton } from "./ui/skeleton";
+import SearchCommand from "./SearchCommand";
 
 const Navigation = () => {
   const { items, loading: cartLoading } = useCart();
-  const { user, role, signOut, loading: authLoading } = useAuth();
+  const { user, signOut, loading: authLoading } = useAuth();
+  const isStaff = useIsStaff();
   const navigate = useNavigate();
   const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
@@ -40,6 +43,7 @@ const Navigation = () => {
           <Link to="/products" className="text-foreground hover:text-primary transition-colors">
             Products
           </Link>
+          <SearchCommand />
           <Link to="/cart">
             <Button variant="outline" size="icon" className="relative">
               <ShoppingCart className="h-5 w-5" />
@@ -71,7 +75,13 @@ const Navigation = () => {
                         <span>My Orders</span>
                       </Link>
                     </DropdownMenuItem>
-                    {role === 'admin' && (
+                    <DropdownMenuItem asChild>
+                      <Link to="/addresses">
+                        <MapPin className="mr-2 h-4 w-4" />
+                        <span>My Addresses</span>
+                      </Link>
+                    </DropdownMenuItem>
+                    {isStaff && (
                       <DropdownMenuItem asChild>
                         <Link to="/admin/dashboard">
                           <Shield className="mr-2 h-4 w-4" />
@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getOrderStatusInfo } from "@/lib/orderStatus";
+
+interface OrderStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+const OrderStatusBadge = ({ status, className }: OrderStatusBadgeProps) => {
+  const statusInfo = getOrderStatusInfo(status);
+
+  return (
+    <Badge variant="outline" className={cn("w-fit whitespace-nowrap", statusInfo.badgeClassName, className)}>
+      {statusInfo.label}
+    </Badge>
+  );
+};
+
+export default OrderStatusBadge;
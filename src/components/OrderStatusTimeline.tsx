@@ -0,0 +1,62 @@
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { getOrderStatusInfo } from "@/lib/orderStatus";
+import { Tables } from "@/integrations/supabase/types";
+
+type StatusHistoryEntry = Pick<
+  Tables<'order_status_history'>,
+  'id' | 'from_status' | 'to_status' | 'note' | 'created_at' | 'changed_by'
+> & {
+  actor?: { full_name: string | null } | null;
+};
+
+interface OrderStatusTimelineProps {
+  history: StatusHistoryEntry[];
+  // Staff see who made each change; customers only see what happened.
+  showActor?: boolean;
+}
+
+const OrderStatusTimeline = ({ history, showActor = false }: OrderStatusTimelineProps) => {
+  const entries = [...history].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>;
+  }
+
+  const getActorName = (entry: StatusHistoryEntry) => {
+    if (!entry.changed_by) return "System";
+    return entry.actor?.full_name || "Staff member";
+  };
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-6">
+      {entries.map((entry, index) => {
+        const statusInfo = getOrderStatusInfo(entry.to_status);
+        const isLatest = index === entries.length - 1;
+
+        return (
+          <li key={entry.id} className="ml-6">
+            <span
+              className={cn(
+                "absolute -left-[7px] mt-1 h-3.5 w-3.5 rounded-full border-2 border-background",
+                isLatest ? "bg-primary" : "bg-muted-foreground/40"
+              )}
+            />
+            <p className={cn("font-medium", isLatest && "text-primary")}>
+              {entry.from_status ? statusInfo.label : `Order placed (${statusInfo.label})`}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {format(new Date(entry.created_at), "PPP 'at' p")}
+              {showActor && <> &middot; {getActorName(entry)}</>}
+            </p>
+            {entry.note && <p className="text-sm mt-1">{entry.note}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderStatusTimeline;
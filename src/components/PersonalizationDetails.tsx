@@ -0,0 +1,65 @@
+import { ImageIcon } from "lucide-react";
+import { PersonalizationSnapshot } from "@/lib/personalization";
+import { cn } from "@/lib/utils";
+
+interface PersonalizationDetailsProps {
+  personalization: PersonalizationSnapshot;
+  // A signed link to the reference photo, when the viewer may open it.
+  referenceImageUrl?: string;
+  className?: string;
+}
+
+// The personalization of one cart or order line, as a short list.
+const PersonalizationDetails = ({ personalization, referenceImageUrl, className }: PersonalizationDetailsProps) => {
+  const { inscription, colour_theme, dietary, notes, reference_image_path } = personalization;
+
+  return (
+    <dl className={cn("grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-sm", className)}>
+      {inscription && (
+        <>
+          <dt className="text-muted-foreground">Inscription:</dt>
+          <dd className="font-medium">“{inscription}”</dd>
+        </>
+      )}
+      {colour_theme && (
+        <>
+          <dt className="text-muted-foreground">Colours:</dt>
+          <dd>{colour_theme}</dd>
+        </>
+      )}
+      {dietary && dietary.length > 0 && (
+        <>
+          <dt className="text-muted-foreground">Dietary:</dt>
+          <dd>{dietary.join(", ")}</dd>
+        </>
+      )}
+      {notes && (
+        <>
+          <dt className="text-muted-foreground">Notes:</dt>
+          <dd className="whitespace-pre-wrap">{notes}</dd>
+        </>
+      )}
+      {reference_image_path && (
+        <>
+          <dt className="text-muted-foreground">Reference:</dt>
+          <dd>
+            {referenceImageUrl ? (
+              <a
+                href={referenceImageUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-primary hover:underline"
+              >
+                <ImageIcon className="h-3.5 w-3.5" /> View photo
+              </a>
+            ) : (
+              "Photo attached"
+            )}
+          </dd>
+        </>
+      )}
+    </dl>
+  );
+};
+
+export default PersonalizationDetails;
@@ -0,0 +1,153 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { X } from "lucide-react";
+import {
+  INSCRIPTION_MAX_LENGTH,
+  PERSONALIZATION_NOTES_MAX_LENGTH,
+  Personalization,
+  PersonalizationOption,
+} from "@/lib/personalization";
+
+const NO_COLOUR_THEME = "none";
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+interface PersonalizationFieldsProps {
+  value: Personalization;
+  onChange: (value: Personalization) => void;
+  // Only active options should be passed in.
+  options: PersonalizationOption[];
+  referenceFile: File | null;
+  onReferenceFileChange: (file: File | null) => void;
+}
+
+const formatSurcharge = (surcharge: number) => (Number(surcharge) > 0 ? ` (+Ksh ${Number(surcharge).toFixed(2)})` : "");
+
+// The inscription, colour theme, dietary and reference photo inputs shown
+// on a product page before it is added to the cart.
+const PersonalizationFields = ({
+  value,
+  onChange,
+  options,
+  referenceFile,
+  onReferenceFileChange,
+}: PersonalizationFieldsProps) => {
+  const colourThemes = options.filter((option) => option.kind === "colour_theme");
+  const dietaryOptions = options.filter((option) => option.kind === "dietary");
+  const dietaryIds = value.dietary_ids ?? [];
+
+  const toggleDietary = (id: string, checked: boolean) =>
+    onChange({
+      ...value,
+      dietary_ids: checked ? [...dietaryIds, id] : dietaryIds.filter((dietaryId) => dietaryId !== id),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="inscription">Message on the cake</Label>
+          <span className="text-xs text-muted-foreground">
+            {(value.inscription ?? "").length}/{INSCRIPTION_MAX_LENGTH}
+          </span>
+        </div>
+        <Input
+          id="inscription"
+          placeholder="e.g. Happy 30th Birthday, Amani!"
+          maxLength={INSCRIPTION_MAX_LENGTH}
+          value={value.inscription ?? ""}
+          onChange={(e) => onChange({ ...value, inscription: e.target.value })}
+        />
+      </div>
+
+      {colourThemes.length > 0 && (
+        <div className="grid gap-2">
+          <Label htmlFor="colour-theme">Colour theme</Label>
+          <Select
+            value={value.colour_theme_id ?? NO_COLOUR_THEME}
+            onValueChange={(themeId) =>
+              onChange({ ...value, colour_theme_id: themeId === NO_COLOUR_THEME ? undefined : themeId })
+            }
+          >
+            <SelectTrigger id="colour-theme">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COLOUR_THEME}>No preference</SelectItem>
+              {colourThemes.map((theme) => (
+                <SelectItem key={theme.id} value={theme.id}>
+                  {theme.label}{formatSurcharge(theme.surcharge)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {dietaryOptions.length > 0 && (
+        <div className="grid gap-2">
+          <Label>Dietary requirements</Label>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {dietaryOptions.map((option) => (
+              <label key={option.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={dietaryIds.includes(option.id)}
+                  onCheckedChange={(checked) => toggleDietary(option.id, checked === true)}
+                />
+                {option.label}{formatSurcharge(option.surcharge)}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid gap-2">
+        <Label htmlFor="personalization-notes">Anything else we should know?</Label>
+        <Textarea
+          id="personalization-notes"
+          placeholder="Allergies, decorations, the occasion..."
+          maxLength={PERSONALIZATION_NOTES_MAX_LENGTH}
+          value={value.notes ?? ""}
+          onChange={(e) => onChange({ ...value, notes: e.target.value })}
+        />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="reference-photo">Reference photo (optional)</Label>
+        {referenceFile ? (
+          <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+            <span className="truncate">{referenceFile.name}</span>
+            <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => onReferenceFileChange(null)}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove photo</span>
+            </Button>
+          </div>
+        ) : (
+          <Input
+            id="reference-photo"
+            type="file"
+            accept={ACCEPTED_IMAGE_TYPES.join(",")}
+            onChange={(e) => {
+              const file = e.target.files?.[0] ?? null;
+              if (file && (file.size > MAX_FILE_SIZE || !ACCEPTED_IMAGE_TYPES.includes(file.type))) {
+                toast.error("Please choose a .jpg, .png or .webp image of up to 5MB.");
+                e.target.value = "";
+                onReferenceFileChange(null);
+                return;
+              }
+              onReferenceFileChange(file);
+            }}
+          />
+        )}
+        <p className="text-xs text-muted-foreground">A .jpg, .png or .webp image of up to 5MB.</p>
+      </div>
+    </div>
+  );
+};
+
+export default PersonalizationFields;
@@ -1,4 +1,4 @@
-import { ShoppingCart } from "lucide-react";
+import { ShoppingCart, Star } from "lucide-react";
 import { Link } from "react-router-dom";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,15 +10,31 @@ interface ProductCardProps {
   price: number;
   image_url?: string;
   in_stock: boolean;
+  // Products with sizes or flavours are added from their own page.
+  has_variants?: boolean;
+  // Average of the published reviews, or null while there are none.
+  rating_avg?: number | null;
+  rating_count?: number;
 }
 
-const ProductCard = ({ id, name, price, image_url, in_stock }: ProductCardProps) => {
+const ProductCard = ({
+  id,
+  name,
+  price,
+  image_url,
+  in_stock,
+  has_variants = false,
+  rating_avg = null,
+  rating_count = 0,
+}: ProductCardProps) => {
   const { addItem } = useCart();
 
   const handleAddToCart = (e: React.MouseEvent) => {
+    // Let the click through to the product link so the options can be picked.
+    if (has_variants) return;
     e.preventDefault();
     e.stopPropagation();
-    addItem({ id, name, price, image_url });
+    addItem({ product_id: id, variant_id: null, name, price, image_url });
   };
 
   return (
@@ -38,7 +54,23 @@ const ProductCard = ({ id, name, price, image_url, in_stock }: ProductCardProps)
           )}
         </div>
         <CardContent className="p-4">
-          <h3 className="font-semibold text-lg mb-2 line-clamp-1">{name}</h3>
+          <h3 className="font-semibold text-lg mb-1 line-clamp-1">{name}</h3>
+          <div className="flex items-center gap-1 mb-2 text-sm">
+            {rating_avg !== null && rating_count > 0 ? (
+              <>
+                {[...Array(5)].map((_, i) => (
+                  <Star
+                    key={i}
+                    className={`h-4 w-4 ${i < Math.round(rating_avg) ? "text-yellow-500 fill-yellow-500" : "text-muted-foreground"}`}
+                  />
+                ))}
+                <span className="ml-1 font-medium">{Number(rating_avg).toFixed(1)}</span>
+                <span className="text-muted-foreground">({rating_count})</span>
+              </>
+            ) : (
+              <span className="text-muted-foreground">No reviews yet</span>
+            )}
+          </div>
           <p className="text-2xl font-bold text-primary">KES{price.toFixed(2)}</p>
         </CardContent>
         <CardFooter className="p-4 pt-0">
@@ -47,7 +79,9 @@ const ProductCard = ({ id, name, price, image_url, in_stock }: ProductCardProps)
             disabled={!in_stock}
             className="w-full"
           >
-            {in_stock ? (
+            {in_stock && has_variants ? (
+              "Choose Options"
+            ) : in_stock ? (
               <>
                 <ShoppingCart className="mr-2 h-4 w-4" />
                 Add to Cart
@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { ImagePlus, PlusCircle, Trash2 } from "lucide-react";
+import { getProductVariants, productKeys, saveProductVariants } from "@/data/products";
+import { inventoryKeys } from "@/data/inventory";
+import {
+  VariantOptions,
+  buildVariantCombinations,
+  describeVariantOptions,
+  getVariantOptions,
+  getVariantPrice,
+} from "@/lib/variants";
+
+// More combinations than this is almost certainly a typo in the choices.
+const MAX_VARIANTS = 100;
+
+interface GroupDraft {
+  name: string;
+  choices: string; // Comma separated, as typed
+}
+
+interface VariantSettings {
+  price: string; // Blank to use the product price plus the adjustment
+  price_modifier: string;
+  track_stock: boolean;
+  stock_quantity: number | null; // As last saved; changed on the Inventory page
+  image_url: string | null;
+  imageFile?: File;
+  previewUrl?: string;
+}
+
+const DEFAULT_SETTINGS: VariantSettings = {
+  price: "",
+  price_modifier: "0",
+  track_stock: false,
+  stock_quantity: null,
+  image_url: null,
+};
+
+const parseChoices = (text: string) =>
+  Array.from(new Set(text.split(",").map((choice) => choice.trim()).filter(Boolean)));
+
+// Settings are remembered per combination, so editing the groups keeps the
+// prices already entered for combinations that still exist.
+const settingsKey = (options: VariantOptions) =>
+  JSON.stringify(Object.keys(options).sort().map((name) => [name, options[name]]));
+
+interface ProductVariantsEditorProps {
+  productId: string;
+  basePrice: number;
+}
+
+// Lets staff list a product's options (size, flavour, tiers...) and set the
+// price, stock tracking and image of every combination.
+const ProductVariantsEditor = ({ productId, basePrice }: ProductVariantsEditorProps) => {
+  const queryClient = useQueryClient();
+  const [groups, setGroups] = useState<GroupDraft[]>([]);
+  const [settings, setSettings] = useState<Record<string, VariantSettings>>({});
+
+  const { data, isLoading } = useQuery({
+    queryKey: productKeys.variants(productId),
+    queryFn: () => getProductVariants(productId),
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setGroups(data.groups.map((group) => ({ name: group.name, choices: group.choices.join(", ") })));
+    setSettings(Object.fromEntries(data.variants.map((variant) => [
+      settingsKey(getVariantOptions(variant)),
+      {
+        price: variant.price === null ? "" : String(variant.price),
+        price_modifier: String(variant.price_modifier),
+        track_stock: variant.stock_quantity !== null,
+        stock_quantity: variant.stock_quantity,
+        image_url: variant.image_url,
+      },
+    ])));
+  }, [data]);
+
+  const parsedGroups = groups
+    .map((group) => ({ name: group.name.trim(), choices: parseChoices(group.choices) }))
+    .filter((group) => group.name && group.choices.length > 0);
+  const combinations = buildVariantCombinations(parsedGroups);
+  const rows = combinations.map((options) => {
+    const key = settingsKey(options);
+    return { key, options, ...(settings[key] ?? DEFAULT_SETTINGS) };
+  });
+
+  const groupNames = parsedGroups.map((group) => group.name.toLowerCase());
+  const hasDuplicateGroups = new Set(groupNames).size !== groupNames.length;
+  const hasTooManyVariants = rows.length > MAX_VARIANTS;
+
+  const updateGroup = (index: number, changes: Partial<GroupDraft>) =>
+    setGroups((current) => current.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+
+  const updateRow = (key: string, changes: Partial<VariantSettings>) =>
+    setSettings((current) => ({ ...current, [key]: { ...(current[key] ?? DEFAULT_SETTINGS), ...changes } }));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const replacedImages: string[] = [];
+
+      const variants = await Promise.all(rows.map(async (row, index) => {
+        let imageUrl = row.image_url;
+
+        if (row.imageFile) {
+          const fileExt = row.imageFile.name.split('.').pop();
+          const filePath = `variants/${productId}/${Date.now()}-${index}.${fileExt}`;
+
+          const { error: uploadError } = await supabase.storage
+            .from('product-images')
+            .upload(filePath, row.imageFile);
+
+          if (uploadError) throw new Error(`Storage Error: ${uploadError.message}`);
+
+          const { data: urlData } = supabase.storage
+            .from('product-images')
+            .getPublicUrl(filePath);
+
+          if (row.image_url) replacedImages.push(row.image_url);
+          imageUrl = urlData.publicUrl;
+        }
+
+        return {
+          options: row.options,
+          price: row.price.trim() === "" ? null : Number(row.price),
+          price_modifier: Number(row.price_modifier) || 0,
+          track_stock: row.track_stock,
+          image_url: imageUrl,
+        };
+      }));
+
+      await saveProductVariants(productId, parsedGroups, variants);
+
+      const oldImagePaths = replacedImages
+        .map((url) => url.split('/product-images/')[1])
+        .filter((path): path is string => !!path);
+      if (oldImagePaths.length > 0) {
+        const { error: removeError } = await supabase.storage.from('product-images').remove(oldImagePaths);
+        if (removeError) console.error("Failed to delete old variant images:", removeError.message);
+      }
+    },
+    onSuccess: () => {
+      toast.success("Variants saved successfully");
+      queryClient.invalidateQueries({ queryKey: productKeys.all });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
+    },
+    onError: (error) => {
+      toast.error(`Error saving variants: ${error.message}`);
+    },
+  });
+
+  if (isLoading) {
+    return <div>Loading variants...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Options & Variants</CardTitle>
+        <CardDescription>
+          List the options customers choose from, such as Size or Flavour. Every combination becomes a
+          variant with its own price, stock and image. Leave this empty to sell the product as is.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        <div className="grid gap-3">
+          {groups.map((group, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-3 items-end">
+              <div className="grid gap-2">
+                <Label htmlFor={`group-name-${index}`}>Option</Label>
+                <Input
+                  id={`group-name-${index}`}
+                  placeholder="e.g. Size"
+                  value={group.name}
+                  onChange={(e) => updateGroup(index, { name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor={`group-choices-${index}`}>Choices</Label>
+                <Input
+                  id={`group-choices-${index}`}
+                  placeholder="e.g. 1kg, 2kg, 3-tier"
+                  value={group.choices}
+                  onChange={(e) => updateGroup(index, { choices: e.target.value })}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-destructive"
+                onClick={() => setGroups((current) => current.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove option</span>
+              </Button>
+            </div>
+          ))}
+          <div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setGroups((current) => [...current, { name: "", choices: "" }])}
+            >
+              <PlusCircle className="h-3.5 w-3.5" /> Add Option
+            </Button>
+          </div>
+          {hasDuplicateGroups && <p className="text-sm text-destructive">Each option needs a different name.</p>}
+          {hasTooManyVariants && (
+            <p className="text-sm text-destructive">
+              These options make {rows.length} combinations. Please keep it to {MAX_VARIANTS} or fewer.
+            </p>
+          )}
+        </div>
+
+        {rows.length > 0 && !hasTooManyVariants && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead className="w-32">Adjustment</TableHead>
+                <TableHead className="w-32">Fixed Price</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead>Track Stock</TableHead>
+                <TableHead>Image</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const price = getVariantPrice(basePrice, {
+                  price: row.price.trim() === "" ? null : Number(row.price),
+                  price_modifier: Number(row.price_modifier) || 0,
+                });
+                return (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">{describeVariantOptions(row.options, parsedGroups)}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={row.price_modifier}
+                        disabled={row.price.trim() !== ""}
+                        onChange={(e) => updateRow(row.key, { price_modifier: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="—"
+                        value={row.price}
+                        onChange={(e) => updateRow(row.key, { price: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell className={`text-right ${price < 0 ? "text-destructive" : ""}`}>
+                      Ksh {price.toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={row.track_stock}
+                          onCheckedChange={(checked) => updateRow(row.key, { track_stock: checked })}
+                        />
+                        {row.track_stock && (
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {row.stock_quantity ?? 0} left
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <label className="flex h-10 w-10 cursor-pointer items-center justify-center overflow-hidden rounded-md border border-dashed">
+                        {row.previewUrl || row.image_url ? (
+                          <img src={row.previewUrl || row.image_url || ""} alt="" className="h-full w-full object-cover" />
+                        ) : (
+                          <ImagePlus className="h-4 w-4 text-muted-foreground" />
+                        )}
+                        <input
+                          type="file"
+                          accept="image/jpeg,image/png,image/webp"
+                          className="sr-only"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) updateRow(row.key, { imageFile: file, previewUrl: URL.createObjectURL(file) });
+                          }}
+                        />
+                      </label>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || hasDuplicateGroups || hasTooManyVariants}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Variants"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProductVariantsEditor;
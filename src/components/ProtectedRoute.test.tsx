@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes, useLocation } from "react-router-dom";
+import ProtectedRoute from "./ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+
+vi.mock("@/contexts/AuthContext", () => ({ useAuth: vi.fn() }));
+
+const signIn = ({ user = { id: "user-1" } as { id: string } | null, loading = false } = {}) => {
+  vi.mocked(useAuth).mockReturnValue({ user, loading } as unknown as ReturnType<typeof useAuth>);
+};
+
+// Shows where the login page was asked to send the customer back to.
+const Login = () => {
+  const location = useLocation();
+  return <p>Log in to return to {location.state?.from?.pathname}</p>;
+};
+
+const visit = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/login" element={<Login />} />
+        <Route element={<ProtectedRoute />}>
+          <Route path="/orders" element={<p>My Orders</p>} />
+        </Route>
+      </Routes>
+    </MemoryRouter>,
+  );
+
+describe("ProtectedRoute", () => {
+  it("waits while the session is loading", () => {
+    signIn({ user: null, loading: true });
+    visit("/orders");
+
+    expect(screen.getByText("Loading...")).toBeInTheDocument();
+  });
+
+  it("lets signed-in customers in", () => {
+    signIn();
+    visit("/orders");
+
+    expect(screen.getByText("My Orders")).toBeInTheDocument();
+  });
+
+  it("sends everyone else to log in, remembering where they were going", () => {
+    signIn({ user: null });
+    visit("/orders");
+
+    expect(screen.getByText("Log in to return to /orders")).toBeInTheDocument();
+  });
+});
@@ -1,6 +1,8 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Star } from "lucide-react";
+import { BadgeCheck, Flag, Star, Store } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 interface ReviewCardProps {
@@ -9,9 +11,32 @@ interface ReviewCardProps {
   rating: number;
   comment: string | null;
   createdAt: string;
+  // Set when the author changed the review after posting it.
+  editedAt?: string | null;
+  verifiedPurchase?: boolean;
+  photoUrls?: string[];
+  // The store's public reply, shown under the review.
+  reply?: string | null;
+  repliedAt?: string | null;
+  // Shown to the author while their review waits for approval.
+  isPending?: boolean;
+  onReport?: () => void;
 }
 
-const ReviewCard = ({ authorName, avatarUrl, rating, comment, createdAt }: ReviewCardProps) => {
+const ReviewCard = ({
+  authorName,
+  avatarUrl,
+  rating,
+  comment,
+  createdAt,
+  editedAt,
+  verifiedPurchase = false,
+  photoUrls = [],
+  reply,
+  repliedAt,
+  isPending = false,
+  onReport,
+}: ReviewCardProps) => {
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
@@ -24,7 +49,14 @@ const ReviewCard = ({ authorName, avatarUrl, rating, comment, createdAt }: Revie
             <AvatarImage src={avatarUrl} alt={authorName} />
             <AvatarFallback>{getInitials(authorName)}</AvatarFallback>
           </Avatar>
-          <CardTitle className="text-base font-medium">{authorName}</CardTitle>
+          <div>
+            <CardTitle className="text-base font-medium">{authorName}</CardTitle>
+            {verifiedPurchase && (
+              <p className="flex items-center gap-1 text-xs text-green-700">
+                <BadgeCheck className="h-3.5 w-3.5" /> Verified purchase
+              </p>
+            )}
+          </div>
         </div>
         <div className="flex items-center gap-1">
           {[...Array(5)].map((_, i) => (
@@ -36,13 +68,50 @@ const ReviewCard = ({ authorName, avatarUrl, rating, comment, createdAt }: Revie
         </div>
       </CardHeader>
       <CardContent>
-        <p className="text-muted-foreground mb-2 text-sm">
-          {formatDistanceToNow(new Date(createdAt), { addSuffix: true })}
-        </p>
+        <div className="flex items-center gap-2 mb-2">
+          <p className="text-muted-foreground text-sm">
+            {formatDistanceToNow(new Date(createdAt), { addSuffix: true })}
+            {editedAt && (
+              <span title={new Date(editedAt).toLocaleString()}>
+                {" "}· edited {formatDistanceToNow(new Date(editedAt), { addSuffix: true })}
+              </span>
+            )}
+          </p>
+          {isPending && <Badge variant="secondary">Awaiting approval</Badge>}
+        </div>
         <p className="text-foreground">{comment}</p>
+        {photoUrls.length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {photoUrls.map((url) => (
+              <a key={url} href={url} target="_blank" rel="noreferrer">
+                <img src={url} alt="Photo from the review" className="h-20 w-20 rounded-md border object-cover" />
+              </a>
+            ))}
+          </div>
+        )}
+        {reply && (
+          <div className="mt-4 rounded-md border-l-4 border-primary bg-muted/50 p-3">
+            <p className="flex items-center gap-1.5 text-sm font-medium">
+              <Store className="h-4 w-4" /> Response from Sweet Aura
+              {repliedAt && (
+                <span className="font-normal text-muted-foreground">
+                  · {formatDistanceToNow(new Date(repliedAt), { addSuffix: true })}
+                </span>
+              )}
+            </p>
+            <p className="mt-1 text-sm text-foreground">{reply}</p>
+          </div>
+        )}
+        {onReport && (
+          <div className="mt-2 flex justify-end">
+            <Button variant="ghost" size="sm" className="h-7 gap-1 text-muted-foreground" onClick={onReport}>
+              <Flag className="h-3.5 w-3.5" /> Report
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
 };
 
-export default ReviewCard;
\ No newline at end of file
+export default ReviewCard;
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { Badge } from "@/components/ui/badge";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { Package, Search, ShoppingCart, Tags } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { getVisibleAdminPages } from "@/lib/adminPages";
+import { searchEverything, searchKeys } from "@/data/search";
+import { Database } from "@/integrations/supabase/types";
+
+type SearchResult = Database["public"]["Functions"]["search_everything"]["Returns"][number];
+
+// How long to wait after the last keystroke before searching.
+const SEARCH_DELAY_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const Thumbnail = ({ src, fallback: Fallback }: { src: string | null; fallback: typeof Package }) => (
+  <div className="mr-3 flex h-10 w-10 shrink-0 items-center justify-center overflow-hidden rounded-md bg-muted">
+    {src ? (
+      <img src={src} alt="" className="h-full w-full object-cover" />
+    ) : (
+      <Fallback className="text-muted-foreground" />
+    )}
+  </div>
+);
+
+interface SearchCommandProps {
+  // Show only the icon, for narrow bars such as the dashboard side bar.
+  compact?: boolean;
+  className?: string;
+}
+
+// Ctrl/Cmd+K search over products and categories, plus orders and
+// dashboard pages for staff.
+const SearchCommand = ({ compact = false, className }: SearchCommandProps) => {
+  const navigate = useNavigate();
+  const { user, permissions } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DELAY_MS);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setIsOpen((open) => !open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const { data: results, isFetching } = useQuery({
+    queryKey: searchKeys.results(debouncedQuery, user?.id ?? null),
+    queryFn: () => searchEverything(debouncedQuery),
+    enabled: isOpen && debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 30_000,
+  });
+
+  const hasQuery = query.trim().length >= MIN_QUERY_LENGTH;
+  const isSearching = hasQuery && (isFetching || query.trim() !== debouncedQuery);
+  const byKind = (kind: string) => (hasQuery ? results?.filter((result) => result.kind === kind) ?? [] : []);
+  const products = byKind("product");
+  const categories = byKind("category");
+  const orders = byKind("order");
+
+  const pageQuery = query.trim().toLowerCase();
+  const pages = getVisibleAdminPages(permissions).filter((page) => page.label.toLowerCase().includes(pageQuery));
+
+  const go = (to: string) => {
+    setIsOpen(false);
+    setQuery("");
+    navigate(to);
+  };
+
+  const renderProduct = (product: SearchResult) => (
+    <CommandItem key={product.id} value={`product-${product.id}`} onSelect={() => go(`/product/${product.id}`)}>
+      <Thumbnail src={product.image_url} fallback={ShoppingCart} />
+      <div className="min-w-0 flex-1">
+        <p className="truncate font-medium">{product.title}</p>
+        {product.subtitle && <p className="truncate text-xs text-muted-foreground">{product.subtitle}</p>}
+      </div>
+      <div className="ml-3 flex shrink-0 flex-col items-end gap-1">
+        <span className="text-sm font-medium">Ksh {Number(product.price).toFixed(2)}</span>
+        {product.status === "out_of_stock" && <Badge variant="secondary">Out of stock</Badge>}
+      </div>
+    </CommandItem>
+  );
+
+  return (
+    <>
+      {compact ? (
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-9 w-9 text-muted-foreground hover:text-foreground md:h-8 md:w-8", className)}
+          onClick={() => setIsOpen(true)}
+        >
+          <Search className="h-5 w-5" />
+          <span className="sr-only">Search</span>
+        </Button>
+      ) : (
+        <Button
+          variant="outline"
+          className={cn("gap-2 text-muted-foreground sm:w-48 sm:justify-start px-3", className)}
+          onClick={() => setIsOpen(true)}
+        >
+          <Search className="h-4 w-4" />
+          <span className="hidden sm:inline">Search...</span>
+          <kbd className="pointer-events-none ml-auto hidden rounded border bg-muted px-1.5 font-mono text-[10px] font-medium sm:inline">
+            {isMac ? "⌘" : "Ctrl "}K
+          </kbd>
+        </Button>
+      )}
+
+      <CommandDialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open);
+          if (!open) setQuery("");
+        }}
+        // Results are already matched by the database.
+        commandProps={{ shouldFilter: false }}
+      >
+        <CommandInput
+          placeholder={permissions.length > 0 ? "Search products, orders, pages..." : "Search products and categories..."}
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList className="max-h-[400px]">
+          {!hasQuery && pages.length === 0 && (
+            <p className="py-6 text-center text-sm text-muted-foreground">Type at least {MIN_QUERY_LENGTH} letters to search.</p>
+          )}
+          {isSearching && products.length + categories.length + orders.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Searching...</p>
+          ) : (
+            hasQuery && <CommandEmpty>No results for "{query.trim()}".</CommandEmpty>
+          )}
+
+          {products.length > 0 && (
+            <CommandGroup heading="Products">
+              {products.map(renderProduct)}
+              <CommandItem
+                value="all-products"
+                onSelect={() => go(`/products?${new URLSearchParams({ q: query.trim() })}`)}
+              >
+                <Search className="mr-3 text-muted-foreground" />
+                See all products matching "{query.trim()}"
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {categories.length > 0 && (
+            <CommandGroup heading="Categories">
+              {categories.map((category) => (
+                <CommandItem
+                  key={category.id}
+                  value={`category-${category.id}`}
+                  onSelect={() => go(`/products?${new URLSearchParams({ category: category.slug })}`)}
+                >
+                  <Thumbnail src={category.image_url} fallback={Tags} />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{category.title}</p>
+                    {category.subtitle && <p className="truncate text-xs text-muted-foreground">{category.subtitle}</p>}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {orders.length > 0 && (
+            <CommandGroup heading="Orders">
+              {orders.map((order) => (
+                <CommandItem
+                  key={order.id}
+                  value={`order-${order.id}`}
+                  onSelect={() => go(`/admin/dashboard/orders/${order.id}`)}
+                >
+                  <Thumbnail src={null} fallback={Package} />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">
+                      #{order.id.substring(0, 8)} · {order.title}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">{order.subtitle}</p>
+                  </div>
+                  <div className="ml-3 flex shrink-0 flex-col items-end gap-1">
+                    <span className="text-sm font-medium">Ksh {Number(order.price).toFixed(2)}</span>
+                    <OrderStatusBadge status={order.status} />
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {pages.length > 0 && (
+            <>
+              {hasQuery && products.length + categories.length + orders.length > 0 && <CommandSeparator />}
+              <CommandGroup heading="Dashboard">
+                {pages.map((page) => (
+                  <CommandItem key={page.href} value={page.href} onSelect={() => go(page.href)}>
+                    <page.icon className="mr-3 text-muted-foreground" />
+                    {page.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default SearchCommand;
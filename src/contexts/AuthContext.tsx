@@ -1,21 +1,34 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Session, User } from "@supabase/supabase-js";
+import { Permission } from "@/lib/permissions";
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   role: string | null;
+  // What the user may do in the dashboard; empty for customers.
+  permissions: Permission[];
   loading: boolean;
   signOut: () => Promise<void>;
 }
 
+const fetchPermissions = async (): Promise<Permission[]> => {
+  const { data, error } = await supabase.rpc('get_my_permissions');
+  if (error) {
+    console.error("Error fetching user permissions:", error);
+    return [];
+  }
+  return data as Permission[];
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [role, setRole] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -30,12 +43,14 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           } else {
             setRole(data);
           }
+          setPermissions(await fetchPermissions());
           setSession(session);
           setUser(session.user);
         } else {
           setSession(null);
           setUser(null);
           setRole(null);
+          setPermissions([]);
         }
         setLoading(false);
       }
@@ -52,6 +67,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             } else {
               setRole(data);
             }
+            setPermissions(await fetchPermissions());
             setSession(session);
             setUser(session.user);
         }
@@ -69,7 +85,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, role, signOut }}>
+    <AuthContext.Provider value={{ user, session, loading, role, permissions, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,204 @@
+import { ReactNode } from "react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { toast } from "sonner";
+import { CartProvider, useCart } from "./CartContext";
+import { useAuth } from "./AuthContext";
+import { argsOf, mockRpc, mockTable, queriesTo, supabase } from "@/test/supabase";
+
+vi.mock("./AuthContext", () => ({ useAuth: vi.fn() }));
+vi.mock("sonner", () => ({ toast: { success: vi.fn(), error: vi.fn(), info: vi.fn() } }));
+
+const GUEST_CART_STORAGE_KEY = "sweetaura_guest_cart";
+
+const user = { id: "user-1", email: "wanjiku@example.com" };
+
+const signIn = (signedInUser: typeof user | null) => {
+  vi.mocked(useAuth).mockReturnValue({ user: signedInUser, loading: false } as ReturnType<typeof useAuth>);
+};
+
+const chocolateCake = { product_id: "cake-1", variant_id: null, name: "Chocolate Cake", price: 2500 };
+const lemonTart = { product_id: "tart-1", variant_id: "tart-1-large", variant_name: "Large", name: "Lemon Tart", price: 1200 };
+
+const renderCart = async () => {
+  const wrapper = ({ children }: { children: ReactNode }) => <CartProvider>{children}</CartProvider>;
+  const { result } = renderHook(() => useCart(), { wrapper });
+  await waitFor(() => expect(result.current.loading).toBe(false));
+  return result;
+};
+
+const storedGuestCart = () => JSON.parse(localStorage.getItem(GUEST_CART_STORAGE_KEY) ?? "null");
+
+describe("CartContext for guests", () => {
+  beforeEach(() => signIn(null));
+
+  it("restores the cart saved on a previous visit", async () => {
+    localStorage.setItem(GUEST_CART_STORAGE_KEY, JSON.stringify([{ ...chocolateCake, id: "cake-1", quantity: 2 }]));
+
+    const cart = await renderCart();
+
+    expect(cart.current.items).toHaveLength(1);
+    expect(cart.current.total).toBe(5000);
+  });
+
+  it("adds items, and adds to the quantity of a line already in the cart", async () => {
+    const cart = await renderCart();
+
+    await act(async () => cart.current.addItem(chocolateCake));
+    await act(async () => cart.current.addItem(lemonTart));
+    await act(async () => cart.current.addItem(chocolateCake));
+
+    expect(cart.current.items.map((item) => [item.name, item.quantity])).toEqual([
+      ["Chocolate Cake", 2],
+      ["Lemon Tart", 1],
+    ]);
+    expect(cart.current.total).toBe(6200);
+    expect(storedGuestCart()).toHaveLength(2);
+    expect(supabase.from).not.toHaveBeenCalledWith("cart_items");
+  });
+
+  it("keeps the same cake with different inscriptions on separate lines", async () => {
+    const cart = await renderCart();
+
+    await act(async () => cart.current.addItem({ ...chocolateCake, personalization: { inscription: "Happy Birthday" } }));
+    await act(async () => cart.current.addItem({ ...chocolateCake, personalization: { inscription: "Congratulations" } }));
+
+    expect(cart.current.items).toHaveLength(2);
+  });
+
+  it("updates quantities, and removes a line set to zero", async () => {
+    const cart = await renderCart();
+    await act(async () => cart.current.addItem(chocolateCake));
+    await act(async () => cart.current.addItem(lemonTart));
+    const [cakeLine, tartLine] = cart.current.items;
+
+    await act(async () => cart.current.updateQuantity(cakeLine.id, 3));
+    expect(cart.current.items.find((item) => item.id === cakeLine.id)?.quantity).toBe(3);
+    expect(cart.current.total).toBe(8700);
+
+    await act(async () => cart.current.updateQuantity(tartLine.id, 0));
+    expect(cart.current.items.map((item) => item.id)).toEqual([cakeLine.id]);
+    expect(storedGuestCart()).toHaveLength(1);
+  });
+
+  it("removes a line", async () => {
+    const cart = await renderCart();
+    await act(async () => cart.current.addItem(chocolateCake));
+    await act(async () => cart.current.addItem(lemonTart));
+
+    await act(async () => cart.current.removeItem(cart.current.items[0].id));
+
+    expect(cart.current.items.map((item) => item.name)).toEqual(["Lemon Tart"]);
+  });
+
+  it("clears the cart and forgets it in storage", async () => {
+    const cart = await renderCart();
+    await act(async () => cart.current.addItem(chocolateCake));
+
+    await act(async () => cart.current.clearCart());
+
+    expect(cart.current.items).toEqual([]);
+    expect(cart.current.total).toBe(0);
+    expect(localStorage.getItem(GUEST_CART_STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe("CartContext for signed-in customers", () => {
+  const cakeRow = {
+    id: "row-1",
+    user_id: user.id,
+    product_id: "cake-1",
+    variant_id: null,
+    personalization: {},
+    quantity: 1,
+    products: { id: "cake-1", name: "Chocolate Cake", price: 2500, image_url: null },
+    product_variants: null,
+  };
+
+  beforeEach(() => {
+    signIn(user);
+    mockTable("cart_items", { data: [cakeRow] });
+    mockTable("personalization_options", { data: [] });
+  });
+
+  it("loads the cart from the customer's rows", async () => {
+    const cart = await renderCart();
+
+    expect(cart.current.items).toEqual([
+      expect.objectContaining({ row_id: "row-1", name: "Chocolate Cake", price: 2500, quantity: 1 }),
+    ]);
+    expect(argsOf(queriesTo("cart_items")[0], "eq")).toEqual(["user_id", user.id]);
+  });
+
+  it("merges a guest cart into the account on sign-in", async () => {
+    localStorage.setItem(GUEST_CART_STORAGE_KEY, JSON.stringify([{ ...lemonTart, id: "tart-1:tart-1-large", quantity: 2 }]));
+
+    await renderCart();
+
+    expect(supabase.rpc).toHaveBeenCalledWith("merge_guest_cart", {
+      p_items: [{ product_id: "tart-1", variant_id: "tart-1-large", personalization: {}, quantity: 2 }],
+    });
+    expect(localStorage.getItem(GUEST_CART_STORAGE_KEY)).toBeNull();
+  });
+
+  it("keeps the guest cart when it cannot be merged", async () => {
+    localStorage.setItem(GUEST_CART_STORAGE_KEY, JSON.stringify([{ ...lemonTart, id: "tart-1:tart-1-large", quantity: 2 }]));
+    mockRpc("merge_guest_cart", { error: { message: "permission denied" } });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await renderCart();
+
+    expect(toast.error).toHaveBeenCalledWith("We couldn't move your saved cart into your account.");
+    expect(storedGuestCart()).toHaveLength(1);
+  });
+
+  it("saves the new quantity when an item is added again", async () => {
+    const cart = await renderCart();
+    mockTable("cart_items", { data: { id: "row-1" } });
+
+    await act(async () => cart.current.addItem(chocolateCake));
+
+    const [upserted] = argsOf(queriesTo("cart_items")[1], "upsert") ?? [];
+    expect(upserted).toEqual(expect.objectContaining({ user_id: user.id, product_id: "cake-1", quantity: 2 }));
+    expect(cart.current.items[0].quantity).toBe(2);
+  });
+
+  it("updates and removes rows by their id", async () => {
+    const cart = await renderCart();
+    const lineId = cart.current.items[0].id;
+
+    await act(async () => cart.current.updateQuantity(lineId, 4));
+    const [update] = queriesTo("cart_items").slice(-1);
+    expect(argsOf(update, "update")).toEqual([{ quantity: 4 }]);
+    expect(argsOf(update, "eq")).toEqual(["id", "row-1"]);
+    expect(cart.current.total).toBe(10000);
+
+    await act(async () => cart.current.removeItem(lineId));
+    const [removal] = queriesTo("cart_items").slice(-1);
+    expect(removal.map((call) => call.method)).toEqual(["delete", "eq"]);
+    expect(argsOf(removal, "eq")).toEqual(["id", "row-1"]);
+    expect(cart.current.items).toEqual([]);
+  });
+
+  it("keeps the line when the database refuses a change", async () => {
+    const cart = await renderCart();
+    mockTable("cart_items", { error: { message: "network error" } });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await act(async () => cart.current.updateQuantity(cart.current.items[0].id, 4));
+
+    expect(toast.error).toHaveBeenCalledWith("Failed to update quantity.");
+    expect(cart.current.items[0].quantity).toBe(1);
+  });
+
+  it("clears every row the customer has", async () => {
+    const cart = await renderCart();
+
+    await act(async () => cart.current.clearCart());
+
+    const [clear] = queriesTo("cart_items").slice(-1);
+    expect(clear.map((call) => call.method)).toEqual(["delete", "eq"]);
+    expect(argsOf(clear, "eq")).toEqual(["user_id", user.id]);
+    expect(cart.current.items).toEqual([]);
+  });
+});
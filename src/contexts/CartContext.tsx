@@ -1,23 +1,44 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { toast } from "sonner";
 import { useAuth } from "./AuthContext";
-import { supabase } from "@/integrations/supabase/client";
 import { Tables } from "@/integrations/supabase/types";
+import { getVariantPrice } from "@/lib/variants";
+import {
+  clearCartItems,
+  getCartItems,
+  mergeGuestCart,
+  removeCartItem,
+  saveCartItem,
+  setCartItemQuantity,
+} from "@/data/carts";
+import { getPersonalizationOptions } from "@/data/personalization";
+import {
+  Personalization,
+  getPersonalizationSurcharge,
+  normalizePersonalization,
+  personalizationKey,
+  toPersonalization,
+} from "@/lib/personalization";
 
 type Product = Tables<'products'>;
-type CartItemRow = Tables<'cart_items'> & { products: Product };
+type CartItemRow = Tables<'cart_items'> & { products: Product; product_variants: Tables<'product_variants'> | null };
 
 interface CartItem {
-  id: string; // This is the product_id
+  id: string; // The cart line, see cartLineId()
+  row_id?: string; // The cart_items row, for signed-in users
+  product_id: string;
+  variant_id: string | null;
+  variant_name?: string;
+  personalization: Personalization;
   name: string;
-  price: number;
+  price: number; // Per unit, including any personalization surcharge
   quantity: number;
   image_url?: string;
 }
 
 interface CartContextType {
   items: CartItem[];
-  addItem: (item: Omit<CartItem, "quantity">) => void;
+  addItem: (item: Omit<CartItem, "id" | "row_id" | "quantity" | "personalization"> & { personalization?: Personalization }) => void;
   removeItem: (id: string) => void;
   updateQuantity: (id: string, quantity: number) => void;
   clearCart: () => void;
@@ -27,6 +48,50 @@ interface CartContextType {
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Guests keep their cart in the browser until they sign in, at which point
+// it is merged into their `cart_items` rows by the `merge_guest_cart` RPC.
+const GUEST_CART_STORAGE_KEY = "sweetaura_guest_cart";
+
+// Two sizes of the same cake, or the same cake with two inscriptions, are
+// separate lines, so a line is identified by its product, variant and
+// personalization together.
+const cartLineId = (productId: string, variantId: string | null, personalization: Personalization) => {
+  const key = Object.keys(personalization).length > 0 ? personalizationKey(personalization) : null;
+  return [productId, variantId, key].filter(Boolean).join(":");
+};
+
+const readGuestCart = (): CartItem[] => {
+  try {
+    const stored = localStorage.getItem(GUEST_CART_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return [];
+    // Carts saved before variants existed used the product id as the line id.
+    return parsed.map((item) => {
+      const productId = item.product_id ?? item.id;
+      const variantId = item.variant_id ?? null;
+      const personalization = normalizePersonalization(item.personalization);
+      return {
+        ...item,
+        id: cartLineId(productId, variantId, personalization),
+        product_id: productId,
+        variant_id: variantId,
+        personalization,
+      };
+    });
+  } catch (error) {
+    console.error("Guest cart read error:", error);
+    return [];
+  }
+};
+
+const writeGuestCart = (items: CartItem[]) => {
+  if (items.length === 0) {
+    localStorage.removeItem(GUEST_CART_STORAGE_KEY);
+  } else {
+    localStorage.setItem(GUEST_CART_STORAGE_KEY, JSON.stringify(items));
+  }
+};
+
 export const CartProvider = ({ children }: { children: ReactNode }) => {
   const { user, loading: authLoading } = useAuth();
   const [items, setItems] = useState<CartItem[]>([]);
@@ -44,74 +109,128 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
 
     // 2. Once authentication is resolved, check if a user is logged in.
     if (user) {
-      // 2a. User is logged in. Fetch their cart from the database.
+      // 2a. User is logged in. Move any guest cart into their account first,
+      // then fetch their cart from the database.
       const fetchUserCart = async () => {
         setCartLoading(true);
-        const { data, error } = await supabase
-          .from("cart_items")
-          .select(`*, products(*)`)
-          .eq("user_id", user.id);
 
-        if (error) {
+        const guestItems = readGuestCart();
+        if (guestItems.length > 0) {
+          try {
+            await mergeGuestCart(guestItems.map(item => ({
+              product_id: item.product_id,
+              variant_id: item.variant_id,
+              personalization: item.personalization,
+              quantity: item.quantity,
+            })));
+            writeGuestCart([]);
+          } catch (mergeError) {
+            toast.error("We couldn't move your saved cart into your account.");
+            console.error("Cart merge error:", mergeError);
+          }
+        }
+
+        try {
+          // Without the options the cart still loads, just without surcharges.
+          const [data, personalizationOptions] = await Promise.all([
+            getCartItems(user.id),
+            getPersonalizationOptions().catch(() => []),
+          ]);
+
+          const fetchedItems: CartItem[] = data.map((item: CartItemRow) => {
+            const personalization = normalizePersonalization(toPersonalization(item.personalization));
+            const basePrice = item.product_variants
+              ? getVariantPrice(item.products.price, item.product_variants)
+              : item.products.price;
+            return {
+              id: cartLineId(item.product_id, item.variant_id, personalization),
+              row_id: item.id,
+              product_id: item.product_id,
+              variant_id: item.variant_id,
+              variant_name: item.product_variants?.name,
+              personalization,
+              name: item.products.name,
+              price: basePrice + getPersonalizationSurcharge(personalization, personalizationOptions),
+              quantity: item.quantity,
+              image_url: item.product_variants?.image_url || item.products.image_url || undefined,
+            };
+          });
+          setItems(fetchedItems);
+        } catch (error) {
           toast.error("Could not fetch your cart from the database.");
           console.error("Cart fetch error:", error);
           setItems([]);
-        } else {
-          const fetchedItems: CartItem[] = data.map((item: CartItemRow) => ({
-            id: item.product_id,
-            name: item.products.name,
-            price: item.products.price,
-            quantity: item.quantity,
-            image_url: item.products.image_url || undefined,
-          }));
-          setItems(fetchedItems);
         }
         setCartLoading(false);
       };
       fetchUserCart();
     } else {
       // 2b. No user is logged in (user is a guest).
-      // It is now safe to clear the cart, as we know they are not authenticated.
-      setItems([]);
+      // Restore whatever they added to their cart on a previous visit.
+      setItems(readGuestCart());
       setCartLoading(false);
     }
   }, [user, authLoading]);
 
-  const addItem = async (item: Omit<CartItem, "quantity">) => {
-    if (!user) {
-      toast.error("Please log in to add items to your cart.");
-      return;
-    }
+  // Guests have no database rows, so every change is written straight to storage.
+  const setGuestItems = (updatedItems: CartItem[]) => {
+    setItems(updatedItems);
+    writeGuestCart(updatedItems);
+  };
 
+  const addItem: CartContextType["addItem"] = async (newItem) => {
+    const personalization = normalizePersonalization(newItem.personalization);
+    const item = {
+      ...newItem,
+      personalization,
+      id: cartLineId(newItem.product_id, newItem.variant_id, personalization),
+    };
     const existingItem = items.find(i => i.id === item.id);
     const newQuantity = (existingItem?.quantity || 0) + 1;
+    const updatedItems = existingItem
+      ? items.map(i => i.id === item.id ? { ...i, quantity: newQuantity } : i)
+      : [...items, { ...item, quantity: 1 }];
 
-    const { error } = await supabase.from('cart_items').upsert(
-      { user_id: user.id, product_id: item.id, quantity: newQuantity },
-      { onConflict: 'user_id, product_id' }
-    );
-    
-    if (error) {
-      toast.error("Failed to add item to cart.");
-    } else {
+    if (!user) {
+      setGuestItems(updatedItems);
+      toast.success("Added to cart");
+      return;
+    }
+
+    try {
+      const rowId = await saveCartItem({
+        user_id: user.id,
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        personalization: item.personalization,
+        quantity: newQuantity,
+      });
       toast.success("Added to cart");
       // Optimistically update the local state for a faster UI response.
-      const updatedItems = existingItem
-        ? items.map(i => i.id === item.id ? { ...i, quantity: newQuantity } : i)
-        : [...items, { ...item, quantity: 1 }];
-      setItems(updatedItems);
+      setItems(updatedItems.map(i => i.id === item.id ? { ...i, row_id: rowId } : i));
+    } catch (error) {
+      toast.error("Failed to add item to cart.");
+      console.error("Cart add error:", error);
     }
   };
 
   const removeItem = async (id: string) => {
-    if (!user) return;
+    if (!user) {
+      setGuestItems(items.filter(i => i.id !== id));
+      toast.success("Removed from cart");
+      return;
+    }
 
-    const { error } = await supabase.from('cart_items').delete().match({ user_id: user.id, product_id: id });
-    if (error) {
-      toast.error("Failed to remove item.");
-    } else {
+    const item = items.find(i => i.id === id);
+    if (!item?.row_id) return;
+
+    try {
+      await removeCartItem(item.row_id);
       toast.success("Removed from cart");
       setItems(prev => prev.filter(i => i.id !== id));
+    } catch (error) {
+      toast.error("Failed to remove item.");
+      console.error("Cart remove error:", error);
     }
   };
 
@@ -120,24 +239,35 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       removeItem(id);
       return;
     }
-    if (!user) return;
+    if (!user) {
+      setGuestItems(items.map(i => i.id === id ? { ...i, quantity } : i));
+      return;
+    }
 
-    const { error } = await supabase.from('cart_items').update({ quantity }).match({ user_id: user.id, product_id: id });
-    if (error) {
-      toast.error("Failed to update quantity.");
-    } else {
+    const item = items.find(i => i.id === id);
+    if (!item?.row_id) return;
+
+    try {
+      await setCartItemQuantity(item.row_id, quantity);
       setItems(prev => prev.map(i => i.id === id ? { ...i, quantity } : i));
+    } catch (error) {
+      toast.error("Failed to update quantity.");
+      console.error("Cart update error:", error);
     }
   };
 
   const clearCart = async () => {
-    if (!user) return;
+    if (!user) {
+      setGuestItems([]);
+      return;
+    }
 
-    const { error } = await supabase.from('cart_items').delete().eq('user_id', user.id);
-    if (error) {
-      toast.error("Failed to clear cart.");
-    } else {
+    try {
+      await clearCartItems(user.id);
       setItems([]);
+    } catch (error) {
+      toast.error("Failed to clear cart.");
+      console.error("Cart clear error:", error);
     }
   };
 
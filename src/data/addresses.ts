@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+// Every address key starts with "user-addresses", so invalidating
+// addressKeys.all refreshes the address book and checkout alike.
+export const addressKeys = {
+  all: ["user-addresses"] as const,
+  mine: (userId: string | undefined) => [...addressKeys.all, userId] as const,
+};
+
+// The signed-in customer's address book, default address first. Row level
+// security limits the rows to their own.
+export const getMyAddresses = async () => {
+  const { data, error } = await supabase
+    .from("user_addresses")
+    .select("*")
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+export const createAddress = async (values: TablesInsert<"user_addresses">) => {
+  const { error } = await supabase.from("user_addresses").insert(values);
+  if (error) throw error;
+};
+
+export const updateAddress = async (id: string, values: TablesUpdate<"user_addresses">) => {
+  const { error } = await supabase.from("user_addresses").update(values).eq("id", id);
+  if (error) throw error;
+};
+
+export const deleteAddress = async (id: string) => {
+  const { error } = await supabase.from("user_addresses").delete().eq("id", id);
+  if (error) throw error;
+};
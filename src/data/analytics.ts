@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// The days a report covers, both ends included, as yyyy-MM-dd keys.
+export type AnalyticsPeriod = { p_from: string; p_to: string };
+
+// Every analytics key starts with "analytics", so invalidating
+// analyticsKeys.all refreshes every report.
+export const analyticsKeys = {
+  all: ["analytics"] as const,
+  summary: (period: AnalyticsPeriod) => [...analyticsKeys.all, "summary", period] as const,
+  revenueByDay: (period: AnalyticsPeriod) => [...analyticsKeys.all, "revenue-by-day", period] as const,
+  ordersByStatus: (period: AnalyticsPeriod) => [...analyticsKeys.all, "orders-by-status", period] as const,
+  topProducts: (period: AnalyticsPeriod, orderBy: "revenue" | "units", limit?: number) =>
+    [...analyticsKeys.all, "top-products", period, orderBy, limit] as const,
+  salesByCategory: (period: AnalyticsPeriod) => [...analyticsKeys.all, "sales-by-category", period] as const,
+};
+
+export const getSalesSummary = async (period: AnalyticsPeriod) => {
+  const { data, error } = await supabase.rpc("get_sales_summary", period);
+  if (error) throw error;
+  return data[0];
+};
+
+export const getRevenueByDay = async (period: AnalyticsPeriod) => {
+  const { data, error } = await supabase.rpc("get_revenue_by_day", period);
+  if (error) throw error;
+  return data;
+};
+
+export const getOrdersByStatus = async (period: AnalyticsPeriod) => {
+  const { data, error } = await supabase.rpc("get_orders_by_status", period);
+  if (error) throw error;
+  return data;
+};
+
+// The best sellers in the period; the top 10 unless a limit is given.
+export const getTopProducts = async (period: AnalyticsPeriod, orderBy: "revenue" | "units", limit?: number) => {
+  const { data, error } = await supabase.rpc("get_top_products", { ...period, p_order_by: orderBy, p_limit: limit });
+  if (error) throw error;
+  return data;
+};
+
+export const getSalesByCategory = async (period: AnalyticsPeriod) => {
+  const { data, error } = await supabase.rpc("get_sales_by_category", period);
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, TablesInsert } from "@/integrations/supabase/types";
+
+// The signed-in customer's cart lives in CartContext rather than the query
+// cache, so carts have no query keys; these calls only read and write rows.
+
+// Cart rows with the product and variant each one is for.
+export const getCartItems = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("cart_items")
+    .select(`*, products(*), product_variants(*)`)
+    .eq("user_id", userId);
+  if (error) throw error;
+  return data;
+};
+
+// Moves a guest cart into the signed-in customer's rows.
+export const mergeGuestCart = async (items: Json) => {
+  const { error } = await supabase.rpc("merge_guest_cart", { p_items: items });
+  if (error) throw error;
+};
+
+// Adds a line, or sets the quantity of the matching one. Returns the row ID.
+export const saveCartItem = async (values: TablesInsert<"cart_items">) => {
+  const { data, error } = await supabase
+    .from("cart_items")
+    .upsert(values, { onConflict: 'user_id, product_id, variant_id, personalization' })
+    .select('id')
+    .single();
+  if (error) throw error;
+  return data.id;
+};
+
+export const setCartItemQuantity = async (rowId: string, quantity: number) => {
+  const { error } = await supabase.from('cart_items').update({ quantity }).eq('id', rowId);
+  if (error) throw error;
+};
+
+export const removeCartItem = async (rowId: string) => {
+  const { error } = await supabase.from('cart_items').delete().eq('id', rowId);
+  if (error) throw error;
+};
+
+export const clearCartItems = async (userId: string) => {
+  const { error } = await supabase.from('cart_items').delete().eq('user_id', userId);
+  if (error) throw error;
+};
@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+// Every categories key starts with "categories", so invalidating
+// categoryKeys.all refreshes the shop's filters and the dashboard alike.
+export const categoryKeys = {
+  all: ["categories"] as const,
+  list: () => [...categoryKeys.all, "list"] as const,
+  withCounts: () => [...categoryKeys.all, "with-counts"] as const,
+};
+
+// Every category, in the order staff arranged them.
+export const getCategories = async () => {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("*")
+    .order("sort_order")
+    .order("name");
+  if (error) throw error;
+  return data;
+};
+
+// Categories with how many products each one holds, for the dashboard.
+export const getCategoriesWithCounts = async () => {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("*, products(count)")
+    .order("sort_order")
+    .order("name");
+  if (error) throw error;
+  return data;
+};
+
+export const createCategory = async (values: TablesInsert<"categories">) => {
+  const { error } = await supabase.from("categories").insert(values);
+  if (error) throw error;
+};
+
+export const updateCategory = async (id: string, values: TablesUpdate<"categories">) => {
+  const { error } = await supabase.from("categories").update(values).eq("id", id);
+  if (error) throw error;
+};
+
+export const deleteCategory = async (id: string) => {
+  const { error } = await supabase.from("categories").delete().eq("id", id);
+  if (error) throw error;
+};
+
+// Saves the order of every category at once, first to last.
+export const reorderCategories = async (ids: string[]) => {
+  const { error } = await supabase.rpc("reorder_categories", { p_ids: ids });
+  if (error) throw error;
+};
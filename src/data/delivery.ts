@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+// Every delivery key starts with "delivery". Slots, blackout dates and the
+// slots offered at checkout share deliveryKeys.schedule(), so a change to
+// the timetable refreshes all three.
+export const deliveryKeys = {
+  all: ["delivery"] as const,
+  zones: () => [...deliveryKeys.all, "zones"] as const,
+  pickupLocations: () => [...deliveryKeys.all, "pickup-locations"] as const,
+  schedule: () => [...deliveryKeys.all, "schedule"] as const,
+  slots: () => [...deliveryKeys.schedule(), "slots"] as const,
+  blackoutDates: () => [...deliveryKeys.schedule(), "blackout-dates"] as const,
+  availableSlots: (productIds: string[]) => [...deliveryKeys.schedule(), "available", productIds] as const,
+};
+
+export const getDeliveryZones = async () => {
+  const { data, error } = await supabase.from("delivery_zones").select("*").order("position").order("name");
+  if (error) throw error;
+  return data;
+};
+
+export const createDeliveryZone = async (values: TablesInsert<"delivery_zones">) => {
+  const { error } = await supabase.from("delivery_zones").insert(values);
+  if (error) throw error;
+};
+
+export const updateDeliveryZone = async (id: string, values: TablesUpdate<"delivery_zones">) => {
+  const { error } = await supabase.from("delivery_zones").update(values).eq("id", id);
+  if (error) throw error;
+};
+
+export const deleteDeliveryZone = async (id: string) => {
+  const { error } = await supabase.from("delivery_zones").delete().eq("id", id);
+  if (error) throw error;
+};
+
+export const getPickupLocations = async () => {
+  const { data, error } = await supabase.from("pickup_locations").select("*").order("position").order("name");
+  if (error) throw error;
+  return data;
+};
+
+export const createPickupLocation = async (values: TablesInsert<"pickup_locations">) => {
+  const { error } = await supabase.from("pickup_locations").insert(values);
+  if (error) throw error;
+};
+
+export const updatePickupLocation = async (id: string, values: TablesUpdate<"pickup_locations">) => {
+  const { error } = await supabase.from("pickup_locations").update(values).eq("id", id);
+  if (error) throw error;
+};
+
+export const deletePickupLocation = async (id: string) => {
+  const { error } = await supabase.from("pickup_locations").delete().eq("id", id);
+  if (error) throw error;
+};
+
+// The weekly timetable, by day and then start time.
+export const getDeliverySlots = async () => {
+  const { data, error } = await supabase
+    .from("delivery_slots")
+    .select("*")
+    .order("weekday")
+    .order("starts_at");
+  if (error) throw error;
+  return data;
+};
+
+export const createDeliverySlot = async (values: TablesInsert<"delivery_slots">) => {
+  const { error } = await supabase.from("delivery_slots").insert(values);
+  if (error) throw error;
+};
+
+export const updateDeliverySlot = async (id: string, values: TablesUpdate<"delivery_slots">) => {
+  const { error } = await supabase.from("delivery_slots").update(values).eq("id", id);
+  if (error) throw error;
+};
+
+export const deleteDeliverySlot = async (id: string) => {
+  const { error } = await supabase.from("delivery_slots").delete().eq("id", id);
+  if (error) throw error;
+};
+
+// Blackout dates from `fromDate` (a yyyy-MM-dd key) onwards.
+export const getBlackoutDates = async (fromDate: string) => {
+  const { data, error } = await supabase
+    .from("blackout_dates")
+    .select("*")
+    .gte("date", fromDate)
+    .order("date");
+  if (error) throw error;
+  return data;
+};
+
+export const addBlackoutDate = async (values: TablesInsert<"blackout_dates">) => {
+  const { error } = await supabase.from("blackout_dates").insert(values);
+  if (error) throw error;
+};
+
+export const removeBlackoutDate = async (date: string) => {
+  const { error } = await supabase.from("blackout_dates").delete().eq("date", date);
+  if (error) throw error;
+};
+
+// The slots with room left for a cart holding these products, earliest first.
+export const getAvailableSlots = async (productIds: string[]) => {
+  const { data, error } = await supabase.rpc("get_available_slots", { p_product_ids: productIds });
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+import { InventoryItem, StockMovementKind } from "@/lib/inventory";
+
+// Every inventory key starts with "inventory", so invalidating
+// inventoryKeys.all refreshes stock levels and their history alike.
+export const inventoryKeys = {
+  all: ["inventory"] as const,
+  list: () => [...inventoryKeys.all, "list"] as const,
+  movements: (productId: string | undefined, variantId: string | null | undefined) =>
+    [...inventoryKeys.all, "movements", productId, variantId] as const,
+};
+
+// Stock levels for every product and variant.
+export const getInventory = async () => {
+  const { data, error } = await supabase.rpc("get_inventory");
+  if (error) throw error;
+  return data as InventoryItem[];
+};
+
+// The last 100 changes to a product's stock, or to one of its variants'.
+export const getStockMovements = async (productId: string, variantId: string | null) => {
+  const query = supabase.from("stock_movements").select("*").eq("product_id", productId);
+  const { data, error } = await (variantId ? query.eq("variant_id", variantId) : query.is("variant_id", null))
+    .order("created_at", { ascending: false })
+    .limit(100);
+  if (error) throw error;
+  return data;
+};
+
+// Records a restock, wastage or correction. The database checks that the
+// caller may edit products.
+export const adjustStock = async (
+  productId: string,
+  variantId: string | null,
+  kind: StockMovementKind,
+  quantity: number,
+  note: string,
+) => {
+  const { error } = await supabase.rpc("adjust_stock", {
+    p_product_id: productId,
+    p_variant_id: variantId ?? undefined,
+    p_kind: kind,
+    p_quantity: quantity,
+    p_note: note || undefined,
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,162 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { OrderStatus } from "@/lib/orderStatus";
+
+// Every orders key starts with "orders", so invalidating orderKeys.all
+// refreshes the customer's list and the dashboard alike.
+export const orderKeys = {
+  all: ["orders"] as const,
+  mine: (userId: string | undefined) => [...orderKeys.all, "mine", userId] as const,
+  adminList: () => [...orderKeys.all, "admin"] as const,
+  unpaid: () => [...orderKeys.all, "unpaid"] as const,
+  detail: (id: string) => [...orderKeys.all, "detail", id] as const,
+  notes: (id: string) => [...orderKeys.all, "notes", id] as const,
+  payment: (paymentId: string | null) => [...orderKeys.all, "payment", paymentId] as const,
+};
+
+// The customer's orders with their items and status history, newest first.
+export const getMyOrders = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(`
+      *,
+      order_items (
+        quantity,
+        price,
+        variant_name,
+        personalization,
+        products ( name, image_url )
+      ),
+      order_status_history ( id, from_status, to_status, note, created_at, changed_by )
+    `)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+export const getAdminOrders = async () => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(`*`)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+// An order with its items and who changed its status, for staff.
+export const getAdminOrder = async (id: string) => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(`
+      *,
+      order_items (
+        id, quantity, price, variant_name, personalization, personalization_surcharge,
+        products ( id, name, image_url )
+      ),
+      order_status_history (
+        id, from_status, to_status, note, created_at, changed_by,
+        actor:profiles ( full_name )
+      )
+    `)
+    .eq("id", id)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+// Orders still waiting to be paid, oldest first, for matching against an
+// M-Pesa statement.
+export const getUnpaidOrders = async () => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, customer_name, customer_phone, total_amount, mpesa_receipt_number, created_at")
+    .eq("payment_status", "unpaid")
+    .not("status", "in", "(cancelled,refunded)")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return data;
+};
+
+// Which of these M-Pesa receipts have already paid for an order.
+export const getRecordedReceipts = async (receiptNumbers: string[]) => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("mpesa_receipt_number")
+    .eq("payment_status", "paid")
+    .in("mpesa_receipt_number", receiptNumbers);
+  if (error) throw error;
+  return new Set(data.map((order) => order.mpesa_receipt_number as string));
+};
+
+// Prices, totals and stock are checked on the server, and the order and its
+// items are written in a single transaction.
+export const placeOrder = async (items: Json, details: Json) => {
+  const { data, error } = await supabase.rpc("place_order", {
+    p_items: items,
+    p_details: details,
+  });
+  if (error) throw error;
+  return data;
+};
+
+// The database validates the transition and records it in the order's
+// status history.
+export const updateOrderStatus = async (orderId: string, status: OrderStatus, note?: string) => {
+  const { error } = await supabase.rpc("update_order_status", {
+    p_order_id: orderId,
+    p_status: status,
+    p_note: note || undefined,
+  });
+  if (error) throw error;
+};
+
+export const deleteOrder = async (id: string) => {
+  const { error } = await supabase.from("orders").delete().eq("id", id);
+  if (error) throw error;
+};
+
+// An M-Pesa prompt's progress, as last reported by Safaricom's callback.
+export const getPayment = async (paymentId: string) => {
+  const { data, error } = await supabase
+    .from("payments")
+    .select("id, status, mpesa_receipt_number, result_desc")
+    .eq("id", paymentId)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+// Marks orders as paid by M-Pesa receipts from a statement. Each match is
+// confirmed on its own; a row with an error was left unpaid.
+export const reconcileMpesaPayments = async (
+  matches: { order_id: string; receipt_number: string; amount: number; details: string }[],
+) => {
+  const { data, error } = await supabase.rpc("reconcile_mpesa_payments", { p_matches: matches });
+  if (error) throw error;
+  return data;
+};
+
+export const getOrderNotes = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from("order_notes")
+    .select(`*, author:profiles(full_name)`)
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+export const addOrderNote = async (orderId: string, authorId: string, body: string) => {
+  const { error } = await supabase.from("order_notes").insert({
+    order_id: orderId,
+    author_id: authorId,
+    body,
+  });
+  if (error) throw error;
+};
+
+export const deleteOrderNote = async (id: string) => {
+  const { error } = await supabase.from("order_notes").delete().eq("id", id);
+  if (error) throw error;
+};
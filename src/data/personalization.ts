@@ -0,0 +1,34 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+export const personalizationKeys = {
+  all: ["personalization-options"] as const,
+};
+
+// Every colour theme and dietary option, withdrawn ones included, grouped
+// by kind in the order staff arranged them.
+export const getPersonalizationOptions = async () => {
+  const { data, error } = await supabase
+    .from("personalization_options")
+    .select("*")
+    .order("kind")
+    .order("position")
+    .order("label");
+  if (error) throw error;
+  return data;
+};
+
+export const createPersonalizationOption = async (values: TablesInsert<"personalization_options">) => {
+  const { error } = await supabase.from("personalization_options").insert(values);
+  if (error) throw error;
+};
+
+export const updatePersonalizationOption = async (id: string, values: TablesUpdate<"personalization_options">) => {
+  const { error } = await supabase.from("personalization_options").update(values).eq("id", id);
+  if (error) throw error;
+};
+
+export const deletePersonalizationOption = async (id: string) => {
+  const { error } = await supabase.from("personalization_options").delete().eq("id", id);
+  if (error) throw error;
+};
@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { CATALOGUE_PAGE_SIZE, CatalogueFilters } from "@/lib/catalogue";
+
+// Every products key starts with "products", so invalidating
+// productKeys.all refreshes the shop and the dashboard alike.
+export const productKeys = {
+  all: ["products"] as const,
+  featured: () => [...productKeys.all, "featured"] as const,
+  search: (filters: CatalogueFilters, categoryId: string | null) =>
+    [...productKeys.all, "search", { ...filters, categoryId }] as const,
+  adminList: () => [...productKeys.all, "admin"] as const,
+  detail: (id: string) => [...productKeys.all, "detail", id] as const,
+  editor: (id: string) => [...productKeys.all, "editor", id] as const,
+  variants: (id: string) => [...productKeys.all, "variants", id] as const,
+};
+
+// In-stock featured products for the home page.
+export const getFeaturedProducts = async (limit = 4) => {
+  const { data, error } = await supabase
+    .from("products")
+    .select("*, product_variants(count)")
+    .eq("featured", true)
+    .eq("in_stock", true)
+    .limit(limit);
+  if (error) throw error;
+  return data;
+};
+
+// One page of the catalogue. The category is passed by id, once its slug
+// has been looked up.
+export const searchProducts = async (filters: CatalogueFilters, categoryId: string | null) => {
+  const { data, error } = await supabase.rpc("search_products", {
+    p_query: filters.query || undefined,
+    p_category_id: categoryId ?? undefined,
+    p_min_price: filters.minPrice ?? undefined,
+    p_max_price: filters.maxPrice ?? undefined,
+    p_include_out_of_stock: filters.includeOutOfStock,
+    p_sort: filters.sort,
+    p_limit: CATALOGUE_PAGE_SIZE,
+    p_offset: (filters.page - 1) * CATALOGUE_PAGE_SIZE,
+  });
+  if (error) throw error;
+  return {
+    products: data,
+    totalCount: data[0]?.total_count ?? 0,
+  };
+};
+
+// Every product, newest first, for the dashboard.
+export const getAdminProducts = async () => {
+  const { data, error } = await supabase
+    .from("products")
+    .select("*")
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+// A product with everything its page needs to pick a variant.
+export const getProduct = async (id: string) => {
+  const { data, error } = await supabase
+    .from("products")
+    .select(`*, category:categories(name), product_option_groups(*), product_variants(*)`)
+    .eq("id", id)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+export const getProductForEditing = async (id: string) => {
+  const { data, error } = await supabase.from("products").select("*").eq("id", id).single();
+  if (error) throw error;
+  return data;
+};
+
+export const createProduct = async (values: TablesInsert<"products">) => {
+  const { error } = await supabase.from("products").insert(values);
+  if (error) throw error;
+};
+
+export const updateProduct = async (id: string, values: TablesUpdate<"products">) => {
+  const { error } = await supabase.from("products").update(values).eq("id", id);
+  if (error) throw error;
+};
+
+export const deleteProduct = async (id: string) => {
+  const { error } = await supabase.from("products").delete().eq("id", id);
+  if (error) throw error;
+};
+
+// A product's option groups and variants, in the order staff arranged them.
+export const getProductVariants = async (productId: string) => {
+  const [groupsResult, variantsResult] = await Promise.all([
+    supabase.from("product_option_groups").select("*").eq("product_id", productId).order("position"),
+    supabase.from("product_variants").select("*").eq("product_id", productId).order("position"),
+  ]);
+  if (groupsResult.error) throw groupsResult.error;
+  if (variantsResult.error) throw variantsResult.error;
+  return { groups: groupsResult.data, variants: variantsResult.data };
+};
+
+// Replaces a product's option groups and variants in one transaction.
+export const saveProductVariants = async (productId: string, groups: Json, variants: Json) => {
+  const { error } = await supabase.rpc("save_product_variants", {
+    p_product_id: productId,
+    p_groups: groups,
+    p_variants: variants,
+  });
+  if (error) throw error;
+};
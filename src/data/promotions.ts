@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+// Every promotions key starts with "promotions", so invalidating
+// promotionKeys.all refreshes the dashboard and any code applied at checkout.
+export const promotionKeys = {
+  all: ["promotions"] as const,
+  list: () => [...promotionKeys.all, "list"] as const,
+  stats: () => [...promotionKeys.all, "stats"] as const,
+  applied: (code: string, items: Json, deliveryFee: number) =>
+    [...promotionKeys.all, "applied", code, items, deliveryFee] as const,
+};
+
+// Every promotion, newest first, for the dashboard.
+export const getPromotions = async () => {
+  const { data, error } = await supabase.from("promotions").select("*").order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+// Uses and discount given so far, by promotion id.
+export const getPromotionStats = async () => {
+  const { data, error } = await supabase.rpc("get_promotion_stats");
+  if (error) throw error;
+  return Object.fromEntries(data.map((row) => [row.promotion_id, row]));
+};
+
+export const createPromotion = async (values: TablesInsert<"promotions">) => {
+  const { error } = await supabase.from("promotions").insert(values);
+  if (error) throw error;
+};
+
+export const updatePromotion = async (id: string, values: TablesUpdate<"promotions">) => {
+  const { error } = await supabase.from("promotions").update(values).eq("id", id);
+  if (error) throw error;
+};
+
+export const deletePromotion = async (id: string) => {
+  const { error } = await supabase.from("promotions").delete().eq("id", id);
+  if (error) throw error;
+};
+
+// The discount a code gives this cart. It is only a preview: place_order
+// checks the code again against the fee actually charged.
+export const applyPromotion = async (code: string, items: Json, deliveryFee: number) => {
+  const { data, error } = await supabase.rpc("apply_promotion", {
+    p_code: code,
+    p_items: items,
+    p_delivery_fee: deliveryFee,
+  });
+  if (error) throw error;
+  return data[0];
+};
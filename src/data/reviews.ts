@@ -0,0 +1,124 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { ReviewStatus } from "@/lib/reviews";
+
+// The moderation queue's tabs: one per status, plus reviews with open reports.
+export type ModerationTab = ReviewStatus | "reported";
+
+// Every reviews key starts with "reviews", so invalidating reviewKeys.all
+// refreshes a product's reviews, its rating breakdown and the queue.
+export const reviewKeys = {
+  all: ["reviews"] as const,
+  forProduct: (productId: string, userId: string | null) => [...reviewKeys.all, "product", productId, userId] as const,
+  distribution: (productId: string) => [...reviewKeys.all, "distribution", productId] as const,
+  canReview: (productId: string, userId: string | null) => [...reviewKeys.all, "can-review", productId, userId] as const,
+  moderation: (tab: ModerationTab) => [...reviewKeys.all, "moderation", tab] as const,
+  moderationCounts: () => [...reviewKeys.all, "moderation", "counts"] as const,
+  settings: () => [...reviewKeys.all, "settings"] as const,
+};
+
+// A product's published reviews, plus the signed-in customer's own while it
+// awaits approval.
+export const getProductReviews = async (productId: string, userId: string | null) => {
+  let query = supabase
+    .from("reviews")
+    .select(`*, author:profiles(full_name, avatar_url)`)
+    .eq("product_id", productId);
+
+  query = userId
+    ? query.or(`status.eq.approved,user_id.eq.${userId}`)
+    : query.eq("status", "approved");
+
+  const { data, error } = await query.order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+// How many published reviews gave each number of stars, from 5 down to 1.
+export const getRatingDistribution = async (productId: string) => {
+  const { data, error } = await supabase.rpc("get_rating_distribution", { p_product_id: productId });
+  if (error) throw error;
+  return data;
+};
+
+export const canReviewProduct = async (productId: string) => {
+  const { data, error } = await supabase.rpc("can_review_product", { p_product_id: productId });
+  if (error) throw error;
+  return data;
+};
+
+// Returns the saved review, whose status says whether it awaits approval.
+export const createReview = async (values: TablesInsert<"reviews">) => {
+  const { data, error } = await supabase.from("reviews").insert(values).select().single();
+  if (error) throw error;
+  return data;
+};
+
+export const updateReview = async (id: string, values: TablesUpdate<"reviews">) => {
+  const { data, error } = await supabase.from("reviews").update(values).eq("id", id).select().single();
+  if (error) throw error;
+  return data;
+};
+
+export const deleteReview = async (id: string) => {
+  const { error } = await supabase.from("reviews").delete().eq("id", id);
+  if (error) throw error;
+};
+
+export const reportReview = async (values: TablesInsert<"review_reports">) => {
+  const { error } = await supabase.from("review_reports").insert(values);
+  if (error) throw error;
+};
+
+// IDs of the reviews that have reports nobody has dealt with yet.
+const getReportedReviewIds = async () => {
+  const { data, error } = await supabase.from("review_reports").select("review_id").is("resolved_at", null);
+  if (error) throw error;
+  return [...new Set(data.map((report) => report.review_id))];
+};
+
+export const getModerationCounts = async () => {
+  const [pendingResult, reportedIds] = await Promise.all([
+    supabase.from("reviews").select("id", { count: "exact", head: true }).eq("status", "pending"),
+    getReportedReviewIds(),
+  ]);
+  if (pendingResult.error) throw pendingResult.error;
+  return { pending: pendingResult.count ?? 0, reported: reportedIds.length };
+};
+
+// Up to 200 reviews for a tab of the moderation queue, newest first.
+export const getModerationQueue = async (tab: ModerationTab) => {
+  let query = supabase
+    .from("reviews")
+    .select("*, author:profiles(full_name), product:products(name), review_reports(*)");
+
+  query = tab === "reported" ? query.in("id", await getReportedReviewIds()) : query.eq("status", tab);
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(200);
+  if (error) throw error;
+  return data;
+};
+
+export const setReviewStatus = async (id: string, status: ReviewStatus) => {
+  const { error } = await supabase.from("reviews").update({ status }).eq("id", id);
+  if (error) throw error;
+};
+
+// A null reply removes the store's reply.
+export const setReviewReply = async (id: string, reply: string | null) => {
+  const { error } = await supabase.from("reviews").update({ reply }).eq("id", id);
+  if (error) throw error;
+};
+
+export const getStoreSettings = async () => {
+  const { data, error } = await supabase.from("store_settings").select("*").single();
+  if (error) throw error;
+  return data;
+};
+
+export const updateStoreSettings = async (
+  changes: Pick<TablesUpdate<"store_settings">, "moderate_reviews" | "require_verified_reviews">,
+) => {
+  const { error } = await supabase.from("store_settings").update(changes).eq("id", true);
+  if (error) throw error;
+};
@@ -0,0 +1,15 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const searchKeys = {
+  all: ["search"] as const,
+  // Staff see more results than customers for the same words.
+  results: (query: string, userId: string | null) => [...searchKeys.all, query, userId] as const,
+};
+
+// Products, categories and orders matching the words, as far as the caller
+// may see them.
+export const searchEverything = async (query: string) => {
+  const { data, error } = await supabase.rpc("search_everything", { p_query: query });
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AppRole } from "@/lib/permissions";
+
+// Every users key starts with "users", so invalidating userKeys.all
+// refreshes the list and the audit log after a change.
+export const userKeys = {
+  all: ["users"] as const,
+  list: (search: string) => [...userKeys.all, "list", search] as const,
+  auditLog: () => [...userKeys.all, "audit-log"] as const,
+};
+
+// Accounts matching a name or email, or every account for an empty search.
+export const getUsers = async (search: string) => {
+  const { data, error } = await supabase.rpc("admin_list_users", {
+    p_search: search || undefined,
+  });
+  if (error) throw error;
+  return data;
+};
+
+// The 20 most recent role changes and account suspensions.
+export const getUserAuditLog = async () => {
+  const { data, error } = await supabase
+    .from("user_audit_log")
+    .select(`
+      *,
+      user:profiles!user_audit_log_user_id_fkey ( full_name ),
+      actor:profiles!user_audit_log_changed_by_fkey ( full_name )
+    `)
+    .order("created_at", { ascending: false })
+    .limit(20);
+  if (error) throw error;
+  return data;
+};
+
+export const setUserRole = async (userId: string, role: AppRole) => {
+  const { error } = await supabase.rpc("admin_set_user_role", { p_user_id: userId, p_role: role });
+  if (error) throw error;
+};
+
+export const setUserDisabled = async (userId: string, disabled: boolean) => {
+  const { error } = await supabase.rpc("admin_set_user_disabled", { p_user_id: userId, p_disabled: disabled });
+  if (error) throw error;
+};
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { deliveryKeys, getAvailableSlots } from "@/data/delivery";
+
+// The delivery slots with room left for a cart holding these products,
+// earliest first. Slots fill up while customers browse, so the list is
+// refreshed every minute.
+export function useAvailableSlots(productIds: string[]) {
+  const uniqueIds = Array.from(new Set(productIds)).sort();
+
+  return useQuery({
+    queryKey: deliveryKeys.availableSlots(uniqueIds),
+    queryFn: () => getAvailableSlots(uniqueIds),
+    enabled: uniqueIds.length > 0,
+    refetchInterval: 60 * 1000,
+  });
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { deliveryKeys, getDeliveryZones } from "@/data/delivery";
+
+// Every delivery zone, including ones no longer delivered to so that saved
+// addresses can still show their zone. Filter on `active` before offering
+// them to customers.
+export function useDeliveryZones() {
+  const { data } = useQuery({
+    queryKey: deliveryKeys.zones(),
+    queryFn: getDeliveryZones,
+  });
+
+  return data ?? [];
+}
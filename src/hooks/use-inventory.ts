@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePermission } from "@/hooks/use-permission";
+import { getInventory, inventoryKeys } from "@/data/inventory";
+
+// Stock levels for every product and variant. Only staff who can edit
+// products may read them, so the query is skipped for everyone else.
+export function useInventory() {
+  const canEdit = usePermission("products.edit");
+
+  return useQuery({
+    queryKey: inventoryKeys.list(),
+    queryFn: getInventory,
+    enabled: canEdit,
+  });
+}
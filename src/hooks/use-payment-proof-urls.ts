@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { getPaymentProofUrls, PAYMENT_PROOF_URL_TTL_SECONDS } from "@/lib/payments";
+
+// Signed URLs for the given payment screenshots, keyed by path. The links are
+// refreshed well before they expire so an open page never shows a dead image.
+export function usePaymentProofUrls(paths: (string | null | undefined)[]) {
+  const validPaths = paths.filter((path): path is string => !!path);
+  const refreshMs = (PAYMENT_PROOF_URL_TTL_SECONDS * 1000) / 2;
+
+  const { data } = useQuery({
+    queryKey: ["payment-proof-urls", validPaths],
+    queryFn: () => getPaymentProofUrls(validPaths),
+    enabled: validPaths.length > 0,
+    staleTime: refreshMs,
+    refetchInterval: refreshMs,
+  });
+
+  return data ?? {};
+}
@@ -0,0 +1,15 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { Permission } from "@/lib/permissions";
+
+// Whether the signed-in user has the given permission. Only hides or shows UI;
+// the database enforces the same permissions through RLS.
+export function usePermission(permission: Permission) {
+  const { permissions } = useAuth();
+  return permissions.includes(permission);
+}
+
+// Anyone with at least one permission is staff and may open the dashboard.
+export function useIsStaff() {
+  const { permissions } = useAuth();
+  return permissions.length > 0;
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { getPersonalizationOptions, personalizationKeys } from "@/data/personalization";
+
+// Every colour theme and dietary option, including withdrawn ones so that
+// existing cart lines can still be described. Filter on `active` before
+// offering them to customers.
+export function usePersonalizationOptions() {
+  const { data } = useQuery({
+    queryKey: personalizationKeys.all,
+    queryFn: getPersonalizationOptions,
+  });
+
+  return data ?? [];
+}
@@ -0,0 +1,15 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { CatalogueFilters } from "@/lib/catalogue";
+import { productKeys, searchProducts } from "@/data/products";
+
+// One page of the catalogue for the given filters. The category is passed
+// by id, once its slug has been looked up. The previous page stays on
+// screen while the next one loads.
+export function useProductSearch(filters: CatalogueFilters, categoryId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: productKeys.search(filters, categoryId),
+    queryFn: () => searchProducts(filters, categoryId),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { getReferenceImageUrls, REFERENCE_IMAGE_URL_TTL_SECONDS } from "@/lib/personalization";
+
+// Signed URLs for the given personalization reference photos, keyed by path,
+// refreshed before they expire like usePaymentProofUrls().
+export function useReferenceImageUrls(paths: (string | null | undefined)[]) {
+  const validPaths = paths.filter((path): path is string => !!path);
+  const refreshMs = (REFERENCE_IMAGE_URL_TTL_SECONDS * 1000) / 2;
+
+  const { data } = useQuery({
+    queryKey: ["reference-image-urls", validPaths],
+    queryFn: () => getReferenceImageUrls(validPaths),
+    enabled: validPaths.length > 0,
+    staleTime: refreshMs,
+    refetchInterval: refreshMs,
+  });
+
+  return data ?? {};
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { getReviewPhotoUrls, REVIEW_PHOTO_URL_TTL_SECONDS } from "@/lib/reviews";
+
+// Signed URLs for the given review photos, keyed by path, refreshed before
+// they expire like usePaymentProofUrls().
+export function useReviewPhotoUrls(paths: string[]) {
+  const refreshMs = (REVIEW_PHOTO_URL_TTL_SECONDS * 1000) / 2;
+
+  const { data } = useQuery({
+    queryKey: ["review-photo-urls", paths],
+    queryFn: () => getReviewPhotoUrls(paths),
+    enabled: paths.length > 0,
+    staleTime: refreshMs,
+    refetchInterval: refreshMs,
+  });
+
+  return data ?? {};
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { addressKeys, getMyAddresses } from "@/data/addresses";
+
+// The signed-in customer's address book, default address first.
+export function useUserAddresses() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: addressKeys.mine(user?.id),
+    queryFn: getMyAddresses,
+    enabled: !!user,
+  });
+}
@@ -14,132 +14,1147 @@ export type Database = {
   }
   public: {
     Tables: {
+      blackout_dates: {
+        Row: {
+          created_at: string
+          date: string
+          reason: string | null
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          reason?: string | null
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          reason?: string | null
+        }
+        Relationships: []
+      }
       cart_items: {
         Row: {
           created_at: string
+          id: string
+          personalization: Json
+          product_id: string
+          quantity: number
+          updated_at: string
+          user_id: string
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          personalization?: Json
+          product_id: string
+          quantity: number
+          updated_at?: string
+          user_id: string
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          personalization?: Json
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+          user_id?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          image_url: string | null
+          name: string
+          slug: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          name: string
+          slug: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          name?: string
+          slug?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      delivery_slots: {
+        Row: {
+          active: boolean
+          capacity: number
+          created_at: string
+          ends_at: string
+          id: string
+          starts_at: string
+          weekday: number
+        }
+        Insert: {
+          active?: boolean
+          capacity: number
+          created_at?: string
+          ends_at: string
+          id?: string
+          starts_at: string
+          weekday: number
+        }
+        Update: {
+          active?: boolean
+          capacity?: number
+          created_at?: string
+          ends_at?: string
+          id?: string
+          starts_at?: string
+          weekday?: number
+        }
+        Relationships: []
+      }
+      delivery_zones: {
+        Row: {
+          active: boolean
+          areas: string | null
+          created_at: string
+          fee: number
+          free_delivery_threshold: number | null
+          id: string
+          minimum_order: number
+          name: string
+          position: number
+        }
+        Insert: {
+          active?: boolean
+          areas?: string | null
+          created_at?: string
+          fee: number
+          free_delivery_threshold?: number | null
+          id?: string
+          minimum_order?: number
+          name: string
+          position?: number
+        }
+        Update: {
+          active?: boolean
+          areas?: string | null
+          created_at?: string
+          fee?: number
+          free_delivery_threshold?: number | null
+          id?: string
+          minimum_order?: number
+          name?: string
+          position?: number
+        }
+        Relationships: []
+      }
+      order_items: {
+        Row: {
+          id: number
+          order_id: string
+          personalization: Json | null
+          personalization_surcharge: number
+          price: number
+          product_id: string
+          quantity: number
+          variant_id: string | null
+          variant_name: string | null
+        }
+        Insert: {
+          id?: number
+          order_id: string
+          personalization?: Json | null
+          personalization_surcharge?: number
+          price: number
+          product_id: string
+          quantity: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Update: {
+          id?: number
+          order_id?: string
+          personalization?: Json | null
+          personalization_surcharge?: number
+          price?: number
+          product_id?: string
+          quantity?: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_notes: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          id: string
+          order_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          order_id: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_notes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: number
+          note: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: number
+          note?: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: number
+          note?: string | null
+          order_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["order_status"]
+          permission: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["order_status"]
+          permission: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["order_status"]
+          permission?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_transitions_permission_fkey"
+            columns: ["permission"]
+            isOneToOne: false
+            referencedRelation: "permissions"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          created_at: string
+          customer_name: string
+          customer_phone: string
+          delivery_address: string
+          delivery_date: string | null
+          delivery_ends_at: string | null
+          delivery_fee: number
+          delivery_slot_id: string | null
+          delivery_starts_at: string | null
+          delivery_zone_id: string | null
+          delivery_zone_name: string | null
+          discount_amount: number
+          fulfillment_method: string
+          id: string
+          mpesa_receipt_number: string | null
+          paid_at: string | null
+          payment_method: string
+          payment_proof_path: string | null
+          payment_status: string
+          pickup_location_id: string | null
+          promotion_code: string | null
+          promotion_id: string | null
+          shipping_address: Json | null
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          total_amount: number
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          customer_name: string
+          customer_phone: string
+          delivery_address: string
+          delivery_date?: string | null
+          delivery_ends_at?: string | null
+          delivery_fee: number
+          delivery_slot_id?: string | null
+          delivery_starts_at?: string | null
+          delivery_zone_id?: string | null
+          delivery_zone_name?: string | null
+          discount_amount?: number
+          fulfillment_method?: string
+          id?: string
+          mpesa_receipt_number?: string | null
+          paid_at?: string | null
+          payment_method?: string
+          payment_proof_path?: string | null
+          payment_status?: string
+          pickup_location_id?: string | null
+          promotion_code?: string | null
+          promotion_id?: string | null
+          shipping_address?: Json | null
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          total_amount: number
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          customer_name?: string
+          customer_phone?: string
+          delivery_address?: string
+          delivery_date?: string | null
+          delivery_ends_at?: string | null
+          delivery_fee?: number
+          delivery_slot_id?: string | null
+          delivery_starts_at?: string | null
+          delivery_zone_id?: string | null
+          delivery_zone_name?: string | null
+          discount_amount?: number
+          fulfillment_method?: string
+          id?: string
+          mpesa_receipt_number?: string | null
+          paid_at?: string | null
+          payment_method?: string
+          payment_proof_path?: string | null
+          payment_status?: string
+          pickup_location_id?: string | null
+          promotion_code?: string | null
+          promotion_id?: string | null
+          shipping_address?: Json | null
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal?: number
+          total_amount?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_delivery_slot_id_fkey"
+            columns: ["delivery_slot_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_delivery_zone_id_fkey"
+            columns: ["delivery_zone_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_pickup_location_id_fkey"
+            columns: ["pickup_location_id"]
+            isOneToOne: false
+            referencedRelation: "pickup_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          checkout_request_id: string | null
+          created_at: string
+          id: string
+          merchant_request_id: string | null
+          mpesa_receipt_number: string | null
+          order_id: string
+          phone: string
+          provider: string
+          raw_callback: Json | null
+          result_code: number | null
+          result_desc: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          checkout_request_id?: string | null
+          created_at?: string
+          id?: string
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          order_id: string
+          phone: string
+          provider: string
+          raw_callback?: Json | null
+          result_code?: number | null
+          result_desc?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          checkout_request_id?: string | null
+          created_at?: string
+          id?: string
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          order_id?: string
+          phone?: string
+          provider?: string
+          raw_callback?: Json | null
+          result_code?: number | null
+          result_desc?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      permissions: {
+        Row: {
+          description: string
+          key: string
+        }
+        Insert: {
+          description: string
+          key: string
+        }
+        Update: {
+          description?: string
+          key?: string
+        }
+        Relationships: []
+      }
+      personalization_options: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          kind: string
+          label: string
+          position: number
+          surcharge: number
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          kind: string
+          label: string
+          position?: number
+          surcharge?: number
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          kind?: string
+          label?: string
+          position?: number
+          surcharge?: number
+        }
+        Relationships: []
+      }
+      pickup_locations: {
+        Row: {
+          active: boolean
+          address: string
+          created_at: string
+          id: string
+          instructions: string | null
+          name: string
+          position: number
+        }
+        Insert: {
+          active?: boolean
+          address: string
+          created_at?: string
+          id?: string
+          instructions?: string | null
+          name: string
+          position?: number
+        }
+        Update: {
+          active?: boolean
+          address?: string
+          created_at?: string
+          id?: string
+          instructions?: string | null
+          name?: string
+          position?: number
+        }
+        Relationships: []
+      }
+      product_option_groups: {
+        Row: {
+          choices: string[]
+          created_at: string
+          id: string
+          name: string
+          position: number
+          product_id: string
+        }
+        Insert: {
+          choices: string[]
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          product_id: string
+        }
+        Update: {
+          choices?: string[]
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_option_groups_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string
+          id: string
+          image_url: string | null
+          in_stock: boolean
+          name: string
+          options: Json
+          position: number
+          price: number | null
+          price_modifier: number
+          product_id: string
+          stock_quantity: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          in_stock?: boolean
+          name: string
+          options: Json
+          position?: number
+          price?: number | null
+          price_modifier?: number
+          product_id: string
+          stock_quantity?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          in_stock?: boolean
+          name?: string
+          options?: Json
+          position?: number
+          price?: number | null
+          price_modifier?: number
+          product_id?: string
+          stock_quantity?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          allow_backorder: boolean
+          category_id: string | null
+          created_at: string
+          description: string | null
+          featured: boolean
+          id: string
+          image_url: string | null
+          images: string[] | null
+          in_stock: boolean
+          lead_time_days: number
+          low_stock_threshold: number
+          name: string
+          price: number
+          rating_avg: number | null
+          rating_count: number
+          search_vector: unknown
+          stock_quantity: number | null
+          updated_at: string
+        }
+        Insert: {
+          allow_backorder?: boolean
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          featured?: boolean
+          id?: string
+          image_url?: string | null
+          images?: string[] | null
+          in_stock?: boolean
+          lead_time_days?: number
+          low_stock_threshold?: number
+          name: string
+          price: number
+          rating_avg?: number | null
+          rating_count?: number
+          search_vector?: never
+          stock_quantity?: number | null
+          updated_at?: string
+        }
+        Update: {
+          allow_backorder?: boolean
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          featured?: boolean
+          id?: string
+          image_url?: string | null
+          images?: string[] | null
+          in_stock?: boolean
+          lead_time_days?: number
+          low_stock_threshold?: number
+          name?: string
+          price?: number
+          rating_avg?: number | null
+          rating_count?: number
+          search_vector?: never
+          stock_quantity?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          disabled_at: string | null
+          full_name: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          disabled_at?: string | null
+          full_name?: string | null
+          id: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          disabled_at?: string | null
+          full_name?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      promotion_redemptions: {
+        Row: {
+          created_at: string
+          discount_amount: number
+          id: string
+          order_id: string
+          promotion_id: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          discount_amount: number
+          id?: string
+          order_id: string
+          promotion_id: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          promotion_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          active: boolean
+          buy_quantity: number | null
+          category_ids: string[]
+          code: string
+          created_at: string
+          description: string | null
+          ends_at: string | null
+          get_quantity: number | null
+          id: string
+          kind: string
+          minimum_subtotal: number
+          per_user_limit: number | null
+          product_ids: string[]
+          starts_at: string | null
+          usage_limit: number | null
+          value: number | null
+        }
+        Insert: {
+          active?: boolean
+          buy_quantity?: number | null
+          category_ids?: string[]
+          code: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          kind: string
+          minimum_subtotal?: number
+          per_user_limit?: number | null
+          product_ids?: string[]
+          starts_at?: string | null
+          usage_limit?: number | null
+          value?: number | null
+        }
+        Update: {
+          active?: boolean
+          buy_quantity?: number | null
+          category_ids?: string[]
+          code?: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          kind?: string
+          minimum_subtotal?: number
+          per_user_limit?: number | null
+          product_ids?: string[]
+          starts_at?: string | null
+          usage_limit?: number | null
+          value?: number | null
+        }
+        Relationships: []
+      }
+      review_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          review_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_reports_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          edited_at: string | null
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          photo_paths: string[]
           product_id: string
-          quantity: number
-          updated_at: string
+          rating: number
+          replied_at: string | null
+          replied_by: string | null
+          reply: string | null
+          status: string
           user_id: string
+          verified_purchase: boolean
         }
         Insert: {
+          comment?: string | null
           created_at?: string
+          edited_at?: string | null
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          photo_paths?: string[]
           product_id: string
-          quantity: number
-          updated_at?: string
+          rating: number
+          replied_at?: string | null
+          replied_by?: string | null
+          reply?: string | null
+          status?: string
           user_id: string
+          verified_purchase?: boolean
         }
         Update: {
+          comment?: string | null
           created_at?: string
+          edited_at?: string | null
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          photo_paths?: string[]
           product_id?: string
-          quantity?: number
-          updated_at?: string
+          rating?: number
+          replied_at?: string | null
+          replied_by?: string | null
+          reply?: string | null
+          status?: string
           user_id?: string
+          verified_purchase?: boolean
         }
         Relationships: [
           {
-            foreignKeyName: "cart_items_product_id_fkey"
+            foreignKeyName: "reviews_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "reviews_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      categories: {
+      role_permissions: {
         Row: {
-          created_at: string
-          description: string | null
-          id: string
-          image_url: string | null
-          name: string
-          slug: string
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
         }
         Insert: {
-          created_at?: string
-          description?: string | null
-          id?: string
-          image_url?: string | null
-          name: string
-          slug: string
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
         }
         Update: {
-          created_at?: string
-          description?: string | null
-          id?: string
-          image_url?: string | null
-          name?: string
-          slug?: string
+          permission?: string
+          role?: Database["public"]["Enums"]["app_role"]
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_permission_fkey"
+            columns: ["permission"]
+            isOneToOne: false
+            referencedRelation: "permissions"
+            referencedColumns: ["key"]
+          },
+        ]
       }
-      order_items: {
+      stock_movements: {
         Row: {
+          created_at: string
+          created_by: string | null
           id: string
-          order_id: string
-          price_at_purchase: number
+          kind: string
+          note: string | null
+          order_id: string | null
           product_id: string
           quantity: number
+          stock_after: number
+          variant_id: string | null
         }
         Insert: {
+          created_at?: string
+          created_by?: string | null
           id?: string
-          order_id: string
-          price_at_purchase: number
+          kind: string
+          note?: string | null
+          order_id?: string | null
           product_id: string
           quantity: number
+          stock_after: number
+          variant_id?: string | null
         }
         Update: {
+          created_at?: string
+          created_by?: string | null
           id?: string
-          order_id?: string
-          price_at_purchase?: number
+          kind?: string
+          note?: string | null
+          order_id?: string | null
           product_id?: string
           quantity?: number
+          stock_after?: number
+          variant_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_order_id_fkey"
+            foreignKeyName: "stock_movements_order_id_fkey"
             columns: ["order_id"]
             isOneToOne: false
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_product_id_fkey"
+            foreignKeyName: "stock_movements_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_movements_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      orders: {
+      store_settings: {
+        Row: {
+          id: boolean
+          moderate_reviews: boolean
+          require_verified_reviews: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          moderate_reviews?: boolean
+          require_verified_reviews?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          moderate_reviews?: boolean
+          require_verified_reviews?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      user_audit_log: {
         Row: {
+          action: string
+          changed_by: string | null
           created_at: string
-          id: string
-          shipping_address: Json | null
-          status: string
-          total_amount: number
+          id: number
+          new_role: Database["public"]["Enums"]["app_role"] | null
+          old_role: Database["public"]["Enums"]["app_role"] | null
           user_id: string | null
         }
         Insert: {
+          action: string
+          changed_by?: string | null
           created_at?: string
-          id?: string
-          shipping_address?: Json | null
-          status?: string
-          total_amount: number
+          id?: number
+          new_role?: Database["public"]["Enums"]["app_role"] | null
+          old_role?: Database["public"]["Enums"]["app_role"] | null
           user_id?: string | null
         }
         Update: {
+          action?: string
+          changed_by?: string | null
           created_at?: string
-          id?: string
-          shipping_address?: Json | null
-          status?: string
-          total_amount?: number
+          id?: number
+          new_role?: Database["public"]["Enums"]["app_role"] | null
+          old_role?: Database["public"]["Enums"]["app_role"] | null
           user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "orders_user_id_fkey"
+            foreignKeyName: "user_audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_audit_log_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -147,92 +1162,420 @@ export type Database = {
           },
         ]
       }
-      products: {
+      user_addresses: {
         Row: {
-          category_id: string | null
+          area: string
+          building: string | null
           created_at: string
-          description: string | null
-          featured: boolean
+          delivery_zone_id: string | null
           id: string
-          image_url: string | null
-          images: string[] | null
-          in_stock: boolean
-          name: string
-          price: number
+          instructions: string | null
+          is_default: boolean
+          label: string | null
+          landmark: string | null
+          latitude: number | null
+          longitude: number | null
+          recipient_name: string
+          recipient_phone: string
+          street: string
           updated_at: string
+          user_id: string
         }
         Insert: {
-          category_id?: string | null
+          area: string
+          building?: string | null
           created_at?: string
-          description?: string | null
-          featured?: boolean
+          delivery_zone_id?: string | null
           id?: string
-          image_url?: string | null
-          images?: string[] | null
-          in_stock?: boolean
-          name: string
-          price: number
+          instructions?: string | null
+          is_default?: boolean
+          label?: string | null
+          landmark?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          recipient_name: string
+          recipient_phone: string
+          street: string
           updated_at?: string
+          user_id: string
         }
         Update: {
-          category_id?: string | null
+          area?: string
+          building?: string | null
           created_at?: string
-          description?: string | null
-          featured?: boolean
+          delivery_zone_id?: string | null
           id?: string
-          image_url?: string | null
-          images?: string[] | null
-          in_stock?: boolean
-          name?: string
-          price?: number
+          instructions?: string | null
+          is_default?: boolean
+          label?: string | null
+          landmark?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          recipient_name?: string
+          recipient_phone?: string
+          street?: string
           updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "products_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "user_addresses_delivery_zone_id_fkey"
+            columns: ["delivery_zone_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "delivery_zones"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
-        Row: {
-          avatar_url: string | null
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      admin_list_users: {
+        Args: { p_search?: string }
+        Returns: {
+          created_at: string
+          disabled_at: string | null
+          email: string
           full_name: string | null
           id: string
-          role: string
-          updated_at: string | null
+          last_sign_in_at: string | null
+          order_count: number
+          role: Database["public"]["Enums"]["app_role"]
+        }[]
+      }
+      admin_set_user_disabled: {
+        Args: { p_disabled: boolean; p_user_id: string }
+        Returns: undefined
+      }
+      admin_set_user_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
         }
-        Insert: {
-          avatar_url?: string | null
-          full_name?: string | null
-          id: string
-          role?: string
-          updated_at?: string | null
+        Returns: undefined
+      }
+      adjust_stock: {
+        Args: {
+          p_kind: string
+          p_note?: string
+          p_product_id: string
+          p_quantity: number
+          p_variant_id?: string
         }
-        Update: {
-          avatar_url?: string | null
-          full_name?: string | null
-          id?: string
-          role?: string
-          updated_at?: string | null
+        Returns: Database["public"]["Tables"]["stock_movements"]["Row"]
+      }
+      apply_promotion: {
+        Args: { p_code: string; p_delivery_fee?: number; p_items: Json }
+        Returns: {
+          discount_amount: number
+          promotion_code: string
+          promotion_id: string
+        }[]
+      }
+      bakery_local_now: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      calculate_delivery_fee: {
+        Args: { p_method: string; p_subtotal: number; p_zone_id: string }
+        Returns: number
+      }
+      can_review_product: {
+        Args: { p_product_id: string }
+        Returns: boolean
+      }
+      check_analytics_period: {
+        Args: { p_from: string; p_to: string }
+        Returns: undefined
+      }
+      count_promotion_redemptions: {
+        Args: { p_promotion_id: string; p_user_id?: string }
+        Returns: number
+      }
+      count_slot_bookings: {
+        Args: { p_date: string; p_slot_id: string }
+        Returns: number
+      }
+      format_shipping_address: {
+        Args: { p_address: Json }
+        Returns: string
+      }
+      get_available_slots: {
+        Args: { p_days?: number; p_product_ids: string[] }
+        Returns: {
+          delivery_date: string
+          ends_at: string
+          remaining: number
+          slot_id: string
+          starts_at: string
+        }[]
+      }
+      get_earliest_delivery_date: {
+        Args: { p_product_ids: string[] }
+        Returns: string
+      }
+      get_inventory: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          allow_backorder: boolean
+          image_url: string
+          in_stock: boolean
+          is_low: boolean
+          low_stock_threshold: number
+          product_id: string
+          product_name: string
+          stock_quantity: number
+          variant_id: string
+          variant_name: string
+        }[]
+      }
+      get_my_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_line_price: {
+        Args: { p_product_id: string; p_variant_id: string }
+        Returns: number
+      }
+      get_orders_by_status: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          order_count: number
+          status: Database["public"]["Enums"]["order_status"]
+        }[]
+      }
+      get_personalization_surcharge: {
+        Args: { p_personalization: Json }
+        Returns: number
+      }
+      get_promotion_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          promotion_id: string
+          redemptions: number
+          total_discount: number
+          total_revenue: number
+        }[]
+      }
+      get_rating_distribution: {
+        Args: { p_product_id: string }
+        Returns: {
+          rating: number
+          review_count: number
+        }[]
+      }
+      get_revenue_by_day: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          day: string
+          order_count: number
+          revenue: number
+        }[]
+      }
+      get_sales_by_category: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          category_id: string
+          category_name: string
+          revenue: number
+          units: number
+        }[]
+      }
+      get_sales_summary: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          average_order_value: number
+          cancelled_count: number
+          discount_total: number
+          guest_orders: number
+          items_sold: number
+          new_customers: number
+          order_count: number
+          returning_customers: number
+          revenue: number
+        }[]
+      }
+      get_top_products: {
+        Args: {
+          p_from: string
+          p_limit?: number
+          p_order_by?: string
+          p_to: string
         }
-        Relationships: []
+        Returns: {
+          product_id: string
+          product_name: string
+          revenue: number
+          units: number
+        }[]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
       get_user_role: {
         Args: { p_user_id: string }
         Returns: string
       }
+      has_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
+      has_received_product: {
+        Args: { p_product_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_paid_sale: {
+        Args: {
+          p_payment_status: string
+          p_status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      merge_guest_cart: {
+        Args: { p_items: Json }
+        Returns: undefined
+      }
+      order_local_date: {
+        Args: { p_created_at: string }
+        Returns: string
+      }
+      place_order: {
+        Args: { p_details: Json; p_items: Json }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      prefix_tsquery: {
+        Args: { p_query: string }
+        Returns: unknown
+      }
+      price_cart_lines: {
+        Args: { p_items: Json }
+        Returns: {
+          category_id: string
+          product_id: string
+          quantity: number
+          unit_price: number
+        }[]
+      }
+      record_mpesa_callback: {
+        Args: {
+          p_amount: number
+          p_checkout_request_id: string
+          p_raw_callback: Json
+          p_receipt_number: string
+          p_result_code: number
+          p_result_desc: string
+        }
+        Returns: undefined
+      }
+      record_stock_movement: {
+        Args: {
+          p_kind: string
+          p_note?: string
+          p_order_id?: string
+          p_product_id: string
+          p_quantity: number
+          p_variant_id: string
+        }
+        Returns: Database["public"]["Tables"]["stock_movements"]["Row"]
+      }
+      reconcile_mpesa_payments: {
+        Args: { p_matches: Json }
+        Returns: {
+          error: string | null
+          order_id: string
+          receipt_number: string
+        }[]
+      }
+      refresh_product_rating: {
+        Args: { p_product_id: string }
+        Returns: undefined
+      }
+      release_unpaid_orders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      reorder_categories: {
+        Args: { p_ids: string[] }
+        Returns: undefined
+      }
+      reserve_stock: {
+        Args: {
+          p_order_id: string
+          p_product_id: string
+          p_quantity: number
+          p_variant_id: string
+        }
+        Returns: undefined
+      }
+      save_product_variants: {
+        Args: { p_groups: Json; p_product_id: string; p_variants: Json }
+        Returns: undefined
+      }
+      search_everything: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          id: string
+          image_url: string
+          kind: string
+          price: number
+          slug: string
+          status: string
+          subtitle: string
+          title: string
+        }[]
+      }
+      search_products: {
+        Args: {
+          p_category_id?: string
+          p_include_out_of_stock?: boolean
+          p_limit?: number
+          p_max_price?: number
+          p_min_price?: number
+          p_offset?: number
+          p_query?: string
+          p_sort?: string
+        }
+        Returns: {
+          category_id: string
+          created_at: string
+          description: string
+          id: string
+          image_url: string
+          in_stock: boolean
+          name: string
+          price: number
+          rating_avg: number
+          rating_count: number
+          total_count: number
+          variant_count: number
+        }[]
+      }
+      snapshot_personalization: {
+        Args: { p_personalization: Json }
+        Returns: Json
+      }
+      snapshot_shipping_address: {
+        Args: { p_address: Json }
+        Returns: Json
+      }
+      update_order_status: {
+        Args: {
+          p_note?: string
+          p_order_id: string
+          p_status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "staff" | "baker" | "delivery" | "user"
+      order_status:
+        | "pending"
+        | "payment_verified"
+        | "baking"
+        | "out_for_delivery"
+        | "delivered"
+        | "cancelled"
+        | "refunded"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -359,6 +1702,17 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "staff", "baker", "delivery", "user"],
+      order_status: [
+        "pending",
+        "payment_verified",
+        "baking",
+        "out_for_delivery",
+        "delivered",
+        "cancelled",
+        "refunded",
+      ],
+    },
   },
 } as const
@@ -0,0 +1,120 @@
+import * as z from "zod";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+export type UserAddress = Tables<'user_addresses'>;
+
+// What an order keeps of the address it was delivered to. Built by
+// snapshot_shipping_address(); empty fields are left out.
+export type ShippingAddress = {
+  recipient_name: string;
+  recipient_phone: string;
+  area: string;
+  street: string;
+  building?: string;
+  landmark?: string;
+  latitude?: number;
+  longitude?: number;
+  instructions?: string;
+};
+
+const optionalCoordinate = (min: number, max: number) =>
+  z.union([z.literal(""), z.coerce.number().min(min, "Not a valid coordinate").max(max, "Not a valid coordinate")]);
+
+// The address fields shared by checkout and the address book. Coordinates
+// are left blank unless the customer shares their location.
+export const addressFormSchema = z.object({
+  label: z.string().trim(),
+  recipient_name: z.string().trim().min(1, "Recipient name is required"),
+  recipient_phone: z.string().trim().min(10, "A valid phone number is required"),
+  delivery_zone_id: z.string().min(1, "Please choose your delivery zone"),
+  area: z.string().trim().min(1, "Estate or area is required"),
+  street: z.string().trim().min(1, "Street is required"),
+  building: z.string().trim(),
+  landmark: z.string().trim(),
+  latitude: optionalCoordinate(-90, 90),
+  longitude: optionalCoordinate(-180, 180),
+  instructions: z.string().trim(),
+}).refine(
+  (data) => (data.latitude === "") === (data.longitude === ""),
+  { message: "Enter both the latitude and the longitude, or neither.", path: ["longitude"] }
+);
+
+export type AddressFormInput = z.input<typeof addressFormSchema>;
+export type AddressFormData = z.output<typeof addressFormSchema>;
+
+export const emptyAddressForm = (recipientName = ""): AddressFormInput => ({
+  label: "",
+  recipient_name: recipientName,
+  recipient_phone: "",
+  delivery_zone_id: "",
+  area: "",
+  street: "",
+  building: "",
+  landmark: "",
+  latitude: "",
+  longitude: "",
+  instructions: "",
+});
+
+export const toAddressForm = (address: UserAddress): AddressFormInput => ({
+  label: address.label ?? "",
+  recipient_name: address.recipient_name,
+  recipient_phone: address.recipient_phone,
+  delivery_zone_id: address.delivery_zone_id ?? "",
+  area: address.area,
+  street: address.street,
+  building: address.building ?? "",
+  landmark: address.landmark ?? "",
+  latitude: address.latitude ?? "",
+  longitude: address.longitude ?? "",
+  instructions: address.instructions ?? "",
+});
+
+// The columns to write to user_addresses, without user_id.
+export const toUserAddressValues = (data: AddressFormData) => ({
+  label: data.label || null,
+  recipient_name: data.recipient_name,
+  recipient_phone: data.recipient_phone,
+  delivery_zone_id: data.delivery_zone_id,
+  area: data.area,
+  street: data.street,
+  building: data.building || null,
+  landmark: data.landmark || null,
+  latitude: data.latitude === "" ? null : data.latitude,
+  longitude: data.longitude === "" ? null : data.longitude,
+  instructions: data.instructions || null,
+});
+
+// What place_order() expects in p_details.shipping_address.
+export const toShippingAddress = (
+  address: Pick<UserAddress, "recipient_name" | "recipient_phone" | "area" | "street" | "building" | "landmark" | "latitude" | "longitude" | "instructions">,
+): ShippingAddress => ({
+  recipient_name: address.recipient_name,
+  recipient_phone: address.recipient_phone,
+  area: address.area,
+  street: address.street,
+  building: address.building ?? undefined,
+  landmark: address.landmark ?? undefined,
+  latitude: address.latitude ?? undefined,
+  longitude: address.longitude ?? undefined,
+  instructions: address.instructions ?? undefined,
+});
+
+export const toShippingAddressSnapshot = (value: Json | null | undefined) =>
+  value ? (value as ShippingAddress) : null;
+
+// Mirrors format_shipping_address(): the street address, then the landmark
+// and instructions, one per line.
+export const formatShippingAddress = (address: ShippingAddress) =>
+  [
+    [address.building, address.street, address.area].filter(Boolean).join(", "),
+    address.landmark && `Near ${address.landmark}`,
+    address.instructions,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+export const getMapUrl = (address: Pick<ShippingAddress, "latitude" | "longitude">) =>
+  address.latitude !== undefined && address.longitude !== undefined
+    ? `https://www.google.com/maps/search/?api=1&query=${address.latitude},${address.longitude}`
+    : null;
@@ -0,0 +1,41 @@
+import {
+  BadgePercent,
+  Boxes,
+  LayoutDashboard,
+  MapPin,
+  MessageSquare,
+  Package,
+  Palette,
+  ShoppingCart,
+  Tags,
+  Truck,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import { Permission } from "@/lib/permissions";
+
+export interface AdminPage {
+  href: string;
+  icon: LucideIcon;
+  label: string;
+  // Pages with a permission are only offered to staff who have it.
+  permission?: Permission;
+}
+
+// The dashboard pages, in the order they appear in the side bar.
+export const ADMIN_PAGES: AdminPage[] = [
+  { href: "/admin/dashboard/overview", icon: LayoutDashboard, label: "Overview", permission: "analytics.view" },
+  { href: "/admin/dashboard/orders", icon: ShoppingCart, label: "Orders", permission: "orders.view" },
+  { href: "/admin/dashboard/products", icon: Package, label: "Products" },
+  { href: "/admin/dashboard/inventory", icon: Boxes, label: "Inventory", permission: "products.edit" },
+  { href: "/admin/dashboard/categories", icon: Tags, label: "Categories", permission: "products.edit" },
+  { href: "/admin/dashboard/personalization", icon: Palette, label: "Personalization", permission: "products.edit" },
+  { href: "/admin/dashboard/delivery", icon: Truck, label: "Delivery", permission: "delivery.manage" },
+  { href: "/admin/dashboard/zones", icon: MapPin, label: "Zones & Pickup", permission: "delivery.manage" },
+  { href: "/admin/dashboard/promotions", icon: BadgePercent, label: "Promotions", permission: "promotions.manage" },
+  { href: "/admin/dashboard/reviews", icon: MessageSquare, label: "Reviews", permission: "reviews.moderate" },
+  { href: "/admin/dashboard/users", icon: Users, label: "Users", permission: "users.manage" },
+];
+
+export const getVisibleAdminPages = (permissions: Permission[]) =>
+  ADMIN_PAGES.filter((page) => !page.permission || permissions.includes(page.permission));
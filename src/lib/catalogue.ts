@@ -0,0 +1,81 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type CatalogueProduct = Database["public"]["Functions"]["search_products"]["Returns"][number];
+export type CatalogueSort = "relevance" | "newest" | "price_asc" | "price_desc" | "rating";
+
+export const CATALOGUE_SORT_LABELS: Record<CatalogueSort, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  rating: "Top rated",
+};
+
+export const CATALOGUE_PAGE_SIZE = 12;
+
+// Everything that shapes the catalogue listing. It is kept in the URL so a
+// filtered view can be shared or bookmarked.
+export interface CatalogueFilters {
+  query: string;
+  category: string | null; // Category slug
+  minPrice: number | null;
+  maxPrice: number | null;
+  includeOutOfStock: boolean;
+  sort: CatalogueSort;
+  page: number;
+}
+
+// Searches are ranked by relevance unless another order is chosen.
+const defaultSort = (query: string): CatalogueSort => (query ? "relevance" : "newest");
+
+const parsePrice = (value: string | null) => {
+  if (value === null || value.trim() === "") return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+export const parseCatalogueParams = (params: URLSearchParams): CatalogueFilters => {
+  const query = params.get("q")?.trim() ?? "";
+  const sort = params.get("sort");
+  const page = Number(params.get("page"));
+
+  return {
+    query,
+    category: params.get("category") || null,
+    minPrice: parsePrice(params.get("min")),
+    maxPrice: parsePrice(params.get("max")),
+    includeOutOfStock: params.get("stock") === "all",
+    sort: sort && sort in CATALOGUE_SORT_LABELS && (sort !== "relevance" || query)
+      ? (sort as CatalogueSort)
+      : defaultSort(query),
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+// The reverse of parseCatalogueParams(). Defaults are left out to keep
+// links short.
+export const toCatalogueParams = (filters: CatalogueFilters) => {
+  const params = new URLSearchParams();
+  if (filters.query) params.set("q", filters.query);
+  if (filters.category) params.set("category", filters.category);
+  if (filters.minPrice !== null) params.set("min", String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set("max", String(filters.maxPrice));
+  if (filters.includeOutOfStock) params.set("stock", "all");
+  if (filters.sort !== defaultSort(filters.query)) params.set("sort", filters.sort);
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params;
+};
+
+// The page numbers to offer around the current page, with null where a run
+// of pages is skipped: 1 … 4 5 6 … 12.
+export const getPageNumbers = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const visible = [...pages].filter((n) => n >= 1 && n <= pageCount).sort((a, b) => a - b);
+
+  return visible.flatMap((n, index) => {
+    const previous = visible[index - 1];
+    if (previous === undefined || n === previous + 1) return [n];
+    // A gap of one page is shown as that page rather than an ellipsis.
+    return n === previous + 2 ? [n - 1, n] : [null, n];
+  });
+};
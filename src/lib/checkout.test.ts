@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { CheckoutFormInput, NEW_ADDRESS, checkoutSchema } from "./checkout";
+import { emptyAddressForm } from "./addresses";
+
+// FileList has no constructor, so borrow its prototype for the files a
+// customer would pick.
+const fileList = (...files: File[]) =>
+  Object.setPrototypeOf({ ...files, length: files.length }, FileList.prototype) as FileList;
+
+const screenshot = (type = "image/png", size = 1024) =>
+  new File([new Uint8Array(size)], "payment.png", { type });
+
+const validDelivery: CheckoutFormInput = {
+  phone: "0712345678",
+  fulfillmentMethod: "delivery",
+  addressId: "address-1",
+  address: emptyAddressForm(),
+  saveAddress: true,
+  pickupLocationId: "",
+  deliveryDate: "2026-11-20",
+  deliverySlotId: "slot-1",
+  paymentMethod: "mpesa_stk",
+  mpesaCode: "",
+};
+
+const errorsOf = (values: CheckoutFormInput) => {
+  const result = checkoutSchema.safeParse(values);
+  return result.success ? {} : result.error.flatten().fieldErrors;
+};
+
+const issuePaths = (values: CheckoutFormInput) => {
+  const result = checkoutSchema.safeParse(values);
+  return result.success ? [] : result.error.issues.map((issue) => issue.path.join("."));
+};
+
+describe("checkoutSchema", () => {
+  it("accepts a delivery to a saved address paid by M-Pesa prompt", () => {
+    expect(checkoutSchema.safeParse(validDelivery).success).toBe(true);
+  });
+
+  it("needs a phone number, a date and a time", () => {
+    expect(errorsOf({ ...validDelivery, phone: "0712", deliveryDate: "", deliverySlotId: "" })).toEqual({
+      phone: ["A valid phone number is required"],
+      deliveryDate: ["Please choose a delivery date"],
+      deliverySlotId: ["Please choose a delivery time"],
+    });
+  });
+
+  it("needs an address to deliver to", () => {
+    expect(errorsOf({ ...validDelivery, addressId: "" })).toEqual({
+      addressId: ["Please choose a delivery address."],
+    });
+  });
+
+  it("checks the fields of a new address", () => {
+    expect(issuePaths({ ...validDelivery, addressId: NEW_ADDRESS })).toEqual([
+      "address.recipient_name",
+      "address.recipient_phone",
+      "address.delivery_zone_id",
+      "address.area",
+      "address.street",
+    ]);
+
+    const address = {
+      ...emptyAddressForm("Wanjiku Kamau"),
+      recipient_phone: "0712345678",
+      delivery_zone_id: "zone-1",
+      area: "Kilimani",
+      street: "Argwings Kodhek Road",
+    };
+    expect(checkoutSchema.safeParse({ ...validDelivery, addressId: NEW_ADDRESS, address }).success).toBe(true);
+  });
+
+  it("needs a pickup location, but no address, for pickup", () => {
+    const pickup = { ...validDelivery, fulfillmentMethod: "pickup" as const, addressId: "" };
+
+    expect(errorsOf(pickup)).toEqual({
+      pickupLocationId: ["Please choose where you will collect your order."],
+    });
+    expect(checkoutSchema.safeParse({ ...pickup, pickupLocationId: "shop-1" }).success).toBe(true);
+  });
+
+  it("needs a screenshot and the receipt code when the Till was paid manually", () => {
+    const till = { ...validDelivery, paymentMethod: "mpesa_till" as const };
+
+    expect(errorsOf(till)).toEqual({
+      paymentScreenshot: ["Payment screenshot is required."],
+      mpesaCode: ["Enter the 10-character code from your M-Pesa SMS, e.g. QJK4ABCD12."],
+    });
+
+    const result = checkoutSchema.safeParse({ ...till, mpesaCode: " qjk4abcd12 ", paymentScreenshot: fileList(screenshot()) });
+    expect(result.success && result.data.mpesaCode).toBe("QJK4ABCD12");
+  });
+
+  it("only accepts small images as the screenshot", () => {
+    const till = { ...validDelivery, paymentMethod: "mpesa_till" as const, mpesaCode: "QJK4ABCD12" };
+
+    expect(errorsOf({ ...till, paymentScreenshot: fileList(screenshot("application/pdf")) })).toEqual({
+      paymentScreenshot: ["Only .jpg, .png, and .webp formats are supported."],
+    });
+    expect(errorsOf({ ...till, paymentScreenshot: fileList(screenshot("image/jpeg", 6 * 1024 * 1024)) })).toEqual({
+      paymentScreenshot: ["Max file size is 5MB."],
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import * as z from "zod";
+import { AddressFormInput, addressFormSchema } from "@/lib/addresses";
+import { MPESA_RECEIPT_PATTERN, normalizeMpesaReceipt } from "@/lib/payments";
+
+// The addressId chosen when the customer types in a new address.
+export const NEW_ADDRESS = "new";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// fullName has been removed from the schema
+export const checkoutSchema = z.object({
+  phone: z.string().min(10, "A valid phone number is required"),
+  fulfillmentMethod: z.enum(["delivery", "pickup"]),
+  // A saved address's id, or NEW_ADDRESS for the fields below.
+  addressId: z.string(),
+  // Checked in superRefine, and only for new delivery addresses.
+  address: z.custom<AddressFormInput>(),
+  saveAddress: z.boolean(),
+  pickupLocationId: z.string(),
+  deliveryDate: z.string().min(1, "Please choose a delivery date"),
+  deliverySlotId: z.string().min(1, "Please choose a delivery time"),
+  paymentMethod: z.enum(["mpesa_stk", "mpesa_till"]),
+  mpesaCode: z.string().transform(normalizeMpesaReceipt),
+  paymentScreenshot: z
+    .instanceof(FileList)
+    .optional()
+    .refine((files) => !files?.length || files[0].size <= MAX_FILE_SIZE, `Max file size is 5MB.`)
+    .refine(
+      (files) => !files?.length || ACCEPTED_IMAGE_TYPES.includes(files[0].type),
+      "Only .jpg, .png, and .webp formats are supported."
+    ),
+}).superRefine((data, ctx) => {
+  if (data.fulfillmentMethod !== "delivery") return;
+  if (!data.addressId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please choose a delivery address.", path: ["addressId"] });
+  } else if (data.addressId === NEW_ADDRESS) {
+    const result = addressFormSchema.safeParse(data.address);
+    if (!result.success) {
+      result.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ["address", ...issue.path] }));
+    }
+  }
+}).refine(
+  (data) => data.fulfillmentMethod !== "pickup" || !!data.pickupLocationId,
+  { message: "Please choose where you will collect your order.", path: ["pickupLocationId"] }
+).refine(
+  // A screenshot is only needed when the customer paid the Till manually.
+  (data) => data.paymentMethod !== "mpesa_till" || data.paymentScreenshot?.length === 1,
+  { message: "Payment screenshot is required.", path: ["paymentScreenshot"] }
+).refine(
+  (data) => data.paymentMethod !== "mpesa_till" || MPESA_RECEIPT_PATTERN.test(data.mpesaCode),
+  { message: "Enter the 10-character code from your M-Pesa SMS, e.g. QJK4ABCD12.", path: ["mpesaCode"] }
+);
+
+export type CheckoutFormInput = z.input<typeof checkoutSchema>;
+export type CheckoutFormData = z.output<typeof checkoutSchema>;
@@ -0,0 +1,60 @@
+import { format, parse, parseISO } from "date-fns";
+import { Database, Tables } from "@/integrations/supabase/types";
+
+export type DeliverySlot = Tables<'delivery_slots'>;
+export type BlackoutDate = Tables<'blackout_dates'>;
+export type AvailableSlot = Database["public"]["Functions"]["get_available_slots"]["Returns"][number];
+export type DeliveryZone = Tables<'delivery_zones'>;
+export type PickupLocation = Tables<'pickup_locations'>;
+
+export type FulfillmentMethod = "delivery" | "pickup";
+
+export const FULFILLMENT_METHOD_LABELS: Record<FulfillmentMethod, string> = {
+  delivery: "Delivery",
+  pickup: "Store pickup",
+};
+
+// Mirrors calculate_delivery_fee(), for showing an estimate at checkout;
+// place_order() works out the fee that is actually charged. Returns null
+// when the subtotal is below the zone's minimum order.
+export const getDeliveryFee = (
+  method: FulfillmentMethod,
+  zone: Pick<DeliveryZone, "fee" | "minimum_order" | "free_delivery_threshold"> | undefined,
+  subtotal: number,
+) => {
+  if (method === "pickup") return 0;
+  if (!zone) return null;
+  if (subtotal < zone.minimum_order) return null;
+  if (zone.free_delivery_threshold !== null && subtotal >= zone.free_delivery_threshold) return 0;
+  return zone.fee;
+};
+
+// Indexed like Postgres' day of week and delivery_slots.weekday: 0 is Sunday.
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Lead times are capped by products.lead_time_days' check constraint.
+export const MAX_LEAD_TIME_DAYS = 60;
+
+// Dates go to and from the database as YYYY-MM-DD, with no time zone.
+export const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+export const fromDateKey = (key: string) => parseISO(key);
+
+// "09:00:00" -> "9:00 AM"
+export const formatSlotTime = (time: string) => format(parse(time, "HH:mm:ss", new Date()), "h:mm a");
+
+export const formatDeliveryWindow = (startsAt: string, endsAt: string) =>
+  `${formatSlotTime(startsAt)} – ${formatSlotTime(endsAt)}`;
+
+// "Fri, 24 Oct 2025, 9:00 AM – 12:00 PM", or null for orders placed before
+// delivery slots existed.
+export const formatDeliverySchedule = (order: {
+  delivery_date: string | null;
+  delivery_starts_at: string | null;
+  delivery_ends_at: string | null;
+}) => {
+  if (!order.delivery_date) return null;
+  const date = format(fromDateKey(order.delivery_date), "EEE, d MMM yyyy");
+  return order.delivery_starts_at && order.delivery_ends_at
+    ? `${date}, ${formatDeliveryWindow(order.delivery_starts_at, order.delivery_ends_at)}`
+    : date;
+};
@@ -0,0 +1,38 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type StockMovement = Tables<'stock_movements'>;
+export type StockMovementKind = "restock" | "sale" | "cancellation" | "adjustment" | "wastage";
+
+// A row from get_inventory(): a product without variants, or one variant.
+export type InventoryItem = {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  image_url: string | null;
+  // NULL when stock is not tracked.
+  stock_quantity: number | null;
+  low_stock_threshold: number;
+  allow_backorder: boolean;
+  in_stock: boolean;
+  is_low: boolean;
+};
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementKind, string> = {
+  restock: "Restock",
+  sale: "Sale",
+  cancellation: "Cancelled order",
+  adjustment: "Stock count",
+  wastage: "Wastage",
+};
+
+export const getInventoryItemName = (item: Pick<InventoryItem, "product_name" | "variant_name">) =>
+  item.variant_name ? `${item.product_name} (${item.variant_name})` : item.product_name;
+
+// "Not tracked", "Out of stock", "3 on backorder" or "12 in stock".
+export const describeStock = (item: Pick<InventoryItem, "stock_quantity">) => {
+  if (item.stock_quantity === null) return "Not tracked";
+  if (item.stock_quantity < 0) return `${-item.stock_quantity} on backorder`;
+  if (item.stock_quantity === 0) return "Out of stock";
+  return `${item.stock_quantity} in stock`;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { ReconcilableOrder, StatementEntry, matchStatementToOrders } from "./mpesaStatement";
+
+const order = (values: Partial<ReconcilableOrder> = {}): ReconcilableOrder => ({
+  id: "a1b2c3d4-0000-4000-8000-000000000001",
+  customer_name: "Jane Doe",
+  customer_phone: "0712345678",
+  total_amount: 1500,
+  mpesa_receipt_number: null,
+  ...values,
+});
+
+const entry = (values: Partial<StatementEntry> = {}): StatementEntry => ({
+  receiptNumber: "SFK1ABC2DE",
+  completedAt: "2026-10-18 10:00:00",
+  details: "Customer Transfer from 254712345678 - JANE DOE",
+  amount: 1500,
+  ...values,
+});
+
+describe("matchStatementToOrders", () => {
+  it("matches the code a customer entered at checkout", () => {
+    const result = matchStatementToOrders(
+      [entry({ details: "Customer Transfer from 254700000000 - JOHN DOE" })],
+      [order({ mpesa_receipt_number: "SFK1ABC2DE" })],
+      new Set()
+    );
+
+    expect(result.matches.map((match) => match.kind)).toEqual(["code"]);
+  });
+
+  it("matches on amount when the statement shows the customer's phone, even masked", () => {
+    const result = matchStatementToOrders(
+      [entry({ details: "Customer Transfer from 254712***678 - JANE DOE" })],
+      [order()],
+      new Set()
+    );
+
+    expect(result.matches.map((match) => match.kind)).toEqual(["phone"]);
+  });
+
+  it("matches on amount when the statement shows the order's reference", () => {
+    const result = matchStatementToOrders(
+      [entry({ details: "Pay Bill from 254700000000 - Acc. A1B2C3D4" })],
+      [order()],
+      new Set()
+    );
+
+    expect(result.matches.map((match) => match.kind)).toEqual(["reference"]);
+  });
+
+  it("does not match on amount alone", () => {
+    const result = matchStatementToOrders(
+      [entry({ details: "Customer Transfer from 254700000000 - JOHN DOE" })],
+      [order()],
+      new Set()
+    );
+
+    expect(result.matches).toEqual([]);
+    expect(result.unmatchedEntries).toHaveLength(1);
+  });
+
+  it("does not give an order another customer's code", () => {
+    const result = matchStatementToOrders(
+      [entry({ receiptNumber: "SFK9XYZ8WV" })],
+      [order({ mpesa_receipt_number: "SFK1ABC2DE" })],
+      new Set()
+    );
+
+    expect(result.matches).toEqual([]);
+  });
+});
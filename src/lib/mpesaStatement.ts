@@ -0,0 +1,210 @@
+import { MPESA_RECEIPT_PATTERN, normalizeMpesaReceipt } from "@/lib/payments";
+
+export interface StatementEntry {
+  receiptNumber: string;
+  completedAt: string;
+  details: string;
+  amount: number;
+}
+
+export interface ReconcilableOrder {
+  id: string;
+  customer_name: string;
+  customer_phone: string;
+  total_amount: number;
+  mpesa_receipt_number: string | null;
+}
+
+export type MatchKind = "code" | "phone" | "reference";
+
+export const MATCH_KIND_LABELS: Record<MatchKind, string> = {
+  code: "M-Pesa code",
+  phone: "Amount and phone",
+  reference: "Amount and reference",
+};
+
+export interface StatementMatch {
+  entry: StatementEntry;
+  order: ReconcilableOrder;
+  // "code" when the customer entered this receipt at checkout. "phone" or
+  // "reference" when the amount matched and the statement line names the
+  // customer's phone number or the order; those need a closer look.
+  kind: MatchKind;
+}
+
+export interface ReconciliationResult {
+  matches: StatementMatch[];
+  // A code the customer entered whose statement amount is too low.
+  shortPayments: StatementMatch[];
+  // Receipts that are already recorded against a paid order.
+  alreadyRecorded: StatementEntry[];
+  unmatchedEntries: StatementEntry[];
+}
+
+// Splits CSV text into rows, honouring quoted fields with commas, escaped
+// quotes and line breaks.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === "," || char === "\t") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+const parseAmount = (value: string | undefined) => {
+  const amount = Number((value ?? "").replace(/[^0-9.-]/g, ""));
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+const findColumn = (header: string[], ...names: string[]) =>
+  header.findIndex((cell) => names.some((name) => cell.trim().toLowerCase().startsWith(name)));
+
+// Reads the incoming payments from an M-Pesa statement export. Statements from
+// the M-Pesa app and the business portal put a few summary lines above the
+// table, so the header row is found by looking for the receipt column.
+export const parseMpesaStatement = (text: string): StatementEntry[] => {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((row) => findColumn(row, "receipt") !== -1);
+
+  if (headerIndex === -1) {
+    throw new Error('Could not find a "Receipt No." column in this statement.');
+  }
+
+  const header = rows[headerIndex];
+  const receiptCol = findColumn(header, "receipt");
+  const timeCol = findColumn(header, "completion time", "date", "initiation time");
+  const detailsCol = findColumn(header, "details", "other party");
+  const statusCol = findColumn(header, "transaction status", "status");
+  const paidInCol = findColumn(header, "paid in", "amount");
+
+  if (paidInCol === -1) {
+    throw new Error('Could not find a "Paid In" column in this statement.');
+  }
+
+  return rows.slice(headerIndex + 1).flatMap((row) => {
+    const receiptNumber = normalizeMpesaReceipt(row[receiptCol] ?? "");
+    const amount = parseAmount(row[paidInCol]);
+    const status = statusCol === -1 ? "completed" : (row[statusCol] ?? "").trim().toLowerCase();
+
+    // Skip withdrawals, failed transactions and footer lines.
+    if (!MPESA_RECEIPT_PATTERN.test(receiptNumber) || amount <= 0 || status !== "completed") {
+      return [];
+    }
+
+    return [{
+      receiptNumber,
+      completedAt: timeCol === -1 ? "" : (row[timeCol] ?? "").trim(),
+      details: detailsCol === -1 ? "" : (row[detailsCol] ?? "").trim(),
+      amount,
+    }];
+  });
+};
+
+// Whether the statement's details name this order's customer. Statements
+// mask the middle of the phone number, as in "254712***678 - JANE DOE", so a
+// masked digit matches any digit. The server makes the same check.
+const identifyOrder = (entry: StatementEntry, order: ReconcilableOrder): MatchKind | null => {
+  const details = entry.details.toLowerCase();
+  if (details.includes(order.id.substring(0, 8).toLowerCase())) return "reference";
+
+  const phone = order.customer_phone.replace(/\D/g, "").slice(-9);
+  if (phone.length !== 9) return null;
+
+  const shownPhones = details.match(/[0-9*]{9,}/g) ?? [];
+  const matchesPhone = shownPhones.some((shown) => {
+    const digits = shown.slice(-9);
+    return (
+      digits.replace(/\*/g, "").length >= 5 &&
+      [...digits].every((digit, i) => digit === "*" || digit === phone[i])
+    );
+  });
+  return matchesPhone ? "phone" : null;
+};
+
+// Pairs statement entries with unpaid orders. Orders whose customer entered a
+// confirmation code are matched on that code first. The remaining entries are
+// matched on amount together with the customer's phone number or the order's
+// reference, and only when exactly one order fits.
+export const matchStatementToOrders = (
+  entries: StatementEntry[],
+  orders: ReconcilableOrder[],
+  recordedReceipts: Set<string>
+): ReconciliationResult => {
+  const matches: StatementMatch[] = [];
+  const shortPayments: StatementMatch[] = [];
+  const alreadyRecorded: StatementEntry[] = [];
+  const usedOrders = new Set<string>();
+  const unmatched: StatementEntry[] = [];
+
+  for (const entry of entries) {
+    if (recordedReceipts.has(entry.receiptNumber)) {
+      alreadyRecorded.push(entry);
+      continue;
+    }
+    const order = orders.find((o) => o.mpesa_receipt_number === entry.receiptNumber);
+    if (!order) {
+      unmatched.push(entry);
+      continue;
+    }
+    usedOrders.add(order.id);
+    if (entry.amount >= order.total_amount) {
+      matches.push({ entry, order, kind: "code" });
+    } else {
+      shortPayments.push({ entry, order, kind: "code" });
+    }
+  }
+
+  const unmatchedEntries: StatementEntry[] = [];
+
+  for (const entry of unmatched) {
+    const candidates = orders.flatMap((order) => {
+      if (usedOrders.has(order.id) || order.mpesa_receipt_number || order.total_amount !== entry.amount) {
+        return [];
+      }
+      const kind = identifyOrder(entry, order);
+      return kind ? [{ entry, order, kind }] : [];
+    });
+    if (candidates.length === 1) {
+      usedOrders.add(candidates[0].order.id);
+      matches.push(candidates[0]);
+    } else {
+      unmatchedEntries.push(entry);
+    }
+  }
+
+  return { matches, shortPayments, alreadyRecorded, unmatchedEntries };
+};
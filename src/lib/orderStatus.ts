@@ -0,0 +1,86 @@
+import { Constants, Enums } from "@/integrations/supabase/types";
+import { Permission } from "@/lib/permissions";
+
+export type OrderStatus = Enums<'order_status'>;
+
+export const ORDER_STATUSES = Constants.public.Enums.order_status;
+
+interface OrderStatusInfo {
+  label: string;
+  description: string;
+  // The admin action that moves an order into this status.
+  actionLabel: string;
+  badgeClassName: string;
+}
+
+export const ORDER_STATUS_INFO: Record<OrderStatus, OrderStatusInfo> = {
+  pending: {
+    label: "Pending",
+    description: "Your order is waiting for payment confirmation.",
+    actionLabel: "Mark as Pending",
+    badgeClassName: "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/40 dark:text-yellow-300 dark:border-yellow-700",
+  },
+  payment_verified: {
+    label: "Payment Verified",
+    description: "Your payment has been confirmed and your order is in the queue.",
+    actionLabel: "Verify Payment",
+    badgeClassName: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/40 dark:text-blue-300 dark:border-blue-700",
+  },
+  baking: {
+    label: "Baking",
+    description: "Your order is being freshly baked.",
+    actionLabel: "Start Baking",
+    badgeClassName: "bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/40 dark:text-orange-300 dark:border-orange-700",
+  },
+  out_for_delivery: {
+    label: "Out for Delivery",
+    description: "Your order is on its way to you.",
+    actionLabel: "Send Out for Delivery",
+    badgeClassName: "bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-900/40 dark:text-purple-300 dark:border-purple-700",
+  },
+  delivered: {
+    label: "Delivered",
+    description: "Your order has been delivered.",
+    actionLabel: "Mark as Delivered",
+    badgeClassName: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/40 dark:text-green-300 dark:border-green-700",
+  },
+  cancelled: {
+    label: "Cancelled",
+    description: "This order has been cancelled.",
+    actionLabel: "Cancel Order",
+    badgeClassName: "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/40 dark:text-red-300 dark:border-red-700",
+  },
+  refunded: {
+    label: "Refunded",
+    description: "Your payment for this order has been refunded.",
+    actionLabel: "Mark as Refunded",
+    badgeClassName: "bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-800/40 dark:text-gray-300 dark:border-gray-600",
+  },
+};
+
+// Mirrors the order_status_transitions table. The database rejects any other
+// change, so this only decides which actions the dashboard offers.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["payment_verified", "cancelled"],
+  payment_verified: ["baking", "cancelled"],
+  baking: ["out_for_delivery", "cancelled"],
+  out_for_delivery: ["delivered"],
+  delivered: ["refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+};
+
+// Mirrors order_status_transitions.permission: verifying, cancelling and
+// refunding are approvals, everything else is fulfilment.
+export const getStatusChangePermission = (status: OrderStatus): Permission =>
+  status === "payment_verified" || status === "cancelled" || status === "refunded"
+    ? "orders.approve"
+    : "orders.fulfil";
+
+export const getOrderStatusInfo = (status: string): OrderStatusInfo =>
+  ORDER_STATUS_INFO[status as OrderStatus] ?? {
+    label: status,
+    description: "",
+    actionLabel: status,
+    badgeClassName: "",
+  };
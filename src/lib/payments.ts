@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type OrderPaymentMethod = "mpesa_stk" | "mpesa_till";
+
+// M-Pesa confirmation codes are ten letters and digits, e.g. QJK4ABCD12.
+export const MPESA_RECEIPT_PATTERN = /^[A-Z0-9]{10}$/;
+
+export const normalizeMpesaReceipt = (code: string) => code.trim().toUpperCase();
+
+const PAYMENT_PROOFS_BUCKET = "payment-proofs";
+// Signed links to payment screenshots stop working after this long.
+export const PAYMENT_PROOF_URL_TTL_SECONDS = 5 * 60;
+
+// Uploads a payment screenshot to the private bucket and returns its path.
+// Guests get a random folder of their own, which only they know about.
+export const uploadPaymentProof = async (file: File, userId: string | undefined) => {
+  const fileExt = file.name.split('.').pop();
+  const folder = userId ?? `guests/${crypto.randomUUID()}`;
+  const filePath = `${folder}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(PAYMENT_PROOFS_BUCKET).upload(filePath, file);
+  if (error) throw new Error(`Screenshot upload failed: ${error.message}`);
+
+  return filePath;
+};
+
+// Creates short-lived links for a set of payment screenshots, keyed by path.
+export const getPaymentProofUrls = async (paths: string[]) => {
+  const { data, error } = await supabase.storage
+    .from(PAYMENT_PROOFS_BUCKET)
+    .createSignedUrls(paths, PAYMENT_PROOF_URL_TTL_SECONDS);
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  for (const item of data) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+};
+
+interface StkPushResponse {
+  paymentId: string;
+  checkoutRequestId: string;
+  customerMessage: string;
+}
+
+// Asks the mpesa-stk-push Edge Function to send a payment prompt to the
+// customer's phone. Which provider handles it (Daraja or the local mock) is
+// decided by the function's PAYMENT_PROVIDER setting.
+export const startMpesaPayment = async (orderId: string, phone: string): Promise<StkPushResponse> => {
+  const { data, error } = await supabase.functions.invoke<StkPushResponse>("mpesa-stk-push", {
+    body: { orderId, phone },
+  });
+
+  if (error) {
+    let message = error.message;
+    try {
+      const body = await error.context.json();
+      message = body.error || message;
+    } catch {
+      // The response had no JSON body; keep the generic message.
+    }
+    throw new Error(message);
+  }
+
+  return data;
+};
@@ -0,0 +1,26 @@
+import { Constants, Enums } from "@/integrations/supabase/types";
+
+export type AppRole = Enums<'app_role'>;
+
+export const APP_ROLES = Constants.public.Enums.app_role;
+
+// Mirrors the permissions table. Roles are granted these in role_permissions.
+export type Permission =
+  | "orders.view"
+  | "orders.approve"
+  | "orders.fulfil"
+  | "orders.delete"
+  | "products.edit"
+  | "delivery.manage"
+  | "promotions.manage"
+  | "analytics.view"
+  | "reviews.moderate"
+  | "users.manage";
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Admin",
+  staff: "Staff",
+  baker: "Baker",
+  delivery: "Delivery",
+  user: "Customer",
+};
@@ -0,0 +1,117 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+export type PersonalizationOption = Tables<'personalization_options'>;
+export type PersonalizationOptionKind = "colour_theme" | "dietary";
+
+export const PERSONALIZATION_OPTION_KIND_LABELS: Record<PersonalizationOptionKind, string> = {
+  colour_theme: "Colour theme",
+  dietary: "Dietary",
+};
+
+// Must match the limits checked by get_personalization_surcharge().
+export const INSCRIPTION_MAX_LENGTH = 50;
+export const PERSONALIZATION_NOTES_MAX_LENGTH = 500;
+
+// What the customer chose for one cart line. Options are referenced by id.
+export type Personalization = {
+  inscription?: string;
+  colour_theme_id?: string;
+  dietary_ids?: string[];
+  notes?: string;
+  reference_image_path?: string;
+};
+
+// What an order line keeps: the same choices, with option labels instead of ids.
+export type PersonalizationSnapshot = {
+  inscription?: string;
+  colour_theme?: string;
+  dietary?: string[];
+  notes?: string;
+  reference_image_path?: string;
+};
+
+// Drops empty fields and sorts the dietary ids, so two identical
+// personalizations are stored, and compared, as the same value.
+export const normalizePersonalization = (personalization: Personalization | undefined): Personalization => {
+  const normalized: Personalization = {};
+  const inscription = personalization?.inscription?.trim();
+  const notes = personalization?.notes?.trim();
+  if (inscription) normalized.inscription = inscription;
+  if (personalization?.colour_theme_id) normalized.colour_theme_id = personalization.colour_theme_id;
+  if (personalization?.dietary_ids?.length) normalized.dietary_ids = [...personalization.dietary_ids].sort();
+  if (notes) normalized.notes = notes;
+  if (personalization?.reference_image_path) normalized.reference_image_path = personalization.reference_image_path;
+  return normalized;
+};
+
+export const hasPersonalization = (personalization: Personalization | PersonalizationSnapshot | null | undefined) =>
+  !!personalization && Object.keys(personalization).length > 0;
+
+export const personalizationKey = (personalization: Personalization | undefined) => {
+  const normalized = normalizePersonalization(personalization);
+  return JSON.stringify(Object.keys(normalized).sort().map((key) => [key, normalized[key as keyof Personalization]]));
+};
+
+export const toPersonalization = (value: Json | null | undefined) => (value ?? {}) as Personalization;
+export const toPersonalizationSnapshot = (value: Json | null | undefined) =>
+  value ? (value as PersonalizationSnapshot) : null;
+
+// The surcharge for one unit, from the options currently on offer.
+export const getPersonalizationSurcharge = (
+  personalization: Personalization | undefined,
+  options: Pick<PersonalizationOption, "id" | "surcharge">[],
+) => {
+  const chosen = [personalization?.colour_theme_id, ...(personalization?.dietary_ids ?? [])];
+  return options
+    .filter((option) => chosen.includes(option.id))
+    .reduce((sum, option) => sum + Number(option.surcharge), 0);
+};
+
+// Resolves option ids to labels, for showing a cart line like an order line.
+export const describePersonalization = (
+  personalization: Personalization | undefined,
+  options: Pick<PersonalizationOption, "id" | "label">[],
+): PersonalizationSnapshot => {
+  const labelFor = (id: string) => options.find((option) => option.id === id)?.label;
+  const normalized = normalizePersonalization(personalization);
+  return {
+    inscription: normalized.inscription,
+    colour_theme: normalized.colour_theme_id ? labelFor(normalized.colour_theme_id) : undefined,
+    dietary: normalized.dietary_ids?.map(labelFor).filter((label): label is string => !!label),
+    notes: normalized.notes,
+    reference_image_path: normalized.reference_image_path,
+  };
+};
+
+const REFERENCE_IMAGES_BUCKET = "personalization-references";
+// Signed links to reference photos stop working after this long.
+export const REFERENCE_IMAGE_URL_TTL_SECONDS = 5 * 60;
+
+// Uploads a reference photo to the private bucket and returns its path.
+// Guests get a random folder of their own, which only they know about.
+// merge_guest_cart() hands its photos to the customer once they sign in.
+export const uploadReferenceImage = async (file: File, userId: string | undefined) => {
+  const fileExt = file.name.split('.').pop();
+  const folder = userId ?? `guests/${crypto.randomUUID()}`;
+  const filePath = `${folder}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(REFERENCE_IMAGES_BUCKET).upload(filePath, file);
+  if (error) throw new Error(`Photo upload failed: ${error.message}`);
+
+  return filePath;
+};
+
+// Creates short-lived links for a set of reference photos, keyed by path.
+export const getReferenceImageUrls = async (paths: string[]) => {
+  const { data, error } = await supabase.storage
+    .from(REFERENCE_IMAGES_BUCKET)
+    .createSignedUrls(paths, REFERENCE_IMAGE_URL_TTL_SECONDS);
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  for (const item of data) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+};
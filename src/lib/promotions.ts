@@ -0,0 +1,33 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type Promotion = Tables<'promotions'>;
+export type PromotionKind = "percentage" | "fixed_amount" | "free_delivery" | "buy_x_get_y";
+
+export const PROMOTION_KIND_LABELS: Record<PromotionKind, string> = {
+  percentage: "Percentage off",
+  fixed_amount: "Amount off",
+  free_delivery: "Free delivery",
+  buy_x_get_y: "Buy X, get Y free",
+};
+
+// Codes are stored in upper case; must match the check on promotions.code.
+export const PROMOTION_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+export const normalizePromotionCode = (code: string) => code.trim().toUpperCase();
+
+// "15% off", "Ksh 200 off", "Free delivery" or "Buy 2, get 1 free".
+export const describePromotion = (
+  promotion: Pick<Promotion, "kind" | "value" | "buy_quantity" | "get_quantity">,
+) => {
+  switch (promotion.kind as PromotionKind) {
+    case "percentage":
+      return `${promotion.value}% off`;
+    case "fixed_amount":
+      return `Ksh ${(promotion.value ?? 0).toFixed(2)} off`;
+    case "free_delivery":
+      return "Free delivery";
+    case "buy_x_get_y":
+      return `Buy ${promotion.buy_quantity}, get ${promotion.get_quantity} free`;
+    default:
+      return promotion.kind;
+  }
+};
@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Review = Tables<'reviews'>;
+export type ReviewReport = Tables<'review_reports'>;
+export type StoreSettings = Tables<'store_settings'>;
+
+export type ReviewStatus = "pending" | "approved" | "hidden";
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Published",
+  hidden: "Hidden",
+};
+
+export type ReviewReportReason = "spam" | "offensive" | "off_topic" | "fake" | "other";
+
+export const REVIEW_REPORT_REASON_LABELS: Record<ReviewReportReason, string> = {
+  spam: "Spam or advertising",
+  offensive: "Offensive or abusive",
+  off_topic: "Not about this product",
+  fake: "Fake or misleading",
+  other: "Something else",
+};
+
+// Must match the check on reviews.photo_paths.
+export const MAX_REVIEW_PHOTOS = 4;
+
+const REVIEW_PHOTOS_BUCKET = "review-photos";
+// Signed links to review photos stop working after this long.
+export const REVIEW_PHOTO_URL_TTL_SECONDS = 5 * 60;
+
+// Uploads a review photo to the author's folder and returns its path.
+export const uploadReviewPhoto = async (file: File, userId: string) => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${userId}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(REVIEW_PHOTOS_BUCKET).upload(filePath, file);
+  if (error) throw new Error(`Photo upload failed: ${error.message}`);
+
+  return filePath;
+};
+
+// Creates short-lived links for a set of review photos, keyed by path. Photos
+// the caller may not see, such as those on a hidden review, are left out.
+export const getReviewPhotoUrls = async (paths: string[]) => {
+  const { data, error } = await supabase.storage
+    .from(REVIEW_PHOTOS_BUCKET)
+    .createSignedUrls(paths, REVIEW_PHOTO_URL_TTL_SECONDS);
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  for (const item of data) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+};
+
+export const removeReviewPhotos = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(REVIEW_PHOTOS_BUCKET).remove(paths);
+  if (error) console.error("Failed to delete review photos:", error.message);
+};
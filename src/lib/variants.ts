@@ -0,0 +1,39 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type ProductOptionGroup = Tables<'product_option_groups'>;
+export type ProductVariant = Tables<'product_variants'>;
+
+// The choice made in each option group, keyed by group name,
+// e.g. { Size: "2kg", Flavour: "Chocolate" }.
+export type VariantOptions = Record<string, string>;
+
+export const getVariantOptions = (variant: Pick<ProductVariant, "options">) =>
+  (variant.options ?? {}) as VariantOptions;
+
+// A variant's unit price: its own price if set, otherwise the product price
+// plus the variant's modifier.
+export const getVariantPrice = (
+  productPrice: number,
+  variant: Pick<ProductVariant, "price" | "price_modifier">,
+) => Number(variant.price ?? Number(productPrice) + Number(variant.price_modifier));
+
+export const isSameOptions = (a: VariantOptions, b: VariantOptions) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+// The variant matching a complete selection, if there is one.
+export const findVariant = <T extends Pick<ProductVariant, "options">>(variants: T[], selection: VariantOptions) =>
+  variants.find((variant) => isSameOptions(getVariantOptions(variant), selection));
+
+// Every combination of one choice per group, in group order.
+export const buildVariantCombinations = (groups: { name: string; choices: string[] }[]): VariantOptions[] =>
+  groups.reduce<VariantOptions[]>(
+    (combinations, group) =>
+      combinations.flatMap((options) => group.choices.map((choice) => ({ ...options, [group.name]: choice }))),
+    groups.length > 0 ? [{}] : [],
+  );
+
+// The label shown for a combination, e.g. "2kg / Chocolate".
+export const describeVariantOptions = (options: VariantOptions, groups: { name: string }[]) =>
+  groups.map((group) => options[group.name]).filter(Boolean).join(" / ");
@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useAuth } from "@/contexts/AuthContext";
+import { addressKeys, createAddress, deleteAddress, updateAddress } from "@/data/addresses";
+import Navigation from "@/components/Navigation";
+import AddressFields from "@/components/AddressFields";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Form } from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { MapPin, Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { useDeliveryZones } from "@/hooks/use-delivery-zones";
+import { useUserAddresses } from "@/hooks/use-user-addresses";
+import {
+  AddressFormData,
+  AddressFormInput,
+  UserAddress,
+  addressFormSchema,
+  emptyAddressForm,
+  formatShippingAddress,
+  toAddressForm,
+  toShippingAddress,
+  toUserAddressValues,
+} from "@/lib/addresses";
+
+const addressBookSchema = z.object({ address: addressFormSchema });
+
+interface AddressFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The address being edited, or null to add a new one.
+  address: UserAddress | null;
+}
+
+const AddressFormDialog = ({ open, onOpenChange, address }: AddressFormDialogProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const zones = useDeliveryZones();
+  const isEditMode = !!address;
+
+  const form = useForm<{ address: AddressFormInput }, unknown, { address: AddressFormData }>({
+    resolver: zodResolver(addressBookSchema),
+    defaultValues: { address: emptyAddressForm() },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ address: address ? toAddressForm(address) : emptyAddressForm(user?.user_metadata?.full_name ?? "") });
+    }
+  }, [open, address, form, user]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: AddressFormData) => {
+      if (!user) throw new Error("You must be logged in to save an address.");
+      const dataToSubmit = toUserAddressValues(data);
+
+      if (address) {
+        await updateAddress(address.id, dataToSubmit);
+      } else {
+        await createAddress({ ...dataToSubmit, user_id: user.id });
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Address ${isEditMode ? "updated" : "saved"}`);
+      queryClient.invalidateQueries({ queryKey: addressKeys.all });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Keep a zone that has since been switched off selectable while editing,
+  // so the address is not silently moved.
+  const selectableZones = zones.filter((zone) => zone.active || zone.id === address?.delivery_zone_id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => mutation.mutate(data.address))} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle>{isEditMode ? "Edit Address" : "Add Address"}</DialogTitle>
+              <DialogDescription>
+                Saved addresses can be picked at checkout without typing them again.
+              </DialogDescription>
+            </DialogHeader>
+            <AddressFields zones={selectableZones} />
+            <DialogFooter>
+              <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : "Save Address"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Addresses = () => {
+  const queryClient = useQueryClient();
+  const zones = useDeliveryZones();
+  const { data: addresses, isLoading } = useUserAddresses();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [addressToEdit, setAddressToEdit] = useState<UserAddress | null>(null);
+  const [addressToDelete, setAddressToDelete] = useState<UserAddress | null>(null);
+
+  // The previous default is cleared by a trigger on user_addresses.
+  const setDefaultMutation = useMutation({
+    mutationFn: (id: string) => updateAddress(id, { is_default: true }),
+    onSuccess: () => {
+      toast.success("Default address updated");
+      queryClient.invalidateQueries({ queryKey: addressKeys.all });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update default address: ${error.message}`);
+    },
+  });
+
+  const deleteAddressMutation = useMutation({
+    mutationFn: deleteAddress,
+    onSuccess: () => {
+      toast.success("Address deleted");
+      queryClient.invalidateQueries({ queryKey: addressKeys.all });
+      setAddressToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(`Error deleting address: ${error.message}`);
+      setAddressToDelete(null);
+    },
+  });
+
+  const openForm = (address: UserAddress | null) => {
+    setAddressToEdit(address);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-12">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-12">
+          <h1 className="text-5xl font-bold">My Addresses</h1>
+          <Button onClick={() => openForm(null)}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add Address
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p>Loading your addresses...</p>
+        ) : addresses && addresses.length > 0 ? (
+          <div className="grid md:grid-cols-2 gap-6">
+            {addresses.map((address) => {
+              const zone = zones.find((deliveryZone) => deliveryZone.id === address.delivery_zone_id);
+              return (
+                <Card key={address.id}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-xl">
+                      {address.label || address.area}
+                      {address.is_default && <Badge variant="secondary">Default</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {address.recipient_name}, {address.recipient_phone}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="text-sm space-y-2">
+                    <p className="whitespace-pre-line">{formatShippingAddress(toShippingAddress(address))}</p>
+                    <p className="text-muted-foreground">
+                      {zone
+                        ? zone.active
+                          ? `Delivery zone: ${zone.name}`
+                          : `We no longer deliver to ${zone.name}. Edit this address to choose another zone.`
+                        : "No delivery zone. Edit this address to choose one."}
+                    </p>
+                  </CardContent>
+                  <CardFooter className="flex flex-wrap gap-2">
+                    {!address.is_default && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={setDefaultMutation.isPending}
+                        onClick={() => setDefaultMutation.mutate(address.id)}
+                      >
+                        Make default
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => openForm(address)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => setAddressToDelete(address)}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  </CardFooter>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-20 border-dashed border-2 rounded-lg">
+            <MapPin className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-2xl font-bold mb-2">No Saved Addresses</h2>
+            <p className="text-muted-foreground mb-6">
+              Save your home or office address to check out faster.
+            </p>
+            <Button onClick={() => openForm(null)}>
+              Add Address
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <AddressFormDialog open={isFormOpen} onOpenChange={setIsFormOpen} address={addressToEdit} />
+
+      <AlertDialog
+        open={!!addressToDelete}
+        onOpenChange={(isOpen) => !isOpen && setAddressToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this address?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Orders already delivered to it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => addressToDelete && deleteAddressMutation.mutate(addressToDelete.id)}
+              disabled={deleteAddressMutation.isPending}
+            >
+              {deleteAddressMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Addresses;
@@ -6,17 +6,26 @@ import { useCart } from "@/contexts/CartContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { Minus, Plus, Trash2, ShoppingBag } from "lucide-react";
+import PersonalizationDetails from "@/components/PersonalizationDetails";
+import { usePersonalizationOptions } from "@/hooks/use-personalization-options";
+import { useReferenceImageUrls } from "@/hooks/use-reference-image-urls";
+import { describePersonalization, hasPersonalization } from "@/lib/personalization";
 
 const Cart = () => {
   const { items, removeItem, updateQuantity, total } = useCart();
   const { user } = useAuth();
   const navigate = useNavigate();
+  const personalizationOptions = usePersonalizationOptions();
+  // Guests cannot read the private bucket back, so only signed-in users get links.
+  const referenceImageUrls = useReferenceImageUrls(
+    user ? items.map((item) => item.personalization.reference_image_path) : [],
+  );
 
   const handleCheckout = () => {
     if (user) {
       navigate("/checkout");
     } else {
-      toast.info("Please log in to proceed to checkout.");
+      toast.info("Please log in to proceed to checkout. Your cart will be saved to your account.");
       navigate("/login", { state: { from: "/checkout" } });
     }
   };
@@ -66,8 +75,18 @@ const Cart = () => {
                   </div>
 
                   <div className="flex-1">
-                    <h3 className="font-semibold text-lg mb-2">{item.name}</h3>
-                    <p className="text-primary font-bold text-xl">
+                    <h3 className="font-semibold text-lg">{item.name}</h3>
+                    {item.variant_name && (
+                      <p className="text-sm text-muted-foreground">{item.variant_name}</p>
+                    )}
+                    {hasPersonalization(item.personalization) && (
+                      <PersonalizationDetails
+                        className="mt-2"
+                        personalization={describePersonalization(item.personalization, personalizationOptions)}
+                        referenceImageUrl={referenceImageUrls[item.personalization.reference_image_path ?? ""]}
+                      />
+                    )}
+                    <p className="text-primary font-bold text-xl mt-2">
                       ${item.price.toFixed(2)}
                     </p>
                   </div>
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter } from "react-router-dom";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { toast } from "sonner";
+import Checkout from "./Checkout";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCart } from "@/contexts/CartContext";
+import { mockRpc, mockTable, supabase } from "@/test/supabase";
+
+vi.mock("@/contexts/AuthContext", () => ({ useAuth: vi.fn() }));
+vi.mock("@/contexts/CartContext", () => ({ useCart: vi.fn() }));
+vi.mock("sonner", () => ({ toast: { success: vi.fn(), error: vi.fn(), info: vi.fn() } }));
+vi.mock("@/components/Navigation", () => ({ default: () => null }));
+// The dialog sends the STK push itself; here it only shows that it opened.
+vi.mock("@/components/MpesaPaymentDialog", () => ({
+  default: ({ orderId, amount }: { orderId: string; amount: number }) => (
+    <p>Paying Ksh {amount} for order {orderId}</p>
+  ),
+}));
+
+const user = { id: "user-1", email: "wanjiku@example.com", user_metadata: { full_name: "Wanjiku Kamau" } };
+const clearCart = vi.fn();
+
+const savedAddress = {
+  id: "address-1",
+  user_id: user.id,
+  label: "Home",
+  recipient_name: "Wanjiku Kamau",
+  recipient_phone: "0712345678",
+  delivery_zone_id: "zone-1",
+  area: "Kilimani",
+  street: "Argwings Kodhek Road",
+  building: null,
+  landmark: null,
+  latitude: null,
+  longitude: null,
+  instructions: null,
+  is_default: true,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+};
+
+const slot = {
+  delivery_date: "2026-11-20",
+  slot_id: "slot-1",
+  starts_at: "09:00:00",
+  ends_at: "12:00:00",
+  remaining: 5,
+};
+
+const renderCheckout = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={["/checkout"]}>
+        <Checkout />
+      </MemoryRouter>
+    </QueryClientProvider>,
+  );
+};
+
+// Picks the saved address's slot on 20 November and enters a phone number.
+const fillInDelivery = async () => {
+  const customer = userEvent.setup();
+  await customer.click(await screen.findByRole("gridcell", { name: "20" }));
+  await customer.click(await screen.findByText("9:00 AM – 12:00 PM"));
+  await customer.type(screen.getByLabelText("Phone Number"), "0712345678");
+  return customer;
+};
+
+describe("Checkout", () => {
+  beforeEach(() => {
+    vi.mocked(useAuth).mockReturnValue({ user, loading: false } as unknown as ReturnType<typeof useAuth>);
+    vi.mocked(useCart).mockReturnValue({
+      items: [{
+        id: "cake-1",
+        product_id: "cake-1",
+        variant_id: null,
+        personalization: {},
+        name: "Chocolate Cake",
+        price: 2500,
+        quantity: 1,
+      }],
+      total: 2500,
+      clearCart,
+    } as unknown as ReturnType<typeof useCart>);
+
+    mockTable("user_addresses", { data: [savedAddress] });
+    mockTable("delivery_zones", {
+      data: [{ id: "zone-1", name: "Kilimani", fee: 200, minimum_order: 0, free_delivery_threshold: null, active: true }],
+    });
+    mockTable("pickup_locations", { data: [] });
+    mockTable("personalization_options", { data: [] });
+    mockRpc("get_available_slots", { data: [slot] });
+  });
+
+  it("explains what is missing instead of placing the order", async () => {
+    const customer = userEvent.setup();
+    renderCheckout();
+
+    await customer.click(await screen.findByRole("button", { name: "Place Order & Pay" }));
+
+    expect(await screen.findByText("A valid phone number is required")).toBeInTheDocument();
+    expect(screen.getByText("Please choose a delivery date")).toBeInTheDocument();
+    expect(supabase.rpc).not.toHaveBeenCalledWith("place_order", expect.anything());
+  });
+
+  it("places the order for the saved address and asks for the M-Pesa payment", async () => {
+    mockRpc("place_order", { data: { id: "order-1", total_amount: 2700 } });
+    renderCheckout();
+    await screen.findByText("Home");
+
+    const customer = await fillInDelivery();
+    await customer.click(screen.getByRole("button", { name: "Place Order & Pay" }));
+
+    expect(await screen.findByText("Paying Ksh 2700 for order order-1")).toBeInTheDocument();
+    expect(supabase.rpc).toHaveBeenCalledWith("place_order", {
+      p_items: [{ product_id: "cake-1", variant_id: null, personalization: {}, quantity: 1 }],
+      p_details: expect.objectContaining({
+        customer_name: "Wanjiku Kamau",
+        customer_phone: "0712345678",
+        fulfillment_method: "delivery",
+        delivery_zone_id: "zone-1",
+        shipping_address: expect.objectContaining({ area: "Kilimani", street: "Argwings Kodhek Road" }),
+        delivery_date: "2026-11-20",
+        delivery_slot_id: "slot-1",
+        payment_method: "mpesa_stk",
+        mpesa_receipt_number: null,
+      }),
+    });
+    // The cart is only emptied once the customer has paid or closed the dialog.
+    expect(clearCart).not.toHaveBeenCalled();
+  });
+
+  it("keeps the cart when the order is refused", async () => {
+    mockRpc("place_order", { error: { message: "This delivery slot is full." } });
+    renderCheckout();
+    await screen.findByText("Home");
+
+    const customer = await fillInDelivery();
+    await customer.click(screen.getByRole("button", { name: "Place Order & Pay" }));
+
+    await waitFor(() =>
+      expect(toast.error).toHaveBeenCalledWith("Failed to place order: This delivery slot is full."),
+    );
+    expect(clearCart).not.toHaveBeenCalled();
+    expect(screen.queryByText(/Paying Ksh/)).not.toBeInTheDocument();
+  });
+});
@@ -1,138 +1,276 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import { useAuth } from "@/contexts/AuthContext";
 import { useCart } from "@/contexts/CartContext";
 import Navigation from "@/components/Navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar } from "@/components/ui/calendar";
+import MpesaPaymentDialog from "@/components/MpesaPaymentDialog";
 import { toast } from "sonner";
+import { Tag } from "lucide-react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
-
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
-const STANDARD_DELIVERY_FEE = 150;
-
-// fullName has been removed from the schema
-const checkoutSchema = z.object({
-  phone: z.string().min(10, "A valid phone number is required"),
-  address: z.string().min(1, "Delivery address is required"),
-  paymentScreenshot: z
-    .instanceof(FileList)
-    .refine((files) => files?.length === 1, "Payment screenshot is required.")
-    .refine((files) => files?.[0]?.size <= MAX_FILE_SIZE, `Max file size is 5MB.`)
-    .refine(
-      (files) => ACCEPTED_IMAGE_TYPES.includes(files?.[0]?.type),
-      "Only .jpg, .png, and .webp formats are supported."
-    ),
-});
-
-type CheckoutFormData = z.infer<typeof checkoutSchema>;
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { uploadPaymentProof } from "@/lib/payments";
+import PersonalizationDetails from "@/components/PersonalizationDetails";
+import { usePersonalizationOptions } from "@/hooks/use-personalization-options";
+import { describePersonalization, hasPersonalization } from "@/lib/personalization";
+import { useAvailableSlots } from "@/hooks/use-available-slots";
+import { normalizePromotionCode } from "@/lib/promotions";
+import { useDeliveryZones } from "@/hooks/use-delivery-zones";
+import { useUserAddresses } from "@/hooks/use-user-addresses";
+import { placeOrder } from "@/data/orders";
+import { deliveryKeys, getPickupLocations } from "@/data/delivery";
+import { applyPromotion, promotionKeys } from "@/data/promotions";
+import { addressKeys, createAddress } from "@/data/addresses";
+import AddressFields from "@/components/AddressFields";
+import { CheckoutFormData, CheckoutFormInput, NEW_ADDRESS, checkoutSchema } from "@/lib/checkout";
+import {
+  addressFormSchema,
+  emptyAddressForm,
+  formatShippingAddress,
+  toShippingAddress,
+  toUserAddressValues,
+} from "@/lib/addresses";
+import {
+  FULFILLMENT_METHOD_LABELS,
+  formatDeliverySchedule,
+  formatDeliveryWindow,
+  fromDateKey,
+  getDeliveryFee,
+  toDateKey,
+} from "@/lib/delivery";
 
 export const Checkout = () => {
   const { user } = useAuth();
   const { items, total, clearCart } = useCart();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const personalizationOptions = usePersonalizationOptions();
+  const { data: availableSlots, isLoading: isLoadingSlots } = useAvailableSlots(items.map((item) => item.product_id));
+  const deliveryZones = useDeliveryZones();
+  const { data: savedAddresses } = useUserAddresses();
+  const { data: pickupLocations } = useQuery({
+    queryKey: deliveryKeys.pickupLocations(),
+    queryFn: getPickupLocations,
+  });
+  const activeZones = deliveryZones.filter((zone) => zone.active);
+  const activePickupLocations = (pickupLocations ?? []).filter((location) => location.active);
+  const [codeInput, setCodeInput] = useState("");
+  const [appliedCode, setAppliedCode] = useState("");
+  // Set once an STK push order has been placed and is waiting for payment.
+  const [stkOrder, setStkOrder] = useState<{ id: string; phone: string; amount: number } | null>(null);
 
-  const form = useForm<CheckoutFormData>({
+  const form = useForm<CheckoutFormInput, unknown, CheckoutFormData>({
     resolver: zodResolver(checkoutSchema),
     defaultValues: {
       phone: "",
-      address: "",
+      fulfillmentMethod: "delivery",
+      addressId: NEW_ADDRESS,
+      address: emptyAddressForm(user?.user_metadata?.full_name ?? ""),
+      saveAddress: true,
+      pickupLocationId: "",
+      deliveryDate: "",
+      deliverySlotId: "",
+      paymentMethod: "mpesa_stk",
+      mpesaCode: "",
     },
   });
 
-  const grandTotal = useMemo(() => total + STANDARD_DELIVERY_FEE, [total]);
+  const paymentMethod = form.watch("paymentMethod");
+  const fulfillmentMethod = form.watch("fulfillmentMethod");
+  const addressId = form.watch("addressId");
+  const chosenAddress = savedAddresses?.find((address) => address.id === addressId);
+  const chosenZoneId = addressId === NEW_ADDRESS ? form.watch("address.delivery_zone_id") : chosenAddress?.delivery_zone_id;
+  const chosenZone = activeZones.find((zone) => zone.id === chosenZoneId);
+  const deliveryDate = form.watch("deliveryDate");
+  const deliverySlotId = form.watch("deliverySlotId");
+
+  const availableDates = useMemo(
+    () => new Set((availableSlots ?? []).map((slot) => slot.delivery_date)),
+    [availableSlots],
+  );
+  const firstAvailableDate = availableSlots?.[0]?.delivery_date;
+  const lastAvailableDate = availableSlots?.[availableSlots.length - 1]?.delivery_date;
+  const slotsOnDate = (availableSlots ?? []).filter((slot) => slot.delivery_date === deliveryDate);
+  const chosenSlot = slotsOnDate.find((slot) => slot.slot_id === deliverySlotId);
+
+  // Start from the customer's default address, unless they have already
+  // picked one.
+  useEffect(() => {
+    if (savedAddresses && savedAddresses.length > 0 && !form.getFieldState("addressId").isDirty) {
+      form.setValue("addressId", savedAddresses[0].id);
+    }
+  }, [savedAddresses, form]);
+
+  // A slot can fill up, or a date close, while the customer is on this page.
+  useEffect(() => {
+    if (!availableSlots || !deliveryDate) return;
+    if (!availableDates.has(deliveryDate)) {
+      form.setValue("deliveryDate", "");
+      form.setValue("deliverySlotId", "");
+    } else if (deliverySlotId && !chosenSlot) {
+      form.setValue("deliverySlotId", "");
+    }
+  }, [availableSlots, availableDates, deliveryDate, deliverySlotId, chosenSlot, form]);
+
+  // An estimate: place_order() works out the fee actually charged.
+  const deliveryFee = getDeliveryFee(fulfillmentMethod, chosenZone, total);
+  const isBelowMinimumOrder = fulfillmentMethod === "delivery" && !!chosenZone && deliveryFee === null;
+
+  const cartLines = items.map((item) => ({
+    product_id: item.product_id,
+    variant_id: item.variant_id,
+    personalization: item.personalization,
+    quantity: item.quantity,
+  }));
+
+  // The discount is checked again, against the fee actually charged, when
+  // the order is placed.
+  const {
+    data: promotion,
+    error: promotionError,
+    isFetching: isCheckingPromotion,
+  } = useQuery({
+    queryKey: promotionKeys.applied(appliedCode, cartLines, deliveryFee ?? 0),
+    queryFn: () => applyPromotion(appliedCode, cartLines, deliveryFee ?? 0),
+    enabled: !!appliedCode,
+    retry: false,
+  });
+  const discount = promotion?.discount_amount ?? 0;
+  const grandTotal = useMemo(() => total + (deliveryFee ?? 0) - discount, [total, deliveryFee, discount]);
+
+  const applyPromotionCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizePromotionCode(codeInput);
+    if (!code) return;
+    setAppliedCode(code);
+    setCodeInput("");
+  };
 
   useEffect(() => {
     // Redirect if cart is empty
-    if (total === 0 && items.length === 0 && !form.formState.isSubmitting) {
+    if (total === 0 && items.length === 0 && !form.formState.isSubmitting && !stkOrder) {
       navigate("/products");
     }
-  }, [items, total, navigate, form.formState.isSubmitting]);
+  }, [items, total, navigate, form.formState.isSubmitting, stkOrder]);
 
-  const sendWhatsAppMessage = (details: { orderId: string; screenshotUrl: string; customerName: string } & CheckoutFormData) => {
+  const sendWhatsAppMessage = (
+    details: {
+      orderId: string;
+      customerName: string;
+      totalAmount: number;
+      deliveryAddress: string;
+      deliverySchedule: string;
+    } & CheckoutFormData,
+  ) => {
     const WHATSAPP_NUMBER = import.meta.env.VITE_WHATSAPP_NUMBER;
-    const itemsText = items.map(item => `- ${item.name} x${item.quantity}`).join('\n');
+    const itemsText = items
+      .map(item => {
+        const inscription = item.personalization.inscription ? `\n  Inscription: "${item.personalization.inscription}"` : '';
+        return `- ${item.name}${item.variant_name ? ` (${item.variant_name})` : ''} x${item.quantity}${inscription}`;
+      })
+      .join('\n');
 
     const message = `
 *New Order Received!*
 
 *Customer:* ${details.customerName}
 *Phone:* ${details.phone}
-*Address:* ${details.address}
+*${details.fulfillmentMethod === "pickup" ? "Pickup from" : "Address"}:* ${details.deliveryAddress}
+*${details.fulfillmentMethod === "pickup" ? "Pickup" : "Delivery"}:* ${details.deliverySchedule}
 
 *Items:*
 ${itemsText}
 
-*Total Paid:* Ksh ${grandTotal.toFixed(2)}
+*Total Paid:* Ksh ${details.totalAmount.toFixed(2)}
+*M-Pesa Code:* ${details.mpesaCode}
 
 *Payment Proof:*
-${details.screenshotUrl}
+${window.location.origin}/admin/dashboard/orders/${details.orderId}
     `;
 
     const whatsappUrl = `https://wa.me/${WHATSAPP_NUMBER}?text=${encodeURIComponent(message)}`;
     window.open(whatsappUrl, '_blank');
   };
 
+  // The address to deliver to, as columns for user_addresses, or null for pickup.
+  const getDeliveryAddress = (data: CheckoutFormData) => {
+    if (data.fulfillmentMethod !== "delivery") return null;
+    if (data.addressId === NEW_ADDRESS) return toUserAddressValues(addressFormSchema.parse(data.address));
+    const saved = savedAddresses?.find((address) => address.id === data.addressId);
+    if (!saved) throw new Error("Please choose a delivery address.");
+    return saved;
+  };
+
   const onSubmit = async (data: CheckoutFormData) => {
     try {
       // Determine customer name automatically
       const customerName = user?.user_metadata?.full_name || user?.email || "Guest Customer";
+      const deliveryAddress = getDeliveryAddress(data);
+
+      // 1. Upload the screenshot if the customer paid the Till manually
+      // The bucket is private, so only the path is stored; staff open the
+      // screenshot through a signed link from the dashboard.
+      let screenshotPath: string | null = null;
+      if (data.paymentMethod === "mpesa_till" && data.paymentScreenshot) {
+        screenshotPath = await uploadPaymentProof(data.paymentScreenshot[0], user?.id);
+      }
+
+      // 2. Place the order. Prices, totals and stock are checked on the server,
+      // and the order and its items are written in a single transaction.
+      const order = await placeOrder(cartLines, {
+        customer_name: customerName,
+        customer_phone: data.phone,
+        fulfillment_method: data.fulfillmentMethod,
+        delivery_zone_id: deliveryAddress?.delivery_zone_id ?? null,
+        shipping_address: deliveryAddress ? toShippingAddress(deliveryAddress) : null,
+        pickup_location_id: data.fulfillmentMethod === "pickup" ? data.pickupLocationId : null,
+        delivery_date: data.deliveryDate,
+        delivery_slot_id: data.deliverySlotId,
+        payment_method: data.paymentMethod,
+        payment_proof_path: screenshotPath,
+        mpesa_receipt_number: data.paymentMethod === "mpesa_till" ? data.mpesaCode : null,
+        promotion_code: promotion ? promotion.promotion_code : null,
+      }).catch((orderError: Error) => {
+        // The slot, or the code's last use, may have been taken while the
+        // customer was paying.
+        queryClient.invalidateQueries({ queryKey: deliveryKeys.schedule() });
+        queryClient.invalidateQueries({ queryKey: promotionKeys.all });
+        throw new Error(`Failed to place order: ${orderError.message}`);
+      });
+      const orderId = order.id;
+
+      // Saving the address is a convenience: the order is placed either way.
+      if (user && deliveryAddress && data.addressId === NEW_ADDRESS && data.saveAddress) {
+        try {
+          await createAddress({ ...deliveryAddress, user_id: user.id });
+          queryClient.invalidateQueries({ queryKey: addressKeys.all });
+        } catch (addressError) {
+          toast.error(`Your order was placed, but the address could not be saved: ${(addressError as Error).message}`);
+        }
+      }
+
+      // 3a. STK push: the payment dialog takes over from here.
+      if (data.paymentMethod === "mpesa_stk") {
+        setStkOrder({ id: orderId, phone: data.phone, amount: order.total_amount });
+        return;
+      }
 
-      // 1. Upload screenshot
-      const file = data.paymentScreenshot[0];
-      const fileExt = file.name.split('.').pop();
-      const filePath = `${user?.id || 'guests'}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('payment-proofs')
-        .upload(filePath, file);
-
-      if (uploadError) throw new Error(`Screenshot upload failed: ${uploadError.message}`);
-
-      const { data: urlData } = supabase.storage
-        .from('payment-proofs')
-        .getPublicUrl(filePath);
-
-      const screenshotUrl = urlData.publicUrl;
-
-      // 2. Insert order and order items
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          user_id: user?.id,
-          customer_name: customerName,
-          customer_phone: data.phone,
-          delivery_address: data.address,
-          subtotal: total,
-          delivery_fee: STANDARD_DELIVERY_FEE,
-          total_amount: grandTotal,
-          payment_proof_url: screenshotUrl,
-        })
-        .select('id')
-        .single();
-      
-      if (orderError) throw new Error(`Failed to save order: ${orderError.message}`);
-      const orderId = orderData.id;
-
-      const orderItems = items.map(item => ({
-        order_id: orderId,
-        product_id: item.id,
-        quantity: item.quantity,
-        price_at_purchase: item.price,
-      }));
-
-      const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
-      if (itemsError) throw new Error(`Failed to save order items: ${itemsError.message}`);
-
-      // 3. Send WhatsApp message and show success
-      sendWhatsAppMessage({ ...data, orderId, screenshotUrl, customerName });
+      // 3b. Till: send WhatsApp message and show success
+      sendWhatsAppMessage({
+        ...data,
+        orderId,
+        customerName,
+        totalAmount: order.total_amount,
+        deliveryAddress: order.delivery_address,
+        deliverySchedule: formatDeliverySchedule(order) ?? "",
+      });
 
       toast.success("Order submitted successfully!", {
         description: "We will verify your payment and contact you shortly.",
@@ -147,102 +285,382 @@ ${details.screenshotUrl}
     }
   };
 
+  const handleStkPaid = () => {
+    toast.success("Payment received!", {
+      description: "Your order is confirmed and will be baked shortly.",
+    });
+    clearCart();
+    navigate("/orders");
+  };
+
+  const handleStkDialogChange = (open: boolean) => {
+    if (open) return;
+    // The order already exists, so it can still be paid for from My Orders.
+    toast.info("Your order has been saved.", {
+      description: "You can complete the M-Pesa payment from My Orders.",
+    });
+    clearCart();
+    navigate("/orders");
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
       <div className="container mx-auto px-4 py-12">
         <h1 className="text-5xl font-bold mb-12">Checkout</h1>
         <div className="grid lg:grid-cols-3 gap-8">
-          <div className="lg:col-span-2 space-y-8">
-            <Card>
-              <CardHeader>
-                <CardTitle>Step 1: Payment</CardTitle>
-                <CardDescription>
-                  Please pay <span className="font-bold text-primary">Ksh {grandTotal.toFixed(2)}</span> via M-pesa.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="bg-muted p-4 rounded-lg">
-                  <h3 className="font-semibold text-lg mb-2">M-pesa Instructions</h3>
-                  <ol className="list-decimal list-inside space-y-2 text-muted-foreground">
-                    <li>Go to M-pesa on your phone</li>
-                    <li>Select "Lipa na M-pesa"</li>
-                    <li>Select "Buy Goods and Services"</li>
-                    <li>
-                      Enter Till Number: <strong className="text-foreground">3107416</strong>
-                    </li>
-                    <li>
-                      Enter the exact amount: <strong className="text-foreground">Ksh {grandTotal.toFixed(2)}</strong>
-                    </li>
-                    <li>Enter your M-pesa PIN and send</li>
-                    <li>You will receive a confirmation SMS from M-pesa</li>
-                    <li>Upload a screenshot of the confirmation message below</li>
-                  </ol>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>Step 2: Delivery & Confirmation</CardTitle>
-                <CardDescription>
-                  Enter your delivery details and upload your payment proof.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                    {/* Full Name Field is removed */}
+          <div className="lg:col-span-2">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Step 1: Payment</CardTitle>
+                    <CardDescription>
+                      Please pay <span className="font-bold text-primary">Ksh {grandTotal.toFixed(2)}</span> via M-pesa.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
                     <FormField
                       control={form.control}
-                      name="phone"
+                      name="paymentMethod"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Phone Number</FormLabel>
+                          <FormLabel>Payment Method</FormLabel>
                           <FormControl>
-                            <Input placeholder="e.g. 0712345678" {...field} />
+                            <RadioGroup value={field.value} onValueChange={field.onChange} className="grid sm:grid-cols-2 gap-4">
+                              <label className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer has-[:checked]:border-primary">
+                                <RadioGroupItem value="mpesa_stk" className="mt-1" />
+                                <div>
+                                  <p className="font-medium">M-Pesa prompt</p>
+                                  <p className="text-sm text-muted-foreground">We send a payment request to your phone.</p>
+                                </div>
+                              </label>
+                              <label className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer has-[:checked]:border-primary">
+                                <RadioGroupItem value="mpesa_till" className="mt-1" />
+                                <div>
+                                  <p className="font-medium">Pay to Till</p>
+                                  <p className="text-sm text-muted-foreground">Pay manually and upload a screenshot.</p>
+                                </div>
+                              </label>
+                            </RadioGroup>
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
+
+                    {paymentMethod === "mpesa_till" ? (
+                      <div className="bg-muted p-4 rounded-lg">
+                        <h3 className="font-semibold text-lg mb-2">M-pesa Instructions</h3>
+                        <ol className="list-decimal list-inside space-y-2 text-muted-foreground">
+                          <li>Go to M-pesa on your phone</li>
+                          <li>Select "Lipa na M-pesa"</li>
+                          <li>Select "Buy Goods and Services"</li>
+                          <li>
+                            Enter Till Number: <strong className="text-foreground">3107416</strong>
+                          </li>
+                          <li>
+                            Enter the exact amount: <strong className="text-foreground">Ksh {grandTotal.toFixed(2)}</strong>
+                          </li>
+                          <li>Enter your M-pesa PIN and send</li>
+                          <li>You will receive a confirmation SMS from M-pesa</li>
+                          <li>Enter the confirmation code and upload a screenshot of the message below</li>
+                        </ol>
+                      </div>
+                    ) : (
+                      <div className="bg-muted p-4 rounded-lg text-muted-foreground">
+                        When you submit your order, an M-Pesa prompt for{" "}
+                        <strong className="text-foreground">Ksh {grandTotal.toFixed(2)}</strong> will be sent to the
+                        phone number below. Enter your M-Pesa PIN to pay and your order is confirmed straight away.
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Step 2: Delivery & Confirmation</CardTitle>
+                    <CardDescription>
+                      {paymentMethod === "mpesa_till"
+                        ? "Choose delivery or pickup and when you want your order, then upload your payment proof."
+                        : "Choose delivery or pickup and when you want your order, then enter the M-Pesa number to charge."}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
                     <FormField
                       control={form.control}
-                      name="address"
+                      name="fulfillmentMethod"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Delivery Address</FormLabel>
+                          <FormLabel>How would you like to get your order?</FormLabel>
                           <FormControl>
-                            <Textarea placeholder="Please provide your full delivery address" {...field} />
+                            <RadioGroup value={field.value} onValueChange={field.onChange} className="grid sm:grid-cols-2 gap-4">
+                              <label className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer has-[:checked]:border-primary">
+                                <RadioGroupItem value="delivery" className="mt-1" />
+                                <div>
+                                  <p className="font-medium">{FULFILLMENT_METHOD_LABELS.delivery}</p>
+                                  <p className="text-sm text-muted-foreground">We bring it to you. The fee depends on your area.</p>
+                                </div>
+                              </label>
+                              <label className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer has-[:checked]:border-primary">
+                                <RadioGroupItem value="pickup" className="mt-1" disabled={activePickupLocations.length === 0} />
+                                <div>
+                                  <p className="font-medium">{FULFILLMENT_METHOD_LABELS.pickup}</p>
+                                  <p className="text-sm text-muted-foreground">Collect it from one of our shops for free.</p>
+                                </div>
+                              </label>
+                            </RadioGroup>
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
+                    {fulfillmentMethod === "delivery" ? (
+                      <>
+                        {savedAddresses && savedAddresses.length > 0 && (
+                          <FormField
+                            control={form.control}
+                            name="addressId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Deliver To</FormLabel>
+                                <FormControl>
+                                  <RadioGroup value={field.value} onValueChange={field.onChange} className="grid gap-3">
+                                    {savedAddresses.map((address) => (
+                                      <label
+                                        key={address.id}
+                                        className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer has-[:checked]:border-primary"
+                                      >
+                                        <RadioGroupItem value={address.id} className="mt-1" />
+                                        <div className="text-sm">
+                                          <p className="font-medium">
+                                            {address.label || address.recipient_name}
+                                            {address.is_default && <span className="text-muted-foreground font-normal"> (default)</span>}
+                                          </p>
+                                          <p className="text-muted-foreground whitespace-pre-line">
+                                            {formatShippingAddress(toShippingAddress(address))}
+                                          </p>
+                                          <p className="text-muted-foreground">
+                                            {address.recipient_name}, {address.recipient_phone}
+                                          </p>
+                                        </div>
+                                      </label>
+                                    ))}
+                                    <label className="flex items-center gap-3 rounded-lg border p-4 cursor-pointer has-[:checked]:border-primary">
+                                      <RadioGroupItem value={NEW_ADDRESS} />
+                                      <p className="font-medium text-sm">Use a new address</p>
+                                    </label>
+                                  </RadioGroup>
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                        {addressId === NEW_ADDRESS && (
+                          <>
+                            <AddressFields zones={activeZones} showLabel={!!user} />
+                            {user && (
+                              <FormField
+                                control={form.control}
+                                name="saveAddress"
+                                render={({ field }) => (
+                                  <FormItem className="flex items-center gap-2 space-y-0">
+                                    <FormControl>
+                                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                                    </FormControl>
+                                    <FormLabel className="font-normal">Save this address to my address book</FormLabel>
+                                  </FormItem>
+                                )}
+                              />
+                            )}
+                          </>
+                        )}
+                        {chosenAddress && !chosenZone && (
+                          <p className="text-sm font-medium text-destructive">
+                            We no longer deliver to this address's zone. Please choose another address or store pickup.
+                          </p>
+                        )}
+                        {chosenZone && (
+                          <p className="text-sm text-muted-foreground">
+                            Delivery to {chosenZone.name} costs Ksh {chosenZone.fee.toFixed(2)}.
+                            {chosenZone.minimum_order > 0 && (
+                              <> Minimum order Ksh {chosenZone.minimum_order.toFixed(2)}.</>
+                            )}
+                            {chosenZone.free_delivery_threshold !== null && (
+                              <> Free delivery on orders of Ksh {chosenZone.free_delivery_threshold.toFixed(2)} or more.</>
+                            )}
+                          </p>
+                        )}
+                        {isBelowMinimumOrder && chosenZone && (
+                          <p className="text-sm font-medium text-destructive">
+                            Orders to {chosenZone.name} must be at least Ksh {chosenZone.minimum_order.toFixed(2)}.
+                            Add a little more to your cart or choose store pickup.
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <FormField
+                        control={form.control}
+                        name="pickupLocationId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Pickup Location</FormLabel>
+                            <FormControl>
+                              <RadioGroup value={field.value} onValueChange={field.onChange} className="grid gap-3">
+                                {activePickupLocations.map((location) => (
+                                  <label
+                                    key={location.id}
+                                    className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer has-[:checked]:border-primary"
+                                  >
+                                    <RadioGroupItem value={location.id} className="mt-1" />
+                                    <div>
+                                      <p className="font-medium">{location.name}</p>
+                                      <p className="text-sm text-muted-foreground">{location.address}</p>
+                                      {location.instructions && (
+                                        <p className="text-sm text-muted-foreground">{location.instructions}</p>
+                                      )}
+                                    </div>
+                                  </label>
+                                ))}
+                              </RadioGroup>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <FormField
+                      control={form.control}
+                      name="deliveryDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{fulfillmentMethod === "pickup" ? "Pickup Date" : "Delivery Date"}</FormLabel>
+                          {isLoadingSlots ? (
+                            <p className="text-sm text-muted-foreground">Loading available dates...</p>
+                          ) : !firstAvailableDate || !lastAvailableDate ? (
+                            <p className="text-sm text-muted-foreground">
+                              There are no delivery dates available right now. Please contact us to arrange delivery.
+                            </p>
+                          ) : (
+                            <FormControl>
+                              <Calendar
+                                mode="single"
+                                className="rounded-md border w-fit"
+                                selected={field.value ? fromDateKey(field.value) : undefined}
+                                onSelect={(date) => {
+                                  field.onChange(date ? toDateKey(date) : "");
+                                  form.setValue("deliverySlotId", "");
+                                }}
+                                defaultMonth={fromDateKey(field.value || firstAvailableDate)}
+                                fromDate={fromDateKey(firstAvailableDate)}
+                                toDate={fromDateKey(lastAvailableDate)}
+                                disabled={(date) => !availableDates.has(toDateKey(date))}
+                              />
+                            </FormControl>
+                          )}
+                          <FormDescription>
+                            Some cakes need a few days' notice, so the earliest date depends on your cart.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {deliveryDate && (
+                      <FormField
+                        control={form.control}
+                        name="deliverySlotId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{fulfillmentMethod === "pickup" ? "Pickup Time" : "Delivery Time"}</FormLabel>
+                            <FormControl>
+                              <RadioGroup value={field.value} onValueChange={field.onChange} className="grid sm:grid-cols-3 gap-3">
+                                {slotsOnDate.map((slot) => (
+                                  <label
+                                    key={slot.slot_id}
+                                    className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer has-[:checked]:border-primary"
+                                  >
+                                    <RadioGroupItem value={slot.slot_id} />
+                                    <div>
+                                      <p className="font-medium text-sm">{formatDeliveryWindow(slot.starts_at, slot.ends_at)}</p>
+                                      {slot.remaining <= 2 && (
+                                        <p className="text-xs text-muted-foreground">Only {slot.remaining} left</p>
+                                      )}
+                                    </div>
+                                  </label>
+                                ))}
+                              </RadioGroup>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    {/* Full Name Field is removed */}
                     <FormField
                       control={form.control}
-                      name="paymentScreenshot"
+                      name="phone"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Proof of Payment Screenshot</FormLabel>
+                          <FormLabel>Phone Number</FormLabel>
                           <FormControl>
-                            <Input
-                              type="file"
-                              accept="image/*"
-                              onChange={(e) => field.onChange(e.target.files)}
-                            />
+                            <Input placeholder="e.g. 0712345678" {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                     <Button type="submit" size="lg" className="w-full" disabled={form.formState.isSubmitting}>
-                      {form.formState.isSubmitting ? "Submitting..." : "Submit Order"}
+                    {paymentMethod === "mpesa_till" && (
+                      <FormField
+                        control={form.control}
+                        name="mpesaCode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>M-Pesa Confirmation Code</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="e.g. QJK4ABCD12"
+                                maxLength={10}
+                                className="font-mono uppercase"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              The code at the start of your M-Pesa confirmation SMS.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    {paymentMethod === "mpesa_till" && (
+                      <FormField
+                        control={form.control}
+                        name="paymentScreenshot"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Proof of Payment Screenshot</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="file"
+                                accept="image/*"
+                                onChange={(e) => field.onChange(e.target.files)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <Button type="submit" size="lg" className="w-full" disabled={form.formState.isSubmitting || isBelowMinimumOrder}>
+                      {form.formState.isSubmitting
+                        ? "Submitting..."
+                        : paymentMethod === "mpesa_stk" ? "Place Order & Pay" : "Submit Order"}
                     </Button>
-                  </form>
-                </Form>
-              </CardContent>
-            </Card>
+                  </CardContent>
+                </Card>
+              </form>
+            </Form>
           </div>
 
           <div className="lg:col-span-1">
@@ -250,21 +668,82 @@ ${details.screenshotUrl}
               <h2 className="text-2xl font-bold mb-6">Order Summary</h2>
               <div className="space-y-4 max-h-64 overflow-y-auto pr-2 mb-4">
                 {items.map(item => (
-                   <div key={item.id} className="flex justify-between items-center text-sm">
-                      <span className="font-medium">{item.name} x{item.quantity}</span>
-                      <span className="text-muted-foreground">Ksh {(item.price * item.quantity).toFixed(2)}</span>
+                   <div key={item.id} className="text-sm">
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium">
+                          {item.name}
+                          {item.variant_name && <span className="text-muted-foreground"> ({item.variant_name})</span>}
+                          {" "}x{item.quantity}
+                        </span>
+                        <span className="text-muted-foreground">Ksh {(item.price * item.quantity).toFixed(2)}</span>
+                      </div>
+                      {hasPersonalization(item.personalization) && (
+                        <PersonalizationDetails
+                          className="mt-1 text-xs"
+                          personalization={describePersonalization(item.personalization, personalizationOptions)}
+                        />
+                      )}
                    </div>
                 ))}
               </div>
+              <div className="border-t py-4 space-y-2">
+                {appliedCode ? (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <Tag className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-mono font-medium">{appliedCode}</span>
+                      {isCheckingPromotion && <span className="text-muted-foreground">Checking...</span>}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => setAppliedCode("")}>
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={applyPromotionCode} className="flex gap-2">
+                    <Input
+                      placeholder="Discount code"
+                      className="font-mono uppercase"
+                      value={codeInput}
+                      onChange={(e) => setCodeInput(e.target.value)}
+                    />
+                    <Button type="submit" variant="outline" disabled={!codeInput.trim()}>
+                      Apply
+                    </Button>
+                  </form>
+                )}
+                {promotionError && <p className="text-sm text-destructive">{promotionError.message}</p>}
+              </div>
               <div className="border-t pt-4 space-y-2">
                  <div className="flex justify-between text-muted-foreground">
                   <span>Subtotal</span>
                   <span>Ksh {total.toFixed(2)}</span>
                 </div>
+                {chosenSlot && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>{fulfillmentMethod === "pickup" ? "Pickup" : "Delivery"}</span>
+                    <span className="text-right">
+                      {formatDeliverySchedule({
+                        delivery_date: chosenSlot.delivery_date,
+                        delivery_starts_at: chosenSlot.starts_at,
+                        delivery_ends_at: chosenSlot.ends_at,
+                      })}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-muted-foreground">
                   <span>Delivery Fee</span>
-                  <span>Ksh {STANDARD_DELIVERY_FEE.toFixed(2)}</span>
+                  <span>
+                    {deliveryFee === null
+                      ? isBelowMinimumOrder ? "Below minimum" : "Choose an area"
+                      : deliveryFee === 0 ? "Free" : `Ksh ${deliveryFee.toFixed(2)}`}
+                  </span>
                 </div>
+                {promotion && discount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount ({promotion.promotion_code})</span>
+                    <span>-Ksh {discount.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-xl font-bold">
                   <span>Total</span>
                   <span className="text-primary">Ksh {grandTotal.toFixed(2)}</span>
@@ -274,6 +753,17 @@ ${details.screenshotUrl}
           </div>
         </div>
       </div>
+
+      {stkOrder && (
+        <MpesaPaymentDialog
+          open
+          onOpenChange={handleStkDialogChange}
+          orderId={stkOrder.id}
+          phone={stkOrder.phone}
+          amount={stkOrder.amount}
+          onPaid={handleStkPaid}
+        />
+      )}
     </div>
   );
 };
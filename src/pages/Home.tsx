@@ -1,6 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
 import Navigation from "@/components/Navigation";
+import { getFeaturedProducts, productKeys } from "@/data/products";
+import { categoryKeys, getCategories } from "@/data/categories";
 import ProductCard from "@/components/ProductCard";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
@@ -8,18 +9,13 @@ import heroImage from "@/assets/hero-cakes.jpg";
 
 const Home = () => {
   const { data: featuredProducts, isLoading } = useQuery({
-    queryKey: ["featured-products"],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("products")
-        .select("*")
-        .eq("featured", true)
-        .eq("in_stock", true)
-        .limit(4);
+    queryKey: productKeys.featured(),
+    queryFn: () => getFeaturedProducts(),
+  });
 
-      if (error) throw error;
-      return data;
-    },
+  const { data: categories, isLoading: isLoadingCategories } = useQuery({
+    queryKey: categoryKeys.list(),
+    queryFn: getCategories,
   });
 
   return (
@@ -82,6 +78,9 @@ const Home = () => {
                 price={Number(product.price)}
                 image_url={product.image_url || undefined}
                 in_stock={product.in_stock}
+                has_variants={(product.product_variants[0]?.count ?? 0) > 0}
+                rating_avg={product.rating_avg}
+                rating_count={product.rating_count}
               />
             ))}
           </div>
@@ -106,20 +105,35 @@ const Home = () => {
             </p>
           </div>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {["Birthday Cakes", "Wedding Cakes", "Cupcakes", "Custom Cakes"].map((category) => (
-              <Link key={category} to="/products" className="group">
-                <div className="relative h-64 rounded-lg overflow-hidden shadow-[var(--shadow-soft)] hover:shadow-[var(--shadow-card)] transition-all duration-300">
-                  <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
-                  <div className="absolute bottom-0 left-0 right-0 p-6">
-                    <h3 className="text-white text-2xl font-bold group-hover:scale-105 transition-transform">
-                      {category}
-                    </h3>
+          {isLoadingCategories ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-64 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {categories?.map((category) => (
+                <Link key={category.id} to={`/products?category=${category.slug}`} className="group">
+                  <div className="relative h-64 rounded-lg overflow-hidden bg-muted shadow-[var(--shadow-soft)] hover:shadow-[var(--shadow-card)] transition-all duration-300">
+                    {category.image_url && (
+                      <img
+                        src={category.image_url}
+                        alt={category.name}
+                        className="absolute inset-0 w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                      />
+                    )}
+                    <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
+                    <div className="absolute bottom-0 left-0 right-0 p-6">
+                      <h3 className="text-white text-2xl font-bold group-hover:scale-105 transition-transform">
+                        {category.name}
+                      </h3>
+                    </div>
                   </div>
-                </div>
-              </Link>
-            ))}
-          </div>
+                </Link>
+              ))}
+            </div>
+          )}
         </div>
       </section>
 
@@ -1,54 +1,42 @@
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
+import { getMyOrders, orderKeys } from "@/data/orders";
 import Navigation from "@/components/Navigation";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
-import { cn } from "@/lib/utils";
+import { getOrderStatusInfo } from "@/lib/orderStatus";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import OrderStatusTimeline from "@/components/OrderStatusTimeline";
+import MpesaPaymentDialog from "@/components/MpesaPaymentDialog";
+import { usePaymentProofUrls } from "@/hooks/use-payment-proof-urls";
+import { useReferenceImageUrls } from "@/hooks/use-reference-image-urls";
+import PersonalizationDetails from "@/components/PersonalizationDetails";
+import { toPersonalizationSnapshot } from "@/lib/personalization";
+import { formatDeliverySchedule } from "@/lib/delivery";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
 import { Separator } from "@/components/ui/separator";
-import { Package } from "lucide-react";
+import { CalendarClock, MapPin, Package, Smartphone } from "lucide-react";
+import { toast } from "sonner";
 
 const Orders = () => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [payingOrder, setPayingOrder] = useState<{ id: string; phone: string; amount: number } | null>(null);
 
   const { data: orders, isLoading } = useQuery({
-    queryKey: ["user-orders", user?.id],
-    queryFn: async () => {
-      if (!user) return [];
-      const { data, error } = await supabase
-        .from("orders")
-        .select(`
-          *,
-          order_items (
-            quantity,
-            price_at_purchase,
-            products ( name, image_url )
-          )
-        `)
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return data;
-    },
+    queryKey: orderKeys.mine(user?.id),
+    queryFn: () => getMyOrders(user!.id),
     enabled: !!user,
   });
 
-  const getStatusInfo = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return { text: 'Pending', description: 'Your order is pending confirmation.' };
-      case 'approved':
-        return { text: 'Approved', description: 'Your order has been approved and is waiting for delivery.' };
-      case 'delivered':
-        return { text: 'Delivered', description: 'Your order has been delivered.' };
-      default:
-        return { text: status, description: '' };
-    }
-  };
+  const proofUrls = usePaymentProofUrls(orders?.map((order) => order.payment_proof_path) ?? []);
+  const referenceImageUrls = useReferenceImageUrls(
+    orders?.flatMap((order) =>
+      order.order_items.map((item) => toPersonalizationSnapshot(item.personalization)?.reference_image_path),
+    ) ?? [],
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -61,7 +49,7 @@ const Orders = () => {
         ) : orders && orders.length > 0 ? (
           <div className="space-y-8">
             {orders.map((order) => {
-              const statusInfo = getStatusInfo(order.status);
+              const statusInfo = getOrderStatusInfo(order.status);
               return (
                 <Card key={order.id}>
                   <CardHeader className="flex flex-col sm:flex-row justify-between sm:items-center">
@@ -71,40 +59,79 @@ const Orders = () => {
                         Placed on {format(new Date(order.created_at), "PPP")} - {statusInfo.description}
                       </CardDescription>
                     </div>
-                    <Badge
-                      variant="outline"
-                      className={cn("w-fit mt-2 sm:mt-0 capitalize", {
-                        "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/40 dark:text-green-300 dark:border-green-700": order.status === 'delivered',
-                        "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/40 dark:text-blue-300 dark:border-blue-700": order.status === 'approved',
-                        "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/40 dark:text-yellow-300 dark:border-yellow-700": order.status === 'pending',
-                      })}
-                    >
-                      {statusInfo.text}
-                    </Badge>
+                    <OrderStatusBadge status={order.status} className="mt-2 sm:mt-0" />
                   </CardHeader>
                   <CardContent>
+                    {formatDeliverySchedule(order) && (
+                      <p className="flex items-center gap-2 text-sm mb-2">
+                        <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                        {order.fulfillment_method === "pickup" ? "Pickup" : "Delivery"}:{" "}
+                        <span className="font-medium">{formatDeliverySchedule(order)}</span>
+                      </p>
+                    )}
+                    <p className="flex items-center gap-2 text-sm mb-4">
+                      <MapPin className="h-4 w-4 text-muted-foreground" />
+                      {order.fulfillment_method === "pickup" ? "Pickup from" : "Deliver to"}:{" "}
+                      <span className="font-medium">{order.delivery_address.split("\n")[0]}</span>
+                    </p>
                     <div className="space-y-4">
-                      {order.order_items.map((item, index) => (
-                        <div key={index} className="flex items-center gap-4">
-                          <img
-                            src={item.products?.image_url || ''}
-                            alt={item.products?.name || 'Product'}
-                            className="h-16 w-16 rounded-md object-cover bg-muted"
-                          />
-                          <div className="flex-grow">
-                            <p className="font-medium">{item.products?.name}</p>
-                            <p className="text-sm text-muted-foreground">
-                              Quantity: {item.quantity}
+                      {order.order_items.map((item, index) => {
+                        const personalization = toPersonalizationSnapshot(item.personalization);
+                        return (
+                          <div key={index} className="flex items-center gap-4">
+                            <img
+                              src={item.products?.image_url || ''}
+                              alt={item.products?.name || 'Product'}
+                              className="h-16 w-16 rounded-md object-cover bg-muted"
+                            />
+                            <div className="flex-grow">
+                              <p className="font-medium">{item.products?.name}</p>
+                              {item.variant_name && (
+                                <p className="text-sm text-muted-foreground">{item.variant_name}</p>
+                              )}
+                              {personalization && (
+                                <PersonalizationDetails
+                                  className="my-1"
+                                  personalization={personalization}
+                                  referenceImageUrl={referenceImageUrls[personalization.reference_image_path ?? ""]}
+                                />
+                              )}
+                              <p className="text-sm text-muted-foreground">
+                                Quantity: {item.quantity}
+                              </p>
+                            </div>
+                            <p className="font-medium">
+                              Ksh {(item.price * item.quantity).toFixed(2)}
                             </p>
                           </div>
-                          <p className="font-medium">
-                            Ksh {(item.price_at_purchase * item.quantity).toFixed(2)}
-                          </p>
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
+                    <Separator className="my-6" />
+                    <h3 className="font-semibold mb-4">Order Progress</h3>
+                    <OrderStatusTimeline history={order.order_status_history} />
                   </CardContent>
-                  <CardFooter className="bg-muted/50 px-6 py-3 flex justify-end font-bold">
+                  <CardFooter className="bg-muted/50 px-6 py-3 flex justify-end items-center gap-4 font-bold">
+                    {order.payment_proof_path && proofUrls[order.payment_proof_path] && (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={proofUrls[order.payment_proof_path]} target="_blank" rel="noopener noreferrer">
+                          View Payment Proof
+                        </a>
+                      </Button>
+                    )}
+                    {order.payment_method === "mpesa_stk" && order.payment_status === "unpaid" && order.status === "pending" && (
+                      <Button
+                        size="sm"
+                        onClick={() => setPayingOrder({ id: order.id, phone: order.customer_phone, amount: order.total_amount })}
+                      >
+                        <Smartphone className="mr-2 h-4 w-4" /> Pay with M-Pesa
+                      </Button>
+                    )}
+                    {order.discount_amount > 0 && (
+                      <span className="font-normal text-sm text-muted-foreground">
+                        {order.promotion_code ?? "Discount"}: -Ksh {order.discount_amount.toFixed(2)}
+                      </span>
+                    )}
                     Total: Ksh {order.total_amount.toFixed(2)}
                   </CardFooter>
                 </Card>
@@ -124,6 +151,21 @@ const Orders = () => {
           </div>
         )}
       </div>
+
+      {payingOrder && (
+        <MpesaPaymentDialog
+          open
+          onOpenChange={(open) => !open && setPayingOrder(null)}
+          orderId={payingOrder.id}
+          phone={payingOrder.phone}
+          amount={payingOrder.amount}
+          onPaid={() => {
+            toast.success("Payment received!");
+            setPayingOrder(null);
+            queryClient.invalidateQueries({ queryKey: orderKeys.all });
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,12 +1,12 @@
+import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
 import Navigation from "@/components/Navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useCart } from "@/contexts/CartContext";
 import { useAuth } from "@/contexts/AuthContext";
-import { ArrowLeft, ShoppingCart, Star } from "lucide-react";
+import { ArrowLeft, ImagePlus, ShoppingCart, Star, Trash2, X } from "lucide-react";
 import ReviewCard from "@/components/ReviewCard";
 import StarRating from "@/components/StarRating";
 import { useForm, Controller } from "react-hook-form";
@@ -16,6 +16,45 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { VariantOptions, findVariant, getVariantOptions, getVariantPrice } from "@/lib/variants";
+import PersonalizationFields from "@/components/PersonalizationFields";
+import { usePersonalizationOptions } from "@/hooks/use-personalization-options";
+import { useReviewPhotoUrls } from "@/hooks/use-review-photo-urls";
+import { Personalization, getPersonalizationSurcharge, uploadReferenceImage } from "@/lib/personalization";
+import {
+  MAX_REVIEW_PHOTOS,
+  REVIEW_REPORT_REASON_LABELS,
+  Review,
+  ReviewReportReason,
+  removeReviewPhotos,
+  uploadReviewPhoto,
+} from "@/lib/reviews";
+import { getProduct, productKeys } from "@/data/products";
+import {
+  canReviewProduct,
+  createReview,
+  deleteReview,
+  getProductReviews,
+  getRatingDistribution,
+  reportReview,
+  reviewKeys,
+  updateReview,
+} from "@/data/reviews";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 const reviewSchema = z.object({
   rating: z.number().min(1, "Please select a rating").max(5),
@@ -23,62 +62,186 @@ const reviewSchema = z.object({
 });
 type ReviewFormData = z.infer<typeof reviewSchema>;
 
+interface ReportReviewDialogProps {
+  review: Review | null;
+  onClose: () => void;
+}
+
+// Lets a signed-in customer flag a review for the moderators.
+const ReportReviewDialog = ({ review, onClose }: ReportReviewDialogProps) => {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReviewReportReason>("spam");
+  const [details, setDetails] = useState("");
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !review) throw new Error("You must be logged in to report a review.");
+      await reportReview({
+        review_id: review.id,
+        reporter_id: user.id,
+        reason,
+        details: details.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      toast.success("Thanks for letting us know. Our team will take a look.");
+      setReason("spam");
+      setDetails("");
+      onClose();
+    },
+    onError: (error) => {
+      if ("code" in error && error.code === "23505") {
+        toast.error("You have already reported this review.");
+        onClose();
+      } else {
+        toast.error(`Failed to report review: ${error.message}`);
+      }
+    },
+  });
+
+  return (
+    <Dialog open={!!review} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report this review</DialogTitle>
+          <DialogDescription>Tell us what is wrong with it. The author will not see your report.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReviewReportReason)}>
+            {Object.entries(REVIEW_REPORT_REASON_LABELS).map(([value, label]) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`report-reason-${value}`} />
+                <Label htmlFor={`report-reason-${value}`} className="font-normal">{label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="grid gap-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              maxLength={500}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => reportMutation.mutate()} disabled={reportMutation.isPending}>
+            {reportMutation.isPending ? "Sending..." : "Send Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { addItem } = useCart();
   const { user } = useAuth();
+  const [selection, setSelection] = useState<VariantOptions>({});
+  const [personalization, setPersonalization] = useState<Personalization>({});
+  const [referenceFile, setReferenceFile] = useState<File | null>(null);
+  const [isAddingToCart, setIsAddingToCart] = useState(false);
+  const [reviewPhotos, setReviewPhotos] = useState<File[]>([]);
+  // Photos already on the customer's review that they have not removed.
+  const [keptPhotoPaths, setKeptPhotoPaths] = useState<string[]>([]);
+  const [isDeleteReviewOpen, setIsDeleteReviewOpen] = useState(false);
+  const [reviewToReport, setReviewToReport] = useState<Review | null>(null);
+  const personalizationOptions = usePersonalizationOptions();
+  const activePersonalizationOptions = personalizationOptions.filter((option) => option.active);
 
   // --- Data Fetching ---
   const { data: product, isLoading: isLoadingProduct } = useQuery({
-    queryKey: ["product", id],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("products")
-        .select(`*, category:categories(name)`)
-        .eq("id", id)
-        .single();
-      if (error) throw error;
-      return data;
-    },
+    queryKey: productKeys.detail(id!),
+    queryFn: () => getProduct(id!),
     enabled: !!id,
   });
 
+  // Published reviews, plus the customer's own while it awaits approval.
   const { data: reviews, isLoading: isLoadingReviews } = useQuery({
-    queryKey: ["reviews", id],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("reviews")
-        .select(`*, author:profiles(full_name, avatar_url, email)`) // MODIFIED: Fetches email
-        .eq("product_id", id)
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      return data;
-    },
+    queryKey: reviewKeys.forProduct(id!, user?.id ?? null),
+    queryFn: () => getProductReviews(id!, user?.id ?? null),
+    enabled: !!id,
+  });
+
+  const { data: ratingDistribution } = useQuery({
+    queryKey: reviewKeys.distribution(id!),
+    queryFn: () => getRatingDistribution(id!),
     enabled: !!id,
   });
 
+  const { data: canReview } = useQuery({
+    queryKey: reviewKeys.canReview(id!, user?.id ?? null),
+    queryFn: () => canReviewProduct(id!),
+    enabled: !!id && !!user,
+  });
+
+  const reviewPhotoUrls = useReviewPhotoUrls(reviews?.flatMap((review) => review.photo_paths) ?? []);
+
+  // The customer's own review, which the form edits instead of adding another.
+  const myReview = user ? reviews?.find((review) => review.user_id === user.id) : undefined;
+
   // --- Review Form ---
   const form = useForm<ReviewFormData>({
     resolver: zodResolver(reviewSchema),
     defaultValues: { rating: 0, comment: "" },
   });
+  const { reset: resetReviewForm } = form;
+
+  // Previews of the photos picked but not uploaded yet, released once the
+  // picks change or the page closes.
+  const [reviewPhotoPreviews, setReviewPhotoPreviews] = useState<string[]>([]);
+  useEffect(() => {
+    const urls = reviewPhotos.map((file) => URL.createObjectURL(file));
+    setReviewPhotoPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [reviewPhotos]);
+
+  useEffect(() => {
+    resetReviewForm(myReview ? { rating: myReview.rating, comment: myReview.comment ?? "" } : { rating: 0, comment: "" });
+    setKeptPhotoPaths(myReview?.photo_paths ?? []);
+    setReviewPhotos([]);
+  }, [myReview, resetReviewForm]);
 
   const reviewMutation = useMutation({
     mutationFn: async (data: ReviewFormData) => {
       if (!user || !id) throw new Error("You must be logged in to post a review.");
-      const { error } = await supabase.from("reviews").insert({
-        ...data,
-        user_id: user.id,
-        product_id: id,
+      const newPhotoPaths = await Promise.all(reviewPhotos.map((file) => uploadReviewPhoto(file, user.id)));
+      const photoPaths = [...keptPhotoPaths, ...newPhotoPaths];
+      const values = { rating: data.rating, comment: data.comment, photo_paths: photoPaths };
+      const review = await (myReview
+        ? updateReview(myReview.id, values)
+        : createReview({ ...values, user_id: user.id, product_id: id })
+      ).catch(async (error) => {
+        await removeReviewPhotos(newPhotoPaths);
+        throw error;
       });
-      if (error) throw error;
+      if (myReview) {
+        await removeReviewPhotos(myReview.photo_paths.filter((path) => !photoPaths.includes(path)));
+      }
+      return { review, isEdit: !!myReview };
     },
-    onSuccess: () => {
-      toast.success("Review submitted successfully!");
-      queryClient.invalidateQueries({ queryKey: ["reviews", id] });
-      form.reset();
+    onSuccess: ({ review, isEdit }) => {
+      if (isEdit) {
+        toast.success(
+          review.status === "pending"
+            ? "Review updated. Your changes will appear once our team has approved them."
+            : "Review updated.",
+        );
+      } else {
+        toast.success(
+          review.status === "pending"
+            ? "Thanks for your review! It will appear once our team has approved it."
+            : "Review submitted successfully!",
+        );
+      }
+      // The form is refilled from the saved review once it has reloaded.
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all });
+      queryClient.invalidateQueries({ queryKey: productKeys.detail(id!) });
     },
     onError: (error: any) => {
       if (error.code === '23505') { // Unique constraint violation
@@ -92,21 +255,76 @@ const ProductDetail = () => {
   const onSubmitReview = (data: ReviewFormData) => {
     reviewMutation.mutate(data);
   };
+
+  const deleteReviewMutation = useMutation({
+    mutationFn: async () => {
+      if (!myReview) return;
+      await deleteReview(myReview.id);
+      await removeReviewPhotos(myReview.photo_paths);
+    },
+    onSuccess: () => {
+      toast.success("Your review has been deleted.");
+      setIsDeleteReviewOpen(false);
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all });
+      queryClient.invalidateQueries({ queryKey: productKeys.detail(id!) });
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete review: ${error.message}`);
+    },
+  });
   
-  // --- UI Logic ---
-  const handleAddToCart = () => {
-    if (!product) return;
-    addItem({
-      id: product.id,
-      name: product.name,
-      price: Number(product.price),
-      image_url: product.image_url || undefined,
+  // --- Variants ---
+  const optionGroups = [...(product?.product_option_groups ?? [])].sort((a, b) => a.position - b.position);
+  const variants = [...(product?.product_variants ?? [])].sort((a, b) => a.position - b.position);
+  const hasVariants = variants.length > 0;
+  const isSelectionComplete = optionGroups.every((group) => !!selection[group.name]);
+  const selectedVariant = hasVariants && isSelectionComplete ? findVariant(variants, selection) : undefined;
+
+  // A choice is offered if some in-stock variant has it alongside the other choices made so far.
+  const isChoiceAvailable = (groupName: string, choice: string) =>
+    variants.some((variant) => {
+      const options = getVariantOptions(variant);
+      return variant.in_stock
+        && options[groupName] === choice
+        && Object.entries(selection).every(([name, value]) => name === groupName || options[name] === value);
     });
-  };
 
-  const averageRating = reviews && reviews.length > 0
-    ? reviews.reduce((acc, review) => acc + review.rating, 0) / reviews.length
-    : 0;
+  const variantPrices = variants
+    .filter((variant) => variant.in_stock)
+    .map((variant) => getVariantPrice(product?.price ?? 0, variant));
+  const personalizationSurcharge = getPersonalizationSurcharge(personalization, activePersonalizationOptions);
+  const displayPrice = (selectedVariant
+    ? getVariantPrice(product?.price ?? 0, selectedVariant)
+    : hasVariants && variantPrices.length > 0
+      ? Math.min(...variantPrices)
+      : Number(product?.price ?? 0)) + personalizationSurcharge;
+  const displayImage = selectedVariant?.image_url || product?.image_url || '';
+  const canAddToCart = !!product?.in_stock && (!hasVariants || !!selectedVariant?.in_stock);
+
+  // --- UI Logic ---
+  const handleAddToCart = async () => {
+    if (!product || !canAddToCart) return;
+    setIsAddingToCart(true);
+    try {
+      const referenceImagePath = referenceFile ? await uploadReferenceImage(referenceFile, user?.id) : undefined;
+      const basePrice = selectedVariant ? getVariantPrice(product.price, selectedVariant) : Number(product.price);
+      addItem({
+        product_id: product.id,
+        variant_id: selectedVariant?.id ?? null,
+        variant_name: selectedVariant?.name,
+        name: product.name,
+        price: basePrice + personalizationSurcharge,
+        image_url: displayImage || undefined,
+        personalization: { ...personalization, reference_image_path: referenceImagePath },
+      });
+      setPersonalization({});
+      setReferenceFile(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not add this item to your cart.");
+    } finally {
+      setIsAddingToCart(false);
+    }
+  };
 
   if (isLoadingProduct) {
     return <div>Loading...</div>; // Simplified loading state
@@ -127,22 +345,82 @@ const ProductDetail = () => {
         <div className="grid md:grid-cols-2 gap-12">
           {/* Product Details */}
           <div className="aspect-square overflow-hidden rounded-lg bg-muted shadow-[var(--shadow-card)]">
-            <img src={product.image_url || ''} alt={product.name} className="w-full h-full object-cover" />
+            <img src={displayImage} alt={product.name} className="w-full h-full object-cover" />
           </div>
           <div>
             <h1 className="text-4xl font-bold mb-4">{product.name}</h1>
             <div className="flex items-center gap-2 mb-4">
               <Star className="h-5 w-5 text-yellow-500 fill-yellow-500" />
-              <span className="font-bold">{averageRating.toFixed(1)}</span>
-              <span className="text-muted-foreground">({reviews?.length || 0} reviews)</span>
+              <span className="font-bold">{Number(product.rating_avg ?? 0).toFixed(1)}</span>
+              <span className="text-muted-foreground">({product.rating_count} reviews)</span>
             </div>
-            <p className="text-4xl font-bold text-primary mb-6">${Number(product.price).toFixed(2)}</p>
+            <p className="text-4xl font-bold text-primary mb-6">
+              {hasVariants && !selectedVariant && <span className="text-lg font-medium text-muted-foreground mr-2">From</span>}
+              ${displayPrice.toFixed(2)}
+            </p>
             <div className="mb-8">
               <h2 className="text-xl font-semibold mb-3">Description</h2>
               <p className="text-muted-foreground leading-relaxed">{product.description}</p>
             </div>
-            <Button onClick={handleAddToCart} disabled={!product.in_stock} size="lg" className="w-full md:w-auto">
-              <ShoppingCart className="mr-2 h-5 w-5" /> {product.in_stock ? "Add to Cart" : "Out of Stock"}
+            {optionGroups.length > 0 && (
+              <div className="space-y-4 mb-8">
+                {optionGroups.map((group) => (
+                  <div key={group.id}>
+                    <h2 className="text-sm font-semibold mb-2">
+                      {group.name}
+                      {selection[group.name] && <span className="font-normal text-muted-foreground">: {selection[group.name]}</span>}
+                    </h2>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      className="flex-wrap justify-start"
+                      value={selection[group.name] ?? ""}
+                      onValueChange={(value) => {
+                        const next = { ...selection };
+                        if (value) {
+                          next[group.name] = value;
+                        } else {
+                          delete next[group.name];
+                        }
+                        setSelection(next);
+                      }}
+                    >
+                      {group.choices.map((choice) => (
+                        <ToggleGroupItem
+                          key={choice}
+                          value={choice}
+                          disabled={!isChoiceAvailable(group.name, choice)}
+                          className="px-4"
+                        >
+                          {choice}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-3">Personalize It</h2>
+              <PersonalizationFields
+                value={personalization}
+                onChange={setPersonalization}
+                options={activePersonalizationOptions}
+                referenceFile={referenceFile}
+                onReferenceFileChange={setReferenceFile}
+              />
+            </div>
+            <Button onClick={handleAddToCart} disabled={!canAddToCart || isAddingToCart} size="lg" className="w-full md:w-auto">
+              <ShoppingCart className="mr-2 h-5 w-5" />{" "}
+              {isAddingToCart
+                ? "Adding..."
+                : !product.in_stock
+                  ? "Out of Stock"
+                  : hasVariants && !isSelectionComplete
+                    ? "Choose Options"
+                    : hasVariants && !selectedVariant?.in_stock
+                      ? "Unavailable"
+                      : "Add to Cart"}
             </Button>
           </div>
         </div>
@@ -153,17 +431,53 @@ const ProductDetail = () => {
         <div className="grid md:grid-cols-3 gap-12">
           <div className="md:col-span-2 space-y-6">
             <h2 className="text-3xl font-bold">Customer Reviews</h2>
+            {product.rating_count > 0 && (
+              <div className="flex flex-col gap-6 rounded-lg border p-6 sm:flex-row sm:items-center">
+                <div className="text-center sm:w-40">
+                  <p className="text-5xl font-bold">{Number(product.rating_avg ?? 0).toFixed(1)}</p>
+                  <div className="mt-2 flex justify-center gap-0.5">
+                    {[...Array(5)].map((_, i) => (
+                      <Star
+                        key={i}
+                        className={`h-4 w-4 ${i < Math.round(product.rating_avg ?? 0) ? "text-yellow-500 fill-yellow-500" : "text-muted-foreground"}`}
+                      />
+                    ))}
+                  </div>
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    {product.rating_count} {product.rating_count === 1 ? "review" : "reviews"}
+                  </p>
+                </div>
+                <div className="flex-1 space-y-2">
+                  {ratingDistribution?.map(({ rating, review_count }) => (
+                    <div key={rating} className="flex items-center gap-3 text-sm">
+                      <span className="flex w-8 items-center gap-1">
+                        {rating} <Star className="h-3.5 w-3.5 text-yellow-500 fill-yellow-500" />
+                      </span>
+                      <Progress value={(review_count / product.rating_count) * 100} className="h-2 flex-1" />
+                      <span className="w-8 text-right text-muted-foreground">{review_count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             {isLoadingReviews ? (
               <p>Loading reviews...</p>
             ) : reviews && reviews.length > 0 ? (
               reviews.map(review => (
                 <ReviewCard
                   key={review.id}
-                  // MODIFIED: Fallback from full_name to email
-                  authorName={review.author?.full_name || review.author?.email || 'Anonymous'}
+                  authorName={review.author?.full_name || 'Anonymous'}
+                  avatarUrl={review.author?.avatar_url || undefined}
                   rating={review.rating}
                   comment={review.comment}
                   createdAt={review.created_at}
+                  editedAt={review.edited_at}
+                  verifiedPurchase={review.verified_purchase}
+                  photoUrls={review.photo_paths.map((path) => reviewPhotoUrls[path]).filter(Boolean)}
+                  reply={review.reply}
+                  repliedAt={review.replied_at}
+                  isPending={review.status === "pending"}
+                  onReport={user && review.user_id !== user.id ? () => setReviewToReport(review) : undefined}
                 />
               ))
             ) : (
@@ -174,12 +488,26 @@ const ProductDetail = () => {
           <div>
             <Card>
               <CardHeader>
-                <CardTitle>Write a Review</CardTitle>
+                <CardTitle>{myReview ? "Your Review" : "Write a Review"}</CardTitle>
               </CardHeader>
               <CardContent>
-                {user ? (
+                {user && !myReview && canReview === false ? (
+                  <p className="text-center text-muted-foreground">
+                    Only customers who have received this product can review it.
+                  </p>
+                ) : user ? (
                   <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmitReview)} className="space-y-6">
+                      {myReview && (
+                        <p className="text-sm text-muted-foreground">
+                          {myReview.status === "pending"
+                            ? "Your review is awaiting approval."
+                            : myReview.status === "hidden"
+                              ? "Your review has been hidden by our team."
+                              : "Your review is published."}{" "}
+                          You can change it or delete it below.
+                        </p>
+                      )}
                       <FormField
                         control={form.control}
                         name="rating"
@@ -206,9 +534,78 @@ const ProductDetail = () => {
                           </FormItem>
                         )}
                       />
-                      <Button type="submit" className="w-full" disabled={reviewMutation.isLoading}>
-                        {reviewMutation.isLoading ? "Submitting..." : "Submit Review"}
+                      <div className="space-y-2">
+                        <Label>Photos (optional)</Label>
+                        <div className="flex flex-wrap gap-2">
+                          {keptPhotoPaths.map((path) => (
+                            <div key={path} className="relative h-16 w-16">
+                              <img
+                                src={reviewPhotoUrls[path]}
+                                alt=""
+                                className="h-full w-full rounded-md border object-cover"
+                              />
+                              <button
+                                type="button"
+                                className="absolute -right-1.5 -top-1.5 rounded-full bg-background p-0.5 shadow"
+                                onClick={() => setKeptPhotoPaths((current) => current.filter((p) => p !== path))}
+                              >
+                                <X className="h-3 w-3" />
+                                <span className="sr-only">Remove photo</span>
+                              </button>
+                            </div>
+                          ))}
+                          {reviewPhotos.map((_, index) => (
+                            <div key={index} className="relative h-16 w-16">
+                              <img
+                                src={reviewPhotoPreviews[index]}
+                                alt=""
+                                className="h-full w-full rounded-md border object-cover"
+                              />
+                              <button
+                                type="button"
+                                className="absolute -right-1.5 -top-1.5 rounded-full bg-background p-0.5 shadow"
+                                onClick={() => setReviewPhotos((current) => current.filter((_, i) => i !== index))}
+                              >
+                                <X className="h-3 w-3" />
+                                <span className="sr-only">Remove photo</span>
+                              </button>
+                            </div>
+                          ))}
+                          {keptPhotoPaths.length + reviewPhotos.length < MAX_REVIEW_PHOTOS && (
+                            <label className="flex h-16 w-16 cursor-pointer items-center justify-center rounded-md border border-dashed">
+                              <ImagePlus className="h-5 w-5 text-muted-foreground" />
+                              <span className="sr-only">Add a photo</span>
+                              <input
+                                type="file"
+                                accept="image/jpeg,image/png,image/webp"
+                                multiple
+                                className="sr-only"
+                                onChange={(e) => {
+                                  const files = Array.from(e.target.files ?? []);
+                                  setReviewPhotos((current) =>
+                                    [...current, ...files].slice(0, MAX_REVIEW_PHOTOS - keptPhotoPaths.length));
+                                  e.target.value = "";
+                                }}
+                              />
+                            </label>
+                          )}
+                        </div>
+                      </div>
+                      <Button type="submit" className="w-full" disabled={reviewMutation.isPending}>
+                        {myReview
+                          ? reviewMutation.isPending ? "Saving..." : "Save Changes"
+                          : reviewMutation.isPending ? "Submitting..." : "Submit Review"}
                       </Button>
+                      {myReview && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          className="w-full text-destructive"
+                          onClick={() => setIsDeleteReviewOpen(true)}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" /> Delete Review
+                        </Button>
+                      )}
                     </form>
                   </Form>
                 ) : (
@@ -224,6 +621,28 @@ const ProductDetail = () => {
           </div>
         </div>
       </div>
+
+      <ReportReviewDialog review={reviewToReport} onClose={() => setReviewToReport(null)} />
+
+      <AlertDialog open={isDeleteReviewOpen} onOpenChange={setIsDeleteReviewOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your review?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your rating, comment and photos will be removed. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteReviewMutation.mutate()}
+              disabled={deleteReviewMutation.isPending}
+            >
+              {deleteReviewMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -1,49 +1,125 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { useSearchParams } from "react-router-dom";
+import { categoryKeys, getCategories } from "@/data/categories";
 import Navigation from "@/components/Navigation";
 import ProductCard from "@/components/ProductCard";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Search } from "lucide-react";
+import { useProductSearch } from "@/hooks/use-product-search";
+import {
+  CATALOGUE_PAGE_SIZE,
+  CATALOGUE_SORT_LABELS,
+  CatalogueFilters,
+  CatalogueSort,
+  getPageNumbers,
+  parseCatalogueParams,
+  toCatalogueParams,
+} from "@/lib/catalogue";
+
+// How long to wait after the last keystroke before searching.
+const SEARCH_DELAY_MS = 300;
 
 const Products = () => {
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  // The search, filters, sort order and page all live in the URL, so
+  // category links from the home page open the filtered listing and any
+  // view can be shared or bookmarked.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseCatalogueParams(searchParams);
+
+  const [searchText, setSearchText] = useState(filters.query);
+  const [minPriceText, setMinPriceText] = useState(filters.minPrice?.toString() ?? "");
+  const [maxPriceText, setMaxPriceText] = useState(filters.maxPrice?.toString() ?? "");
+
+  const updateFilters = (changes: Partial<CatalogueFilters>) => {
+    // Any change other than the page starts again from the first page.
+    setSearchParams(toCatalogueParams({ ...filters, page: 1, ...changes }));
+  };
+
+  // Follow the URL when it changes from outside the inputs, e.g. going back.
+  useEffect(() => {
+    setSearchText((current) => (current.trim() === filters.query ? current : filters.query));
+  }, [filters.query]);
+
+  useEffect(() => {
+    setMinPriceText(filters.minPrice?.toString() ?? "");
+    setMaxPriceText(filters.maxPrice?.toString() ?? "");
+  }, [filters.minPrice, filters.maxPrice]);
+
+  useEffect(() => {
+    const query = searchText.trim();
+    if (query === filters.query) return;
+    const timeout = setTimeout(() => {
+      setSearchParams(
+        (current) => {
+          const { sort, ...rest } = parseCatalogueParams(current);
+          // A sort order the customer picked is kept; the default one
+          // follows the query, so searches are ranked by best match.
+          const next: CatalogueFilters = { ...rest, sort, query, page: 1 };
+          if (sort === (rest.query ? "relevance" : "newest")) next.sort = query ? "relevance" : "newest";
+          return toCatalogueParams(next);
+        },
+        // Typing replaces the history entry rather than adding one per word.
+        { replace: true },
+      );
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchText, filters.query, setSearchParams]);
 
   const { data: categories } = useQuery({
-    queryKey: ["categories"],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("categories")
-        .select("*")
-        .order("name");
-
-      if (error) throw error;
-      return data;
-    },
+    queryKey: categoryKeys.list(),
+    queryFn: getCategories,
   });
 
-  const { data: products, isLoading } = useQuery({
-    queryKey: ["products", selectedCategory],
-    queryFn: async () => {
-      let query = supabase
-        .from("products")
-        .select("*")
-        .eq("in_stock", true)
-        .order("created_at", { ascending: false });
-
-      if (selectedCategory) {
-        query = query.eq("category_id", selectedCategory);
-      }
-
-      const { data, error } = await query;
-      if (error) throw error;
-      return data;
-    },
-  });
+  const selectedCategory = categories?.find((category) => category.slug === filters.category) ?? null;
+
+  const { data, isLoading, isPlaceholderData } = useProductSearch(
+    filters,
+    selectedCategory?.id ?? null,
+    // Wait for the categories before resolving a slug from the URL.
+    !filters.category || !!categories,
+  );
+
+  const products = data?.products ?? [];
+  const totalCount = data?.totalCount ?? 0;
+  const pageCount = Math.ceil(totalCount / CATALOGUE_PAGE_SIZE);
+
+  const goToPage = (page: number) => {
+    updateFilters({ page });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const applyPriceRange = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parse = (text: string) => (text.trim() === "" || Number(text) < 0 ? null : Number(text));
+    let minPrice = parse(minPriceText);
+    let maxPrice = parse(maxPriceText);
+    if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+      [minPrice, maxPrice] = [maxPrice, minPrice];
+    }
+    updateFilters({ minPrice, maxPrice });
+  };
+
+  const hasFilters =
+    !!filters.query || !!filters.category || filters.minPrice !== null || filters.maxPrice !== null || filters.includeOutOfStock;
 
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
-      
+
       <div className="container mx-auto px-4 py-12">
         <div className="mb-12">
           <h1 className="text-5xl font-bold mb-4">Our Collection</h1>
@@ -52,50 +128,188 @@ const Products = () => {
           </p>
         </div>
 
+        {/* Search and Sort */}
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search cakes, pastries, flavours..."
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              className="pl-9"
+              aria-label="Search products"
+            />
+          </div>
+          <Select value={filters.sort} onValueChange={(sort: CatalogueSort) => updateFilters({ sort })}>
+            <SelectTrigger className="sm:w-52" aria-label="Sort products">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CATALOGUE_SORT_LABELS) as CatalogueSort[])
+                .filter((sort) => sort !== "relevance" || filters.query)
+                .map((sort) => (
+                  <SelectItem key={sort} value={sort}>{CATALOGUE_SORT_LABELS[sort]}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Category Filter */}
-        <div className="flex flex-wrap gap-3 mb-8">
+        <div className="flex flex-wrap gap-3 mb-6">
           <Button
             variant={selectedCategory === null ? "default" : "outline"}
-            onClick={() => setSelectedCategory(null)}
+            onClick={() => updateFilters({ category: null })}
           >
             All Products
           </Button>
           {categories?.map((category) => (
             <Button
               key={category.id}
-              variant={selectedCategory === category.id ? "default" : "outline"}
-              onClick={() => setSelectedCategory(category.id)}
+              variant={selectedCategory?.id === category.id ? "default" : "outline"}
+              onClick={() => updateFilters({ category: category.slug })}
             >
               {category.name}
             </Button>
           ))}
         </div>
 
+        {/* Price and Availability */}
+        <div className="flex flex-wrap items-end gap-x-6 gap-y-3 mb-8">
+          <form onSubmit={applyPriceRange} className="flex items-end gap-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="min-price">Min price (Ksh)</Label>
+              <Input
+                id="min-price"
+                type="number"
+                min="0"
+                step="any"
+                className="w-28"
+                value={minPriceText}
+                onChange={(e) => setMinPriceText(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="max-price">Max price (Ksh)</Label>
+              <Input
+                id="max-price"
+                type="number"
+                min="0"
+                step="any"
+                className="w-28"
+                value={maxPriceText}
+                onChange={(e) => setMaxPriceText(e.target.value)}
+              />
+            </div>
+            <Button type="submit" variant="outline">Apply</Button>
+          </form>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="include-out-of-stock"
+              checked={filters.includeOutOfStock}
+              onCheckedChange={(includeOutOfStock) => updateFilters({ includeOutOfStock })}
+            />
+            <Label htmlFor="include-out-of-stock">Include out of stock</Label>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" className="mb-0.5" onClick={() => setSearchParams(new URLSearchParams())}>
+              Clear all
+            </Button>
+          )}
+        </div>
+
         {/* Products Grid */}
-        {isLoading ? (
+        {isLoading || (!!filters.category && !categories) ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {[...Array(8)].map((_, i) => (
               <div key={i} className="h-96 bg-muted animate-pulse rounded-lg" />
             ))}
           </div>
-        ) : products && products.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {products.map((product) => (
-              <ProductCard
-                key={product.id}
-                id={product.id}
-                name={product.name}
-                price={Number(product.price)}
-                image_url={product.image_url || undefined}
-                in_stock={product.in_stock}
-              />
-            ))}
-          </div>
+        ) : products.length > 0 ? (
+          <>
+            <p className="text-sm text-muted-foreground mb-4">
+              {totalCount} {totalCount === 1 ? "product" : "products"}
+              {filters.query && <> matching "{filters.query}"</>}
+            </p>
+            <div
+              className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 transition-opacity ${
+                isPlaceholderData ? "opacity-60" : ""
+              }`}
+            >
+              {products.map((product) => (
+                <ProductCard
+                  key={product.id}
+                  id={product.id}
+                  name={product.name}
+                  price={Number(product.price)}
+                  image_url={product.image_url || undefined}
+                  in_stock={product.in_stock}
+                  has_variants={product.variant_count > 0}
+                  rating_avg={product.rating_avg}
+                  rating_count={Number(product.rating_count)}
+                />
+              ))}
+            </div>
+
+            {pageCount > 1 && (
+              <Pagination className="mt-10">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      aria-disabled={filters.page === 1}
+                      className={filters.page === 1 ? "pointer-events-none opacity-50" : ""}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        goToPage(filters.page - 1);
+                      }}
+                    />
+                  </PaginationItem>
+                  {getPageNumbers(filters.page, pageCount).map((page, index) =>
+                    page === null ? (
+                      <PaginationItem key={`gap-${index}`}>
+                        <PaginationEllipsis />
+                      </PaginationItem>
+                    ) : (
+                      <PaginationItem key={page}>
+                        <PaginationLink
+                          href="#"
+                          isActive={page === filters.page}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            goToPage(page);
+                          }}
+                        >
+                          {page}
+                        </PaginationLink>
+                      </PaginationItem>
+                    ),
+                  )}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      aria-disabled={filters.page === pageCount}
+                      className={filters.page === pageCount ? "pointer-events-none opacity-50" : ""}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        goToPage(filters.page + 1);
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </>
         ) : (
           <div className="text-center py-20">
             <p className="text-muted-foreground text-lg">
-              No products found in this category.
+              {filters.page > 1 ? "There are no more products to show." : "No products match your search."}
             </p>
+            {filters.page > 1 ? (
+              <Button variant="link" onClick={() => goToPage(1)}>Back to the first page</Button>
+            ) : hasFilters && (
+              <Button variant="link" onClick={() => setSearchParams(new URLSearchParams())}>Clear all filters</Button>
+            )}
           </div>
         )}
       </div>
@@ -103,4 +317,4 @@ const Products = () => {
   );
 };
 
-export default Products;
\ No newline at end of file
+export default Products;
@@ -0,0 +1,468 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { GripVertical, ImageOff, Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { cn, slugify } from "@/lib/utils";
+import {
+  categoryKeys,
+  createCategory,
+  deleteCategory,
+  getCategoriesWithCounts,
+  reorderCategories,
+  updateCategory,
+} from "@/data/categories";
+
+type Category = Tables<'categories'> & { products: { count: number }[] };
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  slug: z
+    .string()
+    .trim()
+    .min(1, "Slug is required")
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and hyphens only"),
+  description: z.string().optional(),
+  image_file: z.instanceof(FileList).optional()
+    .refine((files) => !files || files.length === 0 || files[0].size <= MAX_FILE_SIZE, `Max file size is 5MB.`)
+    .refine((files) => !files || files.length === 0 || ACCEPTED_IMAGE_TYPES.includes(files[0].type), 'Only .jpg, .png, and .webp formats are supported.'),
+});
+
+type CategoryFormData = z.infer<typeof categorySchema>;
+
+interface CategoryFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The category being edited, or null to create a new one.
+  category: Category | null;
+  nextSortOrder: number;
+}
+
+const CategoryFormDialog = ({ open, onOpenChange, category, nextSortOrder }: CategoryFormDialogProps) => {
+  const queryClient = useQueryClient();
+  const isEditMode = !!category;
+  // Once the slug is edited by hand it no longer follows the name.
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<CategoryFormData>({
+    resolver: zodResolver(categorySchema),
+    defaultValues: { name: "", slug: "", description: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        name: category?.name ?? "",
+        slug: category?.slug ?? "",
+        description: category?.description ?? "",
+      });
+      setIsSlugEdited(isEditMode);
+    }
+  }, [open, category, isEditMode, reset]);
+
+  const nameField = register("name");
+  const slugField = register("slug");
+  const imageFile = watch("image_file");
+  // A preview of the picked file, released once another is picked or the
+  // form is reset.
+  const [filePreviewUrl, setFilePreviewUrl] = useState<string | null>(null);
+  const previewUrl = filePreviewUrl ?? category?.image_url;
+
+  useEffect(() => {
+    if (!imageFile || imageFile.length === 0) {
+      setFilePreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(imageFile[0]);
+    setFilePreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [imageFile]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: CategoryFormData) => {
+      let imageUrl = category?.image_url || null;
+
+      if (data.image_file && data.image_file.length > 0) {
+        const file = data.image_file[0];
+        const fileExt = file.name.split('.').pop();
+        const filePath = `${data.slug}-${Date.now()}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from('category-images')
+          .upload(filePath, file);
+
+        if (uploadError) throw new Error(`Storage Error: ${uploadError.message}`);
+
+        const { data: urlData } = supabase.storage
+          .from('category-images')
+          .getPublicUrl(filePath);
+
+        imageUrl = urlData.publicUrl;
+      }
+
+      const dataToSubmit = {
+        name: data.name,
+        slug: data.slug,
+        description: data.description || null,
+        image_url: imageUrl,
+      };
+
+      if (isEditMode) {
+        await updateCategory(category.id, dataToSubmit);
+      } else {
+        await createCategory({ ...dataToSubmit, sort_order: nextSortOrder });
+      }
+
+      // The old image is only deleted once the category no longer points at it.
+      if (isEditMode && category.image_url && imageUrl !== category.image_url) {
+        const oldImagePath = category.image_url.split('/category-images/')[1];
+        if (oldImagePath) {
+          const { error: removeError } = await supabase.storage
+            .from('category-images')
+            .remove([oldImagePath]);
+          if (removeError) console.error("Failed to delete old image:", removeError.message);
+        }
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Category ${isEditMode ? "updated" : "created"} successfully`);
+      queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      // 23505 is a unique violation, which here can only be the slug.
+      const message = "code" in error && error.code === "23505"
+        ? "Another category already uses this slug."
+        : error.message;
+      toast.error(`Error: ${message}`);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit((data) => mutation.mutate(data))} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{isEditMode ? "Edit Category" : "Add Category"}</DialogTitle>
+            <DialogDescription>
+              Categories group products in the shop and on the home page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <Label htmlFor="category-name">Name</Label>
+            <Input
+              id="category-name"
+              {...nameField}
+              onChange={(e) => {
+                nameField.onChange(e);
+                if (!isSlugEdited) setValue("slug", slugify(e.target.value), { shouldValidate: true });
+              }}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="category-slug">Slug</Label>
+            <Input
+              id="category-slug"
+              {...slugField}
+              onChange={(e) => {
+                setIsSlugEdited(true);
+                slugField.onChange(e);
+              }}
+            />
+            <p className="text-xs text-muted-foreground">Used in links, e.g. /products?category=birthday-cakes</p>
+            {errors.slug && <p className="text-sm text-destructive">{errors.slug.message}</p>}
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="category-description">Description</Label>
+            <Textarea id="category-description" {...register("description")} />
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="category-image">Image</Label>
+            <div className="aspect-video rounded-md border border-dashed flex items-center justify-center overflow-hidden">
+              {previewUrl ? (
+                <img src={previewUrl} alt="Category preview" className="w-full h-full object-cover" />
+              ) : (
+                <div className="text-center text-muted-foreground">
+                  <ImageOff className="h-8 w-8 mx-auto" />
+                  <p className="mt-2 text-sm">Upload an image</p>
+                </div>
+              )}
+            </div>
+            <Input id="category-image" type="file" accept="image/*" {...register("image_file")} />
+            {errors.image_file && <p className="text-sm text-destructive">{errors.image_file.message}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Save Category"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const AdminCategories = () => {
+  const queryClient = useQueryClient();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [categoryToEdit, setCategoryToEdit] = useState<Category | null>(null);
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
+  // The order shown while dragging, before it has been saved.
+  const [orderedCategories, setOrderedCategories] = useState<Category[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const { data: categories, isLoading } = useQuery({
+    queryKey: categoryKeys.withCounts(),
+    queryFn: getCategoriesWithCounts,
+  });
+
+  useEffect(() => {
+    setOrderedCategories(categories ?? []);
+  }, [categories]);
+
+  const reorderMutation = useMutation({
+    mutationFn: reorderCategories,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+    },
+    onError: (error) => {
+      toast.error(`Failed to save the new order: ${error.message}`);
+      setOrderedCategories(categories ?? []);
+    },
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: async (category: Category) => {
+      await deleteCategory(category.id);
+
+      const imagePath = category.image_url?.split('/category-images/')[1];
+      if (imagePath) {
+        const { error: removeError } = await supabase.storage.from('category-images').remove([imagePath]);
+        if (removeError) console.error("Failed to delete category image:", removeError.message);
+      }
+    },
+    onSuccess: () => {
+      toast.success("Category deleted successfully");
+      queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+      setCategoryToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(`Error deleting category: ${error.message}`);
+      setCategoryToDelete(null);
+    },
+  });
+
+  const openForm = (category: Category | null) => {
+    setCategoryToEdit(category);
+    setIsFormOpen(true);
+  };
+
+  // Moves the dragged row into the hovered row's place as the pointer passes over it.
+  const handleDragOver = (e: React.DragEvent, overId: string) => {
+    e.preventDefault();
+    if (!draggedId || draggedId === overId) return;
+    setOrderedCategories((current) => {
+      const from = current.findIndex((c) => c.id === draggedId);
+      const to = current.findIndex((c) => c.id === overId);
+      if (from === -1 || to === -1) return current;
+      const next = [...current];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    const ids = orderedCategories.map((c) => c.id);
+    const unchanged = ids.every((id, index) => id === categories?.[index]?.id);
+    if (!unchanged) reorderMutation.mutate(ids);
+  };
+
+  const productCount = (category: Category) => category.products[0]?.count ?? 0;
+
+  return (
+    <>
+      <div className="flex items-center pt-4">
+        <div className="ml-auto flex items-center gap-2">
+          <Button size="sm" className="h-7 gap-1" onClick={() => openForm(null)}>
+            <PlusCircle className="h-3.5 w-3.5" />
+            <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+              Add Category
+            </span>
+          </Button>
+        </div>
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Categories</CardTitle>
+          <CardDescription>
+            Drag categories to change the order they appear in the shop.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <span className="sr-only">Reorder</span>
+                </TableHead>
+                <TableHead className="hidden w-[100px] sm:table-cell">
+                  <span className="sr-only">Image</span>
+                </TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead className="text-right">Products</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    Loading categories...
+                  </TableCell>
+                </TableRow>
+              ) : orderedCategories.length > 0 ? (
+                orderedCategories.map((category) => (
+                  <TableRow
+                    key={category.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggedId(category.id);
+                    }}
+                    onDragOver={(e) => handleDragOver(e, category.id)}
+                    onDragEnd={handleDragEnd}
+                    className={cn(draggedId === category.id && "opacity-50")}
+                  >
+                    <TableCell className="cursor-grab text-muted-foreground">
+                      <GripVertical className="h-4 w-4" />
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell">
+                      {category.image_url ? (
+                        <img
+                          alt={category.name}
+                          className="aspect-video rounded-md object-cover"
+                          height="64"
+                          src={category.image_url}
+                          width="100"
+                        />
+                      ) : (
+                        <div className="aspect-video w-[100px] rounded-md bg-muted" />
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">{category.name}</TableCell>
+                    <TableCell className="font-mono text-sm text-muted-foreground">{category.slug}</TableCell>
+                    <TableCell className="text-right">{productCount(category)}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openForm(category)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => setCategoryToDelete(category)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    No categories found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <CategoryFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        category={categoryToEdit}
+        nextSortOrder={orderedCategories.length + 1}
+      />
+
+      <AlertDialog
+        open={!!categoryToDelete}
+        onOpenChange={(isOpen) => !isOpen && setCategoryToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{categoryToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone.
+              {categoryToDelete && productCount(categoryToDelete) > 0 &&
+                ` Its ${productCount(categoryToDelete)} product(s) will be kept but left without a category.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => categoryToDelete && deleteCategoryMutation.mutate(categoryToDelete)}
+              disabled={deleteCategoryMutation.isPending}
+            >
+              {deleteCategoryMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default AdminCategories;
@@ -0,0 +1,453 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format, startOfToday } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Pencil, PlusCircle, Trash2 } from "lucide-react";
+import {
+  DeliverySlot,
+  WEEKDAY_LABELS,
+  formatDeliveryWindow,
+  fromDateKey,
+  toDateKey,
+} from "@/lib/delivery";
+import {
+  addBlackoutDate,
+  createDeliverySlot,
+  deleteDeliverySlot,
+  deliveryKeys,
+  getBlackoutDates,
+  getDeliverySlots,
+  removeBlackoutDate,
+  updateDeliverySlot,
+} from "@/data/delivery";
+
+const slotSchema = z.object({
+  weekday: z.coerce.number().int().min(0).max(6),
+  starts_at: z.string().regex(/^\d{2}:\d{2}$/, "Start time is required"),
+  ends_at: z.string().regex(/^\d{2}:\d{2}$/, "End time is required"),
+  capacity: z.coerce.number().int("Capacity must be a whole number").min(1, "Capacity must be at least 1"),
+  active: z.boolean(),
+}).refine((data) => data.ends_at > data.starts_at, {
+  message: "The slot must end after it starts",
+  path: ["ends_at"],
+});
+
+type SlotFormInput = z.input<typeof slotSchema>;
+type SlotFormData = z.output<typeof slotSchema>;
+
+interface SlotFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The slot being edited, or null to create a new one.
+  slot: DeliverySlot | null;
+}
+
+const SlotFormDialog = ({ open, onOpenChange, slot }: SlotFormDialogProps) => {
+  const queryClient = useQueryClient();
+  const isEditMode = !!slot;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors },
+  } = useForm<SlotFormInput, unknown, SlotFormData>({
+    resolver: zodResolver(slotSchema),
+    defaultValues: { weekday: 1, starts_at: "09:00", ends_at: "12:00", capacity: 4, active: true },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        weekday: slot?.weekday ?? 1,
+        // Postgres returns "09:00:00"; time inputs want "09:00".
+        starts_at: slot?.starts_at.slice(0, 5) ?? "09:00",
+        ends_at: slot?.ends_at.slice(0, 5) ?? "12:00",
+        capacity: slot?.capacity ?? 4,
+        active: slot?.active ?? true,
+      });
+    }
+  }, [open, slot, reset]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: SlotFormData) => {
+      const dataToSubmit = {
+        weekday: data.weekday,
+        starts_at: data.starts_at,
+        ends_at: data.ends_at,
+        capacity: data.capacity,
+        active: data.active,
+      };
+
+      if (slot) {
+        await updateDeliverySlot(slot.id, dataToSubmit);
+      } else {
+        await createDeliverySlot(dataToSubmit);
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Slot ${isEditMode ? "updated" : "created"} successfully`);
+      queryClient.invalidateQueries({ queryKey: deliveryKeys.schedule() });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      // 23505 is a unique violation: another slot starts at the same time that day.
+      const message = "code" in error && error.code === "23505"
+        ? "Another slot already starts at this time on that day."
+        : error.message;
+      toast.error(`Error: ${message}`);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit((data) => mutation.mutate(data))} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{isEditMode ? "Edit Slot" : "Add Slot"}</DialogTitle>
+            <DialogDescription>
+              A delivery window that repeats every week, and how many orders it can take.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <Label htmlFor="slot-weekday">Day</Label>
+            <Controller
+              name="weekday"
+              control={control}
+              render={({ field }) => (
+                <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                  <SelectTrigger id="slot-weekday">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_LABELS.map((label, weekday) => (
+                      <SelectItem key={weekday} value={String(weekday)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-3">
+              <Label htmlFor="slot-starts-at">Starts</Label>
+              <Input id="slot-starts-at" type="time" {...register("starts_at")} />
+              {errors.starts_at && <p className="text-sm text-destructive">{errors.starts_at.message}</p>}
+            </div>
+            <div className="grid gap-3">
+              <Label htmlFor="slot-ends-at">Ends</Label>
+              <Input id="slot-ends-at" type="time" {...register("ends_at")} />
+              {errors.ends_at && <p className="text-sm text-destructive">{errors.ends_at.message}</p>}
+            </div>
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="slot-capacity">Orders per slot</Label>
+            <Input id="slot-capacity" type="number" min="1" {...register("capacity")} />
+            {errors.capacity && <p className="text-sm text-destructive">{errors.capacity.message}</p>}
+          </div>
+          <div className="flex items-center gap-3">
+            <Controller
+              name="active"
+              control={control}
+              render={({ field }) => (
+                <Switch id="slot-active" checked={field.value} onCheckedChange={field.onChange} />
+              )}
+            />
+            <Label htmlFor="slot-active">Open for bookings</Label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Save Slot"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const AdminDelivery = () => {
+  const queryClient = useQueryClient();
+  const [isSlotFormOpen, setIsSlotFormOpen] = useState(false);
+  const [slotToEdit, setSlotToEdit] = useState<DeliverySlot | null>(null);
+  const [slotToDelete, setSlotToDelete] = useState<DeliverySlot | null>(null);
+  const [blackoutDate, setBlackoutDate] = useState<Date | undefined>();
+  const [blackoutReason, setBlackoutReason] = useState("");
+
+  const { data: slots, isLoading: isLoadingSlots } = useQuery({
+    queryKey: deliveryKeys.slots(),
+    queryFn: getDeliverySlots,
+  });
+
+  const { data: blackoutDates, isLoading: isLoadingBlackoutDates } = useQuery({
+    queryKey: deliveryKeys.blackoutDates(),
+    queryFn: () => getBlackoutDates(toDateKey(startOfToday())),
+  });
+
+  const invalidateSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: deliveryKeys.schedule() });
+  };
+
+  const toggleSlotMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => updateDeliverySlot(id, { active }),
+    onSuccess: invalidateSchedule,
+    onError: (error) => {
+      toast.error(`Failed to update slot: ${error.message}`);
+    },
+  });
+
+  const deleteSlotMutation = useMutation({
+    mutationFn: deleteDeliverySlot,
+    onSuccess: () => {
+      toast.success("Slot deleted successfully");
+      invalidateSchedule();
+      setSlotToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(`Error deleting slot: ${error.message}`);
+      setSlotToDelete(null);
+    },
+  });
+
+  const addBlackoutMutation = useMutation({
+    mutationFn: ({ date, reason }: { date: Date; reason: string }) =>
+      addBlackoutDate({ date: toDateKey(date), reason: reason.trim() || null }),
+    onSuccess: () => {
+      toast.success("Blackout date added");
+      invalidateSchedule();
+      setBlackoutDate(undefined);
+      setBlackoutReason("");
+    },
+    onError: (error) => {
+      const message = "code" in error && error.code === "23505"
+        ? "That date is already blacked out."
+        : error.message;
+      toast.error(`Error: ${message}`);
+    },
+  });
+
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: removeBlackoutDate,
+    onSuccess: invalidateSchedule,
+    onError: (error) => {
+      toast.error(`Error removing blackout date: ${error.message}`);
+    },
+  });
+
+  const openSlotForm = (slot: DeliverySlot | null) => {
+    setSlotToEdit(slot);
+    setIsSlotFormOpen(true);
+  };
+
+  return (
+    <>
+      <div className="flex items-center pt-4">
+        <div className="ml-auto flex items-center gap-2">
+          <Button size="sm" className="h-7 gap-1" onClick={() => openSlotForm(null)}>
+            <PlusCircle className="h-3.5 w-3.5" />
+            <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+              Add Slot
+            </span>
+          </Button>
+        </div>
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery Slots</CardTitle>
+          <CardDescription>
+            The weekly delivery windows customers can book at checkout. A slot stops taking orders once it
+            is full. Lead times are set on each product.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead className="text-right">Orders per slot</TableHead>
+                <TableHead>Open</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingSlots ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    Loading slots...
+                  </TableCell>
+                </TableRow>
+              ) : slots && slots.length > 0 ? (
+                slots.map((slot) => (
+                  <TableRow key={slot.id}>
+                    <TableCell className="font-medium">{WEEKDAY_LABELS[slot.weekday]}</TableCell>
+                    <TableCell>{formatDeliveryWindow(slot.starts_at, slot.ends_at)}</TableCell>
+                    <TableCell className="text-right">{slot.capacity}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={slot.active}
+                        disabled={toggleSlotMutation.isPending}
+                        onCheckedChange={(active) => toggleSlotMutation.mutate({ id: slot.id, active })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openSlotForm(slot)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => setSlotToDelete(slot)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    No delivery slots yet. Customers cannot check out until you add one.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Blackout Dates</CardTitle>
+          <CardDescription>
+            Days with no deliveries, such as public holidays. Orders already booked for these days are kept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 md:grid-cols-[auto_1fr]">
+          <div className="grid gap-3 content-start">
+            <Calendar
+              mode="single"
+              className="rounded-md border w-fit"
+              selected={blackoutDate}
+              onSelect={setBlackoutDate}
+              disabled={{ before: startOfToday() }}
+              modifiers={{ blackout: (blackoutDates ?? []).map((b) => fromDateKey(b.date)) }}
+              modifiersClassNames={{ blackout: "line-through text-destructive" }}
+            />
+            <Input
+              placeholder="Reason (optional), e.g. Christmas Day"
+              value={blackoutReason}
+              onChange={(e) => setBlackoutReason(e.target.value)}
+            />
+            <Button
+              type="button"
+              disabled={!blackoutDate || addBlackoutMutation.isPending}
+              onClick={() => blackoutDate && addBlackoutMutation.mutate({ date: blackoutDate, reason: blackoutReason })}
+            >
+              {blackoutDate ? `Close on ${format(blackoutDate, "PPP")}` : "Pick a date"}
+            </Button>
+          </div>
+          <div>
+            {isLoadingBlackoutDates ? (
+              <p className="text-sm text-muted-foreground">Loading blackout dates...</p>
+            ) : blackoutDates && blackoutDates.length > 0 ? (
+              <ul className="divide-y rounded-md border">
+                {blackoutDates.map((blackout) => (
+                  <li key={blackout.date} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                    <div>
+                      <p className="font-medium">{format(fromDateKey(blackout.date), "EEEE, d MMMM yyyy")}</p>
+                      {blackout.reason && <p className="text-muted-foreground">{blackout.reason}</p>}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive"
+                      disabled={deleteBlackoutMutation.isPending}
+                      onClick={() => deleteBlackoutMutation.mutate(blackout.date)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No upcoming blackout dates.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <SlotFormDialog open={isSlotFormOpen} onOpenChange={setIsSlotFormOpen} slot={slotToEdit} />
+
+      <AlertDialog
+        open={!!slotToDelete}
+        onOpenChange={(isOpen) => !isOpen && setSlotToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete the {slotToDelete && WEEKDAY_LABELS[slotToDelete.weekday]}{" "}
+              {slotToDelete && formatDeliveryWindow(slotToDelete.starts_at, slotToDelete.ends_at)} slot?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. Orders already booked into it keep their delivery time. To stop
+              taking bookings for now, close the slot instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => slotToDelete && deleteSlotMutation.mutate(slotToDelete.id)}
+              disabled={deleteSlotMutation.isPending}
+            >
+              {deleteSlotMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default AdminDelivery;
@@ -0,0 +1,645 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { DeliveryZone, PickupLocation } from "@/lib/delivery";
+import {
+  createDeliveryZone,
+  createPickupLocation,
+  deleteDeliveryZone,
+  deletePickupLocation,
+  deliveryKeys,
+  getDeliveryZones,
+  getPickupLocations,
+  updateDeliveryZone,
+  updatePickupLocation,
+} from "@/data/delivery";
+
+const zoneSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  areas: z.string().trim(),
+  fee: z.coerce.number().min(0, "Fee cannot be negative"),
+  minimum_order: z.coerce.number().min(0, "Minimum order cannot be negative"),
+  // Left blank when the zone never delivers for free.
+  free_delivery_threshold: z.union([z.literal(""), z.coerce.number().min(0, "Threshold cannot be negative")]),
+  position: z.coerce.number().int().min(0),
+  active: z.boolean(),
+});
+
+type ZoneFormInput = z.input<typeof zoneSchema>;
+type ZoneFormData = z.output<typeof zoneSchema>;
+
+interface ZoneFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The zone being edited, or null to create a new one.
+  zone: DeliveryZone | null;
+}
+
+const ZoneFormDialog = ({ open, onOpenChange, zone }: ZoneFormDialogProps) => {
+  const queryClient = useQueryClient();
+  const isEditMode = !!zone;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors },
+  } = useForm<ZoneFormInput, unknown, ZoneFormData>({
+    resolver: zodResolver(zoneSchema),
+    defaultValues: {
+      name: "",
+      areas: "",
+      fee: 0,
+      minimum_order: 0,
+      free_delivery_threshold: "",
+      position: 0,
+      active: true,
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        name: zone?.name ?? "",
+        areas: zone?.areas ?? "",
+        fee: zone?.fee ?? 0,
+        minimum_order: zone?.minimum_order ?? 0,
+        free_delivery_threshold: zone?.free_delivery_threshold ?? "",
+        position: zone?.position ?? 0,
+        active: zone?.active ?? true,
+      });
+    }
+  }, [open, zone, reset]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: ZoneFormData) => {
+      const dataToSubmit = {
+        name: data.name,
+        areas: data.areas || null,
+        fee: data.fee,
+        minimum_order: data.minimum_order,
+        free_delivery_threshold: data.free_delivery_threshold === "" ? null : data.free_delivery_threshold,
+        position: data.position,
+        active: data.active,
+      };
+
+      if (zone) {
+        await updateDeliveryZone(zone.id, dataToSubmit);
+      } else {
+        await createDeliveryZone(dataToSubmit);
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Zone ${isEditMode ? "updated" : "created"} successfully`);
+      queryClient.invalidateQueries({ queryKey: deliveryKeys.zones() });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      const message = "code" in error && error.code === "23505"
+        ? "A zone with that name already exists."
+        : error.message;
+      toast.error(`Error: ${message}`);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit((data) => mutation.mutate(data))} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{isEditMode ? "Edit Zone" : "Add Zone"}</DialogTitle>
+            <DialogDescription>
+              Customers pick their zone at checkout, and the zone decides what they pay for delivery.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <Label htmlFor="zone-name">Name</Label>
+            <Input id="zone-name" placeholder="e.g. Westlands" {...register("name")} />
+            {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="zone-areas">Areas covered</Label>
+            <Input id="zone-areas" placeholder="e.g. Parklands, Lavington, Kileleshwa" {...register("areas")} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-3">
+              <Label htmlFor="zone-fee">Fee (Ksh)</Label>
+              <Input id="zone-fee" type="number" step="0.01" min="0" {...register("fee")} />
+              {errors.fee && <p className="text-sm text-destructive">{errors.fee.message}</p>}
+            </div>
+            <div className="grid gap-3">
+              <Label htmlFor="zone-minimum-order">Minimum order (Ksh)</Label>
+              <Input id="zone-minimum-order" type="number" step="0.01" min="0" {...register("minimum_order")} />
+              {errors.minimum_order && <p className="text-sm text-destructive">{errors.minimum_order.message}</p>}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-3">
+              <Label htmlFor="zone-free-delivery">Free delivery from (Ksh)</Label>
+              <Input
+                id="zone-free-delivery"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Never"
+                {...register("free_delivery_threshold")}
+              />
+              {errors.free_delivery_threshold && (
+                <p className="text-sm text-destructive">{errors.free_delivery_threshold.message}</p>
+              )}
+            </div>
+            <div className="grid gap-3">
+              <Label htmlFor="zone-position">Position</Label>
+              <Input id="zone-position" type="number" min="0" {...register("position")} />
+              {errors.position && <p className="text-sm text-destructive">{errors.position.message}</p>}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Controller
+              name="active"
+              control={control}
+              render={({ field }) => (
+                <Switch id="zone-active" checked={field.value} onCheckedChange={field.onChange} />
+              )}
+            />
+            <Label htmlFor="zone-active">Delivering to this zone</Label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Save Zone"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const pickupLocationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  address: z.string().trim().min(1, "Address is required"),
+  instructions: z.string().trim(),
+  position: z.coerce.number().int().min(0),
+  active: z.boolean(),
+});
+
+type PickupLocationFormInput = z.input<typeof pickupLocationSchema>;
+type PickupLocationFormData = z.output<typeof pickupLocationSchema>;
+
+interface PickupLocationFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The location being edited, or null to create a new one.
+  location: PickupLocation | null;
+}
+
+const PickupLocationFormDialog = ({ open, onOpenChange, location }: PickupLocationFormDialogProps) => {
+  const queryClient = useQueryClient();
+  const isEditMode = !!location;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors },
+  } = useForm<PickupLocationFormInput, unknown, PickupLocationFormData>({
+    resolver: zodResolver(pickupLocationSchema),
+    defaultValues: { name: "", address: "", instructions: "", position: 0, active: true },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        name: location?.name ?? "",
+        address: location?.address ?? "",
+        instructions: location?.instructions ?? "",
+        position: location?.position ?? 0,
+        active: location?.active ?? true,
+      });
+    }
+  }, [open, location, reset]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: PickupLocationFormData) => {
+      const dataToSubmit = {
+        name: data.name,
+        address: data.address,
+        instructions: data.instructions || null,
+        position: data.position,
+        active: data.active,
+      };
+
+      if (location) {
+        await updatePickupLocation(location.id, dataToSubmit);
+      } else {
+        await createPickupLocation(dataToSubmit);
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Pickup location ${isEditMode ? "updated" : "created"} successfully`);
+      queryClient.invalidateQueries({ queryKey: deliveryKeys.pickupLocations() });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit((data) => mutation.mutate(data))} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{isEditMode ? "Edit Pickup Location" : "Add Pickup Location"}</DialogTitle>
+            <DialogDescription>
+              Customers who choose store pickup collect their order here, with no delivery fee.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <Label htmlFor="location-name">Name</Label>
+            <Input id="location-name" placeholder="e.g. Westlands Shop" {...register("name")} />
+            {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="location-address">Address</Label>
+            <Input id="location-address" placeholder="e.g. Sarit Centre, Ground Floor" {...register("address")} />
+            {errors.address && <p className="text-sm text-destructive">{errors.address.message}</p>}
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="location-instructions">Instructions</Label>
+            <Textarea
+              id="location-instructions"
+              placeholder="e.g. Collect from the counter between 8am and 6pm"
+              {...register("instructions")}
+            />
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="location-position">Position</Label>
+            <Input id="location-position" type="number" min="0" {...register("position")} />
+            {errors.position && <p className="text-sm text-destructive">{errors.position.message}</p>}
+          </div>
+          <div className="flex items-center gap-3">
+            <Controller
+              name="active"
+              control={control}
+              render={({ field }) => (
+                <Switch id="location-active" checked={field.value} onCheckedChange={field.onChange} />
+              )}
+            />
+            <Label htmlFor="location-active">Open for pickups</Label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Save Location"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const formatKsh = (amount: number) => `Ksh ${amount.toFixed(2)}`;
+
+const AdminDeliveryZones = () => {
+  const queryClient = useQueryClient();
+  const [isZoneFormOpen, setIsZoneFormOpen] = useState(false);
+  const [zoneToEdit, setZoneToEdit] = useState<DeliveryZone | null>(null);
+  const [zoneToDelete, setZoneToDelete] = useState<DeliveryZone | null>(null);
+  const [isLocationFormOpen, setIsLocationFormOpen] = useState(false);
+  const [locationToEdit, setLocationToEdit] = useState<PickupLocation | null>(null);
+  const [locationToDelete, setLocationToDelete] = useState<PickupLocation | null>(null);
+
+  const { data: zones, isLoading: isLoadingZones } = useQuery({
+    queryKey: deliveryKeys.zones(),
+    queryFn: getDeliveryZones,
+  });
+
+  const { data: locations, isLoading: isLoadingLocations } = useQuery({
+    queryKey: deliveryKeys.pickupLocations(),
+    queryFn: getPickupLocations,
+  });
+
+  const toggleZoneMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => updateDeliveryZone(id, { active }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deliveryKeys.zones() });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update zone: ${error.message}`);
+    },
+  });
+
+  const deleteZoneMutation = useMutation({
+    mutationFn: deleteDeliveryZone,
+    onSuccess: () => {
+      toast.success("Zone deleted successfully");
+      queryClient.invalidateQueries({ queryKey: deliveryKeys.zones() });
+      setZoneToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(`Error deleting zone: ${error.message}`);
+      setZoneToDelete(null);
+    },
+  });
+
+  const toggleLocationMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => updatePickupLocation(id, { active }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deliveryKeys.pickupLocations() });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update pickup location: ${error.message}`);
+    },
+  });
+
+  const deleteLocationMutation = useMutation({
+    mutationFn: deletePickupLocation,
+    onSuccess: () => {
+      toast.success("Pickup location deleted successfully");
+      queryClient.invalidateQueries({ queryKey: deliveryKeys.pickupLocations() });
+      setLocationToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(`Error deleting pickup location: ${error.message}`);
+      setLocationToDelete(null);
+    },
+  });
+
+  const openZoneForm = (zone: DeliveryZone | null) => {
+    setZoneToEdit(zone);
+    setIsZoneFormOpen(true);
+  };
+
+  const openLocationForm = (location: PickupLocation | null) => {
+    setLocationToEdit(location);
+    setIsLocationFormOpen(true);
+  };
+
+  return (
+    <>
+      <div className="flex items-center pt-4">
+        <div className="ml-auto flex items-center gap-2">
+          <Button size="sm" variant="outline" className="h-7 gap-1" onClick={() => openLocationForm(null)}>
+            <PlusCircle className="h-3.5 w-3.5" />
+            <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+              Add Pickup Location
+            </span>
+          </Button>
+          <Button size="sm" className="h-7 gap-1" onClick={() => openZoneForm(null)}>
+            <PlusCircle className="h-3.5 w-3.5" />
+            <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+              Add Zone
+            </span>
+          </Button>
+        </div>
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery Zones</CardTitle>
+          <CardDescription>
+            What customers pay for delivery in each area. Orders below a zone's minimum cannot be delivered
+            there, and orders at or above its free delivery amount are delivered free.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Zone</TableHead>
+                <TableHead className="text-right">Fee</TableHead>
+                <TableHead className="text-right">Minimum order</TableHead>
+                <TableHead className="text-right">Free from</TableHead>
+                <TableHead>Delivering</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingZones ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    Loading zones...
+                  </TableCell>
+                </TableRow>
+              ) : zones && zones.length > 0 ? (
+                zones.map((zone) => (
+                  <TableRow key={zone.id}>
+                    <TableCell>
+                      <p className="font-medium">{zone.name}</p>
+                      {zone.areas && <p className="text-xs text-muted-foreground">{zone.areas}</p>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatKsh(zone.fee)}</TableCell>
+                    <TableCell className="text-right">
+                      {zone.minimum_order > 0 ? formatKsh(zone.minimum_order) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {zone.free_delivery_threshold !== null ? formatKsh(zone.free_delivery_threshold) : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={zone.active}
+                        disabled={toggleZoneMutation.isPending}
+                        onCheckedChange={(active) => toggleZoneMutation.mutate({ id: zone.id, active })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openZoneForm(zone)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => setZoneToDelete(zone)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    No delivery zones yet. Customers can only choose store pickup until you add one.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pickup Locations</CardTitle>
+          <CardDescription>
+            Where customers can collect their orders for free.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Location</TableHead>
+                <TableHead>Instructions</TableHead>
+                <TableHead>Open</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingLocations ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center">
+                    Loading pickup locations...
+                  </TableCell>
+                </TableRow>
+              ) : locations && locations.length > 0 ? (
+                locations.map((location) => (
+                  <TableRow key={location.id}>
+                    <TableCell>
+                      <p className="font-medium">{location.name}</p>
+                      <p className="text-xs text-muted-foreground">{location.address}</p>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{location.instructions ?? "—"}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={location.active}
+                        disabled={toggleLocationMutation.isPending}
+                        onCheckedChange={(active) => toggleLocationMutation.mutate({ id: location.id, active })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openLocationForm(location)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => setLocationToDelete(location)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center">
+                    No pickup locations yet. Store pickup is hidden until you add one.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ZoneFormDialog open={isZoneFormOpen} onOpenChange={setIsZoneFormOpen} zone={zoneToEdit} />
+      <PickupLocationFormDialog
+        open={isLocationFormOpen}
+        onOpenChange={setIsLocationFormOpen}
+        location={locationToEdit}
+      />
+
+      <AlertDialog
+        open={!!zoneToDelete}
+        onOpenChange={(isOpen) => !isOpen && setZoneToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{zoneToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. Past orders keep the zone name. To stop delivering there for now,
+              switch it off instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => zoneToDelete && deleteZoneMutation.mutate(zoneToDelete.id)}
+              disabled={deleteZoneMutation.isPending}
+            >
+              {deleteZoneMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={!!locationToDelete}
+        onOpenChange={(isOpen) => !isOpen && setLocationToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{locationToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. Past orders keep the pickup address. To stop pickups there for now,
+              switch it off instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => locationToDelete && deleteLocationMutation.mutate(locationToDelete.id)}
+              disabled={deleteLocationMutation.isPending}
+            >
+              {deleteLocationMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default AdminDeliveryZones;
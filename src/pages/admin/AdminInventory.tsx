@@ -0,0 +1,355 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { History, Package, PackagePlus } from "lucide-react";
+import { useInventory } from "@/hooks/use-inventory";
+import { productKeys } from "@/data/products";
+import { adjustStock, getStockMovements, inventoryKeys } from "@/data/inventory";
+import {
+  InventoryItem,
+  STOCK_MOVEMENT_LABELS,
+  StockMovementKind,
+  describeStock,
+  getInventoryItemName,
+} from "@/lib/inventory";
+
+const ADJUSTMENT_KINDS = ["restock", "wastage", "adjustment"] as const;
+
+const adjustmentSchema = z.object({
+  kind: z.enum(ADJUSTMENT_KINDS),
+  quantity: z.coerce.number().int("Use a whole number").min(0, "Quantity cannot be negative"),
+  note: z.string().trim(),
+}).refine(
+  (data) => data.kind === "adjustment" || data.quantity > 0,
+  { message: "Enter a quantity of at least 1", path: ["quantity"] }
+);
+
+type AdjustmentFormInput = z.input<typeof adjustmentSchema>;
+type AdjustmentFormData = z.output<typeof adjustmentSchema>;
+
+const QUANTITY_LABELS: Record<AdjustmentFormData["kind"], string> = {
+  restock: "Units received",
+  wastage: "Units thrown away",
+  adjustment: "Units counted on hand",
+};
+
+interface StockAdjustmentDialogProps {
+  // The item being adjusted, or null when the dialog is closed.
+  item: InventoryItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const StockAdjustmentDialog = ({ item, onOpenChange }: StockAdjustmentDialogProps) => {
+  const queryClient = useQueryClient();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    watch,
+    formState: { errors },
+  } = useForm<AdjustmentFormInput, unknown, AdjustmentFormData>({
+    resolver: zodResolver(adjustmentSchema),
+    defaultValues: { kind: "restock", quantity: 0, note: "" },
+  });
+
+  const kind = watch("kind");
+
+  useEffect(() => {
+    if (item) {
+      reset({ kind: "restock", quantity: 0, note: "" });
+    }
+  }, [item, reset]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: AdjustmentFormData) => {
+      if (!item) return;
+      await adjustStock(item.product_id, item.variant_id, data.kind, data.quantity, data.note);
+    },
+    onSuccess: () => {
+      toast.success("Stock updated");
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
+      queryClient.invalidateQueries({ queryKey: productKeys.all });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit((data) => mutation.mutate(data))} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Update Stock</DialogTitle>
+            <DialogDescription>
+              {item && `${getInventoryItemName(item)}: ${describeStock(item).toLowerCase()}.`}
+              {item?.stock_quantity === null && " Saving starts tracking its stock."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <Label htmlFor="adjustment-kind">What happened</Label>
+            <Controller
+              name="kind"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger id="adjustment-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ADJUSTMENT_KINDS.map((value) => (
+                      <SelectItem key={value} value={value}>{STOCK_MOVEMENT_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="adjustment-quantity">{QUANTITY_LABELS[kind]}</Label>
+            <Input id="adjustment-quantity" type="number" min="0" {...register("quantity")} />
+            {errors.quantity && <p className="text-sm text-destructive">{errors.quantity.message}</p>}
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="adjustment-note">Note (optional)</Label>
+            <Input id="adjustment-note" placeholder="e.g. Dropped tray, supplier delivery" {...register("note")} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Update Stock"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface StockHistoryDialogProps {
+  // The item whose movements are shown, or null when the dialog is closed.
+  item: InventoryItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const StockHistoryDialog = ({ item, onOpenChange }: StockHistoryDialogProps) => {
+  const { data: movements, isLoading } = useQuery({
+    queryKey: inventoryKeys.movements(item?.product_id, item?.variant_id),
+    queryFn: () => (item ? getStockMovements(item.product_id, item.variant_id) : []),
+    enabled: !!item,
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History</DialogTitle>
+          <DialogDescription>{item && getInventoryItemName(item)}. The last 100 changes.</DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Change</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              <TableHead className="text-right">Stock after</TableHead>
+              <TableHead>Note</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center">
+                  Loading history...
+                </TableCell>
+              </TableRow>
+            ) : movements && movements.length > 0 ? (
+              movements.map((movement) => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(movement.created_at), "d MMM yyyy, HH:mm")}
+                  </TableCell>
+                  <TableCell>{STOCK_MOVEMENT_LABELS[movement.kind as StockMovementKind] ?? movement.kind}</TableCell>
+                  <TableCell className={`text-right ${movement.quantity < 0 ? "text-destructive" : "text-green-600"}`}>
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.stock_after}</TableCell>
+                  <TableCell>
+                    {movement.order_id ? (
+                      <Link
+                        to={`/admin/dashboard/orders/${movement.order_id}`}
+                        className="text-primary hover:underline"
+                        onClick={() => onOpenChange(false)}
+                      >
+                        Order #{movement.order_id.substring(0, 8)}
+                      </Link>
+                    ) : (
+                      movement.note
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center">
+                  No stock changes yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const getStockBadge = (item: InventoryItem) => {
+  if (item.stock_quantity === null) return null;
+  if (!item.in_stock) return <Badge variant="destructive">Sold out</Badge>;
+  if (item.stock_quantity <= 0) return <Badge variant="secondary">Backorder</Badge>;
+  if (item.is_low) return <Badge variant="outline" className="border-amber-500 text-amber-600">Low</Badge>;
+  return null;
+};
+
+const AdminInventory = () => {
+  const { data: inventory, isLoading } = useInventory();
+  const [showLowOnly, setShowLowOnly] = useState(false);
+  const [itemToAdjust, setItemToAdjust] = useState<InventoryItem | null>(null);
+  const [itemForHistory, setItemForHistory] = useState<InventoryItem | null>(null);
+
+  const lowCount = inventory?.filter((item) => item.is_low).length ?? 0;
+  const visibleItems = showLowOnly ? inventory?.filter((item) => item.is_low) : inventory;
+
+  return (
+    <>
+      <Card className="mt-4">
+        <CardHeader>
+          <CardTitle>Inventory</CardTitle>
+          <CardDescription>
+            Stock is taken when an order is placed and put back if it is cancelled. Items that are not tracked
+            are always available. Backorders and the low-stock level are set on each product.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4">
+          <div className="flex items-center gap-3">
+            <Switch id="low-stock-only" checked={showLowOnly} onCheckedChange={setShowLowOnly} />
+            <Label htmlFor="low-stock-only">Only show low stock ({lowCount})</Label>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="hidden w-[64px] sm:table-cell">
+                  <span className="sr-only">Image</span>
+                </TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Stock</TableHead>
+                <TableHead className="text-right">Alert at</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    Loading stock...
+                  </TableCell>
+                </TableRow>
+              ) : visibleItems && visibleItems.length > 0 ? (
+                visibleItems.map((item) => (
+                  <TableRow key={item.variant_id ?? item.product_id}>
+                    <TableCell className="hidden sm:table-cell">
+                      {item.image_url ? (
+                        <img
+                          alt={item.product_name}
+                          className="aspect-square rounded-md object-cover"
+                          height="48"
+                          src={item.image_url}
+                          width="48"
+                        />
+                      ) : (
+                        <div className="aspect-square w-12 rounded-md bg-muted flex items-center justify-center">
+                          <Package className="h-6 w-6 text-muted-foreground" />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        to={`/admin/dashboard/products/${item.product_id}/edit`}
+                        className="font-medium hover:underline"
+                      >
+                        {item.product_name}
+                      </Link>
+                      {item.variant_name && <p className="text-xs text-muted-foreground">{item.variant_name}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className={item.stock_quantity === null ? "text-muted-foreground" : ""}>
+                          {describeStock(item)}
+                        </span>
+                        {getStockBadge(item)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.stock_quantity === null ? "—" : item.low_stock_threshold}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="outline" size="sm" onClick={() => setItemToAdjust(item)}>
+                          <PackagePlus className="mr-2 h-4 w-4" />
+                          Update
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setItemForHistory(item)}>
+                          <History className="h-4 w-4" />
+                          <span className="sr-only">History</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    {showLowOnly ? "Nothing is running low." : "No products yet."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <StockAdjustmentDialog item={itemToAdjust} onOpenChange={(open) => !open && setItemToAdjust(null)} />
+      <StockHistoryDialog item={itemForHistory} onOpenChange={(open) => !open && setItemForHistory(null)} />
+    </>
+  );
+};
+
+export default AdminInventory;
@@ -1,7 +1,11 @@
 import { Outlet, Link, useLocation, useNavigate } from "react-router-dom";
-import { Home, Package, Users, LogOut, ShoppingCart } from "lucide-react";
+import { Home, LogOut, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
+import { getVisibleAdminPages } from "@/lib/adminPages";
+import { useInventory } from "@/hooks/use-inventory";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import SearchCommand from "@/components/SearchCommand";
 import {
   Tooltip,
   TooltipContent,
@@ -11,16 +15,17 @@ import {
 const AdminLayout = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { signOut } = useAuth();
+  const { signOut, permissions } = useAuth();
+  const { data: inventory } = useInventory();
+  const lowStockCount = inventory?.filter((item) => item.is_low).length ?? 0;
 
   const handleLogout = async () => {
     await signOut();
     navigate('/admin');
   };
 
-  const navItems = [
-    { href: "/admin/dashboard/orders", icon: ShoppingCart, label: "Orders" },
-    { href: "/admin/dashboard/products", icon: Package, label: "Products" },
+  const visibleNavItems = [
+    ...getVisibleAdminPages(permissions),
     { href: "/", icon: Home, label: "Storefront" },
   ];
 
@@ -33,7 +38,8 @@ const AdminLayout = () => {
     <div className="flex min-h-screen w-full bg-muted/40">
       <aside className="fixed inset-y-0 left-0 z-10 hidden w-14 flex-col border-r bg-background sm:flex">
         <nav className="flex flex-col items-center gap-4 px-2 sm:py-5">
-          {navItems.map((item) => (
+          <SearchCommand compact />
+          {visibleNavItems.map((item) => (
             <Tooltip key={item.label}>
               <TooltipTrigger asChild>
                 <Link
@@ -69,6 +75,18 @@ const AdminLayout = () => {
       </aside>
       <div className="flex flex-col sm:gap-4 sm:py-4 sm:pl-14 flex-1">
         <main className="grid flex-1 items-start gap-4 p-4 sm:px-6 sm:py-0 md:gap-8">
+          {lowStockCount > 0 && !isActive("/admin/dashboard/inventory") && (
+            <Alert className="mt-4 border-amber-500/50">
+              <AlertTriangle className="h-4 w-4 !text-amber-600" />
+              <AlertTitle>Running low on stock</AlertTitle>
+              <AlertDescription>
+                {lowStockCount} {lowStockCount === 1 ? "item is" : "items are"} at or below the low-stock level.{" "}
+                <Link to="/admin/dashboard/inventory" className="font-medium underline">
+                  Review inventory
+                </Link>
+              </AlertDescription>
+            </Alert>
+          )}
           <Outlet />
         </main>
       </div>
@@ -9,17 +9,17 @@ import { useAuth } from "@/contexts/AuthContext";
 
 const AdminLogin = () => {
   const navigate = useNavigate();
-  const { user, role, loading: authLoading } = useAuth();
+  const { user, permissions, loading: authLoading } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
-    if (!authLoading && user && role === 'admin') {
-      navigate("/admin/dashboard/products", { replace: true });
+    if (!authLoading && user && permissions.length > 0) {
+      navigate("/admin/dashboard", { replace: true });
     }
-  }, [user, role, authLoading, navigate]);
+  }, [user, permissions, authLoading, navigate]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,21 +35,21 @@ const AdminLogin = () => {
       if (signInError) throw signInError;
 
       if (data.user) {
-        // Use the reliable RPC function to get the user's role
-        const { data: userRole, error: rpcError } = await supabase.rpc('get_user_role', { p_user_id: data.user.id });
+        // Staff are users whose role grants at least one permission
+        const { data: userPermissions, error: rpcError } = await supabase.rpc('get_my_permissions');
 
         if (rpcError) {
           await supabase.auth.signOut();
           throw new Error("Could not retrieve user profile. Please contact support.");
         }
         
-        if (userRole === 'admin') {
+        if (userPermissions.length > 0) {
           // The onAuthStateChange listener will handle setting the context state,
           // which will trigger the useEffect to navigate. For immediate feedback:
-          navigate("/admin/dashboard/products");
+          navigate("/admin/dashboard");
         } else {
           await supabase.auth.signOut();
-          throw new Error("Access denied. You do not have admin privileges.");
+          throw new Error("Access denied. Your account does not have dashboard access.");
         }
       }
     } catch (error: any) {
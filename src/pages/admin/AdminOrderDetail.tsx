@@ -0,0 +1,561 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, ImageOff, MapPin, Package, Phone, Trash2, ZoomIn, ZoomOut } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { usePaymentProofUrls } from "@/hooks/use-payment-proof-urls";
+import { useReferenceImageUrls } from "@/hooks/use-reference-image-urls";
+import { usePermission } from "@/hooks/use-permission";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import OrderStatusTimeline from "@/components/OrderStatusTimeline";
+import PersonalizationDetails from "@/components/PersonalizationDetails";
+import { toPersonalizationSnapshot } from "@/lib/personalization";
+import { formatDeliverySchedule } from "@/lib/delivery";
+import { formatShippingAddress, getMapUrl, toShippingAddressSnapshot } from "@/lib/addresses";
+import { ORDER_STATUS_INFO, ORDER_STATUS_TRANSITIONS, OrderStatus, getStatusChangePermission } from "@/lib/orderStatus";
+import {
+  addOrderNote,
+  deleteOrder,
+  deleteOrderNote,
+  getAdminOrder,
+  getOrderNotes,
+  orderKeys,
+  updateOrderStatus,
+} from "@/data/orders";
+
+const AdminOrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [nextStatus, setNextStatus] = useState<OrderStatus | "">("");
+  const [statusNote, setStatusNote] = useState("");
+  const [staffNote, setStaffNote] = useState("");
+  const [isProofOpen, setIsProofOpen] = useState(false);
+  const [isProofZoomed, setIsProofZoomed] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  // --- Data Fetching ---
+  const { data: order, isLoading } = useQuery({
+    queryKey: orderKeys.detail(id!),
+    queryFn: () => getAdminOrder(id!),
+    enabled: !!id,
+  });
+
+  const { data: notes, isLoading: isLoadingNotes } = useQuery({
+    queryKey: orderKeys.notes(id!),
+    queryFn: () => getOrderNotes(id!),
+    enabled: !!id,
+  });
+
+  // --- Mutations ---
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ status, note }: { status: OrderStatus; note: string }) => {
+      await updateOrderStatus(id!, status, note);
+      return status;
+    },
+    onSuccess: (status) => {
+      toast.success(`Order marked as ${ORDER_STATUS_INFO[status].label.toLowerCase()}.`);
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      setNextStatus("");
+      setStatusNote("");
+    },
+    onError: (error) => {
+      toast.error(`Failed to update order: ${error.message}`);
+    },
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: async (body: string) => {
+      if (!user || !id) throw new Error("You must be logged in to add a note.");
+      await addOrderNote(id, user.id, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.notes(id!) });
+      setStaffNote("");
+    },
+    onError: (error) => {
+      toast.error(`Failed to add note: ${error.message}`);
+    },
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: deleteOrderNote,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.notes(id!) });
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete note: ${error.message}`);
+    },
+  });
+
+  const deleteOrderMutation = useMutation({
+    mutationFn: () => deleteOrder(id!),
+    onSuccess: () => {
+      toast.success("Order deleted successfully.");
+      queryClient.invalidateQueries({ queryKey: orderKeys.adminList() });
+      navigate("/admin/dashboard/orders");
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete order: ${error.message}`);
+      setIsDeleteOpen(false);
+    },
+  });
+
+  const canApprove = usePermission("orders.approve");
+  const canFulfil = usePermission("orders.fulfil");
+  const canDelete = usePermission("orders.delete");
+  const proofUrls = usePaymentProofUrls([order?.payment_proof_path]);
+  const referenceImageUrls = useReferenceImageUrls(
+    order?.order_items.map((item) => toPersonalizationSnapshot(item.personalization)?.reference_image_path) ?? [],
+  );
+  const proofUrl = order?.payment_proof_path ? proofUrls[order.payment_proof_path] : undefined;
+
+  if (isLoading) {
+    return <div>Loading order...</div>;
+  }
+  if (!order) {
+    return <div>Order not found</div>;
+  }
+
+  const allTransitions = ORDER_STATUS_TRANSITIONS[order.status];
+  const shippingAddress = toShippingAddressSnapshot(order.shipping_address);
+  const mapUrl = shippingAddress ? getMapUrl(shippingAddress) : null;
+  const availableTransitions = allTransitions.filter((status) =>
+    getStatusChangePermission(status) === "orders.approve" ? canApprove : canFulfil
+  );
+
+  return (
+    <>
+      <div className="grid gap-4 pt-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <Button variant="outline" size="icon" className="h-7 w-7" asChild>
+            <Link to="/admin/dashboard/orders">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to orders</span>
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">Order #{order.id.substring(0, 8)}</h1>
+          <OrderStatusBadge status={order.status} />
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            {availableTransitions.map((status) => (
+              <Button
+                key={status}
+                size="sm"
+                variant={status === "cancelled" || status === "refunded" ? "outline" : "default"}
+                disabled={updateStatusMutation.isPending}
+                onClick={() => updateStatusMutation.mutate({ status, note: "" })}
+              >
+                {ORDER_STATUS_INFO[status].actionLabel}
+              </Button>
+            ))}
+            {canDelete && (
+              <Button size="sm" variant="destructive" onClick={() => setIsDeleteOpen(true)}>
+                <Trash2 className="mr-2 h-4 w-4" /> Delete
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-3">
+          <div className="grid gap-4 lg:col-span-2 auto-rows-max">
+            {/* Line Items */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Items</CardTitle>
+                <CardDescription>
+                  Placed on {format(new Date(order.created_at), "PPP 'at' p")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[64px]">
+                        <span className="sr-only">Image</span>
+                      </TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead className="text-right">Line Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {order.order_items.map((item) => {
+                      const personalization = toPersonalizationSnapshot(item.personalization);
+                      return (
+                        <TableRow key={item.id}>
+                          <TableCell>
+                            {item.products?.image_url ? (
+                              <img
+                                src={item.products.image_url}
+                                alt={item.products.name}
+                                className="h-12 w-12 rounded-md object-cover"
+                              />
+                            ) : (
+                              <div className="h-12 w-12 rounded-md bg-muted flex items-center justify-center">
+                                <Package className="h-5 w-5 text-muted-foreground" />
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{item.products?.name || "Deleted product"}</p>
+                            {item.variant_name && (
+                              <p className="text-sm text-muted-foreground">{item.variant_name}</p>
+                            )}
+                            {personalization && (
+                              <PersonalizationDetails
+                                className="mt-1"
+                                personalization={personalization}
+                                referenceImageUrl={referenceImageUrls[personalization.reference_image_path ?? ""]}
+                              />
+                            )}
+                            {item.personalization_surcharge > 0 && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                Includes Ksh {item.personalization_surcharge.toFixed(2)} personalization
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell className="text-right">Ksh {item.price.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">Ksh {(item.price * item.quantity).toFixed(2)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+              <CardFooter className="flex-col items-stretch gap-2 border-t pt-4 text-sm">
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Subtotal</span>
+                  <span>Ksh {order.subtotal.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Delivery Fee</span>
+                  <span>Ksh {order.delivery_fee.toFixed(2)}</span>
+                </div>
+                {order.discount_amount > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Discount{order.promotion_code && ` (${order.promotion_code})`}</span>
+                    <span>-Ksh {order.discount_amount.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold text-base">
+                  <span>Total</span>
+                  <span>Ksh {order.total_amount.toFixed(2)}</span>
+                </div>
+              </CardFooter>
+            </Card>
+
+            {/* Status History */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Status History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderStatusTimeline history={order.order_status_history} showActor />
+              </CardContent>
+            </Card>
+
+            {/* Staff Notes */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Staff Notes</CardTitle>
+                <CardDescription>Internal notes. Customers never see these.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4">
+                <form
+                  className="grid gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (staffNote.trim()) addNoteMutation.mutate(staffNote.trim());
+                  }}
+                >
+                  <Textarea
+                    placeholder="e.g. Customer asked for delivery after 4pm"
+                    value={staffNote}
+                    onChange={(e) => setStaffNote(e.target.value)}
+                  />
+                  <Button
+                    type="submit"
+                    size="sm"
+                    className="justify-self-end"
+                    disabled={!staffNote.trim() || addNoteMutation.isPending}
+                  >
+                    {addNoteMutation.isPending ? "Saving..." : "Add Note"}
+                  </Button>
+                </form>
+                <Separator />
+                {isLoadingNotes ? (
+                  <p className="text-sm text-muted-foreground">Loading notes...</p>
+                ) : notes && notes.length > 0 ? (
+                  <ul className="space-y-4">
+                    {notes.map((note) => (
+                      <li key={note.id} className="flex items-start justify-between gap-4">
+                        <div>
+                          <p className="text-sm whitespace-pre-line">{note.body}</p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {note.author?.full_name || "Staff member"} &middot;{" "}
+                            {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                        {note.author_id === user?.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 shrink-0"
+                            onClick={() => deleteNoteMutation.mutate(note.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete note</span>
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No notes yet.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 auto-rows-max">
+            {/* Customer */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Customer</CardTitle>
+              </CardHeader>
+              <CardContent className="grid gap-3 text-sm">
+                <p className="font-medium">{order.customer_name}</p>
+                <a href={`tel:${order.customer_phone}`} className="flex items-center gap-2 text-primary hover:underline">
+                  <Phone className="h-4 w-4" /> {order.customer_phone}
+                </a>
+                <div>
+                  <p className="font-medium mb-1">
+                    {order.fulfillment_method === "pickup" ? "Pickup Location" : "Delivery Address"}
+                  </p>
+                  {shippingAddress ? (
+                    <>
+                      <p>{shippingAddress.recipient_name}</p>
+                      <a
+                        href={`tel:${shippingAddress.recipient_phone}`}
+                        className="flex items-center gap-2 text-primary hover:underline"
+                      >
+                        <Phone className="h-4 w-4" /> {shippingAddress.recipient_phone}
+                      </a>
+                      <p className="text-muted-foreground whitespace-pre-line">{formatShippingAddress(shippingAddress)}</p>
+                      {mapUrl && (
+                        <a
+                          href={mapUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-2 text-primary hover:underline"
+                        >
+                          <MapPin className="h-4 w-4" /> Open in Maps
+                        </a>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground whitespace-pre-line">{order.delivery_address}</p>
+                  )}
+                  {order.delivery_zone_name && (
+                    <p className="text-muted-foreground">Zone: {order.delivery_zone_name}</p>
+                  )}
+                </div>
+                <div>
+                  <p className="font-medium mb-1">{order.fulfillment_method === "pickup" ? "Pickup Time" : "Delivery Time"}</p>
+                  <p className="text-muted-foreground">{formatDeliverySchedule(order) ?? "Not scheduled"}</p>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Payment */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Payment</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Method</span>
+                    <span>{order.payment_method === "mpesa_stk" ? "M-Pesa prompt (STK push)" : "M-Pesa Till"}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Status</span>
+                    <span className={cn("font-medium", order.payment_status === "paid" ? "text-green-600" : "text-amber-600")}>
+                      {order.payment_status === "paid" ? "Paid" : "Unpaid"}
+                    </span>
+                  </div>
+                  {order.mpesa_receipt_number && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Receipt</span>
+                      <span className="font-mono">{order.mpesa_receipt_number}</span>
+                    </div>
+                  )}
+                  {order.paid_at && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Paid at</span>
+                      <span>{format(new Date(order.paid_at), "PPP p")}</span>
+                    </div>
+                  )}
+                </div>
+                {order.payment_proof_path ? (
+                  <button
+                    type="button"
+                    className="block w-full overflow-hidden rounded-md border"
+                    onClick={() => setIsProofOpen(true)}
+                    disabled={!proofUrl}
+                  >
+                    {proofUrl ? (
+                      <img
+                        src={proofUrl}
+                        alt="Payment proof"
+                        className="w-full max-h-80 object-contain bg-muted cursor-zoom-in"
+                      />
+                    ) : (
+                      <p className="py-6 text-sm text-muted-foreground">Loading payment proof...</p>
+                    )}
+                  </button>
+                ) : (
+                  order.payment_method === "mpesa_till" && (
+                    <div className="flex flex-col items-center gap-2 py-6 text-muted-foreground">
+                      <ImageOff className="h-8 w-8" />
+                      <p className="text-sm">No payment proof uploaded.</p>
+                    </div>
+                  )
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Update Status */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Update Status</CardTitle>
+                <CardDescription>
+                  {availableTransitions.length > 0
+                    ? "Move this order to its next stage with a note."
+                    : allTransitions.length > 0
+                      ? "Your role cannot move this order to its next stage."
+                      : "This order has reached the end of its lifecycle."}
+                </CardDescription>
+              </CardHeader>
+              {availableTransitions.length > 0 && (
+                <CardContent className="grid gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="next-status">New Status</Label>
+                    <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as OrderStatus)}>
+                      <SelectTrigger id="next-status">
+                        <SelectValue placeholder="Select a status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableTransitions.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {ORDER_STATUS_INFO[status].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="status-note">Note (optional)</Label>
+                    <Textarea
+                      id="status-note"
+                      placeholder="e.g. Payment confirmed on M-Pesa statement"
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    disabled={!nextStatus || updateStatusMutation.isPending}
+                    onClick={() => nextStatus && updateStatusMutation.mutate({ status: nextStatus, note: statusNote })}
+                  >
+                    {updateStatusMutation.isPending ? "Updating..." : "Update Status"}
+                  </Button>
+                </CardContent>
+              )}
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <Dialog
+        open={isProofOpen}
+        onOpenChange={(isOpen) => {
+          setIsProofOpen(isOpen);
+          if (!isOpen) setIsProofZoomed(false);
+        }}
+      >
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Payment Proof
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setIsProofZoomed(!isProofZoomed)}>
+                {isProofZoomed ? <ZoomOut className="h-4 w-4" /> : <ZoomIn className="h-4 w-4" />}
+                <span className="sr-only">{isProofZoomed ? "Zoom out" : "Zoom in"}</span>
+              </Button>
+            </DialogTitle>
+          </DialogHeader>
+          <div className="max-h-[75vh] overflow-auto rounded-md bg-muted">
+            {proofUrl && (
+              <img
+                src={proofUrl}
+                alt="Payment proof"
+                onClick={() => setIsProofZoomed(!isProofZoomed)}
+                className={cn(
+                  "mx-auto transition-all",
+                  isProofZoomed ? "max-w-none w-[200%] cursor-zoom-out" : "max-h-[75vh] object-contain cursor-zoom-in"
+                )}
+              />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete the order from
+              "{order.customer_name}".
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90"
+              onClick={() => deleteOrderMutation.mutate()}
+              disabled={deleteOrderMutation.isPending}
+            >
+              {deleteOrderMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default AdminOrderDetail;
@@ -1,8 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,74 +22,58 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { MoreHorizontal } from "lucide-react";
+import { FileSpreadsheet, MoreHorizontal } from "lucide-react";
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Tables } from "@/integrations/supabase/types";
-import { cn } from "@/lib/utils";
+import { ORDER_STATUS_INFO, ORDER_STATUS_TRANSITIONS, OrderStatus, getStatusChangePermission } from "@/lib/orderStatus";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { usePaymentProofUrls } from "@/hooks/use-payment-proof-urls";
+import { usePermission } from "@/hooks/use-permission";
+import { formatDeliverySchedule } from "@/lib/delivery";
+import { deleteOrder, getAdminOrders, orderKeys, updateOrderStatus } from "@/data/orders";
 
 type Order = Tables<'orders'>;
 
 const AdminOrders = () => {
   const queryClient = useQueryClient();
   const [orderToDelete, setOrderToDelete] = useState<Order | null>(null);
+  const canApprove = usePermission("orders.approve");
+  const canFulfil = usePermission("orders.fulfil");
+  const canDelete = usePermission("orders.delete");
+
+  const canChangeTo = (status: OrderStatus) =>
+    getStatusChangePermission(status) === "orders.approve" ? canApprove : canFulfil;
 
   const { data: orders, isLoading } = useQuery({
-    queryKey: ["admin-orders"],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("orders")
-        .select(`*`)
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      return data;
-    },
+    queryKey: orderKeys.adminList(),
+    queryFn: getAdminOrders,
   });
 
-  // NEW: Mutation to update order status to 'approved'
-  const approveOrderMutation = useMutation({
-    mutationFn: async (orderId: string) => {
-      const { error } = await supabase
-        .from("orders")
-        .update({ status: 'approved' })
-        .eq('id', orderId);
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      toast.success("Order approved and is now awaiting delivery.");
-      queryClient.invalidateQueries({ queryKey: ["admin-orders"] });
-    },
-    onError: (error) => {
-      toast.error(`Failed to approve order: ${error.message}`);
-    },
-  });
+  const proofUrls = usePaymentProofUrls(orders?.map((order) => order.payment_proof_path) ?? []);
 
-  // MODIFIED: This mutation now marks the order as 'delivered'
-  const deliverOrderMutation = useMutation({
-    mutationFn: async (orderId: string) => {
-      const { error } = await supabase
-        .from("orders")
-        .update({ status: 'delivered' })
-        .eq('id', orderId);
-      if (error) throw error;
+  // Moves an order along its lifecycle. The database validates the transition
+  // and records it in the order's status history.
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ orderId, status }: { orderId: string; status: OrderStatus }) => {
+      await updateOrderStatus(orderId, status);
+      return status;
     },
-    onSuccess: () => {
-      toast.success("Order marked as delivered!");
-      queryClient.invalidateQueries({ queryKey: ["admin-orders"] });
+    onSuccess: (status) => {
+      toast.success(`Order marked as ${ORDER_STATUS_INFO[status].label.toLowerCase()}.`);
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
     },
     onError: (error) => {
-      toast.error(`Failed to deliver order: ${error.message}`);
+      toast.error(`Failed to update order: ${error.message}`);
     },
   });
 
   // Mutation to delete an order
   const deleteOrderMutation = useMutation({
-    mutationFn: async (orderId: string) => {
-      const { error } = await supabase.from("orders").delete().eq("id", orderId);
-      if (error) throw error;
-    },
+    mutationFn: deleteOrder,
     onSuccess: () => {
       toast.success("Order deleted successfully.");
-      queryClient.invalidateQueries({ queryKey: ["admin-orders"] });
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
       setOrderToDelete(null);
     },
     onError: (error) => {
@@ -103,11 +85,20 @@ const AdminOrders = () => {
   return (
     <>
       <Card>
-        <CardHeader>
-          <CardTitle>Orders</CardTitle>
-          <CardDescription>
-            A list of all the submitted orders.
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Orders</CardTitle>
+            <CardDescription>
+              A list of all the submitted orders.
+            </CardDescription>
+          </div>
+          {canApprove && (
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/admin/dashboard/orders/reconcile">
+                <FileSpreadsheet className="mr-2 h-4 w-4" /> Reconcile M-Pesa
+              </Link>
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
           <Table>
@@ -116,6 +107,7 @@ const AdminOrders = () => {
                 <TableHead>Customer</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Date</TableHead>
+                <TableHead>Delivery</TableHead>
                 <TableHead className="text-right">Amount</TableHead>
                 <TableHead className="text-center">Proof</TableHead>
                 <TableHead>
@@ -126,33 +118,36 @@ const AdminOrders = () => {
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center">
+                  <TableCell colSpan={7} className="text-center">
                     Loading orders...
                   </TableCell>
                 </TableRow>
               ) : orders && orders.length > 0 ? (
                 orders.map((order) => (
                   <TableRow key={order.id}>
-                    <TableCell className="font-medium">{order.customer_name}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link to={`/admin/dashboard/orders/${order.id}`} className="hover:underline">
+                        {order.customer_name}
+                      </Link>
+                    </TableCell>
                     <TableCell>
-                      <Badge
-                        variant="outline"
-                        className={cn({
-                          "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/40 dark:text-yellow-300 dark:border-yellow-700": order.status === 'pending',
-                          "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/40 dark:text-blue-300 dark:border-blue-700": order.status === 'approved',
-                          "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/40 dark:text-green-300 dark:border-green-700": order.status === 'delivered',
-                        })}
-                      >
-                        {order.status}
-                      </Badge>
+                      <OrderStatusBadge status={order.status} />
                     </TableCell>
                     <TableCell>{format(new Date(order.created_at), "PPP")}</TableCell>
+                    <TableCell>
+                      {formatDeliverySchedule(order) ?? "-"}
+                      {order.fulfillment_method === "pickup" && (
+                        <span className="block text-xs text-muted-foreground">Store pickup</span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">Ksh {order.total_amount.toFixed(2)}</TableCell>
                     <TableCell className="text-center">
-                      {order.payment_proof_url ? (
-                        <a href={order.payment_proof_url} target="_blank" rel="noopener noreferrer">
+                      {order.payment_proof_path && proofUrls[order.payment_proof_path] ? (
+                        <a href={proofUrls[order.payment_proof_path]} target="_blank" rel="noopener noreferrer">
                           <Button variant="outline" size="sm">View</Button>
                         </a>
+                      ) : order.mpesa_receipt_number ? (
+                        <span className="font-mono text-xs">{order.mpesa_receipt_number}</span>
                       ) : (
                         <span>-</span>
                       )}
@@ -167,25 +162,28 @@ const AdminOrders = () => {
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                          <DropdownMenuItem
-                            onSelect={() => approveOrderMutation.mutate(order.id)}
-                            disabled={order.status !== 'pending'}
-                          >
-                            Approve Order
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onSelect={() => deliverOrderMutation.mutate(order.id)}
-                            disabled={order.status !== 'approved'}
-                          >
-                            Mark as Delivered
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem
-                            className="text-destructive"
-                            onSelect={() => setOrderToDelete(order)}
-                          >
-                            Delete
+                          <DropdownMenuItem asChild>
+                            <Link to={`/admin/dashboard/orders/${order.id}`}>View Details</Link>
                           </DropdownMenuItem>
+                          {ORDER_STATUS_TRANSITIONS[order.status].filter(canChangeTo).map((nextStatus) => (
+                            <DropdownMenuItem
+                              key={nextStatus}
+                              onSelect={() => updateStatusMutation.mutate({ orderId: order.id, status: nextStatus })}
+                            >
+                              {ORDER_STATUS_INFO[nextStatus].actionLabel}
+                            </DropdownMenuItem>
+                          ))}
+                          {canDelete && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onSelect={() => setOrderToDelete(order)}
+                              >
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -193,7 +191,7 @@ const AdminOrders = () => {
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center">
+                  <TableCell colSpan={7} className="text-center">
                     No orders found.
                   </TableCell>
                 </TableRow>
@@ -224,9 +222,9 @@ const AdminOrders = () => {
                   deleteOrderMutation.mutate(orderToDelete.id);
                 }
               }}
-              disabled={deleteOrderMutation.isLoading}
+              disabled={deleteOrderMutation.isPending}
             >
-              {deleteOrderMutation.isLoading ? "Deleting..." : "Delete"}
+              {deleteOrderMutation.isPending ? "Deleting..." : "Delete"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -0,0 +1,437 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DateRange } from "react-day-picker";
+import { format, startOfMonth, startOfToday, startOfYear, subDays } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { CalendarIcon } from "lucide-react";
+import { ORDER_STATUS_INFO } from "@/lib/orderStatus";
+import { fromDateKey, toDateKey } from "@/lib/delivery";
+import {
+  AnalyticsPeriod,
+  analyticsKeys,
+  getOrdersByStatus,
+  getRevenueByDay,
+  getSalesByCategory,
+  getSalesSummary,
+  getTopProducts,
+} from "@/data/analytics";
+
+const CHART_COLORS = [1, 2, 3, 4, 5].map((n) => `hsl(var(--chart-${n}))`);
+
+type RangePreset = "7d" | "30d" | "90d" | "month" | "year" | "custom";
+
+const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  month: "This month",
+  year: "This year",
+  custom: "Custom range",
+};
+
+const getPresetRange = (preset: Exclude<RangePreset, "custom">): { from: Date; to: Date } => {
+  const today = startOfToday();
+  switch (preset) {
+    case "7d":
+      return { from: subDays(today, 6), to: today };
+    case "30d":
+      return { from: subDays(today, 29), to: today };
+    case "90d":
+      return { from: subDays(today, 89), to: today };
+    case "month":
+      return { from: startOfMonth(today), to: today };
+    case "year":
+      return { from: startOfYear(today), to: today };
+  }
+};
+
+const formatKsh = (value: number) =>
+  `Ksh ${value.toLocaleString("en-KE", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatCompactKsh = (value: number) =>
+  `Ksh ${Intl.NumberFormat("en-KE", { notation: "compact" }).format(value)}`;
+
+// Tooltip rows for money, e.g. "Revenue  Ksh 12,400.00".
+const formatMoneyTooltip = (config: ChartConfig) => (value: unknown, name: unknown) => (
+  <div className="flex w-full items-center justify-between gap-4">
+    <span className="text-muted-foreground">{config[String(name)]?.label ?? String(name)}</span>
+    <span className="font-mono font-medium tabular-nums text-foreground">{formatKsh(Number(value))}</span>
+  </div>
+);
+
+const revenueChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const statusChartConfig = {
+  order_count: { label: "Orders", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const topProductsChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--chart-1))" },
+  units: { label: "Units", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const customersChartConfig = {
+  new: { label: "New", color: "hsl(var(--chart-1))" },
+  returning: { label: "Returning", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+interface DateRangePickerProps {
+  preset: RangePreset;
+  range: { from: Date; to: Date };
+  onChange: (preset: RangePreset, range: { from: Date; to: Date }) => void;
+}
+
+const DateRangePicker = ({ preset, range, onChange }: DateRangePickerProps) => {
+  const [draft, setDraft] = useState<DateRange | undefined>(range);
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={preset}
+        onValueChange={(value: RangePreset) => {
+          if (value === "custom") {
+            setIsOpen(true);
+          } else {
+            onChange(value, getPresetRange(value));
+          }
+        }}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(RANGE_PRESET_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Popover
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open);
+          if (open) setDraft(range);
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="justify-start font-normal">
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {format(range.from, "d MMM yyyy")} – {format(range.to, "d MMM yyyy")}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            selected={draft}
+            onSelect={setDraft}
+            defaultMonth={subDays(range.to, 31)}
+            toDate={startOfToday()}
+          />
+          <div className="flex justify-end gap-2 border-t p-3">
+            <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={!draft?.from}
+              onClick={() => {
+                if (!draft?.from) return;
+                onChange("custom", { from: draft.from, to: draft.to ?? draft.from });
+                setIsOpen(false);
+              }}
+            >
+              Apply
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+interface StatCardProps {
+  title: string;
+  value: string;
+  detail?: string;
+}
+
+const StatCard = ({ title, value, detail }: StatCardProps) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{title}</CardDescription>
+      <CardTitle className="text-2xl tabular-nums">{value}</CardTitle>
+    </CardHeader>
+    {detail && (
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </CardContent>
+    )}
+  </Card>
+);
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <div className="flex aspect-video items-center justify-center text-sm text-muted-foreground">{message}</div>
+);
+
+const AdminOverview = () => {
+  const [preset, setPreset] = useState<RangePreset>("30d");
+  const [range, setRange] = useState(() => getPresetRange("30d"));
+  const [topProductsBy, setTopProductsBy] = useState<"revenue" | "units">("revenue");
+
+  const period: AnalyticsPeriod = { p_from: toDateKey(range.from), p_to: toDateKey(range.to) };
+
+  const { data: summary } = useQuery({
+    queryKey: analyticsKeys.summary(period),
+    queryFn: () => getSalesSummary(period),
+  });
+
+  const { data: revenueByDay, isLoading: isLoadingRevenue } = useQuery({
+    queryKey: analyticsKeys.revenueByDay(period),
+    queryFn: () => getRevenueByDay(period),
+  });
+
+  const { data: ordersByStatus } = useQuery({
+    queryKey: analyticsKeys.ordersByStatus(period),
+    queryFn: async () => {
+      const data = await getOrdersByStatus(period);
+      return data.map((row) => ({ ...row, label: ORDER_STATUS_INFO[row.status].label }));
+    },
+  });
+
+  const { data: topProducts } = useQuery({
+    queryKey: analyticsKeys.topProducts(period, topProductsBy),
+    queryFn: () => getTopProducts(period, topProductsBy),
+  });
+
+  const { data: salesByCategory } = useQuery({
+    queryKey: analyticsKeys.salesByCategory(period),
+    queryFn: () => getSalesByCategory(period),
+  });
+
+  const categoryChartConfig: ChartConfig = Object.fromEntries(
+    (salesByCategory ?? []).map((row, index) => [
+      row.category_id ?? "uncategorised",
+      { label: row.category_name, color: CHART_COLORS[index % CHART_COLORS.length] },
+    ]),
+  );
+  const categoryData = (salesByCategory ?? []).map((row) => ({
+    ...row,
+    key: row.category_id ?? "uncategorised",
+    fill: `var(--color-${row.category_id ?? "uncategorised"})`,
+  }));
+
+  const customerData = summary
+    ? [
+        { key: "new", customers: summary.new_customers, fill: "var(--color-new)" },
+        { key: "returning", customers: summary.returning_customers, fill: "var(--color-returning)" },
+      ].filter((row) => row.customers > 0)
+    : [];
+
+  return (
+    <div className="grid gap-4 pt-4 md:gap-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Overview</h1>
+          <p className="text-sm text-muted-foreground">
+            Sales count paid orders only, leaving out unpaid, cancelled and refunded ones. Days are in Nairobi time.
+          </p>
+        </div>
+        <DateRangePicker
+          preset={preset}
+          range={range}
+          onChange={(nextPreset, nextRange) => {
+            setPreset(nextPreset);
+            setRange(nextRange);
+          }}
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Revenue"
+          value={summary ? formatKsh(summary.revenue) : "—"}
+          detail={summary && summary.discount_total > 0 ? `After ${formatKsh(summary.discount_total)} in discounts` : undefined}
+        />
+        <StatCard
+          title="Orders"
+          value={summary ? String(summary.order_count) : "—"}
+          detail={summary && summary.cancelled_count > 0 ? `${summary.cancelled_count} cancelled or refunded` : undefined}
+        />
+        <StatCard title="Average Order Value" value={summary ? formatKsh(summary.average_order_value) : "—"} />
+        <StatCard title="Items Sold" value={summary ? String(summary.items_sold) : "—"} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Revenue</CardTitle>
+          <CardDescription>Daily revenue for the chosen period.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingRevenue ? (
+            <EmptyChart message="Loading revenue..." />
+          ) : (
+            <ChartContainer config={revenueChartConfig} className="aspect-auto h-72 w-full">
+              <AreaChart data={revenueByDay ?? []} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="day"
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  minTickGap={32}
+                  tickFormatter={(value) => format(fromDateKey(value), "d MMM")}
+                />
+                <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={(value) => formatCompactKsh(value)} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(value) => format(fromDateKey(String(value)), "EEE d MMM yyyy")}
+                      formatter={formatMoneyTooltip(revenueChartConfig)}
+                    />
+                  }
+                />
+                <Area
+                  dataKey="revenue"
+                  type="monotone"
+                  fill="var(--color-revenue)"
+                  fillOpacity={0.2}
+                  stroke="var(--color-revenue)"
+                />
+              </AreaChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:gap-8 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="grid gap-1.5">
+              <CardTitle>Top Products</CardTitle>
+              <CardDescription>Line totals, before order discounts and delivery.</CardDescription>
+            </div>
+            <Tabs value={topProductsBy} onValueChange={(value) => setTopProductsBy(value as "revenue" | "units")}>
+              <TabsList>
+                <TabsTrigger value="revenue">Revenue</TabsTrigger>
+                <TabsTrigger value="units">Units</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            {topProducts && topProducts.length > 0 ? (
+              <ChartContainer config={topProductsChartConfig} className="aspect-auto h-80 w-full">
+                <BarChart data={topProducts} layout="vertical" margin={{ left: 8, right: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis
+                    type="number"
+                    dataKey={topProductsBy}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => (topProductsBy === "revenue" ? formatCompactKsh(value) : String(value))}
+                  />
+                  <YAxis type="category" dataKey="product_name" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={topProductsBy === "revenue" ? formatMoneyTooltip(topProductsChartConfig) : undefined}
+                      />
+                    }
+                  />
+                  <Bar dataKey={topProductsBy} fill={`var(--color-${topProductsBy})`} radius={4} />
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <EmptyChart message="No sales in this period." />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sales by Category</CardTitle>
+            <CardDescription>Line totals, by each product's current category.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {categoryData.length > 0 ? (
+              <ChartContainer config={categoryChartConfig} className="mx-auto aspect-square max-h-80">
+                <PieChart>
+                  <ChartTooltip
+                    content={<ChartTooltipContent nameKey="key" hideLabel formatter={formatMoneyTooltip(categoryChartConfig)} />}
+                  />
+                  <Pie data={categoryData} dataKey="revenue" nameKey="key" innerRadius={50} />
+                  <ChartLegend content={<ChartLegendContent nameKey="key" />} className="flex-wrap gap-2" />
+                </PieChart>
+              </ChartContainer>
+            ) : (
+              <EmptyChart message="No sales in this period." />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Orders by Status</CardTitle>
+            <CardDescription>Where this period's orders are now, including cancelled ones.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {ordersByStatus && ordersByStatus.length > 0 ? (
+              <ChartContainer config={statusChartConfig} className="aspect-auto h-72 w-full">
+                <BarChart data={ordersByStatus} margin={{ top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} interval={0} fontSize={11} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="order_count" fill="var(--color-order_count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <EmptyChart message="No orders in this period." />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New vs Returning Customers</CardTitle>
+            <CardDescription>
+              Signed-in customers who ordered in this period, by whether they had ordered before it.
+              {summary && summary.guest_orders > 0 && ` ${summary.guest_orders} guest orders are not included.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {customerData.length > 0 ? (
+              <ChartContainer config={customersChartConfig} className="mx-auto aspect-square max-h-80">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+                  <Pie data={customerData} dataKey="customers" nameKey="key" innerRadius={50} />
+                  <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+                </PieChart>
+              </ChartContainer>
+            ) : (
+              <EmptyChart message="No signed-in customers ordered in this period." />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminOverview;
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { ArrowLeft, FileSpreadsheet } from "lucide-react";
+import {
+  MATCH_KIND_LABELS,
+  ReconciliationResult,
+  StatementEntry,
+  matchStatementToOrders,
+  parseMpesaStatement,
+} from "@/lib/mpesaStatement";
+import { getRecordedReceipts, getUnpaidOrders, orderKeys, reconcileMpesaPayments } from "@/data/orders";
+
+const AdminPaymentReconciliation = () => {
+  const queryClient = useQueryClient();
+  const [statementText, setStatementText] = useState("");
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [selectedReceipts, setSelectedReceipts] = useState<Set<string>>(new Set());
+  // Why the server refused a match, by receipt number.
+  const [failedReceipts, setFailedReceipts] = useState<Record<string, string>>({});
+  const [isMatching, setIsMatching] = useState(false);
+
+  const { data: unpaidOrders, isLoading } = useQuery({
+    queryKey: orderKeys.unpaid(),
+    queryFn: getUnpaidOrders,
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setStatementText(await file.text());
+    setResult(null);
+  };
+
+  const handleMatch = async () => {
+    if (!unpaidOrders) return;
+    setIsMatching(true);
+    try {
+      const entries = parseMpesaStatement(statementText);
+      if (entries.length === 0) {
+        throw new Error("No completed incoming payments were found in this statement.");
+      }
+
+      // Receipts that already paid for an order must not be used again.
+      const recordedReceipts = await getRecordedReceipts(entries.map((entry) => entry.receiptNumber));
+      const matched = matchStatementToOrders(entries, unpaidOrders, recordedReceipts);
+
+      setResult(matched);
+      setFailedReceipts({});
+      // Code matches are trusted; phone and reference matches must be ticked by hand.
+      setSelectedReceipts(new Set(
+        matched.matches.filter((match) => match.kind === "code").map((match) => match.entry.receiptNumber)
+      ));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not read this statement.");
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const toggleReceipt = (receiptNumber: string, checked: boolean) => {
+    setSelectedReceipts((current) => {
+      const next = new Set(current);
+      if (checked) next.add(receiptNumber);
+      else next.delete(receiptNumber);
+      return next;
+    });
+  };
+
+  const reconcileMutation = useMutation({
+    mutationFn: () => {
+      const selected = (result?.matches ?? []).filter((match) => selectedReceipts.has(match.entry.receiptNumber));
+      return reconcileMpesaPayments(selected.map((match) => ({
+        order_id: match.order.id,
+        receipt_number: match.entry.receiptNumber,
+        amount: match.entry.amount,
+        details: match.entry.details,
+      })));
+    },
+    onSuccess: (rows) => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      const confirmed = new Set(rows.filter((row) => !row.error).map((row) => row.receipt_number));
+      const failed = rows.filter((row) => row.error);
+
+      if (failed.length === 0) {
+        toast.success(`${confirmed.size} order${confirmed.size === 1 ? "" : "s"} marked as paid.`);
+        setResult(null);
+        setStatementText("");
+        setSelectedReceipts(new Set());
+        return;
+      }
+
+      // Keep the rows that failed on screen with the reason next to them.
+      toast.warning(
+        `${confirmed.size} order${confirmed.size === 1 ? "" : "s"} marked as paid. ` +
+          `${failed.length} payment${failed.length === 1 ? "" : "s"} could not be confirmed.`
+      );
+      setFailedReceipts(Object.fromEntries(failed.map((row) => [row.receipt_number, row.error as string])));
+      setResult((current) =>
+        current && {
+          ...current,
+          matches: current.matches.filter((match) => !confirmed.has(match.entry.receiptNumber)),
+        }
+      );
+      setSelectedReceipts(new Set());
+    },
+    onError: (error) => {
+      toast.error(`Failed to reconcile payments: ${error.message}`);
+    },
+  });
+
+  const renderEntryRows = (entries: StatementEntry[]) =>
+    entries.map((entry) => (
+      <TableRow key={entry.receiptNumber}>
+        <TableCell className="font-mono">{entry.receiptNumber}</TableCell>
+        <TableCell>{entry.completedAt}</TableCell>
+        <TableCell className="max-w-xs truncate">{entry.details}</TableCell>
+        <TableCell className="text-right">Ksh {entry.amount.toFixed(2)}</TableCell>
+      </TableRow>
+    ));
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" asChild className="w-fit">
+        <Link to="/admin/dashboard/orders">
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Orders
+        </Link>
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reconcile M-Pesa Payments</CardTitle>
+          <CardDescription>
+            Upload or paste an M-Pesa statement CSV to match its payments to the{" "}
+            {isLoading ? "..." : unpaidOrders?.length ?? 0} unpaid orders.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="statement-file">Statement file</Label>
+            <Input id="statement-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statement-text">Or paste the statement</Label>
+            <Textarea
+              id="statement-text"
+              rows={8}
+              className="font-mono text-xs"
+              placeholder="Receipt No.,Completion Time,Details,Transaction Status,Paid In,Withdrawn,Balance"
+              value={statementText}
+              onChange={(e) => {
+                setStatementText(e.target.value);
+                setResult(null);
+              }}
+            />
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button onClick={handleMatch} disabled={!statementText.trim() || isLoading || isMatching}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            {isMatching ? "Matching..." : "Match Payments"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Matched Payments</CardTitle>
+              <CardDescription>
+                Matches on a phone number or order reference are not selected by default. Check the customer
+                before confirming them.
+                {result.alreadyRecorded.length > 0 &&
+                  ` ${result.alreadyRecorded.length} receipt${result.alreadyRecorded.length === 1 ? " is" : "s are"} already recorded and were skipped.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Receipt</TableHead>
+                    <TableHead>Statement</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Matched On</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.matches.length > 0 ? (
+                    result.matches.map(({ entry, order, kind }) => (
+                      <TableRow key={entry.receiptNumber}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedReceipts.has(entry.receiptNumber)}
+                            onCheckedChange={(checked) => toggleReceipt(entry.receiptNumber, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-mono">{entry.receiptNumber}</p>
+                          {failedReceipts[entry.receiptNumber] && (
+                            <p className="max-w-xs text-xs text-destructive">{failedReceipts[entry.receiptNumber]}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <p className="max-w-xs truncate">{entry.details}</p>
+                          <p className="text-xs text-muted-foreground">{entry.completedAt}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Link to={`/admin/dashboard/orders/${order.id}`} className="hover:underline">
+                            {order.customer_name}
+                          </Link>
+                          <p className="text-xs text-muted-foreground">#{order.id.substring(0, 8)}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={kind === "code" ? "default" : "secondary"}>
+                            {MATCH_KIND_LABELS[kind]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          Ksh {entry.amount.toFixed(2)}
+                          {entry.amount > order.total_amount && (
+                            <p className="text-xs text-muted-foreground">Order: Ksh {order.total_amount.toFixed(2)}</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center">
+                        No payments in this statement match an unpaid order.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+            <CardFooter className="justify-end">
+              <Button
+                onClick={() => reconcileMutation.mutate()}
+                disabled={selectedReceipts.size === 0 || reconcileMutation.isPending}
+              >
+                {reconcileMutation.isPending
+                  ? "Confirming..."
+                  : `Confirm ${selectedReceipts.size} Payment${selectedReceipts.size === 1 ? "" : "s"}`}
+              </Button>
+            </CardFooter>
+          </Card>
+
+          {result.shortPayments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Short Payments</CardTitle>
+                <CardDescription>
+                  These customers entered a code from the statement but paid less than their order total.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Receipt</TableHead>
+                      <TableHead>Order</TableHead>
+                      <TableHead className="text-right">Paid</TableHead>
+                      <TableHead className="text-right">Due</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.shortPayments.map(({ entry, order }) => (
+                      <TableRow key={entry.receiptNumber}>
+                        <TableCell className="font-mono">{entry.receiptNumber}</TableCell>
+                        <TableCell>
+                          <Link to={`/admin/dashboard/orders/${order.id}`} className="hover:underline">
+                            {order.customer_name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right text-destructive">Ksh {entry.amount.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">Ksh {order.total_amount.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.unmatchedEntries.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Unmatched Payments</CardTitle>
+                <CardDescription>
+                  No unpaid order could be matched to these payments with confidence.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Receipt</TableHead>
+                      <TableHead>Completed</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>{renderEntryRows(result.unmatchedEntries)}</TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdminPaymentReconciliation;
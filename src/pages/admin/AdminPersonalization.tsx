@@ -0,0 +1,344 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Pencil, PlusCircle, Trash2 } from "lucide-react";
+import {
+  PERSONALIZATION_OPTION_KIND_LABELS,
+  PersonalizationOption,
+  PersonalizationOptionKind,
+} from "@/lib/personalization";
+import {
+  createPersonalizationOption,
+  deletePersonalizationOption,
+  getPersonalizationOptions,
+  personalizationKeys,
+  updatePersonalizationOption,
+} from "@/data/personalization";
+
+const optionSchema = z.object({
+  kind: z.enum(["colour_theme", "dietary"]),
+  label: z.string().trim().min(1, "Label is required"),
+  surcharge: z.coerce.number().min(0, "Surcharge cannot be negative"),
+  position: z.coerce.number().int().min(0),
+  active: z.boolean(),
+});
+
+type OptionFormInput = z.input<typeof optionSchema>;
+type OptionFormData = z.output<typeof optionSchema>;
+
+interface OptionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The option being edited, or null to create a new one.
+  option: PersonalizationOption | null;
+}
+
+const OptionFormDialog = ({ open, onOpenChange, option }: OptionFormDialogProps) => {
+  const queryClient = useQueryClient();
+  const isEditMode = !!option;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors },
+  } = useForm<OptionFormInput, unknown, OptionFormData>({
+    resolver: zodResolver(optionSchema),
+    defaultValues: { kind: "colour_theme", label: "", surcharge: 0, position: 0, active: true },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        kind: (option?.kind as PersonalizationOptionKind) ?? "colour_theme",
+        label: option?.label ?? "",
+        surcharge: option?.surcharge ?? 0,
+        position: option?.position ?? 0,
+        active: option?.active ?? true,
+      });
+    }
+  }, [open, option, reset]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: OptionFormData) => {
+      const dataToSubmit = {
+        kind: data.kind,
+        label: data.label,
+        surcharge: data.surcharge,
+        position: data.position,
+        active: data.active,
+      };
+
+      if (option) {
+        await updatePersonalizationOption(option.id, dataToSubmit);
+      } else {
+        await createPersonalizationOption(dataToSubmit);
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Option ${isEditMode ? "updated" : "created"} successfully`);
+      queryClient.invalidateQueries({ queryKey: personalizationKeys.all });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit((data) => mutation.mutate(data))} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{isEditMode ? "Edit Option" : "Add Option"}</DialogTitle>
+            <DialogDescription>
+              Customers pick these when personalizing a cake. The surcharge is added to each cake.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <Label htmlFor="option-kind">Type</Label>
+            <Controller
+              name="kind"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger id="option-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PERSONALIZATION_OPTION_KIND_LABELS).map(([kind, label]) => (
+                      <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="option-label">Label</Label>
+            <Input id="option-label" placeholder="e.g. Pastel pink & gold" {...register("label")} />
+            {errors.label && <p className="text-sm text-destructive">{errors.label.message}</p>}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-3">
+              <Label htmlFor="option-surcharge">Surcharge (Ksh)</Label>
+              <Input id="option-surcharge" type="number" step="0.01" min="0" {...register("surcharge")} />
+              {errors.surcharge && <p className="text-sm text-destructive">{errors.surcharge.message}</p>}
+            </div>
+            <div className="grid gap-3">
+              <Label htmlFor="option-position">Position</Label>
+              <Input id="option-position" type="number" min="0" {...register("position")} />
+              {errors.position && <p className="text-sm text-destructive">{errors.position.message}</p>}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Controller
+              name="active"
+              control={control}
+              render={({ field }) => (
+                <Switch id="option-active" checked={field.value} onCheckedChange={field.onChange} />
+              )}
+            />
+            <Label htmlFor="option-active">Offered to customers</Label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Save Option"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const AdminPersonalization = () => {
+  const queryClient = useQueryClient();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [optionToEdit, setOptionToEdit] = useState<PersonalizationOption | null>(null);
+  const [optionToDelete, setOptionToDelete] = useState<PersonalizationOption | null>(null);
+
+  const { data: options, isLoading } = useQuery({
+    queryKey: personalizationKeys.all,
+    queryFn: getPersonalizationOptions,
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => updatePersonalizationOption(id, { active }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: personalizationKeys.all });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update option: ${error.message}`);
+    },
+  });
+
+  const deleteOptionMutation = useMutation({
+    mutationFn: deletePersonalizationOption,
+    onSuccess: () => {
+      toast.success("Option deleted successfully");
+      queryClient.invalidateQueries({ queryKey: personalizationKeys.all });
+      setOptionToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(`Error deleting option: ${error.message}`);
+      setOptionToDelete(null);
+    },
+  });
+
+  const openForm = (option: PersonalizationOption | null) => {
+    setOptionToEdit(option);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <>
+      <div className="flex items-center pt-4">
+        <div className="ml-auto flex items-center gap-2">
+          <Button size="sm" className="h-7 gap-1" onClick={() => openForm(null)}>
+            <PlusCircle className="h-3.5 w-3.5" />
+            <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+              Add Option
+            </span>
+          </Button>
+        </div>
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Personalization</CardTitle>
+          <CardDescription>
+            The colour themes and dietary options customers can choose for their cake.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Label</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Surcharge</TableHead>
+                <TableHead className="text-right">Position</TableHead>
+                <TableHead>Offered</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    Loading options...
+                  </TableCell>
+                </TableRow>
+              ) : options && options.length > 0 ? (
+                options.map((option) => (
+                  <TableRow key={option.id}>
+                    <TableCell className="font-medium">{option.label}</TableCell>
+                    <TableCell>
+                      {PERSONALIZATION_OPTION_KIND_LABELS[option.kind as PersonalizationOptionKind] ?? option.kind}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {option.surcharge > 0 ? `Ksh ${option.surcharge.toFixed(2)}` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">{option.position}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={option.active}
+                        disabled={toggleActiveMutation.isPending}
+                        onCheckedChange={(active) => toggleActiveMutation.mutate({ id: option.id, active })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openForm(option)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => setOptionToDelete(option)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    No options found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <OptionFormDialog open={isFormOpen} onOpenChange={setIsFormOpen} option={optionToEdit} />
+
+      <AlertDialog
+        open={!!optionToDelete}
+        onOpenChange={(isOpen) => !isOpen && setOptionToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{optionToDelete?.label}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. Past orders keep the label, but carts that include this option
+              can no longer be checked out. To stop offering it for now, switch it off instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => optionToDelete && deleteOptionMutation.mutate(optionToDelete.id)}
+              disabled={deleteOptionMutation.isPending}
+            >
+              {deleteOptionMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default AdminPersonalization;
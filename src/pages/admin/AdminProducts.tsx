@@ -1,7 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { MoreHorizontal, PlusCircle, Package } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -26,33 +25,43 @@ import {
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
 import { Tables } from "@/integrations/supabase/types";
+import { usePermission } from "@/hooks/use-permission";
+import { describeStock } from "@/lib/inventory";
+import { toDateKey } from "@/lib/delivery";
+import { deleteProduct, getAdminProducts, productKeys } from "@/data/products";
+import { AnalyticsPeriod, analyticsKeys, getTopProducts } from "@/data/analytics";
+import { startOfToday, subDays } from "date-fns";
 
 type Product = Tables<'products'>;
 
 const AdminProducts = () => {
   const queryClient = useQueryClient();
   const [productToDelete, setProductToDelete] = useState<Product | null>(null);
+  const canEdit = usePermission("products.edit");
+  const canViewAnalytics = usePermission("analytics.view");
 
   const { data: products, isLoading } = useQuery({
-    queryKey: ["admin-products"],
+    queryKey: productKeys.adminList(),
+    queryFn: getAdminProducts,
+  });
+
+  // Units and revenue over the last 30 days, for every product sold in them.
+  const today = startOfToday();
+  const last30Days: AnalyticsPeriod = { p_from: toDateKey(subDays(today, 29)), p_to: toDateKey(today) };
+  const { data: sales } = useQuery({
+    queryKey: analyticsKeys.topProducts(last30Days, "revenue", products?.length),
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("products")
-        .select("*")
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      return data;
+      const data = await getTopProducts(last30Days, "revenue", products?.length);
+      return new Map(data.map((row) => [row.product_id, row]));
     },
+    enabled: canViewAnalytics && !!products?.length,
   });
 
   const deleteProductMutation = useMutation({
-    mutationFn: async (productId: string) => {
-      const { error } = await supabase.from("products").delete().eq("id", productId);
-      if (error) throw error;
-    },
+    mutationFn: deleteProduct,
     onSuccess: () => {
       toast.success("Product deleted successfully");
-      queryClient.invalidateQueries({ queryKey: ["admin-products"] });
+      queryClient.invalidateQueries({ queryKey: productKeys.all });
       setProductToDelete(null);
     },
     onError: (error) => {
@@ -65,21 +74,25 @@ const AdminProducts = () => {
     <>
       <div className="flex items-center pt-4">
         <div className="ml-auto flex items-center gap-2">
-          <Link to="/admin/dashboard/products/new">
-            <Button size="sm" className="h-7 gap-1">
-              <PlusCircle className="h-3.5 w-3.5" />
-              <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
-                Add Product
-              </span>
-            </Button>
-          </Link>
+          {canEdit && (
+            <Link to="/admin/dashboard/products/new">
+              <Button size="sm" className="h-7 gap-1">
+                <PlusCircle className="h-3.5 w-3.5" />
+                <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+                  Add Product
+                </span>
+              </Button>
+            </Link>
+          )}
         </div>
       </div>
       <Card>
         <CardHeader>
           <CardTitle>Products</CardTitle>
           <CardDescription>
-            Manage your products and view their sales performance.
+            {canViewAnalytics
+              ? "Manage your products and view their sales over the last 30 days."
+              : "Manage your products."}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -93,6 +106,7 @@ const AdminProducts = () => {
                 <TableHead>Status</TableHead>
                 <TableHead>Price</TableHead>
                 <TableHead>Featured</TableHead>
+                {canViewAnalytics && <TableHead className="text-right">Sold (30 days)</TableHead>}
                 <TableHead>
                   <span className="sr-only">Actions</span>
                 </TableHead>
@@ -101,7 +115,7 @@ const AdminProducts = () => {
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center">
+                  <TableCell colSpan={canViewAnalytics ? 7 : 6} className="text-center">
                     Loading...
                   </TableCell>
                 </TableRow>
@@ -128,30 +142,43 @@ const AdminProducts = () => {
                       <Badge variant={product.in_stock ? "outline" : "secondary"}>
                         {product.in_stock ? "In stock" : "Out of stock"}
                       </Badge>
+                      {product.stock_quantity !== null && (
+                        <p className="mt-1 text-xs text-muted-foreground">{describeStock(product)}</p>
+                      )}
                     </TableCell>
                     <TableCell>${product.price.toFixed(2)}</TableCell>
                     <TableCell>{product.featured ? "Yes" : "No"}</TableCell>
+                    {canViewAnalytics && (
+                      <TableCell className="text-right">
+                        <div className="tabular-nums">{sales?.get(product.id)?.units ?? 0}</div>
+                        <p className="text-xs text-muted-foreground tabular-nums">
+                          Ksh {(sales?.get(product.id)?.revenue ?? 0).toFixed(2)}
+                        </p>
+                      </TableCell>
+                    )}
                     <TableCell>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button aria-haspopup="true" size="icon" variant="ghost">
-                            <MoreHorizontal className="h-4 w-4" />
-                            <span className="sr-only">Toggle menu</span>
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                          <DropdownMenuItem asChild>
-                            <Link to={`/admin/dashboard/products/${product.id}/edit`}>Edit</Link>
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            className="text-destructive"
-                            onSelect={() => setProductToDelete(product)}
-                          >
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                      {canEdit && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button aria-haspopup="true" size="icon" variant="ghost">
+                              <MoreHorizontal className="h-4 w-4" />
+                              <span className="sr-only">Toggle menu</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                            <DropdownMenuItem asChild>
+                              <Link to={`/admin/dashboard/products/${product.id}/edit`}>Edit</Link>
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              className="text-destructive"
+                              onSelect={() => setProductToDelete(product)}
+                            >
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
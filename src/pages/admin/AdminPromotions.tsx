@@ -0,0 +1,597 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format } from "date-fns";
+import { getAdminProducts, productKeys } from "@/data/products";
+import { categoryKeys, getCategories } from "@/data/categories";
+import {
+  createPromotion,
+  deletePromotion,
+  getPromotionStats,
+  getPromotions,
+  promotionKeys,
+  updatePromotion,
+} from "@/data/promotions";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Pencil, PlusCircle, Trash2 } from "lucide-react";
+import {
+  PROMOTION_CODE_PATTERN,
+  PROMOTION_KIND_LABELS,
+  Promotion,
+  PromotionKind,
+  describePromotion,
+} from "@/lib/promotions";
+
+// Blank means "no limit".
+const optionalCount = z.union([z.literal(""), z.coerce.number().int().min(1, "Must be at least 1")]);
+
+const promotionSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(PROMOTION_CODE_PATTERN, "Use 3 to 32 letters, numbers, dashes or underscores"),
+  description: z.string().trim(),
+  kind: z.enum(["percentage", "fixed_amount", "free_delivery", "buy_x_get_y"]),
+  value: z.union([z.literal(""), z.coerce.number().positive("Must be more than 0")]),
+  buy_quantity: optionalCount,
+  get_quantity: optionalCount,
+  minimum_subtotal: z.coerce.number().min(0, "Minimum subtotal cannot be negative"),
+  // datetime-local values, in the browser's time zone.
+  starts_at: z.string(),
+  ends_at: z.string(),
+  usage_limit: optionalCount,
+  per_user_limit: optionalCount,
+  product_ids: z.array(z.string()),
+  category_ids: z.array(z.string()),
+  active: z.boolean(),
+}).refine(
+  (data) => data.kind !== "percentage" || (data.value !== "" && data.value <= 100),
+  { message: "Enter a percentage between 1 and 100", path: ["value"] }
+).refine(
+  (data) => data.kind !== "fixed_amount" || data.value !== "",
+  { message: "Enter the amount to take off", path: ["value"] }
+).refine(
+  (data) => data.kind !== "buy_x_get_y" || (data.buy_quantity !== "" && data.get_quantity !== ""),
+  { message: "Enter how many to buy and how many are free", path: ["get_quantity"] }
+).refine(
+  (data) => !data.starts_at || !data.ends_at || new Date(data.ends_at) > new Date(data.starts_at),
+  { message: "The end must be after the start", path: ["ends_at"] }
+);
+
+type PromotionFormInput = z.input<typeof promotionSchema>;
+type PromotionFormData = z.output<typeof promotionSchema>;
+
+const toDateTimeInput = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "");
+const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : null);
+const fromOptionalNumber = (value: number | "") => (value === "" ? null : value);
+
+interface PromotionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The promotion being edited, or null to create a new one.
+  promotion: Promotion | null;
+}
+
+const PromotionFormDialog = ({ open, onOpenChange, promotion }: PromotionFormDialogProps) => {
+  const queryClient = useQueryClient();
+  const isEditMode = !!promotion;
+
+  const { data: products } = useQuery({
+    queryKey: productKeys.adminList(),
+    queryFn: getAdminProducts,
+    enabled: open,
+  });
+
+  const { data: categories } = useQuery({
+    queryKey: categoryKeys.list(),
+    queryFn: getCategories,
+    enabled: open,
+  });
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    watch,
+    formState: { errors },
+  } = useForm<PromotionFormInput, unknown, PromotionFormData>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: {
+      code: "",
+      description: "",
+      kind: "percentage",
+      value: "",
+      buy_quantity: "",
+      get_quantity: "",
+      minimum_subtotal: 0,
+      starts_at: "",
+      ends_at: "",
+      usage_limit: "",
+      per_user_limit: "",
+      product_ids: [],
+      category_ids: [],
+      active: true,
+    },
+  });
+
+  const kind = watch("kind");
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        code: promotion?.code ?? "",
+        description: promotion?.description ?? "",
+        kind: (promotion?.kind as PromotionKind) ?? "percentage",
+        value: promotion?.value ?? "",
+        buy_quantity: promotion?.buy_quantity ?? "",
+        get_quantity: promotion?.get_quantity ?? "",
+        minimum_subtotal: promotion?.minimum_subtotal ?? 0,
+        starts_at: toDateTimeInput(promotion?.starts_at ?? null),
+        ends_at: toDateTimeInput(promotion?.ends_at ?? null),
+        usage_limit: promotion?.usage_limit ?? "",
+        per_user_limit: promotion?.per_user_limit ?? "",
+        product_ids: promotion?.product_ids ?? [],
+        category_ids: promotion?.category_ids ?? [],
+        active: promotion?.active ?? true,
+      });
+    }
+  }, [open, promotion, reset]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: PromotionFormData) => {
+      const hasValue = data.kind === "percentage" || data.kind === "fixed_amount";
+      const isBuyXGetY = data.kind === "buy_x_get_y";
+      const dataToSubmit = {
+        code: data.code,
+        description: data.description || null,
+        kind: data.kind,
+        value: hasValue ? fromOptionalNumber(data.value) : null,
+        buy_quantity: isBuyXGetY ? fromOptionalNumber(data.buy_quantity) : null,
+        get_quantity: isBuyXGetY ? fromOptionalNumber(data.get_quantity) : null,
+        minimum_subtotal: data.minimum_subtotal,
+        starts_at: fromDateTimeInput(data.starts_at),
+        ends_at: fromDateTimeInput(data.ends_at),
+        usage_limit: fromOptionalNumber(data.usage_limit),
+        per_user_limit: fromOptionalNumber(data.per_user_limit),
+        product_ids: data.product_ids,
+        category_ids: data.category_ids,
+        active: data.active,
+      };
+
+      if (promotion) {
+        await updatePromotion(promotion.id, dataToSubmit);
+      } else {
+        await createPromotion(dataToSubmit);
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Promotion ${isEditMode ? "updated" : "created"} successfully`);
+      queryClient.invalidateQueries({ queryKey: promotionKeys.all });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      const message = "code" in error && error.code === "23505"
+        ? "A promotion with that code already exists."
+        : error.message;
+      toast.error(`Error: ${message}`);
+    },
+  });
+
+  const renderChecklist = (
+    name: "product_ids" | "category_ids",
+    items: { id: string; name: string }[] | undefined,
+    emptyText: string,
+  ) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <ScrollArea className="h-40 rounded-md border p-3">
+          {items && items.length > 0 ? (
+            <div className="grid gap-2">
+              {items.map((item) => (
+                <label key={item.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={field.value.includes(item.id)}
+                    onCheckedChange={(checked) =>
+                      field.onChange(
+                        checked ? [...field.value, item.id] : field.value.filter((id) => id !== item.id),
+                      )
+                    }
+                  />
+                  {item.name}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">{emptyText}</p>
+          )}
+        </ScrollArea>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit((data) => mutation.mutate(data))} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{isEditMode ? "Edit Promotion" : "Add Promotion"}</DialogTitle>
+            <DialogDescription>
+              Customers enter the code at checkout. The discount is checked again when the order is placed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-3">
+              <Label htmlFor="promotion-code">Code</Label>
+              <Input id="promotion-code" className="font-mono uppercase" placeholder="e.g. BIRTHDAY15" {...register("code")} />
+              {errors.code && <p className="text-sm text-destructive">{errors.code.message}</p>}
+            </div>
+            <div className="grid gap-3">
+              <Label htmlFor="promotion-kind">Type</Label>
+              <Controller
+                name="kind"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="promotion-kind">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PROMOTION_KIND_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="promotion-description">Description</Label>
+            <Input
+              id="promotion-description"
+              placeholder="For staff, e.g. Instagram giveaway, March"
+              {...register("description")}
+            />
+          </div>
+          {(kind === "percentage" || kind === "fixed_amount") && (
+            <div className="grid gap-3">
+              <Label htmlFor="promotion-value">{kind === "percentage" ? "Percentage off" : "Amount off (Ksh)"}</Label>
+              <Input id="promotion-value" type="number" step="0.01" min="0" {...register("value")} />
+              {errors.value && <p className="text-sm text-destructive">{errors.value.message}</p>}
+            </div>
+          )}
+          {kind === "buy_x_get_y" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-3">
+                <Label htmlFor="promotion-buy">Buy</Label>
+                <Input id="promotion-buy" type="number" min="1" {...register("buy_quantity")} />
+                {errors.buy_quantity && <p className="text-sm text-destructive">{errors.buy_quantity.message}</p>}
+              </div>
+              <div className="grid gap-3">
+                <Label htmlFor="promotion-get">Get free</Label>
+                <Input id="promotion-get" type="number" min="1" {...register("get_quantity")} />
+                {errors.get_quantity && <p className="text-sm text-destructive">{errors.get_quantity.message}</p>}
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-3">
+              <Label htmlFor="promotion-minimum">Minimum subtotal (Ksh)</Label>
+              <Input id="promotion-minimum" type="number" step="0.01" min="0" {...register("minimum_subtotal")} />
+              {errors.minimum_subtotal && <p className="text-sm text-destructive">{errors.minimum_subtotal.message}</p>}
+            </div>
+            <div className="grid gap-3">
+              <Label htmlFor="promotion-usage-limit">Total uses</Label>
+              <Input id="promotion-usage-limit" type="number" min="1" placeholder="Unlimited" {...register("usage_limit")} />
+              {errors.usage_limit && <p className="text-sm text-destructive">{errors.usage_limit.message}</p>}
+            </div>
+            <div className="grid gap-3">
+              <Label htmlFor="promotion-per-user-limit">Uses per customer</Label>
+              <Input
+                id="promotion-per-user-limit"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                {...register("per_user_limit")}
+              />
+              {errors.per_user_limit && <p className="text-sm text-destructive">{errors.per_user_limit.message}</p>}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-3">
+              <Label htmlFor="promotion-starts-at">Starts</Label>
+              <Input id="promotion-starts-at" type="datetime-local" {...register("starts_at")} />
+            </div>
+            <div className="grid gap-3">
+              <Label htmlFor="promotion-ends-at">Ends</Label>
+              <Input id="promotion-ends-at" type="datetime-local" {...register("ends_at")} />
+              {errors.ends_at && <p className="text-sm text-destructive">{errors.ends_at.message}</p>}
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Applies to</Label>
+            <p className="text-sm text-muted-foreground">
+              Leave both lists empty for the whole cart. Otherwise only the ticked products, and products in the
+              ticked categories, are discounted.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              {renderChecklist("category_ids", categories, "No categories yet.")}
+              {renderChecklist("product_ids", products, "No products yet.")}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Controller
+              name="active"
+              control={control}
+              render={({ field }) => (
+                <Switch id="promotion-active" checked={field.value} onCheckedChange={field.onChange} />
+              )}
+            />
+            <Label htmlFor="promotion-active">Customers can use this code</Label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Save Promotion"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Whether a promotion can be used right now, going by its switch and dates.
+const getPromotionState = (promotion: Promotion) => {
+  const now = new Date();
+  if (!promotion.active) return { label: "Off", variant: "outline" as const };
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return { label: "Scheduled", variant: "secondary" as const };
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) return { label: "Expired", variant: "outline" as const };
+  return { label: "Live", variant: "default" as const };
+};
+
+const describeScope = (promotion: Promotion) => {
+  const parts = [];
+  if (promotion.category_ids.length > 0) {
+    parts.push(`${promotion.category_ids.length} ${promotion.category_ids.length === 1 ? "category" : "categories"}`);
+  }
+  if (promotion.product_ids.length > 0) {
+    parts.push(`${promotion.product_ids.length} ${promotion.product_ids.length === 1 ? "product" : "products"}`);
+  }
+  return parts.length > 0 ? parts.join(", ") : "Whole cart";
+};
+
+const formatValidity = (promotion: Promotion) => {
+  if (!promotion.starts_at && !promotion.ends_at) return "Always";
+  const from = promotion.starts_at ? format(new Date(promotion.starts_at), "d MMM yyyy") : "Now";
+  const to = promotion.ends_at ? format(new Date(promotion.ends_at), "d MMM yyyy") : "no end";
+  return `${from} – ${to}`;
+};
+
+const AdminPromotions = () => {
+  const queryClient = useQueryClient();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [promotionToEdit, setPromotionToEdit] = useState<Promotion | null>(null);
+  const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+
+  const { data: promotions, isLoading } = useQuery({
+    queryKey: promotionKeys.list(),
+    queryFn: getPromotions,
+  });
+
+  const { data: stats } = useQuery({
+    queryKey: promotionKeys.stats(),
+    queryFn: getPromotionStats,
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => updatePromotion(id, { active }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promotionKeys.all });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update promotion: ${error.message}`);
+    },
+  });
+
+  const deletePromotionMutation = useMutation({
+    mutationFn: deletePromotion,
+    onSuccess: () => {
+      toast.success("Promotion deleted successfully");
+      queryClient.invalidateQueries({ queryKey: promotionKeys.all });
+      setPromotionToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(`Error deleting promotion: ${error.message}`);
+      setPromotionToDelete(null);
+    },
+  });
+
+  const openForm = (promotion: Promotion | null) => {
+    setPromotionToEdit(promotion);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <>
+      <div className="flex items-center pt-4">
+        <div className="ml-auto flex items-center gap-2">
+          <Button size="sm" className="h-7 gap-1" onClick={() => openForm(null)}>
+            <PlusCircle className="h-3.5 w-3.5" />
+            <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+              Add Promotion
+            </span>
+          </Button>
+        </div>
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Promotions</CardTitle>
+          <CardDescription>
+            Discount codes and how they have been used. Uses on cancelled or refunded orders are not counted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead className="text-right">Uses</TableHead>
+                <TableHead className="text-right">Given away</TableHead>
+                <TableHead className="text-right">Order revenue</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center">
+                    Loading promotions...
+                  </TableCell>
+                </TableRow>
+              ) : promotions && promotions.length > 0 ? (
+                promotions.map((promotion) => {
+                  const state = getPromotionState(promotion);
+                  const promotionStats = stats?.[promotion.id];
+                  return (
+                    <TableRow key={promotion.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono font-medium">{promotion.code}</span>
+                          <Badge variant={state.variant}>{state.label}</Badge>
+                        </div>
+                        {promotion.description && (
+                          <p className="text-xs text-muted-foreground">{promotion.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p>{describePromotion(promotion)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {describeScope(promotion)}
+                          {promotion.minimum_subtotal > 0 && `, over Ksh ${promotion.minimum_subtotal.toFixed(2)}`}
+                        </p>
+                      </TableCell>
+                      <TableCell>{formatValidity(promotion)}</TableCell>
+                      <TableCell className="text-right">
+                        {promotionStats?.redemptions ?? 0}
+                        {promotion.usage_limit !== null && ` / ${promotion.usage_limit}`}
+                        {promotion.per_user_limit !== null && (
+                          <p className="text-xs text-muted-foreground">{promotion.per_user_limit} per customer</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        Ksh {(promotionStats?.total_discount ?? 0).toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        Ksh {(promotionStats?.total_revenue ?? 0).toFixed(2)}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={promotion.active}
+                          disabled={toggleActiveMutation.isPending}
+                          onCheckedChange={(active) => toggleActiveMutation.mutate({ id: promotion.id, active })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => openForm(promotion)}>
+                            <Pencil className="h-4 w-4" />
+                            <span className="sr-only">Edit</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive"
+                            onClick={() => setPromotionToDelete(promotion)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center">
+                    No promotions yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <PromotionFormDialog open={isFormOpen} onOpenChange={setIsFormOpen} promotion={promotionToEdit} />
+
+      <AlertDialog
+        open={!!promotionToDelete}
+        onOpenChange={(isOpen) => !isOpen && setPromotionToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{promotionToDelete?.code}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone and its usage stats are lost. Past orders keep the code and their
+              discount. To stop the code being used, switch it off instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => promotionToDelete && deletePromotionMutation.mutate(promotionToDelete.id)}
+              disabled={deletePromotionMutation.isPending}
+            >
+              {deletePromotionMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default AdminPromotions;
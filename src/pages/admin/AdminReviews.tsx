@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { BadgeCheck, Check, EyeOff, Flag, MessageSquareReply, Star } from "lucide-react";
+import {
+  REVIEW_REPORT_REASON_LABELS,
+  REVIEW_STATUS_LABELS,
+  Review,
+  ReviewReportReason,
+  ReviewStatus,
+} from "@/lib/reviews";
+import {
+  ModerationTab,
+  getModerationCounts,
+  getModerationQueue,
+  getStoreSettings,
+  reviewKeys,
+  setReviewReply,
+  setReviewStatus,
+  updateStoreSettings,
+} from "@/data/reviews";
+import { productKeys } from "@/data/products";
+import { useReviewPhotoUrls } from "@/hooks/use-review-photo-urls";
+
+const STATUS_BADGE_VARIANTS: Record<ReviewStatus, "default" | "secondary" | "outline"> = {
+  pending: "secondary",
+  approved: "outline",
+  hidden: "default",
+};
+
+const replySchema = z.object({
+  reply: z.string().trim().max(1000, "Please keep the reply under 1000 characters."),
+});
+type ReplyFormData = z.infer<typeof replySchema>;
+
+interface ReplyDialogProps {
+  // The review being replied to, or null when the dialog is closed.
+  review: Review | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ReplyDialog = ({ review, onOpenChange }: ReplyDialogProps) => {
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<ReplyFormData>({
+    resolver: zodResolver(replySchema),
+    defaultValues: { reply: "" },
+  });
+
+  useEffect(() => {
+    if (review) reset({ reply: review.reply ?? "" });
+  }, [review, reset]);
+
+  const mutation = useMutation({
+    mutationFn: async (reply: string | null) => {
+      if (!review) return;
+      await setReviewReply(review.id, reply);
+    },
+    onSuccess: (_, reply) => {
+      toast.success(reply ? "Reply saved" : "Reply removed");
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Error saving reply: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog open={!!review} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit((data) => mutation.mutate(data.reply || null))} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Reply to Review</DialogTitle>
+            <DialogDescription>
+              The reply is public and shows under the review as a response from the store.
+            </DialogDescription>
+          </DialogHeader>
+          {review?.comment && (
+            <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground">{review.comment}</blockquote>
+          )}
+          <div className="grid gap-3">
+            <Label htmlFor="review-reply">Reply</Label>
+            <Textarea id="review-reply" rows={5} {...register("reply")} />
+            {errors.reply && <p className="text-sm text-destructive">{errors.reply.message}</p>}
+          </div>
+          <DialogFooter className="gap-2">
+            {review?.reply && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-destructive sm:mr-auto"
+                disabled={mutation.isPending}
+                onClick={() => mutation.mutate(null)}
+              >
+                Remove Reply
+              </Button>
+            )}
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Save Reply"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const ReviewSettingsCard = () => {
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery({
+    queryKey: reviewKeys.settings(),
+    queryFn: getStoreSettings,
+  });
+
+  const mutation = useMutation({
+    mutationFn: updateStoreSettings,
+    onSuccess: () => {
+      toast.success("Review settings saved");
+      queryClient.invalidateQueries({ queryKey: reviewKeys.settings() });
+    },
+    onError: (error) => {
+      toast.error(`Error saving settings: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Review Settings</CardTitle>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        <div className="flex items-start gap-3">
+          <Switch
+            id="moderate-reviews"
+            checked={settings?.moderate_reviews ?? true}
+            disabled={!settings || mutation.isPending}
+            onCheckedChange={(checked) => mutation.mutate({ moderate_reviews: checked })}
+          />
+          <div className="grid gap-1">
+            <Label htmlFor="moderate-reviews">Approve reviews before they are published</Label>
+            <p className="text-sm text-muted-foreground">When off, new reviews appear on the shop straight away.</p>
+          </div>
+        </div>
+        <div className="flex items-start gap-3">
+          <Switch
+            id="require-verified-reviews"
+            checked={settings?.require_verified_reviews ?? false}
+            disabled={!settings || mutation.isPending}
+            onCheckedChange={(checked) => mutation.mutate({ require_verified_reviews: checked })}
+          />
+          <div className="grid gap-1">
+            <Label htmlFor="require-verified-reviews">Only verified buyers can review</Label>
+            <p className="text-sm text-muted-foreground">
+              Customers need a delivered order for a product before they can review it.
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const AdminReviews = () => {
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<ModerationTab>("pending");
+  const [reviewToReply, setReviewToReply] = useState<Review | null>(null);
+
+  const { data: counts } = useQuery({
+    queryKey: reviewKeys.moderationCounts(),
+    queryFn: getModerationCounts,
+  });
+
+  const { data: reviews, isLoading } = useQuery({
+    queryKey: reviewKeys.moderation(tab),
+    queryFn: () => getModerationQueue(tab),
+  });
+  const photoUrls = useReviewPhotoUrls(reviews?.flatMap((review) => review.photo_paths) ?? []);
+
+  const statusMutation = useMutation({
+    mutationFn: ({ review, status }: { review: Review; status: ReviewStatus }) => setReviewStatus(review.id, status),
+    onSuccess: (_, { review, status }) => {
+      toast.success(status === "approved" ? "Review published" : "Review hidden");
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all });
+      queryClient.invalidateQueries({ queryKey: productKeys.detail(review.product_id) });
+    },
+    onError: (error) => {
+      toast.error(`Error updating review: ${error.message}`);
+    },
+  });
+
+  return (
+    <div className="grid gap-4 pt-4 md:gap-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Reviews</CardTitle>
+          <CardDescription>
+            Publish or hide customer reviews and reply on behalf of the store. Approving or hiding a reported
+            review closes its reports.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4">
+          <Tabs value={tab} onValueChange={(value) => setTab(value as ModerationTab)}>
+            <TabsList>
+              <TabsTrigger value="pending">Awaiting approval ({counts?.pending ?? 0})</TabsTrigger>
+              <TabsTrigger value="reported">Reported ({counts?.reported ?? 0})</TabsTrigger>
+              <TabsTrigger value="approved">Published</TabsTrigger>
+              <TabsTrigger value="hidden">Hidden</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Review</TableHead>
+                <TableHead>Author</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    Loading reviews...
+                  </TableCell>
+                </TableRow>
+              ) : reviews && reviews.length > 0 ? (
+                reviews.map((review) => {
+                  const openReports = review.review_reports.filter((report) => !report.resolved_at);
+                  const status = review.status as ReviewStatus;
+                  return (
+                    <TableRow key={review.id} className="align-top">
+                      <TableCell className="font-medium">
+                        <Link to={`/product/${review.product_id}`} className="hover:underline">
+                          {review.product?.name ?? "Deleted product"}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="max-w-md">
+                        <div className="flex items-center gap-0.5">
+                          {[...Array(5)].map((_, i) => (
+                            <Star
+                              key={i}
+                              className={`h-3.5 w-3.5 ${i < review.rating ? "text-yellow-500 fill-yellow-500" : "text-muted-foreground"}`}
+                            />
+                          ))}
+                        </div>
+                        <p className="mt-1 text-sm">{review.comment}</p>
+                        {review.photo_paths.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1.5">
+                            {review.photo_paths.map((path) => (
+                              <a key={path} href={photoUrls[path]} target="_blank" rel="noreferrer">
+                                <img src={photoUrls[path]} alt="" className="h-12 w-12 rounded border object-cover" />
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                        {review.reply && (
+                          <p className="mt-2 border-l-2 pl-2 text-xs text-muted-foreground">
+                            <span className="font-medium">Store reply:</span> {review.reply}
+                          </p>
+                        )}
+                        {openReports.length > 0 && (
+                          <div className="mt-2 grid gap-1 rounded-md border border-destructive/30 bg-destructive/5 p-2">
+                            {openReports.map((report) => (
+                              <p key={report.id} className="flex items-start gap-1.5 text-xs">
+                                <Flag className="mt-0.5 h-3 w-3 shrink-0 text-destructive" />
+                                <span>
+                                  <span className="font-medium">
+                                    {REVIEW_REPORT_REASON_LABELS[report.reason as ReviewReportReason] ?? report.reason}
+                                  </span>
+                                  {report.details && `: ${report.details}`}
+                                </span>
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm">{review.author?.full_name || "Customer"}</p>
+                        {review.verified_purchase && (
+                          <p className="flex items-center gap-1 text-xs text-green-700">
+                            <BadgeCheck className="h-3.5 w-3.5" /> Verified purchase
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">{format(new Date(review.created_at), "d MMM yyyy")}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGE_VARIANTS[status] ?? "outline"}>
+                          {REVIEW_STATUS_LABELS[status] ?? review.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          {(status !== "approved" || openReports.length > 0) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={statusMutation.isPending}
+                              onClick={() => statusMutation.mutate({ review, status: "approved" })}
+                            >
+                              <Check className="mr-2 h-4 w-4" />
+                              {status === "approved" ? "Keep" : "Approve"}
+                            </Button>
+                          )}
+                          {status !== "hidden" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={statusMutation.isPending}
+                              onClick={() => statusMutation.mutate({ review, status: "hidden" })}
+                            >
+                              <EyeOff className="mr-2 h-4 w-4" />
+                              Hide
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="icon" onClick={() => setReviewToReply(review)}>
+                            <MessageSquareReply className="h-4 w-4" />
+                            <span className="sr-only">Reply</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    {tab === "pending" ? "No reviews are waiting for approval." : tab === "reported" ? "No open reports." : "No reviews here."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ReviewSettingsCard />
+
+      <ReplyDialog review={reviewToReply} onOpenChange={(open) => !open && setReviewToReply(null)} />
+    </div>
+  );
+};
+
+export default AdminReviews;
@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Search } from "lucide-react";
+import { Database } from "@/integrations/supabase/types";
+import { APP_ROLES, AppRole, ROLE_LABELS } from "@/lib/permissions";
+import { getUserAuditLog, getUsers, setUserDisabled, setUserRole, userKeys } from "@/data/users";
+
+type ManagedUser = Database["public"]["Functions"]["admin_list_users"]["Returns"][number];
+
+const SEARCH_DELAY_MS = 300;
+
+const AdminUsers = () => {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [userToToggle, setUserToToggle] = useState<ManagedUser | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: users, isLoading } = useQuery({
+    queryKey: userKeys.list(debouncedSearch),
+    queryFn: () => getUsers(debouncedSearch),
+  });
+
+  const { data: auditLog } = useQuery({
+    queryKey: userKeys.auditLog(),
+    queryFn: getUserAuditLog,
+  });
+
+  const invalidateUsers = () => {
+    queryClient.invalidateQueries({ queryKey: userKeys.all });
+  };
+
+  // The database refuses to demote or disable the last active admin.
+  const setRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: AppRole }) => {
+      await setUserRole(userId, role);
+      return role;
+    },
+    onSuccess: (role) => {
+      toast.success(`Role changed to ${ROLE_LABELS[role]}.`);
+      invalidateUsers();
+    },
+    onError: (error) => {
+      toast.error(`Failed to change role: ${error.message}`);
+    },
+  });
+
+  const setDisabledMutation = useMutation({
+    mutationFn: async ({ userId, disabled }: { userId: string; disabled: boolean }) => {
+      await setUserDisabled(userId, disabled);
+      return disabled;
+    },
+    onSuccess: (disabled) => {
+      toast.success(disabled ? "Account disabled." : "Account re-enabled.");
+      invalidateUsers();
+      setUserToToggle(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to update account: ${error.message}`);
+      setUserToToggle(null);
+    },
+  });
+
+  const describeAuditEntry = (entry: NonNullable<typeof auditLog>[number]) => {
+    switch (entry.action) {
+      case "role_changed":
+        return `role changed from ${entry.old_role ? ROLE_LABELS[entry.old_role] : "none"} to ${entry.new_role ? ROLE_LABELS[entry.new_role] : "none"}`;
+      case "disabled":
+        return "account disabled";
+      case "enabled":
+        return "account re-enabled";
+      default:
+        return entry.action;
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="space-y-3">
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            Manage customer and staff accounts, their roles and access.
+          </CardDescription>
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search by email or name..."
+              className="pl-8"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead className="text-right">Orders</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    Loading users...
+                  </TableCell>
+                </TableRow>
+              ) : users && users.length > 0 ? (
+                users.map((user) => {
+                  const isSelf = user.id === currentUser?.id;
+                  return (
+                    <TableRow key={user.id}>
+                      <TableCell>
+                        <p className="font-medium">{user.full_name || "—"}</p>
+                        <p className="text-sm text-muted-foreground">{user.email}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={user.role}
+                          onValueChange={(role) => setRoleMutation.mutate({ userId: user.id, role: role as AppRole })}
+                          disabled={setRoleMutation.isPending}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {APP_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <p>{format(new Date(user.created_at), "PPP")}</p>
+                        {user.last_sign_in_at && (
+                          <p className="text-xs text-muted-foreground">
+                            Last seen {formatDistanceToNow(new Date(user.last_sign_in_at), { addSuffix: true })}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{user.order_count}</TableCell>
+                      <TableCell>
+                        {user.disabled_at ? (
+                          <Badge variant="destructive">Disabled</Badge>
+                        ) : (
+                          <Badge variant="secondary">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!isSelf && (
+                          <Button
+                            variant={user.disabled_at ? "outline" : "ghost"}
+                            size="sm"
+                            className={user.disabled_at ? "" : "text-destructive"}
+                            onClick={() => setUserToToggle(user)}
+                          >
+                            {user.disabled_at ? "Enable" : "Disable"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    No users found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>The 20 most recent role and account changes.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {auditLog && auditLog.length > 0 ? (
+            <ul className="space-y-3 text-sm">
+              {auditLog.map((entry) => (
+                <li key={entry.id} className="flex flex-wrap justify-between gap-2">
+                  <span>
+                    <span className="font-medium">
+                      {entry.user_id ? entry.user?.full_name || entry.user_id.substring(0, 8) : "Deleted user"}
+                    </span>
+                    {": "}
+                    {describeAuditEntry(entry)}
+                    <span className="text-muted-foreground">
+                      {" "}by {entry.changed_by ? entry.actor?.full_name || "Staff member" : "System"}
+                    </span>
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={!!userToToggle}
+        onOpenChange={(isOpen) => !isOpen && setUserToToggle(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {userToToggle?.disabled_at ? "Re-enable this account?" : "Disable this account?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {userToToggle?.disabled_at
+                ? `${userToToggle?.email} will be able to sign in again.`
+                : `${userToToggle?.email} will lose access and be unable to sign in until the account is re-enabled.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                userToToggle &&
+                setDisabledMutation.mutate({ userId: userToToggle.id, disabled: !userToToggle.disabled_at })
+              }
+              disabled={setDisabledMutation.isPending}
+            >
+              {userToToggle?.disabled_at ? "Enable" : "Disable"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default AdminUsers;
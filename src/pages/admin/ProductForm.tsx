@@ -15,6 +15,11 @@ import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { Tables } from "@/integrations/supabase/types";
 import { Package } from "lucide-react";
+import ProductVariantsEditor from "@/components/ProductVariantsEditor";
+import { MAX_LEAD_TIME_DAYS } from "@/lib/delivery";
+import { createProduct, getProductForEditing, productKeys, updateProduct } from "@/data/products";
+import { categoryKeys, getCategories } from "@/data/categories";
+import { inventoryKeys } from "@/data/inventory";
 
 type Category = Tables<'categories'>;
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
@@ -25,11 +30,18 @@ const productSchema = z.object({
   description: z.string().optional(),
   price: z.coerce.number().min(0, "Price must be non-negative"),
   category_id: z.string().uuid("Please select a category").nullable(),
+  lead_time_days: z.coerce
+    .number()
+    .int("Lead time must be a whole number of days")
+    .min(0, "Lead time must be non-negative")
+    .max(MAX_LEAD_TIME_DAYS, `Lead time can be at most ${MAX_LEAD_TIME_DAYS} days`),
   image_url: z.string().optional(),
   image_file: z.instanceof(FileList).optional()
     .refine((files) => !files || files.length === 0 || files[0].size <= MAX_FILE_SIZE, `Max file size is 5MB.`)
     .refine((files) => !files || files.length === 0 || ACCEPTED_IMAGE_TYPES.includes(files[0].type), 'Only .jpg, .png, and .webp formats are supported.'),
-  in_stock: z.boolean(),
+  track_stock: z.boolean(),
+  allow_backorder: z.boolean(),
+  low_stock_threshold: z.coerce.number().int("Use a whole number").min(0, "The alert level cannot be negative"),
   featured: z.boolean(),
 });
 
@@ -43,23 +55,14 @@ const ProductForm = () => {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
 
   const { data: product, isLoading: isLoadingProduct } = useQuery({
-    queryKey: ["admin-product", id],
-    queryFn: async () => {
-      if (!id) return null;
-      const { data, error } = await supabase.from("products").select("*").eq("id", id).single();
-      if (error) throw error;
-      return data;
-    },
+    queryKey: productKeys.editor(id!),
+    queryFn: () => getProductForEditing(id!),
     enabled: isEditMode,
   });
 
   const { data: categories, isLoading: isLoadingCategories } = useQuery({
-    queryKey: ["admin-categories"],
-    queryFn: async () => {
-      const { data, error } = await supabase.from("categories").select("*");
-      if (error) throw error;
-      return data;
-    },
+    queryKey: categoryKeys.list(),
+    queryFn: getCategories,
   });
 
   const {
@@ -76,13 +79,17 @@ const ProductForm = () => {
       description: "",
       price: 0,
       category_id: null,
+      lead_time_days: 1,
       image_url: "",
-      in_stock: true,
+      track_stock: false,
+      allow_backorder: false,
+      low_stock_threshold: 5,
       featured: false,
     },
   });
 
   const imageFile = watch("image_file");
+  const trackStock = watch("track_stock");
 
   useEffect(() => {
     if (imageFile && imageFile.length > 0) {
@@ -106,8 +113,11 @@ const ProductForm = () => {
         description: product.description || "",
         price: product.price,
         category_id: product.category_id,
+        lead_time_days: product.lead_time_days,
         image_url: product.image_url || "",
-        in_stock: product.in_stock,
+        track_stock: product.stock_quantity !== null,
+        allow_backorder: product.allow_backorder,
+        low_stock_threshold: product.low_stock_threshold,
         featured: product.featured,
       });
     }
@@ -133,33 +143,44 @@ const ProductForm = () => {
           .getPublicUrl(filePath);
         
         imageUrl = urlData.publicUrl;
-
-        if (isEditMode && product?.image_url) {
-          const urlParts = product.image_url.split('/product-images/');
-          const oldImagePath = urlParts[1];
-          if (oldImagePath) {
-            const { error: removeError } = await supabase.storage
-              .from('product-images')
-              .remove([oldImagePath]);
-            if (removeError) console.error("Failed to delete old image:", removeError.message);
-          }
-        }
       }
 
-      const { image_file, ...dbData } = data;
-      const dataToSubmit = { ...dbData, image_url: imageUrl };
+      const { image_file, track_stock, ...dbData } = data;
+      // Stock counts change through adjust_stock() so that they reach the
+      // ledger, and through orders reserving and releasing stock. The form
+      // only sends a count when tracking is switched on (from zero) or off,
+      // so saving never writes back the count from when it was loaded.
+      const wasTracked = product?.stock_quantity != null;
+      // The schema has already checked that the name and price are set.
+      const dataToSubmit = {
+        ...dbData,
+        name: dbData.name!,
+        price: dbData.price!,
+        image_url: imageUrl,
+        ...(track_stock !== wasTracked && { stock_quantity: track_stock ? 0 : null }),
+      };
 
       if (isEditMode) {
-        const { error } = await supabase.from("products").update(dataToSubmit).eq("id", id);
-        if (error) throw error;
+        await updateProduct(id, dataToSubmit);
       } else {
-        const { error } = await supabase.from("products").insert(dataToSubmit);
-        if (error) throw error;
+        await createProduct(dataToSubmit);
+      }
+
+      // The old image is only deleted once the product no longer points at it.
+      if (isEditMode && product?.image_url && imageUrl !== product.image_url) {
+        const oldImagePath = product.image_url.split('/product-images/')[1];
+        if (oldImagePath) {
+          const { error: removeError } = await supabase.storage
+            .from('product-images')
+            .remove([oldImagePath]);
+          if (removeError) console.error("Failed to delete old image:", removeError.message);
+        }
       }
     },
     onSuccess: () => {
       toast.success(`Product ${isEditMode ? "updated" : "created"} successfully`);
-      queryClient.invalidateQueries({ queryKey: ["admin-products"] });
+      queryClient.invalidateQueries({ queryKey: productKeys.all });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
       navigate("/admin/dashboard/products");
     },
     onError: (error) => {
@@ -176,106 +197,152 @@ const ProductForm = () => {
   }
 
   return (
-    <form onSubmit={handleSubmit(onSubmit)}>
-      <Card>
-        <CardHeader>
-          <CardTitle>{isEditMode ? "Edit Product" : "Add New Product"}</CardTitle>
-          <CardDescription>
-            Fill in the details for the product.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="grid gap-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div className="md:col-span-2 grid gap-6">
-              <div className="grid gap-3">
-                <Label htmlFor="name">Name</Label>
-                <Input id="name" {...register("name")} />
-                {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
-              </div>
-              <div className="grid gap-3">
-                <Label htmlFor="description">Description</Label>
-                <Textarea id="description" {...register("description")} />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
+    <div className="grid gap-4 md:gap-8">
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <Card>
+          <CardHeader>
+            <CardTitle>{isEditMode ? "Edit Product" : "Add New Product"}</CardTitle>
+            <CardDescription>
+              Fill in the details for the product.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="md:col-span-2 grid gap-6">
                 <div className="grid gap-3">
-                  <Label htmlFor="price">Price</Label>
-                  <Input id="price" type="number" step="0.01" {...register("price")} />
-                  {errors.price && <p className="text-sm text-destructive">{errors.price.message}</p>}
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" {...register("name")} />
+                  {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
                 </div>
                 <div className="grid gap-3">
-                  <Label htmlFor="category">Category</Label>
-                  <Controller
-                    name="category_id"
-                    control={control}
-                    render={({ field }) => (
-                      <Select onValueChange={field.onChange} value={field.value || ""}>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a category" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {categories?.map((cat: Category) => (
-                            <SelectItem key={cat.id} value={cat.id}>
-                              {cat.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    )}
-                  />
-                  {errors.category_id && <p className="text-sm text-destructive">{errors.category_id.message}</p>}
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea id="description" {...register("description")} />
                 </div>
-              </div>
-              <div className="flex items-center space-x-4">
-                <div className="flex items-center space-x-2">
-                  <Controller
-                    name="in_stock"
-                    control={control}
-                    render={({ field }) => (
-                      <Switch id="in_stock" checked={field.value} onCheckedChange={field.onChange} />
-                    )}
-                  />
-                  <Label htmlFor="in_stock">In Stock</Label>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-3">
+                    <Label htmlFor="price">Price</Label>
+                    <Input id="price" type="number" step="0.01" {...register("price")} />
+                    {errors.price && <p className="text-sm text-destructive">{errors.price.message}</p>}
+                  </div>
+                  <div className="grid gap-3">
+                    <Label htmlFor="category">Category</Label>
+                    <Controller
+                      name="category_id"
+                      control={control}
+                      render={({ field }) => (
+                        <Select onValueChange={field.onChange} value={field.value || ""}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categories?.map((cat: Category) => (
+                              <SelectItem key={cat.id} value={cat.id}>
+                                {cat.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    />
+                    {errors.category_id && <p className="text-sm text-destructive">{errors.category_id.message}</p>}
+                  </div>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <Controller
-                    name="featured"
-                    control={control}
-                    render={({ field }) => (
-                      <Switch id="featured" checked={field.value} onCheckedChange={field.onChange} />
-                    )}
-                  />
-                  <Label htmlFor="featured">Featured</Label>
+                <div className="grid gap-3">
+                  <Label htmlFor="lead_time_days">Lead Time (days)</Label>
+                  <Input id="lead_time_days" type="number" min="0" max={MAX_LEAD_TIME_DAYS} className="max-w-[160px]" {...register("lead_time_days")} />
+                  <p className="text-xs text-muted-foreground">
+                    How many days' notice this product needs. Use 0 to allow same-day delivery.
+                  </p>
+                  {errors.lead_time_days && <p className="text-sm text-destructive">{errors.lead_time_days.message}</p>}
                 </div>
-              </div>
-            </div>
-            <div className="grid gap-3">
-              <Label>Product Image</Label>
-              <div className="aspect-square rounded-md border border-dashed flex items-center justify-center relative">
-                {imagePreview ? (
-                  <img src={imagePreview} alt="Product preview" className="w-full h-full object-cover rounded-md" />
-                ) : (
-                  <div className="text-center text-muted-foreground">
-                    <Package className="h-12 w-12 mx-auto" />
-                    <p className="mt-2 text-sm">Upload an image</p>
+                <div className="grid gap-3 rounded-md border p-4">
+                  <div className="flex items-center space-x-2">
+                    <Controller
+                      name="track_stock"
+                      control={control}
+                      render={({ field }) => (
+                        <Switch id="track_stock" checked={field.value} onCheckedChange={field.onChange} />
+                      )}
+                    />
+                    <Label htmlFor="track_stock">Track Stock</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {trackStock
+                      ? product?.stock_quantity != null
+                        ? `${product.stock_quantity} in stock. Restock or count it on the Inventory page.`
+                        : "Starts at 0. Add stock on the Inventory page once saved."
+                      : "Untracked products are always available, which suits made-to-order items."}
+                    {" "}Products with options track stock per variant, below.
+                  </p>
+                  <div className="grid grid-cols-2 gap-4 items-end">
+                    <div className="grid gap-3">
+                      <Label htmlFor="low_stock_threshold">Low Stock Alert At</Label>
+                      <Input id="low_stock_threshold" type="number" min="0" {...register("low_stock_threshold")} />
+                      {errors.low_stock_threshold && (
+                        <p className="text-sm text-destructive">{errors.low_stock_threshold.message}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2 pb-2">
+                      <Controller
+                        name="allow_backorder"
+                        control={control}
+                        render={({ field }) => (
+                          <Switch id="allow_backorder" checked={field.value} onCheckedChange={field.onChange} />
+                        )}
+                      />
+                      <Label htmlFor="allow_backorder">Allow Backorders</Label>
+                    </div>
                   </div>
-                )}
+                </div>
+                <div className="flex items-center space-x-4">
+                  <div className="flex items-center space-x-2">
+                    <Controller
+                      name="featured"
+                      control={control}
+                      render={({ field }) => (
+                        <Switch id="featured" checked={field.value} onCheckedChange={field.onChange} />
+                      )}
+                    />
+                    <Label htmlFor="featured">Featured</Label>
+                  </div>
+                </div>
+              </div>
+              <div className="grid gap-3">
+                <Label>Product Image</Label>
+                <div className="aspect-square rounded-md border border-dashed flex items-center justify-center relative">
+                  {imagePreview ? (
+                    <img src={imagePreview} alt="Product preview" className="w-full h-full object-cover rounded-md" />
+                  ) : (
+                    <div className="text-center text-muted-foreground">
+                      <Package className="h-12 w-12 mx-auto" />
+                      <p className="mt-2 text-sm">Upload an image</p>
+                    </div>
+                  )}
+                </div>
+                <Input id="image_file" type="file" {...register("image_file")} accept="image/*" />
+                {errors.image_file && <p className="text-sm text-destructive">{errors.image_file.message}</p>}
               </div>
-              <Input id="image_file" type="file" {...register("image_file")} accept="image/*" />
-              {errors.image_file && <p className="text-sm text-destructive">{errors.image_file.message}</p>}
             </div>
-          </div>
-          
-          <div className="flex justify-end gap-2">
-            <Button variant="outline" type="button" onClick={() => navigate("/admin/dashboard/products")}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? "Saving..." : "Save Product"}
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
-    </form>
+            
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" type="button" onClick={() => navigate("/admin/dashboard/products")}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Product"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </form>
+      {isEditMode && product ? (
+        <ProductVariantsEditor productId={product.id} basePrice={Number(product.price)} />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Save the product first to add options such as sizes and flavours.
+        </p>
+      )}
+    </div>
   );
 };
 
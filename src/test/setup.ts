@@ -0,0 +1,25 @@
+import "@testing-library/jest-dom/vitest";
+import { afterEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+import { resetSupabaseMock } from "./supabase";
+
+// No test talks to a real project: every module that imports the client
+// gets the mock from ./supabase instead.
+vi.mock("@/integrations/supabase/client", async () => {
+  const { supabase } = await import("./supabase");
+  return { supabase };
+});
+
+// jsdom has no layout, but Radix components measure themselves with this.
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  resetSupabaseMock();
+  localStorage.clear();
+});
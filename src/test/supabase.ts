@@ -0,0 +1,89 @@
+import { vi } from "vitest";
+
+// A stand-in for the Supabase client, installed for every test by setup.ts.
+// Queries and RPCs resolve to whatever the test set with mockTable() and
+// mockRpc(), and every query's calls are recorded so tests can check what
+// was written.
+
+type MockResult = {
+  data?: unknown;
+  error?: { message: string; code?: string } | null;
+  count?: number | null;
+};
+
+type RecordedQuery = {
+  table: string;
+  calls: { method: string; args: unknown[] }[];
+};
+
+const tableResults = new Map<string, MockResult>();
+const rpcResults = new Map<string, MockResult>();
+const queries: RecordedQuery[] = [];
+
+const respond = (result: MockResult | undefined) =>
+  Promise.resolve({ data: null, error: null, count: null, ...result });
+
+// Every filter and modifier returns the builder, and awaiting it at any
+// point resolves to the table's result, as with the real client.
+const queryBuilder = (query: RecordedQuery): unknown =>
+  new Proxy(
+    {},
+    {
+      get: (_target, method: string) => {
+        if (method === "then") {
+          return (onFulfilled: (value: unknown) => unknown, onRejected?: (reason: unknown) => unknown) =>
+            respond(tableResults.get(query.table)).then(onFulfilled, onRejected);
+        }
+        return (...args: unknown[]) => {
+          query.calls.push({ method, args });
+          return queryBuilder(query);
+        };
+      },
+    },
+  );
+
+export const supabase = {
+  from: vi.fn((table: string) => {
+    const query: RecordedQuery = { table, calls: [] };
+    queries.push(query);
+    return queryBuilder(query);
+  }),
+  rpc: vi.fn((fn: string, _args?: unknown) => respond(rpcResults.get(fn))),
+  storage: {
+    from: vi.fn(() => ({
+      upload: vi.fn(() => respond({ data: { path: "" } })),
+      remove: vi.fn(() => respond({ data: [] })),
+      createSignedUrl: vi.fn(() => respond({ data: { signedUrl: "" } })),
+      getPublicUrl: vi.fn(() => ({ data: { publicUrl: "" } })),
+    })),
+  },
+  auth: {
+    getSession: vi.fn(() => respond({ data: { session: null } })),
+    onAuthStateChange: vi.fn(() => ({ data: { subscription: { unsubscribe: vi.fn() } } })),
+    signOut: vi.fn(() => respond({})),
+  },
+};
+
+export const mockTable = (table: string, result: MockResult) => {
+  tableResults.set(table, result);
+};
+
+export const mockRpc = (fn: string, result: MockResult) => {
+  rpcResults.set(fn, result);
+};
+
+// The queries made against a table, oldest first. Each lists the builder
+// methods called on it, e.g. [{ method: "delete", args: [] }, { method: "eq", ... }].
+export const queriesTo = (table: string) =>
+  queries.filter((query) => query.table === table).map((query) => query.calls);
+
+// The arguments of the first call to a builder method, e.g. what was upserted.
+export const argsOf = (calls: RecordedQuery["calls"], method: string) =>
+  calls.find((call) => call.method === method)?.args;
+
+export const resetSupabaseMock = () => {
+  tableResults.clear();
+  rpcResults.clear();
+  queries.length = 0;
+  vi.clearAllMocks();
+};
@@ -0,0 +1,55 @@
+import type { StkCallbackResult } from "./types.ts";
+
+interface CallbackItem {
+  Name: string;
+  Value?: string | number;
+}
+
+interface StkCallbackPayload {
+  Body?: {
+    stkCallback?: {
+      MerchantRequestID?: string;
+      CheckoutRequestID?: string;
+      ResultCode?: number | string;
+      ResultDesc?: string;
+      CallbackMetadata?: { Item?: CallbackItem[] };
+    };
+  };
+}
+
+// Reads the Body.stkCallback envelope that Daraja (and the mock provider) post.
+export const parseStkCallback = (payload: unknown): StkCallbackResult => {
+  const callback = (payload as StkCallbackPayload)?.Body?.stkCallback;
+  if (!callback?.CheckoutRequestID) {
+    throw new Error("Payload is not an STK callback.");
+  }
+
+  const items: CallbackItem[] = callback.CallbackMetadata?.Item ?? [];
+  const findItem = (name: string) => items.find((item) => item.Name === name)?.Value;
+
+  const receiptNumber = findItem("MpesaReceiptNumber");
+  const amount = findItem("Amount");
+
+  return {
+    checkoutRequestId: callback.CheckoutRequestID,
+    resultCode: Number(callback.ResultCode),
+    resultDesc: callback.ResultDesc ?? "",
+    receiptNumber: receiptNumber ? String(receiptNumber) : null,
+    amount: amount !== undefined ? Number(amount) : null,
+  };
+};
+
+const sha256 = async (value: string) =>
+  new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+
+// Compares the token on a callback URL with the shared secret. Both are
+// hashed first so the comparison takes the same time whatever the token's
+// length, and every byte is compared so it cannot stop at the first mismatch.
+export const isCallbackTokenValid = async (token: string | null, secret: string) => {
+  const [tokenHash, secretHash] = await Promise.all([sha256(token ?? ""), sha256(secret)]);
+  let difference = 0;
+  for (let i = 0; i < secretHash.length; i++) {
+    difference |= tokenHash[i] ^ secretHash[i];
+  }
+  return token !== null && difference === 0;
+};
@@ -0,0 +1,75 @@
+import type { PaymentProvider, StkPushRequest, StkPushResult } from "./types.ts";
+
+// Safaricom Daraja "Lipa na M-Pesa Online" (STK push) for a Buy Goods till.
+const BASE_URLS = {
+  sandbox: "https://sandbox.safaricom.co.ke",
+  production: "https://api.safaricom.co.ke",
+};
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} must be set to use the Daraja payment provider.`);
+  return value;
+};
+
+// Daraja expects the timestamp as YYYYMMDDHHmmss in Kenyan time (UTC+3).
+const getTimestamp = () => {
+  const eat = new Date(Date.now() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-T:]/g, "").slice(0, 14);
+};
+
+const getAccessToken = async (baseUrl: string) => {
+  const credentials = btoa(`${requireEnv("MPESA_CONSUMER_KEY")}:${requireEnv("MPESA_CONSUMER_SECRET")}`);
+  const response = await fetch(`${baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${credentials}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Daraja authentication failed (${response.status}).`);
+  }
+  const { access_token } = await response.json();
+  return access_token as string;
+};
+
+export const darajaProvider: PaymentProvider = {
+  name: "daraja",
+  initiateStkPush: async ({ orderId, phone, amount, callbackUrl }: StkPushRequest): Promise<StkPushResult> => {
+    const environment = Deno.env.get("MPESA_ENV") === "production" ? "production" : "sandbox";
+    const baseUrl = BASE_URLS[environment];
+    const shortcode = requireEnv("MPESA_SHORTCODE");
+    const timestamp = getTimestamp();
+    const password = btoa(`${shortcode}${requireEnv("MPESA_PASSKEY")}${timestamp}`);
+
+    const accessToken = await getAccessToken(baseUrl);
+    const response = await fetch(`${baseUrl}/mpesa/stkpush/v1/processrequest`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        BusinessShortCode: shortcode,
+        Password: password,
+        Timestamp: timestamp,
+        TransactionType: "CustomerBuyGoodsOnline",
+        Amount: amount,
+        PartyA: phone,
+        PartyB: requireEnv("MPESA_TILL_NUMBER"),
+        PhoneNumber: phone,
+        CallBackURL: callbackUrl,
+        AccountReference: `SweetAura-${orderId.substring(0, 8)}`,
+        TransactionDesc: "Sweet Aura order",
+      }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || result.ResponseCode !== "0") {
+      throw new Error(result.errorMessage || result.ResponseDescription || "M-Pesa rejected the payment request.");
+    }
+
+    return {
+      merchantRequestId: result.MerchantRequestID,
+      checkoutRequestId: result.CheckoutRequestID,
+      customerMessage: result.CustomerMessage,
+    };
+  },
+};
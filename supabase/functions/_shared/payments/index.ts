@@ -0,0 +1,34 @@
+import { darajaProvider } from "./daraja.ts";
+import { mockProvider } from "./mock.ts";
+import type { PaymentProvider } from "./types.ts";
+
+export * from "./types.ts";
+export { isCallbackTokenValid, parseStkCallback } from "./callback.ts";
+
+const providers: Record<string, PaymentProvider> = {
+  daraja: darajaProvider,
+  mock: mockProvider,
+};
+
+// PAYMENT_PROVIDER selects the implementation. There is no default: the mock
+// reports every payment as successful, so a deploy that forgot the secret
+// must fail rather than mark unpaid orders as paid.
+export const getPaymentProvider = (): PaymentProvider => {
+  const name = Deno.env.get("PAYMENT_PROVIDER");
+  if (!name) {
+    throw new Error(`PAYMENT_PROVIDER is not set. Use one of: ${Object.keys(providers).join(", ")}.`);
+  }
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${name}". Use one of: ${Object.keys(providers).join(", ")}.`);
+  }
+  return provider;
+};
+
+// Accepts 07XXXXXXXX, 01XXXXXXXX, +2547XXXXXXXX or 2547XXXXXXXX and returns
+// the 2547XXXXXXXX form M-Pesa expects, or null if it is not a Kenyan mobile.
+export const normalizeMpesaPhone = (phone: string): string | null => {
+  const digits = phone.replace(/\D/g, "");
+  const local = digits.startsWith("254") ? digits.slice(3) : digits.replace(/^0/, "");
+  return /^[17]\d{8}$/.test(local) ? `254${local}` : null;
+};
@@ -0,0 +1,71 @@
+import type { PaymentProvider, StkPushRequest, StkPushResult } from "./types.ts";
+
+// Pretends to be Safaricom so the whole flow can be exercised locally.
+// A few seconds after the push it posts a Daraja-shaped callback to the real
+// callback URL. Phone numbers ending in 000 simulate a declined payment and
+// numbers ending in 999 simulate the customer cancelling the prompt.
+const CALLBACK_DELAY_MS = 5000;
+
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined;
+
+const randomId = (prefix: string) => `${prefix}-${crypto.randomUUID().replace(/-/g, "").slice(0, 20)}`;
+
+const randomReceiptNumber = () => {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  return Array.from({ length: 10 }, () => chars[Math.floor(Math.random() * chars.length)]).join("");
+};
+
+const buildCallback = ({ phone, amount }: StkPushRequest) => {
+  if (phone.endsWith("000")) {
+    return { ResultCode: 1, ResultDesc: "The balance is insufficient for the transaction." };
+  }
+  if (phone.endsWith("999")) {
+    return { ResultCode: 1032, ResultDesc: "Request cancelled by user." };
+  }
+  return {
+    ResultCode: 0,
+    ResultDesc: "The service request is processed successfully.",
+    CallbackMetadata: {
+      Item: [
+        { Name: "Amount", Value: amount },
+        { Name: "MpesaReceiptNumber", Value: randomReceiptNumber() },
+        { Name: "PhoneNumber", Value: Number(phone) },
+      ],
+    },
+  };
+};
+
+export const mockProvider: PaymentProvider = {
+  name: "mock",
+  initiateStkPush: async (request: StkPushRequest): Promise<StkPushResult> => {
+    const merchantRequestId = randomId("mock-merchant");
+    const checkoutRequestId = randomId("ws_CO_mock");
+
+    const sendCallback = async () => {
+      await new Promise((resolve) => setTimeout(resolve, CALLBACK_DELAY_MS));
+      const stkCallback = {
+        MerchantRequestID: merchantRequestId,
+        CheckoutRequestID: checkoutRequestId,
+        ...buildCallback(request),
+      };
+      await fetch(request.callbackUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ Body: { stkCallback } }),
+      });
+    };
+
+    // Keep the worker alive until the simulated callback has been delivered.
+    if (typeof EdgeRuntime !== "undefined") {
+      EdgeRuntime.waitUntil(sendCallback());
+    } else {
+      sendCallback();
+    }
+
+    return {
+      merchantRequestId,
+      checkoutRequestId,
+      customerMessage: "Mock STK push sent. The payment will complete automatically.",
+    };
+  },
+};
@@ -0,0 +1,28 @@
+export interface StkPushRequest {
+  orderId: string;
+  // Phone number in 2547XXXXXXXX / 2541XXXXXXXX form.
+  phone: string;
+  // Whole shillings; M-Pesa does not accept cents.
+  amount: number;
+  callbackUrl: string;
+}
+
+export interface StkPushResult {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  customerMessage: string;
+}
+
+// The fields we need from Safaricom's STK callback payload.
+export interface StkCallbackResult {
+  checkoutRequestId: string;
+  resultCode: number;
+  resultDesc: string;
+  receiptNumber: string | null;
+  amount: number | null;
+}
+
+export interface PaymentProvider {
+  name: string;
+  initiateStkPush: (request: StkPushRequest) => Promise<StkPushResult>;
+}
@@ -0,0 +1,41 @@
+// Receives Safaricom's STK push result and records it against the payment.
+// Safaricom does not sign callbacks, so the URL carries a shared secret:
+//   <SUPABASE_URL>/functions/v1/mpesa-callback?token=<MPESA_CALLBACK_SECRET>
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/cors.ts";
+import { isCallbackTokenValid, parseStkCallback } from "../_shared/payments/index.ts";
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get("token");
+  const expectedToken = Deno.env.get("MPESA_CALLBACK_SECRET");
+  if (!expectedToken || !(await isCallbackTokenValid(token, expectedToken))) {
+    return jsonResponse({ ResultCode: 1, ResultDesc: "Rejected" }, 401);
+  }
+
+  let payload: unknown;
+  let result;
+  try {
+    payload = await req.json();
+    result = parseStkCallback(payload);
+  } catch (error) {
+    console.error("Invalid M-Pesa callback:", error);
+    return jsonResponse({ ResultCode: 1, ResultDesc: "Invalid callback" }, 400);
+  }
+
+  const adminClient = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { error } = await adminClient.rpc("record_mpesa_callback", {
+    p_checkout_request_id: result.checkoutRequestId,
+    p_result_code: result.resultCode,
+    p_result_desc: result.resultDesc,
+    p_receipt_number: result.receiptNumber,
+    p_amount: result.amount,
+    p_raw_callback: payload,
+  });
+
+  if (error) {
+    console.error("Failed to record M-Pesa callback:", error);
+    return jsonResponse({ ResultCode: 1, ResultDesc: "Could not record the payment" }, 500);
+  }
+
+  return jsonResponse({ ResultCode: 0, ResultDesc: "Accepted" });
+});
@@ -0,0 +1,81 @@
+// Starts an M-Pesa STK push for one of the caller's pending orders.
+// Body: { orderId: string, phone: string }
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getPaymentProvider, normalizeMpesaPhone } from "../_shared/payments/index.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { orderId, phone } = await req.json();
+    if (!orderId) {
+      return jsonResponse({ error: "orderId is required." }, 400);
+    }
+
+    const mpesaPhone = normalizeMpesaPhone(phone ?? "");
+    if (!mpesaPhone) {
+      return jsonResponse({ error: "Enter a valid Safaricom number, e.g. 0712345678." }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+
+    // Read the order as the caller, so RLS guarantees it belongs to them and
+    // the amount comes from the database rather than the request.
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: order, error: orderError } = await userClient
+      .from("orders")
+      .select("id, status, payment_status, total_amount")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+    if (!order) {
+      return jsonResponse({ error: "Order not found." }, 404);
+    }
+    if (order.payment_status === "paid") {
+      return jsonResponse({ error: "This order has already been paid." }, 409);
+    }
+    if (order.status !== "pending") {
+      return jsonResponse({ error: "This order can no longer be paid." }, 409);
+    }
+
+    const provider = getPaymentProvider();
+    const amount = Math.ceil(Number(order.total_amount));
+    const callbackUrl = `${supabaseUrl}/functions/v1/mpesa-callback?token=${Deno.env.get("MPESA_CALLBACK_SECRET") ?? ""}`;
+
+    const result = await provider.initiateStkPush({ orderId, phone: mpesaPhone, amount, callbackUrl });
+
+    const adminClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data: payment, error: paymentError } = await adminClient
+      .from("payments")
+      .insert({
+        order_id: orderId,
+        provider: provider.name,
+        phone: mpesaPhone,
+        amount,
+        merchant_request_id: result.merchantRequestId,
+        checkout_request_id: result.checkoutRequestId,
+      })
+      .select("id")
+      .single();
+
+    if (paymentError) throw paymentError;
+
+    return jsonResponse({
+      paymentId: payment.id,
+      checkoutRequestId: result.checkoutRequestId,
+      customerMessage: result.customerMessage,
+    });
+  } catch (error) {
+    console.error("STK push error:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Failed to start the M-Pesa payment." },
+      500
+    );
+  }
+});
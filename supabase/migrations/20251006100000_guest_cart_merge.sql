@@ -0,0 +1,80 @@
+-- ============================================================================
+--          CART ITEMS TABLE & GUEST CART MERGE
+-- The cart_items table was created from the dashboard and never captured in a
+-- migration, so it is declared here (idempotently) alongside the RPC that
+-- moves a guest's browser cart into their account when they sign in.
+-- ============================================================================
+
+-- STEP 1: CREATE THE 'cart_items' TABLE (if it does not exist yet)
+CREATE TABLE IF NOT EXISTS public.cart_items (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (user_id, product_id)
+);
+COMMENT ON TABLE public.cart_items IS 'Stores the shopping cart of signed-in users.';
+
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_cart_items_updated_at ON public.cart_items;
+CREATE TRIGGER update_cart_items_updated_at
+BEFORE UPDATE ON public.cart_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+
+-- STEP 2: RLS POLICIES - users can only see and change their own cart
+DROP POLICY IF EXISTS "Users can view their own cart" ON public.cart_items;
+CREATE POLICY "Users can view their own cart"
+ON public.cart_items FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can add to their own cart" ON public.cart_items;
+CREATE POLICY "Users can add to their own cart"
+ON public.cart_items FOR INSERT TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own cart" ON public.cart_items;
+CREATE POLICY "Users can update their own cart"
+ON public.cart_items FOR UPDATE TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete from their own cart" ON public.cart_items;
+CREATE POLICY "Users can delete from their own cart"
+ON public.cart_items FOR DELETE TO authenticated
+USING (user_id = auth.uid());
+
+
+-- STEP 3: MERGE A GUEST CART INTO THE SIGNED-IN USER'S CART
+-- p_items is a JSON array of { "product_id": UUID, "quantity": INTEGER }.
+-- Merge rules:
+--   * Lines for products that no longer exist or are out of stock are dropped.
+--   * Lines with a quantity of zero or less are ignored.
+--   * Duplicate guest lines for the same product are added together.
+--   * If the product is already in the user's cart, the quantities are added.
+--   * No line ever exceeds 99 units.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to save your cart.';
+  END IF;
+
+  INSERT INTO public.cart_items (user_id, product_id, quantity)
+  SELECT v_user_id, p.id, LEAST(SUM(g.quantity), 99)
+  FROM jsonb_to_recordset(p_items) AS g(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = g.product_id AND p.in_stock
+  WHERE g.quantity > 0
+  GROUP BY p.id
+  ON CONFLICT (user_id, product_id)
+  DO UPDATE SET quantity = LEAST(public.cart_items.quantity + EXCLUDED.quantity, 99);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
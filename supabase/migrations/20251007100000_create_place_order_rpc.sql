@@ -0,0 +1,104 @@
+-- ============================================================================
+--          ATOMIC ORDER PLACEMENT
+-- Replaces the client-side "insert order, then insert order items" flow with a
+-- single function. Prices and stock are read from the database, never from the
+-- client, and the order, its items and the cart clean-up happen in one
+-- transaction so a failure can no longer leave an orphaned order behind.
+-- ============================================================================
+
+-- STEP 1: CUSTOMERS NO LONGER INSERT ORDERS DIRECTLY
+-- All orders must go through place_order(), which computes the totals itself.
+DROP POLICY IF EXISTS "Users can create their own orders" ON public.orders;
+
+
+-- STEP 2: CREATE THE 'place_order' FUNCTION
+-- p_items   is a JSON array of { "product_id": UUID, "quantity": INTEGER }.
+-- p_details is a JSON object with the keys:
+--   customer_name, customer_phone, delivery_address, payment_proof_url
+-- Returns the newly created order row.
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_delivery_fee NUMERIC(10, 2) := 150.00;
+  v_subtotal NUMERIC(10, 2);
+  v_unavailable TEXT;
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'A delivery address is required.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Re-check availability against the catalogue.
+  SELECT string_agg(COALESCE(p.name, 'an item that no longer exists'), ', ')
+  INTO v_unavailable
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = l.product_id
+  WHERE p.id IS NULL OR NOT p.in_stock;
+
+  IF v_unavailable IS NOT NULL THEN
+    RAISE EXCEPTION 'Some items are no longer available: %', v_unavailable;
+  END IF;
+
+  -- Price every line from the products table.
+  SELECT SUM(p.price * l.quantity)
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_proof_url
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    trim(p_details->>'delivery_address'),
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    p_details->>'payment_proof_url'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, p.id, SUM(l.quantity), p.price
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id
+  GROUP BY p.id, p.price;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 3: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
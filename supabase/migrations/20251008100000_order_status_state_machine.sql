@@ -0,0 +1,195 @@
+-- ============================================================================
+--          ORDER STATUS LIFECYCLE & HISTORY
+-- Turns orders.status into an enum, restricts which status changes are
+-- allowed, and records every change in order_status_history.
+--
+--   pending ──> payment_verified ──> baking ──> out_for_delivery ──> delivered
+--      │               │               │                                 │
+--      └───────────────┴───────────────┴──> cancelled ──> refunded <─────┘
+-- ============================================================================
+
+-- STEP 1: CREATE THE 'order_status' ENUM
+DO $$
+BEGIN
+  CREATE TYPE public.order_status AS ENUM (
+    'pending',
+    'payment_verified',
+    'baking',
+    'out_for_delivery',
+    'delivered',
+    'cancelled',
+    'refunded'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END
+$$;
+
+
+-- STEP 2: CONVERT 'orders.status' TO THE ENUM
+-- Statuses written by the old dashboard are mapped onto the new lifecycle.
+UPDATE public.orders SET status = 'payment_verified' WHERE status::TEXT IN ('approved', 'confirmed');
+UPDATE public.orders SET status = 'out_for_delivery' WHERE status::TEXT = 'shipped';
+
+ALTER TABLE public.orders ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.orders
+  ALTER COLUMN status TYPE public.order_status USING status::TEXT::public.order_status;
+ALTER TABLE public.orders ALTER COLUMN status SET DEFAULT 'pending';
+
+
+-- STEP 3: CREATE THE 'order_status_transitions' TABLE
+CREATE TABLE IF NOT EXISTS public.order_status_transitions (
+    from_status public.order_status NOT NULL,
+    to_status public.order_status NOT NULL,
+    PRIMARY KEY (from_status, to_status)
+);
+COMMENT ON TABLE public.order_status_transitions IS 'The status changes an order is allowed to make.';
+
+INSERT INTO public.order_status_transitions (from_status, to_status) VALUES
+  ('pending', 'payment_verified'),
+  ('pending', 'cancelled'),
+  ('payment_verified', 'baking'),
+  ('payment_verified', 'cancelled'),
+  ('baking', 'out_for_delivery'),
+  ('baking', 'cancelled'),
+  ('out_for_delivery', 'delivered'),
+  ('delivered', 'refunded'),
+  ('cancelled', 'refunded')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order status transitions are viewable by everyone" ON public.order_status_transitions;
+CREATE POLICY "Order status transitions are viewable by everyone"
+ON public.order_status_transitions FOR SELECT
+USING (true);
+
+
+-- STEP 4: CREATE THE 'order_status_history' TABLE
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+    id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    from_status public.order_status, -- NULL for the status an order was created with
+    to_status public.order_status NOT NULL,
+    changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL, -- NULL for system changes
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.order_status_history IS 'An audit trail of every status an order has been in.';
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON public.order_status_history(order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view all order status history" ON public.order_status_history;
+CREATE POLICY "Admins can view all order status history"
+ON public.order_status_history FOR SELECT
+USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+DROP POLICY IF EXISTS "Users can view their own order status history" ON public.order_status_history;
+CREATE POLICY "Users can view their own order status history"
+ON public.order_status_history FOR SELECT
+USING (
+  (SELECT auth.uid()) = (SELECT user_id FROM public.orders WHERE id = order_id)
+);
+
+-- Admins need to see who changed an order, so they may read every profile.
+-- get_user_role() bypasses RLS, which avoids a policy on profiles recursing
+-- into itself.
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+CREATE POLICY "Admins can view all profiles"
+ON public.profiles FOR SELECT
+USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- Give existing orders a starting point in their timeline.
+INSERT INTO public.order_status_history (order_id, from_status, to_status, note, created_at)
+SELECT o.id, NULL, o.status, 'Recorded when order history was introduced.', o.created_at
+FROM public.orders o
+WHERE NOT EXISTS (SELECT 1 FROM public.order_status_history h WHERE h.order_id = o.id);
+
+
+-- STEP 5: ENFORCE THE ALLOWED TRANSITIONS
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'An order cannot move from "%" to "%".', OLD.status, NEW.status;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON public.orders;
+CREATE TRIGGER enforce_order_status_transition
+BEFORE UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.enforce_order_status_transition();
+
+
+-- STEP 6: RECORD EVERY STATUS CHANGE
+-- The note is read from the transaction-local 'app.order_status_note' setting,
+-- which update_order_status() fills in.
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.order_status_note', true), '')
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_order_created_status ON public.orders;
+CREATE TRIGGER record_order_created_status
+AFTER INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.record_order_status_change();
+
+DROP TRIGGER IF EXISTS record_order_status_change ON public.orders;
+CREATE TRIGGER record_order_status_change
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.record_order_status_change();
+
+
+-- STEP 7: CREATE THE 'update_order_status' FUNCTION
+-- Runs with the caller's privileges, so the orders RLS policies decide who may
+-- change a status; the triggers above validate and record the change.
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders;
+BEGIN
+  PERFORM set_config('app.order_status_note', COALESCE(trim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found, or you do not have permission to update it.';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', '', true);
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 8: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
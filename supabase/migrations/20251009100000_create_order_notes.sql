@@ -0,0 +1,50 @@
+-- ============================================================================
+--          CREATE ORDER NOTES TABLE & POLICIES
+-- Internal notes staff leave on an order. Customers never see these.
+-- ============================================================================
+
+-- STEP 1: CREATE THE 'order_notes' TABLE
+CREATE TABLE IF NOT EXISTS public.order_notes (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    body TEXT NOT NULL CHECK (char_length(trim(body)) > 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.order_notes IS 'Internal staff notes attached to an order.';
+
+CREATE INDEX IF NOT EXISTS idx_order_notes_order ON public.order_notes(order_id, created_at);
+
+
+-- STEP 2: ENABLE ROW-LEVEL SECURITY
+ALTER TABLE public.order_notes ENABLE ROW LEVEL SECURITY;
+
+
+-- STEP 3: CREATE RLS POLICIES FOR 'order_notes'
+-- 3.1: Admins can read every note.
+DROP POLICY IF EXISTS "Admins can view order notes" ON public.order_notes;
+CREATE POLICY "Admins can view order notes"
+ON public.order_notes FOR SELECT
+USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+-- 3.2: Admins can add notes in their own name.
+DROP POLICY IF EXISTS "Admins can create order notes" ON public.order_notes;
+CREATE POLICY "Admins can create order notes"
+ON public.order_notes FOR INSERT TO authenticated
+WITH CHECK (
+  (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+  AND author_id = auth.uid()
+);
+
+-- 3.3: Admins can only delete the notes they wrote.
+DROP POLICY IF EXISTS "Admins can delete their own order notes" ON public.order_notes;
+CREATE POLICY "Admins can delete their own order notes"
+ON public.order_notes FOR DELETE TO authenticated
+USING (
+  (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+  AND author_id = auth.uid()
+);
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,241 @@
+-- ============================================================================
+--          M-PESA STK PUSH PAYMENTS
+-- Every STK push attempt is stored in 'payments'. The mpesa-callback Edge
+-- Function reports Safaricom's result through record_mpesa_callback(), which
+-- marks the order as paid and verifies it without anyone checking a screenshot.
+-- ============================================================================
+
+-- STEP 1: TRACK HOW AND WHETHER AN ORDER WAS PAID
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS payment_method TEXT NOT NULL DEFAULT 'mpesa_till'
+    CHECK (payment_method IN ('mpesa_till', 'mpesa_stk')),
+  ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid'
+    CHECK (payment_status IN ('unpaid', 'paid')),
+  ADD COLUMN IF NOT EXISTS mpesa_receipt_number TEXT,
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE;
+
+
+-- STEP 2: CREATE THE 'payments' TABLE
+CREATE TABLE IF NOT EXISTS public.payments (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL, -- 'daraja' in production, 'mock' for local testing
+    phone TEXT NOT NULL,
+    amount NUMERIC(10, 2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+      CHECK (status IN ('pending', 'succeeded', 'failed', 'cancelled')),
+    merchant_request_id TEXT,
+    checkout_request_id TEXT UNIQUE,
+    mpesa_receipt_number TEXT UNIQUE,
+    result_code INTEGER,
+    result_desc TEXT,
+    raw_callback JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.payments IS 'M-Pesa STK push attempts and their callback results.';
+
+CREATE INDEX IF NOT EXISTS idx_payments_order ON public.payments(order_id);
+
+DROP TRIGGER IF EXISTS update_payments_updated_at ON public.payments;
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+
+-- STEP 3: ENABLE RLS. Only the Edge Functions (service role) write payments.
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view all payments" ON public.payments;
+CREATE POLICY "Admins can view all payments"
+ON public.payments FOR SELECT
+USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+DROP POLICY IF EXISTS "Users can view payments for their own orders" ON public.payments;
+CREATE POLICY "Users can view payments for their own orders"
+ON public.payments FOR SELECT
+USING (
+  (SELECT auth.uid()) = (SELECT user_id FROM public.orders WHERE id = order_id)
+);
+
+
+-- STEP 4: RECORD THE RESULT OF AN STK PUSH
+-- Safaricom may deliver the same callback more than once, so only a payment
+-- that is still pending is updated.
+CREATE OR REPLACE FUNCTION public.record_mpesa_callback(
+  p_checkout_request_id TEXT,
+  p_result_code INTEGER,
+  p_result_desc TEXT,
+  p_receipt_number TEXT,
+  p_amount NUMERIC,
+  p_raw_callback JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_payment public.payments;
+  v_order_status public.order_status;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE checkout_request_id = p_checkout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No payment found for CheckoutRequestID %', p_checkout_request_id;
+  END IF;
+
+  IF v_payment.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  -- 1032 means the customer dismissed the prompt on their phone.
+  IF p_result_code <> 0 THEN
+    UPDATE public.payments
+    SET status = CASE WHEN p_result_code = 1032 THEN 'cancelled' ELSE 'failed' END,
+        result_code = p_result_code,
+        result_desc = p_result_desc,
+        raw_callback = p_raw_callback
+    WHERE id = v_payment.id;
+    RETURN;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < v_payment.amount THEN
+    UPDATE public.payments
+    SET status = 'failed',
+        result_code = p_result_code,
+        result_desc = format('Paid %s but %s was due.', p_amount, v_payment.amount),
+        mpesa_receipt_number = p_receipt_number,
+        raw_callback = p_raw_callback
+    WHERE id = v_payment.id;
+    RETURN;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'succeeded',
+      result_code = p_result_code,
+      result_desc = p_result_desc,
+      mpesa_receipt_number = p_receipt_number,
+      raw_callback = p_raw_callback
+  WHERE id = v_payment.id;
+
+  UPDATE public.orders
+  SET payment_status = 'paid',
+      mpesa_receipt_number = p_receipt_number,
+      paid_at = now()
+  WHERE id = v_payment.order_id
+  RETURNING status INTO v_order_status;
+
+  -- Verify the order automatically; the history trigger records the change.
+  IF v_order_status = 'pending' THEN
+    PERFORM set_config(
+      'app.order_status_note',
+      format('M-Pesa payment confirmed automatically (receipt %s).', p_receipt_number),
+      true
+    );
+    UPDATE public.orders SET status = 'payment_verified' WHERE id = v_payment.order_id;
+    PERFORM set_config('app.order_status_note', '', true);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role (used by the callback Edge Function) may call it.
+REVOKE EXECUTE ON FUNCTION public.record_mpesa_callback(TEXT, INTEGER, TEXT, TEXT, NUMERIC, JSONB)
+  FROM PUBLIC, anon, authenticated;
+
+
+-- STEP 5: LET place_order() RECORD THE PAYMENT METHOD
+-- p_details gains an optional "payment_method" key ('mpesa_till' or 'mpesa_stk').
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_delivery_fee NUMERIC(10, 2) := 150.00;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_subtotal NUMERIC(10, 2);
+  v_unavailable TEXT;
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'A delivery address is required.';
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND COALESCE(p_details->>'payment_proof_url', '') = '' THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Re-check availability against the catalogue.
+  SELECT string_agg(COALESCE(p.name, 'an item that no longer exists'), ', ')
+  INTO v_unavailable
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = l.product_id
+  WHERE p.id IS NULL OR NOT p.in_stock;
+
+  IF v_unavailable IS NOT NULL THEN
+    RAISE EXCEPTION 'Some items are no longer available: %', v_unavailable;
+  END IF;
+
+  -- Price every line from the products table.
+  SELECT SUM(p.price * l.quantity)
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_method,
+    payment_proof_url
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    trim(p_details->>'delivery_address'),
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    v_payment_method,
+    p_details->>'payment_proof_url'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, p.id, SUM(l.quantity), p.price
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id
+  GROUP BY p.id, p.price;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 6: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
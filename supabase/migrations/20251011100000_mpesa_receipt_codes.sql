@@ -0,0 +1,201 @@
+-- ============================================================================
+--          MANUAL M-PESA CODES & STATEMENT RECONCILIATION
+-- Till payments now carry the customer's M-Pesa confirmation code. Each code
+-- can only ever belong to one order, and staff confirm codes in bulk by
+-- matching them against an M-Pesa statement.
+-- ============================================================================
+
+-- STEP 1: VALIDATE AND DE-DUPLICATE RECEIPT NUMBERS
+UPDATE public.orders
+SET mpesa_receipt_number = NULLIF(upper(trim(mpesa_receipt_number)), '')
+WHERE mpesa_receipt_number IS NOT NULL;
+
+ALTER TABLE public.orders
+  DROP CONSTRAINT IF EXISTS orders_mpesa_receipt_number_format;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_mpesa_receipt_number_format
+  CHECK (mpesa_receipt_number ~ '^[A-Z0-9]{10}$');
+
+ALTER TABLE public.orders
+  DROP CONSTRAINT IF EXISTS orders_mpesa_receipt_number_key;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_mpesa_receipt_number_key UNIQUE (mpesa_receipt_number);
+
+
+-- STEP 2: LET place_order() STORE THE CUSTOMER'S CODE
+-- p_details gains an "mpesa_receipt_number" key, required for Till payments.
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_delivery_fee NUMERIC(10, 2) := 150.00;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_subtotal NUMERIC(10, 2);
+  v_unavailable TEXT;
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'A delivery address is required.';
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND COALESCE(p_details->>'payment_proof_url', '') = '' THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Re-check availability against the catalogue.
+  SELECT string_agg(COALESCE(p.name, 'an item that no longer exists'), ', ')
+  INTO v_unavailable
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = l.product_id
+  WHERE p.id IS NULL OR NOT p.in_stock;
+
+  IF v_unavailable IS NOT NULL THEN
+    RAISE EXCEPTION 'Some items are no longer available: %', v_unavailable;
+  END IF;
+
+  -- Price every line from the products table.
+  SELECT SUM(p.price * l.quantity)
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_method,
+    payment_proof_url,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    trim(p_details->>'delivery_address'),
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    v_payment_method,
+    p_details->>'payment_proof_url',
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, p.id, SUM(l.quantity), p.price
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id
+  GROUP BY p.id, p.price;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 3: CONFIRM TILL PAYMENTS FROM A STATEMENT
+-- p_matches is an array of { order_id, receipt_number, amount } taken from the
+-- statement. Each order is marked as paid and, if still pending, verified.
+-- Runs with the caller's privileges, so only admins can update the orders.
+CREATE OR REPLACE FUNCTION public.reconcile_mpesa_payments(p_matches JSONB)
+RETURNS SETOF public.orders AS $$
+DECLARE
+  v_match RECORD;
+  v_receipt_number TEXT;
+  v_order public.orders;
+BEGIN
+  FOR v_match IN
+    SELECT * FROM jsonb_to_recordset(p_matches) AS m(order_id UUID, receipt_number TEXT, amount NUMERIC)
+  LOOP
+    v_receipt_number := upper(trim(v_match.receipt_number));
+
+    SELECT * INTO v_order FROM public.orders WHERE id = v_match.order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order % not found, or you do not have permission to update it.', v_match.order_id;
+    END IF;
+
+    IF v_order.payment_status = 'paid' THEN
+      RAISE EXCEPTION 'Order % has already been paid.', left(v_order.id::TEXT, 8);
+    END IF;
+
+    IF v_match.amount IS NULL OR v_match.amount < v_order.total_amount THEN
+      RAISE EXCEPTION 'Order % is for Ksh % but the statement shows Ksh %.',
+        left(v_order.id::TEXT, 8), v_order.total_amount, v_match.amount;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE mpesa_receipt_number = v_receipt_number AND id <> v_order.id
+    ) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+
+    UPDATE public.orders
+    SET payment_status = 'paid',
+        mpesa_receipt_number = v_receipt_number,
+        paid_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+    IF v_order.status = 'pending' THEN
+      PERFORM set_config(
+        'app.order_status_note',
+        format('Matched to M-Pesa statement (receipt %s).', v_receipt_number),
+        true
+      );
+      UPDATE public.orders SET status = 'payment_verified' WHERE id = v_order.id
+      RETURNING * INTO v_order;
+      PERFORM set_config('app.order_status_note', '', true);
+    END IF;
+
+    RETURN NEXT v_order;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,209 @@
+-- ============================================================================
+--          PRIVATE PAYMENT PROOFS
+-- Payment screenshots show customer names and phone numbers, so the bucket is
+-- no longer public. Orders store the object's path and the app shows the image
+-- through a short-lived signed URL. Only the customer who uploaded a
+-- screenshot and admins can read it.
+--
+-- Object layout:
+--   <user id>/<file>           uploaded by a signed-in customer
+--   guests/<random uuid>/<file> uploaded during guest checkout
+-- ============================================================================
+
+-- STEP 1: MAKE THE BUCKET PRIVATE
+UPDATE storage.buckets
+SET public = false,
+    file_size_limit = 5242880,
+    allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp']
+WHERE id = 'payment-proofs';
+
+
+-- STEP 2: REPLACE THE STORAGE POLICIES
+DROP POLICY IF EXISTS "Public read access for payment proofs" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload their own payment proof" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view their own payment proofs" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can view all payment proofs" ON storage.objects;
+DROP POLICY IF EXISTS "Guests can upload payment proofs" ON storage.objects;
+
+-- 2.1: Customers can upload into, and read from, their own folder.
+CREATE POLICY "Users can upload their own payment proof"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK ( bucket_id = 'payment-proofs' AND (storage.foldername(name))[1] = auth.uid()::TEXT );
+
+CREATE POLICY "Users can view their own payment proofs"
+ON storage.objects FOR SELECT TO authenticated
+USING ( bucket_id = 'payment-proofs' AND (storage.foldername(name))[1] = auth.uid()::TEXT );
+
+-- 2.2: Admins can read every screenshot.
+CREATE POLICY "Admins can view all payment proofs"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'payment-proofs'
+  AND (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+);
+
+-- 2.3: Guests can only add files under guests/<random uuid>/. They cannot
+-- list, read or overwrite anything, so the random folder keeps uploads apart.
+CREATE POLICY "Guests can upload payment proofs"
+ON storage.objects FOR INSERT TO anon
+WITH CHECK (
+  bucket_id = 'payment-proofs'
+  AND (storage.foldername(name))[1] = 'guests'
+  AND (storage.foldername(name))[2] ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  AND array_length(storage.foldername(name), 1) = 2
+);
+
+
+-- STEP 3: STORE THE OBJECT PATH ON THE ORDER
+DO $$
+BEGIN
+  ALTER TABLE public.orders RENAME COLUMN payment_proof_url TO payment_proof_path;
+EXCEPTION
+  WHEN undefined_column THEN NULL;
+END
+$$;
+
+-- Existing orders hold public URLs; keep only the path inside the bucket.
+UPDATE public.orders
+SET payment_proof_path = regexp_replace(payment_proof_path, '^.*/payment-proofs/', '')
+WHERE payment_proof_path LIKE 'http%';
+
+
+-- STEP 4: LET place_order() ACCEPT THE PATH
+-- p_details' "payment_proof_url" key is replaced by "payment_proof_path".
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_delivery_fee NUMERIC(10, 2) := 150.00;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_proof_path TEXT := NULLIF(trim(p_details->>'payment_proof_path'), '');
+  v_subtotal NUMERIC(10, 2);
+  v_unavailable TEXT;
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'A delivery address is required.';
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND v_proof_path IS NULL THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  -- The screenshot must be one the customer uploaded themselves: signed-in
+  -- customers upload into their own folder, guests into a folder under guests/.
+  IF v_proof_path IS NOT NULL THEN
+    IF v_user_id IS NOT NULL AND split_part(v_proof_path, '/', 1) <> v_user_id::TEXT THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF v_user_id IS NULL AND split_part(v_proof_path, '/', 1) <> 'guests' THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'payment-proofs' AND name = v_proof_path
+    ) THEN
+      RAISE EXCEPTION 'The payment screenshot could not be found. Please upload it again.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE payment_proof_path = v_proof_path) THEN
+      RAISE EXCEPTION 'This payment screenshot is already attached to another order.';
+    END IF;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Re-check availability against the catalogue.
+  SELECT string_agg(COALESCE(p.name, 'an item that no longer exists'), ', ')
+  INTO v_unavailable
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  LEFT JOIN public.products p ON p.id = l.product_id
+  WHERE p.id IS NULL OR NOT p.in_stock;
+
+  IF v_unavailable IS NOT NULL THEN
+    RAISE EXCEPTION 'Some items are no longer available: %', v_unavailable;
+  END IF;
+
+  -- Price every line from the products table.
+  SELECT SUM(p.price * l.quantity)
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_method,
+    payment_proof_path,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    trim(p_details->>'delivery_address'),
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    v_payment_method,
+    v_proof_path,
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, p.id, SUM(l.quantity), p.price
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = l.product_id
+  GROUP BY p.id, p.price;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 5: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
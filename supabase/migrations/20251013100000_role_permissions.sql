@@ -0,0 +1,367 @@
+-- ============================================================================
+--          ROLES & PERMISSIONS
+-- Replaces the free-text profiles.role with the 'app_role' enum and grants
+-- each role a set of permissions. RLS policies and the dashboard check
+-- permissions through has_permission() instead of comparing role names.
+--
+--   admin     everything
+--   staff     orders and products
+--   baker     view orders and move them through the kitchen
+--   delivery  view orders and mark them delivered
+--   user      customers; no dashboard access
+-- ============================================================================
+
+-- STEP 1: DROP POLICIES THAT READ profiles.role
+-- Postgres cannot change a column's type while policies depend on it. Every
+-- one of these is recreated with has_permission() in STEP 6.
+DROP POLICY IF EXISTS "Admins can create products" ON public.products;
+DROP POLICY IF EXISTS "Admins can update products" ON public.products;
+DROP POLICY IF EXISTS "Admins can delete products" ON public.products;
+DROP POLICY IF EXISTS "Admins can create categories" ON public.categories;
+DROP POLICY IF EXISTS "Admins can update categories" ON public.categories;
+DROP POLICY IF EXISTS "Admins can delete categories" ON public.categories;
+DROP POLICY IF EXISTS "Admins can manage all orders" ON public.orders;
+DROP POLICY IF EXISTS "Admins can manage all order items" ON public.order_items;
+DROP POLICY IF EXISTS "Admins can view all order status history" ON public.order_status_history;
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can view order notes" ON public.order_notes;
+DROP POLICY IF EXISTS "Admins can create order notes" ON public.order_notes;
+DROP POLICY IF EXISTS "Admins can delete their own order notes" ON public.order_notes;
+DROP POLICY IF EXISTS "Admins can view all payments" ON public.payments;
+DROP POLICY IF EXISTS "Admins can view all payment proofs" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can upload product images" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can update product images" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can delete product images" ON storage.objects;
+
+
+-- STEP 2: CREATE THE 'app_role' ENUM AND CONVERT profiles.role
+DO $$
+BEGIN
+  CREATE TYPE public.app_role AS ENUM ('admin', 'staff', 'baker', 'delivery', 'user');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END
+$$;
+
+UPDATE public.profiles
+SET role = 'user'
+WHERE role::TEXT NOT IN ('admin', 'staff', 'baker', 'delivery', 'user');
+
+ALTER TABLE public.profiles ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.profiles
+  ALTER COLUMN role TYPE public.app_role USING role::TEXT::public.app_role;
+ALTER TABLE public.profiles ALTER COLUMN role SET DEFAULT 'user';
+
+
+-- STEP 3: CREATE THE 'permissions' AND 'role_permissions' TABLES
+CREATE TABLE IF NOT EXISTS public.permissions (
+    key TEXT NOT NULL PRIMARY KEY,
+    description TEXT NOT NULL
+);
+COMMENT ON TABLE public.permissions IS 'Every permission the dashboard and RLS policies check for.';
+
+INSERT INTO public.permissions (key, description) VALUES
+  ('orders.view', 'View all orders, their payments, notes and history'),
+  ('orders.approve', 'Verify payments, cancel orders and issue refunds'),
+  ('orders.fulfil', 'Move orders through baking and delivery'),
+  ('orders.delete', 'Delete orders'),
+  ('products.edit', 'Create, edit and delete products and categories'),
+  ('users.manage', 'Manage staff accounts and their roles')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+    role public.app_role NOT NULL,
+    permission TEXT NOT NULL REFERENCES public.permissions(key) ON DELETE CASCADE,
+    PRIMARY KEY (role, permission)
+);
+COMMENT ON TABLE public.role_permissions IS 'The permissions granted to each role.';
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', key FROM public.permissions
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('staff', 'orders.view'),
+  ('staff', 'orders.approve'),
+  ('staff', 'orders.fulfil'),
+  ('staff', 'products.edit'),
+  ('baker', 'orders.view'),
+  ('baker', 'orders.fulfil'),
+  ('delivery', 'orders.view'),
+  ('delivery', 'orders.fulfil')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Permissions are viewable by everyone" ON public.permissions;
+CREATE POLICY "Permissions are viewable by everyone"
+ON public.permissions FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Role permissions are viewable by everyone" ON public.role_permissions;
+CREATE POLICY "Role permissions are viewable by everyone"
+ON public.role_permissions FOR SELECT
+USING (true);
+
+
+-- STEP 4: CREATE THE PERMISSION HELPERS
+-- SECURITY DEFINER lets policies on profiles call has_permission() without
+-- recursing into themselves.
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.role_permissions rp ON rp.role = p.role
+    WHERE p.id = auth.uid() AND rp.permission = p_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The signed-in user's permissions, loaded once by the app after login.
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(rp.permission ORDER BY rp.permission), ARRAY[]::TEXT[])
+  FROM public.profiles p
+  JOIN public.role_permissions rp ON rp.role = p.role
+  WHERE p.id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_user_role(p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  user_role TEXT;
+BEGIN
+  -- This query runs with elevated privileges, bypassing RLS
+  SELECT role::TEXT INTO user_role
+  FROM public.profiles
+  WHERE id = p_user_id;
+
+  RETURN user_role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 5: REQUIRE A PERMISSION FOR EACH STATUS CHANGE
+-- Verifying, cancelling and refunding need orders.approve; moving an order
+-- through the kitchen and delivery needs orders.fulfil.
+ALTER TABLE public.order_status_transitions
+  ADD COLUMN IF NOT EXISTS permission TEXT REFERENCES public.permissions(key);
+
+UPDATE public.order_status_transitions
+SET permission = CASE
+  WHEN to_status IN ('payment_verified', 'cancelled', 'refunded') THEN 'orders.approve'
+  ELSE 'orders.fulfil'
+END
+WHERE permission IS NULL;
+
+ALTER TABLE public.order_status_transitions ALTER COLUMN permission SET NOT NULL;
+
+-- Changes made without a signed-in user (the M-Pesa callback, which uses the
+-- service role) are only checked against the allowed transitions.
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_permission TEXT;
+BEGIN
+  SELECT permission INTO v_permission
+  FROM public.order_status_transitions
+  WHERE from_status = OLD.status AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'An order cannot move from "%" to "%".', OLD.status, NEW.status;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT public.has_permission(v_permission) THEN
+    RAISE EXCEPTION 'You do not have permission to mark orders as "%".', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 6: RECREATE THE POLICIES WITH has_permission()
+-- 6.1: Products and categories
+CREATE POLICY "Staff can create products"
+ON public.products FOR INSERT TO authenticated
+WITH CHECK (public.has_permission('products.edit'));
+
+CREATE POLICY "Staff can update products"
+ON public.products FOR UPDATE TO authenticated
+USING (public.has_permission('products.edit'));
+
+CREATE POLICY "Staff can delete products"
+ON public.products FOR DELETE TO authenticated
+USING (public.has_permission('products.edit'));
+
+CREATE POLICY "Staff can create categories"
+ON public.categories FOR INSERT TO authenticated
+WITH CHECK (public.has_permission('products.edit'));
+
+CREATE POLICY "Staff can update categories"
+ON public.categories FOR UPDATE TO authenticated
+USING (public.has_permission('products.edit'));
+
+CREATE POLICY "Staff can delete categories"
+ON public.categories FOR DELETE TO authenticated
+USING (public.has_permission('products.edit'));
+
+-- 6.2: Product images
+CREATE POLICY "Staff can upload product images"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK ( bucket_id = 'product-images' AND public.has_permission('products.edit') );
+
+CREATE POLICY "Staff can update product images"
+ON storage.objects FOR UPDATE TO authenticated
+USING ( bucket_id = 'product-images' AND public.has_permission('products.edit') );
+
+CREATE POLICY "Staff can delete product images"
+ON storage.objects FOR DELETE TO authenticated
+USING ( bucket_id = 'product-images' AND public.has_permission('products.edit') );
+
+-- 6.3: Orders. New orders are only created through place_order().
+DROP POLICY IF EXISTS "Staff can view all orders" ON public.orders;
+CREATE POLICY "Staff can view all orders"
+ON public.orders FOR SELECT
+USING (public.has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "Staff can update orders" ON public.orders;
+CREATE POLICY "Staff can update orders"
+ON public.orders FOR UPDATE TO authenticated
+USING (public.has_permission('orders.approve') OR public.has_permission('orders.fulfil'));
+
+DROP POLICY IF EXISTS "Staff can delete orders" ON public.orders;
+CREATE POLICY "Staff can delete orders"
+ON public.orders FOR DELETE TO authenticated
+USING (public.has_permission('orders.delete'));
+
+DROP POLICY IF EXISTS "Staff can view all order items" ON public.order_items;
+CREATE POLICY "Staff can view all order items"
+ON public.order_items FOR SELECT
+USING (public.has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "Staff can view all order status history" ON public.order_status_history;
+CREATE POLICY "Staff can view all order status history"
+ON public.order_status_history FOR SELECT
+USING (public.has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "Staff can view all payments" ON public.payments;
+CREATE POLICY "Staff can view all payments"
+ON public.payments FOR SELECT
+USING (public.has_permission('orders.view'));
+
+CREATE POLICY "Staff can view all payment proofs"
+ON storage.objects FOR SELECT
+USING ( bucket_id = 'payment-proofs' AND public.has_permission('orders.view') );
+
+-- 6.4: Order notes
+DROP POLICY IF EXISTS "Staff can view order notes" ON public.order_notes;
+CREATE POLICY "Staff can view order notes"
+ON public.order_notes FOR SELECT
+USING (public.has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "Staff can create order notes" ON public.order_notes;
+CREATE POLICY "Staff can create order notes"
+ON public.order_notes FOR INSERT TO authenticated
+WITH CHECK (public.has_permission('orders.view') AND author_id = auth.uid());
+
+DROP POLICY IF EXISTS "Staff can delete their own order notes" ON public.order_notes;
+CREATE POLICY "Staff can delete their own order notes"
+ON public.order_notes FOR DELETE TO authenticated
+USING (public.has_permission('orders.view') AND author_id = auth.uid());
+
+-- 6.5: Staff need to see who changed an order or wrote a note.
+DROP POLICY IF EXISTS "Staff can view all profiles" ON public.profiles;
+CREATE POLICY "Staff can view all profiles"
+ON public.profiles FOR SELECT
+USING (public.has_permission('orders.view'));
+
+
+-- STEP 7: STOP USERS PROMOTING THEMSELVES
+-- "Users can update own profile." would otherwise let anyone change their own
+-- role. Only users.manage may change a role.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to change roles.';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+BEFORE UPDATE OF role ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_role();
+
+
+-- STEP 8: ONLY orders.approve MAY CONFIRM PAYMENTS FROM A STATEMENT
+CREATE OR REPLACE FUNCTION public.reconcile_mpesa_payments(p_matches JSONB)
+RETURNS SETOF public.orders AS $$
+DECLARE
+  v_match RECORD;
+  v_receipt_number TEXT;
+  v_order public.orders;
+BEGIN
+  IF NOT public.has_permission('orders.approve') THEN
+    RAISE EXCEPTION 'You do not have permission to confirm payments.';
+  END IF;
+
+  FOR v_match IN
+    SELECT * FROM jsonb_to_recordset(p_matches) AS m(order_id UUID, receipt_number TEXT, amount NUMERIC)
+  LOOP
+    v_receipt_number := upper(trim(v_match.receipt_number));
+
+    SELECT * INTO v_order FROM public.orders WHERE id = v_match.order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order % not found, or you do not have permission to update it.', v_match.order_id;
+    END IF;
+
+    IF v_order.payment_status = 'paid' THEN
+      RAISE EXCEPTION 'Order % has already been paid.', left(v_order.id::TEXT, 8);
+    END IF;
+
+    IF v_match.amount IS NULL OR v_match.amount < v_order.total_amount THEN
+      RAISE EXCEPTION 'Order % is for Ksh % but the statement shows Ksh %.',
+        left(v_order.id::TEXT, 8), v_order.total_amount, v_match.amount;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE mpesa_receipt_number = v_receipt_number AND id <> v_order.id
+    ) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+
+    UPDATE public.orders
+    SET payment_status = 'paid',
+        mpesa_receipt_number = v_receipt_number,
+        paid_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+    IF v_order.status = 'pending' THEN
+      PERFORM set_config(
+        'app.order_status_note',
+        format('Matched to M-Pesa statement (receipt %s).', v_receipt_number),
+        true
+      );
+      UPDATE public.orders SET status = 'payment_verified' WHERE id = v_order.id
+      RETURNING * INTO v_order;
+      PERFORM set_config('app.order_status_note', '', true);
+    END IF;
+
+    RETURN NEXT v_order;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 9: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,234 @@
+-- ============================================================================
+--          USER MANAGEMENT
+-- Lets staff with users.manage list accounts, change roles and disable or
+-- re-enable accounts from the dashboard. Role changes and account status
+-- changes are written to user_audit_log, and the last active admin can never
+-- be demoted, disabled or deleted.
+-- ============================================================================
+
+-- STEP 1: TRACK DISABLED ACCOUNTS
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing profiles were created when the user signed up.
+UPDATE public.profiles p
+SET created_at = u.created_at
+FROM auth.users u
+WHERE u.id = p.id;
+
+
+-- Users may edit their own profile, so only users.manage may change whether
+-- an account is disabled.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to change roles.';
+  END IF;
+
+  IF NEW.disabled_at IS DISTINCT FROM OLD.disabled_at
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to disable accounts.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+BEFORE UPDATE OF role, disabled_at ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_role();
+
+
+-- STEP 2: DISABLED ACCOUNTS LOSE THEIR PERMISSIONS
+-- A disabled user's session may stay valid until it expires, so permissions
+-- are withdrawn straight away as well.
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.role_permissions rp ON rp.role = p.role
+    WHERE p.id = auth.uid() AND p.disabled_at IS NULL AND rp.permission = p_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(rp.permission ORDER BY rp.permission), ARRAY[]::TEXT[])
+  FROM public.profiles p
+  JOIN public.role_permissions rp ON rp.role = p.role
+  WHERE p.id = auth.uid() AND p.disabled_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 3: CREATE THE 'user_audit_log' TABLE
+CREATE TABLE IF NOT EXISTS public.user_audit_log (
+    id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL, -- NULL for changes made in SQL
+    action TEXT NOT NULL CHECK (action IN ('role_changed', 'disabled', 'enabled')),
+    old_role public.app_role,
+    new_role public.app_role,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.user_audit_log IS 'Every role change and account status change.';
+
+CREATE INDEX IF NOT EXISTS idx_user_audit_log_created ON public.user_audit_log(created_at DESC);
+
+ALTER TABLE public.user_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view the user audit log" ON public.user_audit_log;
+CREATE POLICY "Staff can view the user audit log"
+ON public.user_audit_log FOR SELECT
+USING (public.has_permission('users.manage'));
+
+
+-- STEP 4: RECORD ROLE AND STATUS CHANGES
+CREATE OR REPLACE FUNCTION public.record_profile_audit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    INSERT INTO public.user_audit_log (user_id, changed_by, action, old_role, new_role)
+    VALUES (NEW.id, auth.uid(), 'role_changed', OLD.role, NEW.role);
+  END IF;
+
+  IF (NEW.disabled_at IS NULL) IS DISTINCT FROM (OLD.disabled_at IS NULL) THEN
+    INSERT INTO public.user_audit_log (user_id, changed_by, action)
+    VALUES (NEW.id, auth.uid(), CASE WHEN NEW.disabled_at IS NULL THEN 'enabled' ELSE 'disabled' END);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_profile_audit ON public.profiles;
+CREATE TRIGGER record_profile_audit
+AFTER UPDATE OF role, disabled_at ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.record_profile_audit();
+
+
+-- STEP 5: KEEP AT LEAST ONE ACTIVE ADMIN
+CREATE OR REPLACE FUNCTION public.protect_last_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only matters when an active admin stops being one.
+  IF OLD.role <> 'admin' OR OLD.disabled_at IS NOT NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role = 'admin' AND NEW.disabled_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE role = 'admin' AND disabled_at IS NULL AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'This is the last active admin. Make someone else an admin first.';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_last_admin ON public.profiles;
+CREATE TRIGGER protect_last_admin
+BEFORE UPDATE OF role, disabled_at OR DELETE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_last_admin();
+
+
+-- STEP 6: CREATE THE USER MANAGEMENT FUNCTIONS
+-- Emails and sign-in times live in auth.users, which only SECURITY DEFINER
+-- functions can read, so each function checks users.manage itself.
+
+-- 6.1: List accounts, optionally filtered by email or name.
+CREATE OR REPLACE FUNCTION public.admin_list_users(p_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  full_name TEXT,
+  role public.app_role,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  disabled_at TIMESTAMP WITH TIME ZONE,
+  order_count BIGINT
+) AS $$
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    u.email::TEXT,
+    p.full_name,
+    p.role,
+    p.created_at,
+    u.last_sign_in_at,
+    p.disabled_at,
+    (SELECT count(*) FROM public.orders o WHERE o.user_id = p.id)
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE COALESCE(trim(p_search), '') = ''
+     OR u.email ILIKE '%' || trim(p_search) || '%'
+     OR p.full_name ILIKE '%' || trim(p_search) || '%'
+  ORDER BY p.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 6.2: Change a user's role. The triggers above audit it and protect the last admin.
+CREATE OR REPLACE FUNCTION public.admin_set_user_role(p_user_id UUID, p_role public.app_role)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users.';
+  END IF;
+
+  UPDATE public.profiles SET role = p_role WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found.';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6.3: Disable or re-enable an account. Disabled users are also banned in
+-- auth.users, so they cannot sign in or refresh their session.
+CREATE OR REPLACE FUNCTION public.admin_set_user_disabled(p_user_id UUID, p_disabled BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users.';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_disabled THEN
+    RAISE EXCEPTION 'You cannot disable your own account.';
+  END IF;
+
+  UPDATE public.profiles
+  SET disabled_at = CASE WHEN p_disabled THEN COALESCE(disabled_at, now()) END
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found.';
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_disabled THEN 'infinity'::TIMESTAMPTZ END
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 7: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,65 @@
+-- ============================================================================
+--          CATEGORY MANAGEMENT
+-- Adds a manual display order to categories, a public bucket for category
+-- images, and a function that saves a new order in one call.
+-- ============================================================================
+
+-- STEP 1: ADD 'sort_order' TO CATEGORIES
+ALTER TABLE public.categories
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+-- Keep the current alphabetical order as the starting point.
+UPDATE public.categories c
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (ORDER BY name) AS position
+  FROM public.categories
+) ordered
+WHERE ordered.id = c.id AND c.sort_order = 0;
+
+CREATE INDEX IF NOT EXISTS idx_categories_sort_order ON public.categories(sort_order);
+
+
+-- STEP 2: CREATE A BUCKET FOR CATEGORY IMAGES
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('category-images', 'category-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Public read access for category images" ON storage.objects;
+CREATE POLICY "Public read access for category images"
+ON storage.objects FOR SELECT
+TO anon, authenticated
+USING ( bucket_id = 'category-images' );
+
+DROP POLICY IF EXISTS "Staff can upload category images" ON storage.objects;
+CREATE POLICY "Staff can upload category images"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK ( bucket_id = 'category-images' AND public.has_permission('products.edit') );
+
+DROP POLICY IF EXISTS "Staff can update category images" ON storage.objects;
+CREATE POLICY "Staff can update category images"
+ON storage.objects FOR UPDATE TO authenticated
+USING ( bucket_id = 'category-images' AND public.has_permission('products.edit') );
+
+DROP POLICY IF EXISTS "Staff can delete category images" ON storage.objects;
+CREATE POLICY "Staff can delete category images"
+ON storage.objects FOR DELETE TO authenticated
+USING ( bucket_id = 'category-images' AND public.has_permission('products.edit') );
+
+
+-- STEP 3: CREATE THE 'reorder_categories' FUNCTION
+-- p_ids lists every category in its new order. Runs with the caller's
+-- privileges, so the categories RLS policies decide who may reorder.
+CREATE OR REPLACE FUNCTION public.reorder_categories(p_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.categories c
+  SET sort_order = ordered.position
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE c.id = ordered.id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
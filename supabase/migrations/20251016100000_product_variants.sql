@@ -0,0 +1,382 @@
+-- ============================================================================
+--          PRODUCT VARIANTS
+-- Lets a product come in several versions (for example 1kg, 2kg or 3-tier in
+-- vanilla, chocolate or red velvet). A product lists its option groups, and
+-- each combination of choices is a variant with its own price, availability
+-- and image. Cart and order lines now key on the variant, so two sizes of the
+-- same cake can sit in one cart.
+-- ============================================================================
+
+-- STEP 1: CREATE THE 'product_option_groups' TABLE
+-- One row per option a customer chooses, e.g. "Size" with choices
+-- {1kg, 2kg, 3-tier}. Groups are shown in position order.
+CREATE TABLE IF NOT EXISTS public.product_option_groups (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (trim(name) <> ''),
+    choices TEXT[] NOT NULL CHECK (cardinality(choices) > 0),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (product_id, name)
+);
+COMMENT ON TABLE public.product_option_groups IS 'The options a customer picks for a product, such as size or flavour.';
+
+
+-- STEP 2: CREATE THE 'product_variants' TABLE
+-- options maps each group name to the chosen value, e.g.
+-- {"Size": "2kg", "Flavour": "Chocolate"}. A variant either has an absolute
+-- price, or adds price_modifier (which may be negative) to the product price.
+CREATE TABLE IF NOT EXISTS public.product_variants (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    options JSONB NOT NULL CHECK (jsonb_typeof(options) = 'object'),
+    name TEXT NOT NULL, -- e.g. "2kg / Chocolate"
+    price NUMERIC(10, 2) CHECK (price >= 0),
+    price_modifier NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    in_stock BOOLEAN NOT NULL DEFAULT true,
+    image_url TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (product_id, options)
+);
+COMMENT ON TABLE public.product_variants IS 'Each purchasable combination of a product''s options.';
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON public.product_variants(product_id, position);
+
+DROP TRIGGER IF EXISTS update_product_variants_updated_at ON public.product_variants;
+CREATE TRIGGER update_product_variants_updated_at
+BEFORE UPDATE ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+
+-- STEP 3: RLS POLICIES - anyone can browse, products.edit manages
+ALTER TABLE public.product_option_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view product option groups" ON public.product_option_groups;
+CREATE POLICY "Anyone can view product option groups"
+ON public.product_option_groups FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Staff can manage product option groups" ON public.product_option_groups;
+CREATE POLICY "Staff can manage product option groups"
+ON public.product_option_groups FOR ALL TO authenticated
+USING (public.has_permission('products.edit'))
+WITH CHECK (public.has_permission('products.edit'));
+
+DROP POLICY IF EXISTS "Anyone can view product variants" ON public.product_variants;
+CREATE POLICY "Anyone can view product variants"
+ON public.product_variants FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Staff can manage product variants" ON public.product_variants;
+CREATE POLICY "Staff can manage product variants"
+ON public.product_variants FOR ALL TO authenticated
+USING (public.has_permission('products.edit'))
+WITH CHECK (public.has_permission('products.edit'));
+
+
+-- STEP 4: KEY CART LINES ON THE VARIANT
+-- Cart lines used (user_id, product_id) as their key. They now get their own
+-- id, and a user can hold one line per product and variant. NULLS NOT
+-- DISTINCT keeps products without variants to a single line as before.
+ALTER TABLE public.cart_items
+  ADD COLUMN IF NOT EXISTS id UUID NOT NULL DEFAULT gen_random_uuid(),
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+ALTER TABLE public.cart_items DROP CONSTRAINT IF EXISTS cart_items_pkey;
+ALTER TABLE public.cart_items ADD PRIMARY KEY (id);
+
+ALTER TABLE public.cart_items DROP CONSTRAINT IF EXISTS cart_items_user_product_variant_key;
+ALTER TABLE public.cart_items
+  ADD CONSTRAINT cart_items_user_product_variant_key
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+
+-- STEP 5: RECORD THE VARIANT ON ORDER LINES
+-- variant_name is a snapshot, so past orders still read correctly after a
+-- variant is renamed or deleted.
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS variant_name TEXT;
+
+
+-- STEP 6: PRICE AND VALIDATE A CART LINE
+-- Returns the unit price of a product, or of one of its variants. Raises if
+-- the combination cannot be bought: the product has variants but none was
+-- chosen, the variant belongs to another product, or either is out of stock.
+CREATE OR REPLACE FUNCTION public.get_line_price(p_product_id UUID, p_variant_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_product public.products;
+  v_variant public.product_variants;
+BEGIN
+  SELECT * INTO v_product FROM public.products WHERE id = p_product_id;
+
+  IF NOT FOUND OR NOT v_product.in_stock THEN
+    RAISE EXCEPTION 'Some items are no longer available: %', COALESCE(v_product.name, 'an item that no longer exists');
+  END IF;
+
+  IF p_variant_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id) THEN
+      RAISE EXCEPTION 'Please choose the options for %.', v_product.name;
+    END IF;
+    RETURN v_product.price;
+  END IF;
+
+  SELECT * INTO v_variant
+  FROM public.product_variants
+  WHERE id = p_variant_id AND product_id = p_product_id;
+
+  IF NOT FOUND OR NOT v_variant.in_stock THEN
+    RAISE EXCEPTION 'Some items are no longer available: % (%)', v_product.name, COALESCE(v_variant.name, 'option removed');
+  END IF;
+
+  RETURN COALESCE(v_variant.price, v_product.price + v_variant.price_modifier);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+
+-- STEP 7: SAVE A PRODUCT'S OPTIONS AND VARIANTS IN ONE CALL
+-- p_groups is a JSON array of { "name": TEXT, "choices": TEXT[] } in display
+-- order. p_variants is a JSON array of
+--   { "options": {group: choice}, "price": NUMERIC | null,
+--     "price_modifier": NUMERIC, "in_stock": BOOLEAN, "image_url": TEXT | null }.
+-- Variants are matched on their options, so existing variants keep their id
+-- (and the carts that hold them). Variants left out of p_variants are deleted.
+-- Runs with the caller's privileges, so the RLS policies decide who may save.
+CREATE OR REPLACE FUNCTION public.save_product_variants(p_product_id UUID, p_groups JSONB, p_variants JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_base_price NUMERIC(10, 2);
+  v_invalid TEXT;
+BEGIN
+  SELECT price INTO v_base_price FROM public.products WHERE id = p_product_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found.';
+  END IF;
+
+  DELETE FROM public.product_option_groups WHERE product_id = p_product_id;
+
+  INSERT INTO public.product_option_groups (product_id, name, choices, position)
+  SELECT p_product_id, trim(g.value->>'name'), ARRAY(SELECT jsonb_array_elements_text(g.value->'choices')), g.ordinality
+  FROM jsonb_array_elements(COALESCE(p_groups, '[]'::JSONB)) WITH ORDINALITY AS g;
+
+  -- Every variant must pick exactly one listed choice from every group.
+  SELECT string_agg(v.value->>'options', ', ')
+  INTO v_invalid
+  FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+  WHERE (SELECT count(*) FROM jsonb_object_keys(v.value->'options'))
+        <> (SELECT count(*) FROM public.product_option_groups WHERE product_id = p_product_id)
+     OR EXISTS (
+       SELECT 1
+       FROM public.product_option_groups g
+       WHERE g.product_id = p_product_id
+         AND NOT ((v.value->'options'->>g.name) = ANY (g.choices))
+     );
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'These variants do not match the options: %', v_invalid;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+    WHERE COALESCE((v.value->>'price')::NUMERIC, v_base_price + COALESCE((v.value->>'price_modifier')::NUMERIC, 0)) < 0
+  ) THEN
+    RAISE EXCEPTION 'A variant cannot cost less than nothing.';
+  END IF;
+
+  DELETE FROM public.product_variants pv
+  WHERE pv.product_id = p_product_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+      WHERE v.value->'options' = pv.options
+    );
+
+  INSERT INTO public.product_variants (product_id, options, name, price, price_modifier, in_stock, image_url, position)
+  SELECT
+    p_product_id,
+    v.value->'options',
+    (
+      SELECT string_agg(v.value->'options'->>g.name, ' / ' ORDER BY g.position)
+      FROM public.product_option_groups g
+      WHERE g.product_id = p_product_id
+    ),
+    (v.value->>'price')::NUMERIC,
+    COALESCE((v.value->>'price_modifier')::NUMERIC, 0),
+    COALESCE((v.value->>'in_stock')::BOOLEAN, true),
+    NULLIF(v.value->>'image_url', ''),
+    v.ordinality
+  FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) WITH ORDINALITY AS v
+  ON CONFLICT (product_id, options) DO UPDATE SET
+    name = EXCLUDED.name,
+    price = EXCLUDED.price,
+    price_modifier = EXCLUDED.price_modifier,
+    in_stock = EXCLUDED.in_stock,
+    image_url = EXCLUDED.image_url,
+    position = EXCLUDED.position;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 8: MERGE GUEST CART LINES BY VARIANT
+-- p_items is a JSON array of
+--   { "product_id": UUID, "variant_id": UUID | null, "quantity": INTEGER }.
+-- The merge rules are unchanged, except that a line for a product with
+-- variants must name one of its in-stock variants, or it is dropped.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to save your cart.';
+  END IF;
+
+  INSERT INTO public.cart_items (user_id, product_id, variant_id, quantity)
+  SELECT v_user_id, p.id, pv.id, LEAST(SUM(g.quantity), 99)
+  FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = g.product_id AND p.in_stock
+  LEFT JOIN public.product_variants pv ON pv.id = g.variant_id AND pv.product_id = p.id AND pv.in_stock
+  WHERE g.quantity > 0
+    AND (
+      (g.variant_id IS NULL AND NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p.id))
+      OR pv.id IS NOT NULL
+    )
+  GROUP BY p.id, pv.id
+  ON CONFLICT (user_id, product_id, variant_id)
+  DO UPDATE SET quantity = LEAST(public.cart_items.quantity + EXCLUDED.quantity, 99);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 9: PRICE ORDERS BY VARIANT
+-- p_items lines may now carry a "variant_id". Everything else is unchanged.
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_delivery_fee NUMERIC(10, 2) := 150.00;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_proof_path TEXT := NULLIF(trim(p_details->>'payment_proof_path'), '');
+  v_subtotal NUMERIC(10, 2);
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'A delivery address is required.';
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND v_proof_path IS NULL THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  -- The screenshot must be one the customer uploaded themselves: signed-in
+  -- customers upload into their own folder, guests into a folder under guests/.
+  IF v_proof_path IS NOT NULL THEN
+    IF v_user_id IS NOT NULL AND split_part(v_proof_path, '/', 1) <> v_user_id::TEXT THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF v_user_id IS NULL AND split_part(v_proof_path, '/', 1) <> 'guests' THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'payment-proofs' AND name = v_proof_path
+    ) THEN
+      RAISE EXCEPTION 'The payment screenshot could not be found. Please upload it again.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE payment_proof_path = v_proof_path) THEN
+      RAISE EXCEPTION 'This payment screenshot is already attached to another order.';
+    END IF;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Re-check availability and price every line from the catalogue.
+  -- get_line_price() raises for anything that can no longer be bought.
+  SELECT SUM(public.get_line_price(l.product_id, l.variant_id) * l.quantity)
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, quantity INTEGER);
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_method,
+    payment_proof_path,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    trim(p_details->>'delivery_address'),
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    v_payment_method,
+    v_proof_path,
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (order_id, product_id, variant_id, variant_name, quantity, price)
+  SELECT v_order.id, l.product_id, l.variant_id, pv.name, SUM(l.quantity), public.get_line_price(l.product_id, l.variant_id)
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, quantity INTEGER)
+  LEFT JOIN public.product_variants pv ON pv.id = l.variant_id
+  GROUP BY l.product_id, l.variant_id, pv.name;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 10: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,374 @@
+-- ============================================================================
+--          CAKE PERSONALIZATION
+-- Every cart and order line can carry a personalization: an inscription, a
+-- colour theme, dietary requirements, free-form notes and a reference photo.
+-- Colour themes and dietary requirements are picked from a list staff
+-- maintain, and each can add a surcharge to the line's unit price.
+--
+-- Cart lines store the customer's choices:
+--   { "inscription": TEXT, "colour_theme_id": UUID, "dietary_ids": [UUID],
+--     "notes": TEXT, "reference_image_path": TEXT }
+-- Order lines store a snapshot with the option labels resolved:
+--   { "inscription": TEXT, "colour_theme": TEXT, "dietary": [TEXT],
+--     "notes": TEXT, "reference_image_path": TEXT }
+--
+-- Reference photos live in a private bucket, laid out like payment proofs:
+--   <user id>/<file>            uploaded by a signed-in customer
+--   guests/<random uuid>/<file> uploaded by a guest
+-- ============================================================================
+
+-- STEP 1: CREATE THE 'personalization_options' TABLE
+CREATE TABLE IF NOT EXISTS public.personalization_options (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    kind TEXT NOT NULL CHECK (kind IN ('colour_theme', 'dietary')),
+    label TEXT NOT NULL CHECK (trim(label) <> ''),
+    surcharge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (surcharge >= 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (kind, label)
+);
+COMMENT ON TABLE public.personalization_options IS 'Colour themes and dietary requirements customers can pick, with their surcharges.';
+
+ALTER TABLE public.personalization_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view personalization options" ON public.personalization_options;
+CREATE POLICY "Anyone can view personalization options"
+ON public.personalization_options FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Staff can manage personalization options" ON public.personalization_options;
+CREATE POLICY "Staff can manage personalization options"
+ON public.personalization_options FOR ALL TO authenticated
+USING (public.has_permission('products.edit'))
+WITH CHECK (public.has_permission('products.edit'));
+
+INSERT INTO public.personalization_options (kind, label, position) VALUES
+  ('colour_theme', 'Classic white', 1),
+  ('colour_theme', 'Pastel pink', 2),
+  ('colour_theme', 'Baby blue', 3),
+  ('colour_theme', 'Gold & black', 4),
+  ('dietary', 'Eggless', 1),
+  ('dietary', 'Gluten-free', 2),
+  ('dietary', 'Nut-free', 3)
+ON CONFLICT (kind, label) DO NOTHING;
+
+
+-- STEP 2: CREATE A PRIVATE BUCKET FOR REFERENCE PHOTOS
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('personalization-references', 'personalization-references', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload their own reference photos" ON storage.objects;
+CREATE POLICY "Users can upload their own reference photos"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK ( bucket_id = 'personalization-references' AND (storage.foldername(name))[1] = auth.uid()::TEXT );
+
+DROP POLICY IF EXISTS "Users can view their own reference photos" ON storage.objects;
+CREATE POLICY "Users can view their own reference photos"
+ON storage.objects FOR SELECT TO authenticated
+USING ( bucket_id = 'personalization-references' AND (storage.foldername(name))[1] = auth.uid()::TEXT );
+
+DROP POLICY IF EXISTS "Staff can view all reference photos" ON storage.objects;
+CREATE POLICY "Staff can view all reference photos"
+ON storage.objects FOR SELECT TO authenticated
+USING ( bucket_id = 'personalization-references' AND public.has_permission('orders.view') );
+
+DROP POLICY IF EXISTS "Guests can upload reference photos" ON storage.objects;
+CREATE POLICY "Guests can upload reference photos"
+ON storage.objects FOR INSERT TO anon
+WITH CHECK (
+  bucket_id = 'personalization-references'
+  AND (storage.foldername(name))[1] = 'guests'
+  AND (storage.foldername(name))[2] ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  AND array_length(storage.foldername(name), 1) = 2
+);
+
+
+-- STEP 3: ADD PERSONALIZATION TO CART LINES
+-- The same cake with two different inscriptions is two lines, so the
+-- personalization is part of what makes a line unique.
+ALTER TABLE public.cart_items
+  ADD COLUMN IF NOT EXISTS personalization JSONB NOT NULL DEFAULT '{}'::JSONB
+  CHECK (jsonb_typeof(personalization) = 'object');
+
+ALTER TABLE public.cart_items DROP CONSTRAINT IF EXISTS cart_items_user_product_variant_key;
+ALTER TABLE public.cart_items DROP CONSTRAINT IF EXISTS cart_items_line_key;
+ALTER TABLE public.cart_items
+  ADD CONSTRAINT cart_items_line_key
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id, personalization);
+
+
+-- STEP 4: ADD PERSONALIZATION TO ORDER LINES
+-- price stays the unit price actually charged, surcharge included;
+-- personalization_surcharge records how much of it the personalization added.
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS personalization JSONB,
+  ADD COLUMN IF NOT EXISTS personalization_surcharge NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+
+-- STEP 5: VALIDATE AND PRICE A PERSONALIZATION
+-- Returns the surcharge for one unit. Raises if the inscription or notes are
+-- too long, an option is unknown or withdrawn, or the reference photo was not
+-- uploaded by the caller.
+CREATE OR REPLACE FUNCTION public.get_personalization_surcharge(p_personalization JSONB)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_colour_theme_id UUID := NULLIF(p_personalization->>'colour_theme_id', '')::UUID;
+  v_dietary_ids UUID[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_personalization->'dietary_ids', '[]'::JSONB))::UUID);
+  v_reference_path TEXT := NULLIF(trim(p_personalization->>'reference_image_path'), '');
+  v_surcharge NUMERIC(10, 2) := 0;
+BEGIN
+  IF p_personalization IS NULL OR p_personalization = '{}'::JSONB THEN
+    RETURN 0;
+  END IF;
+
+  IF char_length(COALESCE(p_personalization->>'inscription', '')) > 50 THEN
+    RAISE EXCEPTION 'Cake inscriptions can be at most 50 characters long.';
+  END IF;
+
+  IF char_length(COALESCE(p_personalization->>'notes', '')) > 500 THEN
+    RAISE EXCEPTION 'Personalization notes can be at most 500 characters long.';
+  END IF;
+
+  IF v_colour_theme_id IS NOT NULL THEN
+    SELECT v_surcharge + surcharge INTO v_surcharge
+    FROM public.personalization_options
+    WHERE id = v_colour_theme_id AND kind = 'colour_theme' AND active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The chosen colour theme is no longer available.';
+    END IF;
+  END IF;
+
+  IF cardinality(v_dietary_ids) > 0 THEN
+    IF (
+      SELECT count(*) FROM public.personalization_options
+      WHERE id = ANY (v_dietary_ids) AND kind = 'dietary' AND active
+    ) <> cardinality(v_dietary_ids) THEN
+      RAISE EXCEPTION 'One of the chosen dietary options is no longer available.';
+    END IF;
+
+    v_surcharge := v_surcharge + (
+      SELECT COALESCE(SUM(surcharge), 0) FROM public.personalization_options WHERE id = ANY (v_dietary_ids)
+    );
+  END IF;
+
+  -- Photos uploaded as a guest stay in guests/ after the customer signs in,
+  -- so a signed-in customer may use either folder.
+  IF v_reference_path IS NOT NULL THEN
+    IF split_part(v_reference_path, '/', 1) NOT IN ('guests', COALESCE(auth.uid()::TEXT, 'guests')) THEN
+      RAISE EXCEPTION 'The reference photo does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'personalization-references' AND name = v_reference_path
+    ) THEN
+      RAISE EXCEPTION 'A reference photo could not be found. Please upload it again.';
+    END IF;
+  END IF;
+
+  RETURN v_surcharge;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- The order line snapshot: option ids are swapped for their labels, and
+-- empty personalizations become NULL.
+CREATE OR REPLACE FUNCTION public.snapshot_personalization(p_personalization JSONB)
+RETURNS JSONB AS $$
+  SELECT NULLIF(jsonb_strip_nulls(jsonb_build_object(
+    'inscription', NULLIF(trim(p_personalization->>'inscription'), ''),
+    'colour_theme', (
+      SELECT label FROM public.personalization_options
+      WHERE id = NULLIF(p_personalization->>'colour_theme_id', '')::UUID
+    ),
+    'dietary', (
+      SELECT jsonb_agg(label ORDER BY position, label) FROM public.personalization_options
+      WHERE id::TEXT IN (SELECT jsonb_array_elements_text(COALESCE(p_personalization->'dietary_ids', '[]'::JSONB)))
+    ),
+    'notes', NULLIF(trim(p_personalization->>'notes'), ''),
+    'reference_image_path', NULLIF(trim(p_personalization->>'reference_image_path'), '')
+  )), '{}'::JSONB);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+
+-- STEP 6: MERGE GUEST CART LINES WITH THEIR PERSONALIZATION
+-- p_items lines may now carry a "personalization" object. It is checked when
+-- the order is placed.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to save your cart.';
+  END IF;
+
+  INSERT INTO public.cart_items (user_id, product_id, variant_id, personalization, quantity)
+  SELECT v_user_id, p.id, pv.id, COALESCE(g.personalization, '{}'::JSONB), LEAST(SUM(g.quantity), 99)
+  FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+  JOIN public.products p ON p.id = g.product_id AND p.in_stock
+  LEFT JOIN public.product_variants pv ON pv.id = g.variant_id AND pv.product_id = p.id AND pv.in_stock
+  WHERE g.quantity > 0
+    AND (
+      (g.variant_id IS NULL AND NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p.id))
+      OR pv.id IS NOT NULL
+    )
+  GROUP BY p.id, pv.id, COALESCE(g.personalization, '{}'::JSONB)
+  ON CONFLICT (user_id, product_id, variant_id, personalization)
+  DO UPDATE SET quantity = LEAST(public.cart_items.quantity + EXCLUDED.quantity, 99);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 7: PRICE PERSONALIZED LINES IN place_order()
+-- p_items lines may now carry a "personalization" object. Everything else is
+-- unchanged.
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_delivery_fee NUMERIC(10, 2) := 150.00;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_proof_path TEXT := NULLIF(trim(p_details->>'payment_proof_path'), '');
+  v_subtotal NUMERIC(10, 2);
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'A delivery address is required.';
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND v_proof_path IS NULL THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  -- The screenshot must be one the customer uploaded themselves: signed-in
+  -- customers upload into their own folder, guests into a folder under guests/.
+  IF v_proof_path IS NOT NULL THEN
+    IF v_user_id IS NOT NULL AND split_part(v_proof_path, '/', 1) <> v_user_id::TEXT THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF v_user_id IS NULL AND split_part(v_proof_path, '/', 1) <> 'guests' THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'payment-proofs' AND name = v_proof_path
+    ) THEN
+      RAISE EXCEPTION 'The payment screenshot could not be found. Please upload it again.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE payment_proof_path = v_proof_path) THEN
+      RAISE EXCEPTION 'This payment screenshot is already attached to another order.';
+    END IF;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Re-check availability and price every line from the catalogue.
+  -- get_line_price() and get_personalization_surcharge() raise for anything
+  -- that can no longer be bought.
+  SELECT SUM(
+    (public.get_line_price(l.product_id, l.variant_id)
+      + public.get_personalization_surcharge(COALESCE(l.personalization, '{}'::JSONB))) * l.quantity
+  )
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER);
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_method,
+    payment_proof_path,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    trim(p_details->>'delivery_address'),
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    v_payment_method,
+    v_proof_path,
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id, product_id, variant_id, variant_name, personalization, personalization_surcharge, quantity, price
+  )
+  SELECT
+    v_order.id,
+    l.product_id,
+    l.variant_id,
+    l.variant_name,
+    public.snapshot_personalization(l.personalization),
+    l.surcharge,
+    l.quantity,
+    l.base_price + l.surcharge
+  FROM (
+    SELECT
+      g.product_id,
+      g.variant_id,
+      pv.name AS variant_name,
+      COALESCE(g.personalization, '{}'::JSONB) AS personalization,
+      SUM(g.quantity) AS quantity,
+      public.get_line_price(g.product_id, g.variant_id) AS base_price,
+      public.get_personalization_surcharge(COALESCE(g.personalization, '{}'::JSONB)) AS surcharge
+    FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    LEFT JOIN public.product_variants pv ON pv.id = g.variant_id
+    GROUP BY g.product_id, g.variant_id, pv.name, COALESCE(g.personalization, '{}'::JSONB)
+  ) l;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 8: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,356 @@
+-- ============================================================================
+--          DELIVERY SCHEDULING
+-- Customers choose a delivery date and time slot at checkout. Staff define
+-- the weekly slots and how many orders each can take, close the bakery on
+-- blackout dates, and give every product a lead time: the number of days'
+-- notice it needs to be baked.
+--
+-- Dates and times are the bakery's local time (Africa/Nairobi). Slots use
+-- Postgres day-of-week numbering: 0 is Sunday, 6 is Saturday.
+--
+-- place_order() locks the chosen slot while it counts the slot's bookings,
+-- so two customers can never both take its last place.
+-- ============================================================================
+
+-- STEP 1: ADD THE 'delivery.manage' PERMISSION
+INSERT INTO public.permissions (key, description) VALUES
+  ('delivery.manage', 'Manage delivery slots, capacity and blackout dates')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'delivery.manage'),
+  ('staff', 'delivery.manage')
+ON CONFLICT DO NOTHING;
+
+
+-- STEP 2: ADD LEAD TIMES TO PRODUCTS
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS lead_time_days INTEGER NOT NULL DEFAULT 1
+  CHECK (lead_time_days BETWEEN 0 AND 60);
+
+COMMENT ON COLUMN public.products.lead_time_days IS 'Days of notice needed before delivery. 0 allows same-day delivery.';
+
+
+-- STEP 3: CREATE THE 'delivery_slots' TABLE
+CREATE TABLE IF NOT EXISTS public.delivery_slots (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+    starts_at TIME NOT NULL,
+    ends_at TIME NOT NULL,
+    capacity INTEGER NOT NULL CHECK (capacity > 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (ends_at > starts_at),
+    UNIQUE (weekday, starts_at)
+);
+COMMENT ON TABLE public.delivery_slots IS 'The weekly delivery windows and how many orders each can take.';
+
+ALTER TABLE public.delivery_slots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view delivery slots" ON public.delivery_slots;
+CREATE POLICY "Anyone can view delivery slots"
+ON public.delivery_slots FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Staff can manage delivery slots" ON public.delivery_slots;
+CREATE POLICY "Staff can manage delivery slots"
+ON public.delivery_slots FOR ALL TO authenticated
+USING (public.has_permission('delivery.manage'))
+WITH CHECK (public.has_permission('delivery.manage'));
+
+-- Three slots a day, Monday to Saturday, to start with.
+INSERT INTO public.delivery_slots (weekday, starts_at, ends_at, capacity)
+SELECT d.weekday, t.starts_at, t.ends_at, 4
+FROM generate_series(1, 6) AS d(weekday)
+CROSS JOIN (VALUES
+  ('09:00'::TIME, '12:00'::TIME),
+  ('12:00'::TIME, '15:00'::TIME),
+  ('15:00'::TIME, '18:00'::TIME)
+) AS t(starts_at, ends_at)
+ON CONFLICT (weekday, starts_at) DO NOTHING;
+
+
+-- STEP 4: CREATE THE 'blackout_dates' TABLE
+CREATE TABLE IF NOT EXISTS public.blackout_dates (
+    date DATE NOT NULL PRIMARY KEY,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.blackout_dates IS 'Days the bakery does not deliver, such as public holidays.';
+
+ALTER TABLE public.blackout_dates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view blackout dates" ON public.blackout_dates;
+CREATE POLICY "Anyone can view blackout dates"
+ON public.blackout_dates FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Staff can manage blackout dates" ON public.blackout_dates;
+CREATE POLICY "Staff can manage blackout dates"
+ON public.blackout_dates FOR ALL TO authenticated
+USING (public.has_permission('delivery.manage'))
+WITH CHECK (public.has_permission('delivery.manage'));
+
+
+-- STEP 5: ADD THE DELIVERY SLOT TO ORDERS
+-- The slot's times are copied onto the order so that editing or deleting a
+-- slot later does not change when existing orders are due.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS delivery_date DATE,
+  ADD COLUMN IF NOT EXISTS delivery_slot_id UUID REFERENCES public.delivery_slots(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS delivery_starts_at TIME,
+  ADD COLUMN IF NOT EXISTS delivery_ends_at TIME;
+
+CREATE INDEX IF NOT EXISTS orders_delivery_slot_idx ON public.orders (delivery_slot_id, delivery_date);
+
+
+-- STEP 6: SCHEDULING HELPERS
+CREATE OR REPLACE FUNCTION public.bakery_local_now()
+RETURNS TIMESTAMP AS $$
+  SELECT now() AT TIME ZONE 'Africa/Nairobi';
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Orders that still need delivering count against a slot's capacity;
+-- cancelled and refunded ones free their place.
+CREATE OR REPLACE FUNCTION public.count_slot_bookings(p_slot_id UUID, p_date DATE)
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM public.orders
+  WHERE delivery_slot_id = p_slot_id
+    AND delivery_date = p_date
+    AND status NOT IN ('cancelled', 'refunded');
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The first day every product in the cart can be ready: today plus the
+-- longest lead time among them.
+CREATE OR REPLACE FUNCTION public.get_earliest_delivery_date(p_product_ids UUID[])
+RETURNS DATE AS $$
+  SELECT public.bakery_local_now()::DATE + COALESCE(MAX(lead_time_days), 0)
+  FROM public.products
+  WHERE id = ANY (p_product_ids);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Every slot with room left over the next p_days days (at most 120), for a
+-- cart holding the given products. SECURITY DEFINER so that anyone can see
+-- how full a slot is without being able to read other customers' orders.
+CREATE OR REPLACE FUNCTION public.get_available_slots(p_product_ids UUID[], p_days INTEGER DEFAULT 60)
+RETURNS TABLE (delivery_date DATE, slot_id UUID, starts_at TIME, ends_at TIME, remaining INTEGER) AS $$
+  WITH params AS (
+    SELECT public.bakery_local_now() AS local_now, public.get_earliest_delivery_date(p_product_ids) AS earliest
+  ),
+  days AS (
+    SELECT g.day::DATE AS date
+    FROM params,
+      generate_series(params.earliest, params.local_now::DATE + LEAST(GREATEST(p_days, 1), 120), INTERVAL '1 day') AS g(day)
+  )
+  SELECT d.date, s.id, s.starts_at, s.ends_at, s.capacity - public.count_slot_bookings(s.id, d.date)
+  FROM days d
+  CROSS JOIN params p
+  JOIN public.delivery_slots s ON s.weekday = extract(dow FROM d.date) AND s.active
+  WHERE NOT EXISTS (SELECT 1 FROM public.blackout_dates b WHERE b.date = d.date)
+    AND (d.date > p.local_now::DATE OR s.starts_at > p.local_now::TIME)
+    AND public.count_slot_bookings(s.id, d.date) < s.capacity
+  ORDER BY d.date, s.starts_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 7: BOOK A DELIVERY SLOT IN place_order()
+-- p_details must now include "delivery_date" (YYYY-MM-DD) and
+-- "delivery_slot_id". Everything else is unchanged.
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_delivery_fee NUMERIC(10, 2) := 150.00;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_proof_path TEXT := NULLIF(trim(p_details->>'payment_proof_path'), '');
+  v_delivery_date DATE := NULLIF(trim(p_details->>'delivery_date'), '')::DATE;
+  v_slot_id UUID := NULLIF(trim(p_details->>'delivery_slot_id'), '')::UUID;
+  v_now TIMESTAMP := public.bakery_local_now();
+  v_slot public.delivery_slots;
+  v_earliest DATE;
+  v_subtotal NUMERIC(10, 2);
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'A delivery address is required.';
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND v_proof_path IS NULL THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  -- The screenshot must be one the customer uploaded themselves: signed-in
+  -- customers upload into their own folder, guests into a folder under guests/.
+  IF v_proof_path IS NOT NULL THEN
+    IF v_user_id IS NOT NULL AND split_part(v_proof_path, '/', 1) <> v_user_id::TEXT THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF v_user_id IS NULL AND split_part(v_proof_path, '/', 1) <> 'guests' THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'payment-proofs' AND name = v_proof_path
+    ) THEN
+      RAISE EXCEPTION 'The payment screenshot could not be found. Please upload it again.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE payment_proof_path = v_proof_path) THEN
+      RAISE EXCEPTION 'This payment screenshot is already attached to another order.';
+    END IF;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Check the delivery slot. Locking the slot's row makes concurrent orders
+  -- for the same slot wait here, so the booking count below stays accurate
+  -- until this order has been written.
+  IF v_delivery_date IS NULL OR v_slot_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery date and time.';
+  END IF;
+
+  SELECT * INTO v_slot FROM public.delivery_slots WHERE id = v_slot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_slot.active OR v_slot.weekday <> extract(dow FROM v_delivery_date) THEN
+    RAISE EXCEPTION 'The chosen delivery time is not available. Please choose another.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.blackout_dates WHERE date = v_delivery_date) THEN
+    RAISE EXCEPTION 'We are not delivering on %. Please choose another date.', to_char(v_delivery_date, 'FMDay DD Mon');
+  END IF;
+
+  v_earliest := public.get_earliest_delivery_date(
+    ARRAY(SELECT l.product_id FROM jsonb_to_recordset(p_items) AS l(product_id UUID))
+  );
+  IF v_delivery_date < v_earliest THEN
+    RAISE EXCEPTION 'Some items in your cart need more notice. The earliest delivery date is %.', to_char(v_earliest, 'FMDay DD Mon');
+  END IF;
+
+  IF v_delivery_date > v_now::DATE + 120 THEN
+    RAISE EXCEPTION 'Deliveries can be booked up to 120 days ahead.';
+  END IF;
+
+  IF v_delivery_date = v_now::DATE AND v_slot.starts_at <= v_now::TIME THEN
+    RAISE EXCEPTION 'The chosen delivery time has already started. Please choose another.';
+  END IF;
+
+  IF public.count_slot_bookings(v_slot.id, v_delivery_date) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'The chosen delivery time is fully booked. Please choose another.';
+  END IF;
+
+  -- Re-check availability and price every line from the catalogue.
+  -- get_line_price() and get_personalization_surcharge() raise for anything
+  -- that can no longer be bought.
+  SELECT SUM(
+    (public.get_line_price(l.product_id, l.variant_id)
+      + public.get_personalization_surcharge(COALESCE(l.personalization, '{}'::JSONB))) * l.quantity
+  )
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER);
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    delivery_address,
+    delivery_date,
+    delivery_slot_id,
+    delivery_starts_at,
+    delivery_ends_at,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_method,
+    payment_proof_path,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    trim(p_details->>'delivery_address'),
+    v_delivery_date,
+    v_slot.id,
+    v_slot.starts_at,
+    v_slot.ends_at,
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    v_payment_method,
+    v_proof_path,
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id, product_id, variant_id, variant_name, personalization, personalization_surcharge, quantity, price
+  )
+  SELECT
+    v_order.id,
+    l.product_id,
+    l.variant_id,
+    l.variant_name,
+    public.snapshot_personalization(l.personalization),
+    l.surcharge,
+    l.quantity,
+    l.base_price + l.surcharge
+  FROM (
+    SELECT
+      g.product_id,
+      g.variant_id,
+      pv.name AS variant_name,
+      COALESCE(g.personalization, '{}'::JSONB) AS personalization,
+      SUM(g.quantity) AS quantity,
+      public.get_line_price(g.product_id, g.variant_id) AS base_price,
+      public.get_personalization_surcharge(COALESCE(g.personalization, '{}'::JSONB)) AS surcharge
+    FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    LEFT JOIN public.product_variants pv ON pv.id = g.variant_id
+    GROUP BY g.product_id, g.variant_id, pv.name, COALESCE(g.personalization, '{}'::JSONB)
+  ) l;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 8: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,351 @@
+-- ============================================================================
+--          DELIVERY ZONES & STORE PICKUP
+-- Replaces the flat Ksh 150 delivery fee. Staff group the estates we deliver
+-- to into zones, each with its own fee, an optional minimum order and an
+-- optional order value above which delivery is free. Customers can instead
+-- collect their order from one of the bakery's pickup locations, for free.
+--
+-- The fee is worked out by calculate_delivery_fee(), which place_order()
+-- calls; the amount shown at checkout is only an estimate.
+-- ============================================================================
+
+-- STEP 1: CREATE THE 'delivery_zones' TABLE
+CREATE TABLE IF NOT EXISTS public.delivery_zones (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE CHECK (trim(name) <> ''),
+    areas TEXT,
+    fee NUMERIC(10, 2) NOT NULL CHECK (fee >= 0),
+    minimum_order NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (minimum_order >= 0),
+    free_delivery_threshold NUMERIC(10, 2) CHECK (free_delivery_threshold > 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.delivery_zones IS 'The areas we deliver to, with their fees and order thresholds.';
+COMMENT ON COLUMN public.delivery_zones.areas IS 'The estates and neighbourhoods in the zone, as shown to customers.';
+COMMENT ON COLUMN public.delivery_zones.free_delivery_threshold IS 'Orders with a subtotal of at least this much are delivered free. NULL never.';
+
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view delivery zones" ON public.delivery_zones;
+CREATE POLICY "Anyone can view delivery zones"
+ON public.delivery_zones FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Staff can manage delivery zones" ON public.delivery_zones;
+CREATE POLICY "Staff can manage delivery zones"
+ON public.delivery_zones FOR ALL TO authenticated
+USING (public.has_permission('delivery.manage'))
+WITH CHECK (public.has_permission('delivery.manage'));
+
+INSERT INTO public.delivery_zones (name, areas, fee, position) VALUES
+  ('CBD', 'Nairobi CBD, Upper Hill, Ngara', 150, 1),
+  ('Westlands', 'Westlands, Parklands, Kileleshwa, Lavington', 250, 2),
+  ('Eastlands', 'Buruburu, Donholm, Umoja, Embakasi', 300, 3),
+  ('Outskirts', 'Karen, Rongai, Ruaka, Kitengela, Syokimau', 500, 4)
+ON CONFLICT (name) DO NOTHING;
+
+
+-- STEP 2: CREATE THE 'pickup_locations' TABLE
+CREATE TABLE IF NOT EXISTS public.pickup_locations (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE CHECK (trim(name) <> ''),
+    address TEXT NOT NULL CHECK (trim(address) <> ''),
+    instructions TEXT,
+    active BOOLEAN NOT NULL DEFAULT true,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.pickup_locations IS 'Where customers can collect their orders instead of having them delivered.';
+
+ALTER TABLE public.pickup_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view pickup locations" ON public.pickup_locations;
+CREATE POLICY "Anyone can view pickup locations"
+ON public.pickup_locations FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Staff can manage pickup locations" ON public.pickup_locations;
+CREATE POLICY "Staff can manage pickup locations"
+ON public.pickup_locations FOR ALL TO authenticated
+USING (public.has_permission('delivery.manage'))
+WITH CHECK (public.has_permission('delivery.manage'));
+
+
+-- STEP 3: RECORD HOW EACH ORDER IS FULFILLED
+-- For pickup orders delivery_address holds the pickup location's name and
+-- address. The zone's name is copied so renaming a zone does not rewrite
+-- past orders.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS fulfillment_method TEXT NOT NULL DEFAULT 'delivery'
+    CHECK (fulfillment_method IN ('delivery', 'pickup')),
+  ADD COLUMN IF NOT EXISTS delivery_zone_id UUID REFERENCES public.delivery_zones(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS delivery_zone_name TEXT,
+  ADD COLUMN IF NOT EXISTS pickup_location_id UUID REFERENCES public.pickup_locations(id) ON DELETE SET NULL;
+
+
+-- STEP 4: CALCULATE THE DELIVERY FEE
+-- Pickup is free. Deliveries pay their zone's fee, unless the subtotal
+-- reaches the zone's free-delivery threshold. Raises if the zone cannot be
+-- delivered to or the subtotal is below its minimum order.
+CREATE OR REPLACE FUNCTION public.calculate_delivery_fee(p_method TEXT, p_zone_id UUID, p_subtotal NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_zone public.delivery_zones;
+BEGIN
+  IF p_method = 'pickup' THEN
+    RETURN 0;
+  END IF;
+
+  IF p_method IS DISTINCT FROM 'delivery' THEN
+    RAISE EXCEPTION 'Please choose delivery or store pickup.';
+  END IF;
+
+  SELECT * INTO v_zone FROM public.delivery_zones WHERE id = p_zone_id AND active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Please choose the area we should deliver to.';
+  END IF;
+
+  IF p_subtotal < v_zone.minimum_order THEN
+    RAISE EXCEPTION 'Orders delivered to % must be at least Ksh %.', v_zone.name, to_char(v_zone.minimum_order, 'FM999G999G990D00');
+  END IF;
+
+  IF v_zone.free_delivery_threshold IS NOT NULL AND p_subtotal >= v_zone.free_delivery_threshold THEN
+    RETURN 0;
+  END IF;
+
+  RETURN v_zone.fee;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+
+-- STEP 5: CHARGE THE ZONE FEE IN place_order()
+-- p_details now takes "fulfillment_method" ('delivery' or 'pickup'), and
+-- either "delivery_zone_id" with "delivery_address", or "pickup_location_id".
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_fulfillment_method TEXT := COALESCE(p_details->>'fulfillment_method', 'delivery');
+  v_zone_id UUID := NULLIF(trim(p_details->>'delivery_zone_id'), '')::UUID;
+  v_pickup_location_id UUID := NULLIF(trim(p_details->>'pickup_location_id'), '')::UUID;
+  v_delivery_address TEXT := NULLIF(trim(p_details->>'delivery_address'), '');
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_proof_path TEXT := NULLIF(trim(p_details->>'payment_proof_path'), '');
+  v_delivery_date DATE := NULLIF(trim(p_details->>'delivery_date'), '')::DATE;
+  v_slot_id UUID := NULLIF(trim(p_details->>'delivery_slot_id'), '')::UUID;
+  v_now TIMESTAMP := public.bakery_local_now();
+  v_slot public.delivery_slots;
+  v_pickup_location public.pickup_locations;
+  v_earliest DATE;
+  v_subtotal NUMERIC(10, 2);
+  v_delivery_fee NUMERIC(10, 2);
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF v_fulfillment_method = 'pickup' THEN
+    SELECT * INTO v_pickup_location FROM public.pickup_locations WHERE id = v_pickup_location_id AND active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose where you will collect your order.';
+    END IF;
+
+    v_delivery_address := v_pickup_location.name || E'\n' || v_pickup_location.address;
+    v_zone_id := NULL;
+  ELSE
+    IF v_delivery_address IS NULL THEN
+      RAISE EXCEPTION 'A delivery address is required.';
+    END IF;
+
+    v_pickup_location_id := NULL;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND v_proof_path IS NULL THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  -- The screenshot must be one the customer uploaded themselves: signed-in
+  -- customers upload into their own folder, guests into a folder under guests/.
+  IF v_proof_path IS NOT NULL THEN
+    IF v_user_id IS NOT NULL AND split_part(v_proof_path, '/', 1) <> v_user_id::TEXT THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF v_user_id IS NULL AND split_part(v_proof_path, '/', 1) <> 'guests' THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'payment-proofs' AND name = v_proof_path
+    ) THEN
+      RAISE EXCEPTION 'The payment screenshot could not be found. Please upload it again.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE payment_proof_path = v_proof_path) THEN
+      RAISE EXCEPTION 'This payment screenshot is already attached to another order.';
+    END IF;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Check the delivery slot. Locking the slot's row makes concurrent orders
+  -- for the same slot wait here, so the booking count below stays accurate
+  -- until this order has been written. Pickup orders book a slot too, as
+  -- they take the same kitchen time.
+  IF v_delivery_date IS NULL OR v_slot_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery date and time.';
+  END IF;
+
+  SELECT * INTO v_slot FROM public.delivery_slots WHERE id = v_slot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_slot.active OR v_slot.weekday <> extract(dow FROM v_delivery_date) THEN
+    RAISE EXCEPTION 'The chosen delivery time is not available. Please choose another.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.blackout_dates WHERE date = v_delivery_date) THEN
+    RAISE EXCEPTION 'We are not delivering on %. Please choose another date.', to_char(v_delivery_date, 'FMDay DD Mon');
+  END IF;
+
+  v_earliest := public.get_earliest_delivery_date(
+    ARRAY(SELECT l.product_id FROM jsonb_to_recordset(p_items) AS l(product_id UUID))
+  );
+  IF v_delivery_date < v_earliest THEN
+    RAISE EXCEPTION 'Some items in your cart need more notice. The earliest delivery date is %.', to_char(v_earliest, 'FMDay DD Mon');
+  END IF;
+
+  IF v_delivery_date > v_now::DATE + 120 THEN
+    RAISE EXCEPTION 'Deliveries can be booked up to 120 days ahead.';
+  END IF;
+
+  IF v_delivery_date = v_now::DATE AND v_slot.starts_at <= v_now::TIME THEN
+    RAISE EXCEPTION 'The chosen delivery time has already started. Please choose another.';
+  END IF;
+
+  IF public.count_slot_bookings(v_slot.id, v_delivery_date) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'The chosen delivery time is fully booked. Please choose another.';
+  END IF;
+
+  -- Re-check availability and price every line from the catalogue.
+  -- get_line_price() and get_personalization_surcharge() raise for anything
+  -- that can no longer be bought.
+  SELECT SUM(
+    (public.get_line_price(l.product_id, l.variant_id)
+      + public.get_personalization_surcharge(COALESCE(l.personalization, '{}'::JSONB))) * l.quantity
+  )
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER);
+
+  v_delivery_fee := public.calculate_delivery_fee(v_fulfillment_method, v_zone_id, v_subtotal);
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    fulfillment_method,
+    delivery_address,
+    delivery_zone_id,
+    delivery_zone_name,
+    pickup_location_id,
+    delivery_date,
+    delivery_slot_id,
+    delivery_starts_at,
+    delivery_ends_at,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_method,
+    payment_proof_path,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    v_fulfillment_method,
+    v_delivery_address,
+    v_zone_id,
+    (SELECT name FROM public.delivery_zones WHERE id = v_zone_id),
+    v_pickup_location_id,
+    v_delivery_date,
+    v_slot.id,
+    v_slot.starts_at,
+    v_slot.ends_at,
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    v_payment_method,
+    v_proof_path,
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id, product_id, variant_id, variant_name, personalization, personalization_surcharge, quantity, price
+  )
+  SELECT
+    v_order.id,
+    l.product_id,
+    l.variant_id,
+    l.variant_name,
+    public.snapshot_personalization(l.personalization),
+    l.surcharge,
+    l.quantity,
+    l.base_price + l.surcharge
+  FROM (
+    SELECT
+      g.product_id,
+      g.variant_id,
+      pv.name AS variant_name,
+      COALESCE(g.personalization, '{}'::JSONB) AS personalization,
+      SUM(g.quantity) AS quantity,
+      public.get_line_price(g.product_id, g.variant_id) AS base_price,
+      public.get_personalization_surcharge(COALESCE(g.personalization, '{}'::JSONB)) AS surcharge
+    FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    LEFT JOIN public.product_variants pv ON pv.id = g.variant_id
+    GROUP BY g.product_id, g.variant_id, pv.name, COALESCE(g.personalization, '{}'::JSONB)
+  ) l;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 6: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,415 @@
+-- ============================================================================
+--          STRUCTURED SHIPPING ADDRESSES & ADDRESS BOOK
+-- Delivery addresses were a single block of free text. They are now made up
+-- of a recipient, the estate or area, street, building, a landmark, optional
+-- GPS coordinates and delivery instructions.
+--
+-- Signed-in customers keep their addresses in 'user_addresses', with one
+-- marked as the default, and every delivery order keeps a copy of the
+-- address it was sent to in orders.shipping_address. delivery_address is
+-- still filled in, as a formatted version, for the WhatsApp message and for
+-- orders placed before this migration.
+-- ============================================================================
+
+-- STEP 1: CREATE THE 'user_addresses' TABLE
+CREATE TABLE IF NOT EXISTS public.user_addresses (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    label TEXT,
+    recipient_name TEXT NOT NULL CHECK (trim(recipient_name) <> ''),
+    recipient_phone TEXT NOT NULL CHECK (trim(recipient_phone) <> ''),
+    delivery_zone_id UUID REFERENCES public.delivery_zones(id) ON DELETE SET NULL,
+    area TEXT NOT NULL CHECK (trim(area) <> ''),
+    street TEXT NOT NULL CHECK (trim(street) <> ''),
+    building TEXT,
+    landmark TEXT,
+    latitude NUMERIC(9, 6) CHECK (latitude BETWEEN -90 AND 90),
+    longitude NUMERIC(9, 6) CHECK (longitude BETWEEN -180 AND 180),
+    instructions TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+COMMENT ON TABLE public.user_addresses IS 'Each customer''s saved delivery addresses.';
+COMMENT ON COLUMN public.user_addresses.area IS 'The estate or area, e.g. Kilimani.';
+COMMENT ON COLUMN public.user_addresses.is_default IS 'Preselected at checkout. At most one per customer.';
+
+CREATE INDEX IF NOT EXISTS user_addresses_user_id_idx ON public.user_addresses (user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS user_addresses_one_default_idx ON public.user_addresses (user_id) WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_user_addresses_updated_at ON public.user_addresses;
+CREATE TRIGGER update_user_addresses_updated_at
+BEFORE UPDATE ON public.user_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.user_addresses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own addresses" ON public.user_addresses;
+CREATE POLICY "Users can view their own addresses"
+ON public.user_addresses FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can add their own addresses" ON public.user_addresses;
+CREATE POLICY "Users can add their own addresses"
+ON public.user_addresses FOR INSERT TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own addresses" ON public.user_addresses;
+CREATE POLICY "Users can update their own addresses"
+ON public.user_addresses FOR UPDATE TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own addresses" ON public.user_addresses;
+CREATE POLICY "Users can delete their own addresses"
+ON public.user_addresses FOR DELETE TO authenticated
+USING (user_id = auth.uid());
+
+
+-- STEP 2: KEEP EXACTLY ONE DEFAULT ADDRESS
+-- A customer's first address becomes their default. Making another address
+-- the default clears the flag on the old one, and deleting the default
+-- passes it on to the most recently added address.
+CREATE OR REPLACE FUNCTION public.handle_default_address()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_default THEN
+      UPDATE public.user_addresses SET is_default = true
+      WHERE id = (
+        SELECT id FROM public.user_addresses
+        WHERE user_id = OLD.user_id
+        ORDER BY created_at DESC
+        LIMIT 1
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.user_addresses WHERE user_id = NEW.user_id AND is_default
+  ) THEN
+    NEW.is_default := true;
+  END IF;
+
+  IF NEW.is_default THEN
+    UPDATE public.user_addresses SET is_default = false
+    WHERE user_id = NEW.user_id AND is_default AND id <> NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_addresses_set_default ON public.user_addresses;
+CREATE TRIGGER user_addresses_set_default
+BEFORE INSERT OR UPDATE OF is_default ON public.user_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_default_address();
+
+DROP TRIGGER IF EXISTS user_addresses_pass_on_default ON public.user_addresses;
+CREATE TRIGGER user_addresses_pass_on_default
+AFTER DELETE ON public.user_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_default_address();
+
+
+-- STEP 3: SNAPSHOT THE ADDRESS ON EACH ORDER
+-- NULL for pickup orders and for orders placed before this migration.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+
+
+-- STEP 4: CHECK AND FORMAT SHIPPING ADDRESSES
+-- Trims every field and drops the empty ones. Raises if a required field is
+-- missing or the coordinates are out of range.
+CREATE OR REPLACE FUNCTION public.snapshot_shipping_address(p_address JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_address JSONB;
+  v_latitude NUMERIC;
+  v_longitude NUMERIC;
+BEGIN
+  IF p_address IS NULL OR jsonb_typeof(p_address) <> 'object' THEN
+    RAISE EXCEPTION 'A delivery address is required.';
+  END IF;
+
+  v_address := jsonb_strip_nulls(jsonb_build_object(
+    'recipient_name', NULLIF(trim(p_address->>'recipient_name'), ''),
+    'recipient_phone', NULLIF(trim(p_address->>'recipient_phone'), ''),
+    'area', NULLIF(trim(p_address->>'area'), ''),
+    'street', NULLIF(trim(p_address->>'street'), ''),
+    'building', NULLIF(trim(p_address->>'building'), ''),
+    'landmark', NULLIF(trim(p_address->>'landmark'), ''),
+    'instructions', NULLIF(trim(p_address->>'instructions'), '')
+  ));
+
+  IF v_address->>'recipient_name' IS NULL OR v_address->>'recipient_phone' IS NULL THEN
+    RAISE EXCEPTION 'The delivery address needs the name and phone number of the person receiving the order.';
+  END IF;
+
+  IF v_address->>'area' IS NULL OR v_address->>'street' IS NULL THEN
+    RAISE EXCEPTION 'The delivery address needs an estate or area and a street.';
+  END IF;
+
+  v_latitude := NULLIF(p_address->>'latitude', '')::NUMERIC;
+  v_longitude := NULLIF(p_address->>'longitude', '')::NUMERIC;
+
+  IF v_latitude IS NOT NULL AND v_longitude IS NOT NULL THEN
+    IF v_latitude NOT BETWEEN -90 AND 90 OR v_longitude NOT BETWEEN -180 AND 180 THEN
+      RAISE EXCEPTION 'The delivery location''s GPS coordinates are not valid.';
+    END IF;
+
+    v_address := v_address || jsonb_build_object('latitude', round(v_latitude, 6), 'longitude', round(v_longitude, 6));
+  END IF;
+
+  RETURN v_address;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- e.g. "Apt 4B, Jade Court, Kasuku Road, Kilimani", with the landmark and
+-- instructions on the lines below.
+CREATE OR REPLACE FUNCTION public.format_shipping_address(p_address JSONB)
+RETURNS TEXT AS $$
+  SELECT concat_ws(E'\n',
+    concat_ws(', ', p_address->>'building', p_address->>'street', p_address->>'area'),
+    'Near ' || (p_address->>'landmark'),
+    p_address->>'instructions'
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+
+-- STEP 5: SAVE THE STRUCTURED ADDRESS IN place_order()
+-- Delivery orders now pass p_details."shipping_address", an object with
+-- recipient_name, recipient_phone, area, street and optionally building,
+-- landmark, latitude, longitude and instructions, in place of the
+-- free-text "delivery_address".
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_fulfillment_method TEXT := COALESCE(p_details->>'fulfillment_method', 'delivery');
+  v_zone_id UUID := NULLIF(trim(p_details->>'delivery_zone_id'), '')::UUID;
+  v_pickup_location_id UUID := NULLIF(trim(p_details->>'pickup_location_id'), '')::UUID;
+  v_shipping_address JSONB;
+  v_delivery_address TEXT;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_proof_path TEXT := NULLIF(trim(p_details->>'payment_proof_path'), '');
+  v_delivery_date DATE := NULLIF(trim(p_details->>'delivery_date'), '')::DATE;
+  v_slot_id UUID := NULLIF(trim(p_details->>'delivery_slot_id'), '')::UUID;
+  v_now TIMESTAMP := public.bakery_local_now();
+  v_slot public.delivery_slots;
+  v_pickup_location public.pickup_locations;
+  v_earliest DATE;
+  v_subtotal NUMERIC(10, 2);
+  v_delivery_fee NUMERIC(10, 2);
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF v_fulfillment_method = 'pickup' THEN
+    SELECT * INTO v_pickup_location FROM public.pickup_locations WHERE id = v_pickup_location_id AND active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose where you will collect your order.';
+    END IF;
+
+    v_delivery_address := v_pickup_location.name || E'\n' || v_pickup_location.address;
+    v_zone_id := NULL;
+  ELSE
+    v_shipping_address := public.snapshot_shipping_address(p_details->'shipping_address');
+    v_delivery_address := public.format_shipping_address(v_shipping_address);
+    v_pickup_location_id := NULL;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND v_proof_path IS NULL THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  -- The screenshot must be one the customer uploaded themselves: signed-in
+  -- customers upload into their own folder, guests into a folder under guests/.
+  IF v_proof_path IS NOT NULL THEN
+    IF v_user_id IS NOT NULL AND split_part(v_proof_path, '/', 1) <> v_user_id::TEXT THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF v_user_id IS NULL AND split_part(v_proof_path, '/', 1) <> 'guests' THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'payment-proofs' AND name = v_proof_path
+    ) THEN
+      RAISE EXCEPTION 'The payment screenshot could not be found. Please upload it again.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE payment_proof_path = v_proof_path) THEN
+      RAISE EXCEPTION 'This payment screenshot is already attached to another order.';
+    END IF;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Check the delivery slot. Locking the slot's row makes concurrent orders
+  -- for the same slot wait here, so the booking count below stays accurate
+  -- until this order has been written. Pickup orders book a slot too, as
+  -- they take the same kitchen time.
+  IF v_delivery_date IS NULL OR v_slot_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery date and time.';
+  END IF;
+
+  SELECT * INTO v_slot FROM public.delivery_slots WHERE id = v_slot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_slot.active OR v_slot.weekday <> extract(dow FROM v_delivery_date) THEN
+    RAISE EXCEPTION 'The chosen delivery time is not available. Please choose another.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.blackout_dates WHERE date = v_delivery_date) THEN
+    RAISE EXCEPTION 'We are not delivering on %. Please choose another date.', to_char(v_delivery_date, 'FMDay DD Mon');
+  END IF;
+
+  v_earliest := public.get_earliest_delivery_date(
+    ARRAY(SELECT l.product_id FROM jsonb_to_recordset(p_items) AS l(product_id UUID))
+  );
+  IF v_delivery_date < v_earliest THEN
+    RAISE EXCEPTION 'Some items in your cart need more notice. The earliest delivery date is %.', to_char(v_earliest, 'FMDay DD Mon');
+  END IF;
+
+  IF v_delivery_date > v_now::DATE + 120 THEN
+    RAISE EXCEPTION 'Deliveries can be booked up to 120 days ahead.';
+  END IF;
+
+  IF v_delivery_date = v_now::DATE AND v_slot.starts_at <= v_now::TIME THEN
+    RAISE EXCEPTION 'The chosen delivery time has already started. Please choose another.';
+  END IF;
+
+  IF public.count_slot_bookings(v_slot.id, v_delivery_date) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'The chosen delivery time is fully booked. Please choose another.';
+  END IF;
+
+  -- Re-check availability and price every line from the catalogue.
+  -- get_line_price() and get_personalization_surcharge() raise for anything
+  -- that can no longer be bought.
+  SELECT SUM(
+    (public.get_line_price(l.product_id, l.variant_id)
+      + public.get_personalization_surcharge(COALESCE(l.personalization, '{}'::JSONB))) * l.quantity
+  )
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER);
+
+  v_delivery_fee := public.calculate_delivery_fee(v_fulfillment_method, v_zone_id, v_subtotal);
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    fulfillment_method,
+    delivery_address,
+    shipping_address,
+    delivery_zone_id,
+    delivery_zone_name,
+    pickup_location_id,
+    delivery_date,
+    delivery_slot_id,
+    delivery_starts_at,
+    delivery_ends_at,
+    subtotal,
+    delivery_fee,
+    total_amount,
+    payment_method,
+    payment_proof_path,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    v_fulfillment_method,
+    v_delivery_address,
+    v_shipping_address,
+    v_zone_id,
+    (SELECT name FROM public.delivery_zones WHERE id = v_zone_id),
+    v_pickup_location_id,
+    v_delivery_date,
+    v_slot.id,
+    v_slot.starts_at,
+    v_slot.ends_at,
+    v_subtotal,
+    v_delivery_fee,
+    v_subtotal + v_delivery_fee,
+    v_payment_method,
+    v_proof_path,
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id, product_id, variant_id, variant_name, personalization, personalization_surcharge, quantity, price
+  )
+  SELECT
+    v_order.id,
+    l.product_id,
+    l.variant_id,
+    l.variant_name,
+    public.snapshot_personalization(l.personalization),
+    l.surcharge,
+    l.quantity,
+    l.base_price + l.surcharge
+  FROM (
+    SELECT
+      g.product_id,
+      g.variant_id,
+      pv.name AS variant_name,
+      COALESCE(g.personalization, '{}'::JSONB) AS personalization,
+      SUM(g.quantity) AS quantity,
+      public.get_line_price(g.product_id, g.variant_id) AS base_price,
+      public.get_personalization_surcharge(COALESCE(g.personalization, '{}'::JSONB)) AS surcharge
+    FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    LEFT JOIN public.product_variants pv ON pv.id = g.variant_id
+    GROUP BY g.product_id, g.variant_id, pv.name, COALESCE(g.personalization, '{}'::JSONB)
+  ) l;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 6: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
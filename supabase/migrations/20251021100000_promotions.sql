@@ -0,0 +1,491 @@
+-- ============================================================================
+--          DISCOUNT CODES & PROMOTIONS
+-- Staff create promotion codes that customers enter at checkout. A code can
+-- take a percentage or a fixed amount off, make delivery free, or make the
+-- cheapest items free when enough are bought ("buy 2, get 1 free"). Codes
+-- can be limited to some products or categories, to a date range, to a
+-- minimum subtotal and to a number of uses overall and per customer.
+--
+-- The discount is worked out by apply_promotion(), which place_order()
+-- calls; checkout calls it too, to show the discount before ordering.
+-- Each use is recorded in 'promotion_redemptions'. Uses on cancelled or
+-- refunded orders do not count towards the limits.
+-- ============================================================================
+
+-- STEP 1: ADD THE 'promotions.manage' PERMISSION
+INSERT INTO public.permissions (key, description) VALUES
+  ('promotions.manage', 'Create and edit discount codes and see how they are used')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'promotions.manage')
+ON CONFLICT DO NOTHING;
+
+
+-- STEP 2: CREATE THE 'promotions' TABLE
+-- "value" is the percentage for 'percentage' codes and the amount in Ksh
+-- for 'fixed_amount' codes. 'buy_x_get_y' codes make get_quantity of every
+-- buy_quantity + get_quantity eligible items free, cheapest first.
+CREATE TABLE IF NOT EXISTS public.promotions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+    description TEXT,
+    kind TEXT NOT NULL CHECK (kind IN ('percentage', 'fixed_amount', 'free_delivery', 'buy_x_get_y')),
+    value NUMERIC(10, 2),
+    buy_quantity INTEGER CHECK (buy_quantity > 0),
+    get_quantity INTEGER CHECK (get_quantity > 0),
+    product_ids UUID[] NOT NULL DEFAULT '{}',
+    category_ids UUID[] NOT NULL DEFAULT '{}',
+    minimum_subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (minimum_subtotal >= 0),
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    usage_limit INTEGER CHECK (usage_limit > 0),
+    per_user_limit INTEGER CHECK (per_user_limit > 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (kind <> 'percentage' OR value > 0 AND value <= 100),
+    CHECK (kind <> 'fixed_amount' OR value > 0),
+    CHECK (kind <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL)),
+    CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+COMMENT ON TABLE public.promotions IS 'Discount codes customers can enter at checkout.';
+COMMENT ON COLUMN public.promotions.code IS 'Stored in upper case. Codes are matched case-insensitively.';
+COMMENT ON COLUMN public.promotions.product_ids IS 'With category_ids, the items the code applies to. Both empty applies to the whole cart.';
+COMMENT ON COLUMN public.promotions.per_user_limit IS 'Uses per customer. Codes with a per-customer limit need the customer to be logged in.';
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- Customers never list codes; they are checked through apply_promotion().
+DROP POLICY IF EXISTS "Staff can manage promotions" ON public.promotions;
+CREATE POLICY "Staff can manage promotions"
+ON public.promotions FOR ALL TO authenticated
+USING (public.has_permission('promotions.manage'))
+WITH CHECK (public.has_permission('promotions.manage'));
+
+
+-- STEP 3: RECORD THE DISCOUNT ON EACH ORDER
+-- The code is copied so that deleting a promotion does not change past orders.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS promotion_code TEXT,
+  ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+
+-- STEP 4: CREATE THE 'promotion_redemptions' TABLE
+CREATE TABLE IF NOT EXISTS public.promotion_redemptions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    promotion_id UUID NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    discount_amount NUMERIC(10, 2) NOT NULL CHECK (discount_amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.promotion_redemptions IS 'Each order a promotion code was used on. Written by place_order().';
+
+CREATE INDEX IF NOT EXISTS promotion_redemptions_promotion_id_idx ON public.promotion_redemptions (promotion_id);
+
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view promotion redemptions" ON public.promotion_redemptions;
+CREATE POLICY "Staff can view promotion redemptions"
+ON public.promotion_redemptions FOR SELECT TO authenticated
+USING (public.has_permission('promotions.manage'));
+
+
+-- STEP 5: WORK OUT DISCOUNTS
+-- 5.1: The uses that count towards a code's limits, for one customer or,
+-- with p_user_id NULL, for everyone.
+CREATE OR REPLACE FUNCTION public.count_promotion_redemptions(p_promotion_id UUID, p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM public.promotion_redemptions r
+  JOIN public.orders o ON o.id = r.order_id
+  WHERE r.promotion_id = p_promotion_id
+    AND (p_user_id IS NULL OR r.user_id = p_user_id)
+    AND o.status NOT IN ('cancelled', 'refunded');
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- 5.2: Each cart line with its category and current unit price, including
+-- any personalization surcharge.
+CREATE OR REPLACE FUNCTION public.price_cart_lines(p_items JSONB)
+RETURNS TABLE (product_id UUID, category_id UUID, quantity INTEGER, unit_price NUMERIC) AS $$
+  SELECT
+    l.product_id,
+    pr.category_id,
+    l.quantity,
+    public.get_line_price(l.product_id, l.variant_id)
+      + public.get_personalization_surcharge(COALESCE(l.personalization, '{}'::JSONB))
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+  JOIN public.products pr ON pr.id = l.product_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- 5.3: Checks a code against the cart and returns the discount it gives.
+-- Raises, with a message for the customer, if the code cannot be used.
+-- p_delivery_fee is what free-delivery codes take off. The promotion's row
+-- is locked so that two orders cannot both take a code's last use.
+CREATE OR REPLACE FUNCTION public.apply_promotion(p_code TEXT, p_items JSONB, p_delivery_fee NUMERIC DEFAULT 0)
+RETURNS TABLE (promotion_id UUID, promotion_code TEXT, discount_amount NUMERIC) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_code TEXT := upper(trim(p_code));
+  v_promotion public.promotions;
+  v_subtotal NUMERIC(10, 2);
+  v_eligible_subtotal NUMERIC(10, 2);
+  v_eligible_units INTEGER;
+  v_free_units INTEGER;
+  v_discount NUMERIC(10, 2);
+BEGIN
+  SELECT * INTO v_promotion FROM public.promotions p WHERE p.code = v_code FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_promotion.active THEN
+    RAISE EXCEPTION '"%" is not a valid discount code.', v_code;
+  END IF;
+
+  IF v_promotion.starts_at IS NOT NULL AND now() < v_promotion.starts_at THEN
+    RAISE EXCEPTION 'The code % can only be used from %.', v_code,
+      to_char(v_promotion.starts_at AT TIME ZONE 'Africa/Nairobi', 'FMDD Mon YYYY');
+  END IF;
+
+  IF v_promotion.ends_at IS NOT NULL AND now() >= v_promotion.ends_at THEN
+    RAISE EXCEPTION 'The code % has expired.', v_code;
+  END IF;
+
+  IF v_promotion.usage_limit IS NOT NULL
+     AND public.count_promotion_redemptions(v_promotion.id) >= v_promotion.usage_limit THEN
+    RAISE EXCEPTION 'The code % has already been used the maximum number of times.', v_code;
+  END IF;
+
+  IF v_promotion.per_user_limit IS NOT NULL THEN
+    IF v_user_id IS NULL THEN
+      RAISE EXCEPTION 'Please log in to use the code %.', v_code;
+    END IF;
+
+    IF public.count_promotion_redemptions(v_promotion.id, v_user_id) >= v_promotion.per_user_limit THEN
+      RAISE EXCEPTION 'You have already used the code %.', v_code;
+    END IF;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(c.unit_price * c.quantity), 0),
+    COALESCE(SUM(c.unit_price * c.quantity) FILTER (WHERE e.eligible), 0),
+    COALESCE(SUM(c.quantity) FILTER (WHERE e.eligible), 0)
+  INTO v_subtotal, v_eligible_subtotal, v_eligible_units
+  FROM public.price_cart_lines(p_items) c
+  CROSS JOIN LATERAL (
+    SELECT (cardinality(v_promotion.product_ids) = 0 AND cardinality(v_promotion.category_ids) = 0)
+        OR c.product_id = ANY(v_promotion.product_ids)
+        OR c.category_id = ANY(v_promotion.category_ids) AS eligible
+  ) e;
+
+  IF v_subtotal < v_promotion.minimum_subtotal THEN
+    RAISE EXCEPTION 'The code % needs an order of at least Ksh %.', v_code,
+      to_char(v_promotion.minimum_subtotal, 'FM999G999G990D00');
+  END IF;
+
+  IF v_eligible_units = 0 THEN
+    RAISE EXCEPTION 'The code % does not apply to anything in your cart.', v_code;
+  END IF;
+
+  CASE v_promotion.kind
+    WHEN 'percentage' THEN
+      v_discount := round(v_eligible_subtotal * v_promotion.value / 100, 2);
+    WHEN 'fixed_amount' THEN
+      v_discount := LEAST(v_promotion.value, v_eligible_subtotal);
+    WHEN 'free_delivery' THEN
+      v_discount := COALESCE(p_delivery_fee, 0);
+    WHEN 'buy_x_get_y' THEN
+      v_free_units := (v_eligible_units / (v_promotion.buy_quantity + v_promotion.get_quantity)) * v_promotion.get_quantity;
+
+      IF v_free_units = 0 THEN
+        RAISE EXCEPTION 'Add % eligible items to your cart to use the code %.',
+          v_promotion.buy_quantity + v_promotion.get_quantity, v_code;
+      END IF;
+
+      SELECT COALESCE(SUM(u.unit_price), 0) INTO v_discount
+      FROM (
+        SELECT c.unit_price
+        FROM public.price_cart_lines(p_items) c
+        CROSS JOIN generate_series(1, c.quantity)
+        WHERE (cardinality(v_promotion.product_ids) = 0 AND cardinality(v_promotion.category_ids) = 0)
+           OR c.product_id = ANY(v_promotion.product_ids)
+           OR c.category_id = ANY(v_promotion.category_ids)
+        ORDER BY c.unit_price
+        LIMIT v_free_units
+      ) u;
+  END CASE;
+
+  -- A discount can bring the total down to nothing, but never below.
+  v_discount := LEAST(v_discount, v_subtotal + COALESCE(p_delivery_fee, 0));
+
+  RETURN QUERY SELECT v_promotion.id, v_promotion.code, v_discount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5.4: How often each code has been used, and what it has given away.
+CREATE OR REPLACE FUNCTION public.get_promotion_stats()
+RETURNS TABLE (promotion_id UUID, redemptions BIGINT, total_discount NUMERIC, total_revenue NUMERIC) AS $$
+BEGIN
+  IF NOT public.has_permission('promotions.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage promotions.';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.promotion_id, count(*), SUM(r.discount_amount), SUM(o.total_amount)
+  FROM public.promotion_redemptions r
+  JOIN public.orders o ON o.id = r.order_id
+  WHERE o.status NOT IN ('cancelled', 'refunded')
+  GROUP BY r.promotion_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 6: APPLY DISCOUNT CODES IN place_order()
+-- p_details may now carry a "promotion_code". The discount comes off the
+-- order total, and the use is recorded in promotion_redemptions.
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_fulfillment_method TEXT := COALESCE(p_details->>'fulfillment_method', 'delivery');
+  v_zone_id UUID := NULLIF(trim(p_details->>'delivery_zone_id'), '')::UUID;
+  v_pickup_location_id UUID := NULLIF(trim(p_details->>'pickup_location_id'), '')::UUID;
+  v_shipping_address JSONB;
+  v_delivery_address TEXT;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_proof_path TEXT := NULLIF(trim(p_details->>'payment_proof_path'), '');
+  v_delivery_date DATE := NULLIF(trim(p_details->>'delivery_date'), '')::DATE;
+  v_slot_id UUID := NULLIF(trim(p_details->>'delivery_slot_id'), '')::UUID;
+  v_promotion_code TEXT := NULLIF(upper(trim(p_details->>'promotion_code')), '');
+  v_promotion_id UUID;
+  v_discount NUMERIC(10, 2) := 0;
+  v_now TIMESTAMP := public.bakery_local_now();
+  v_slot public.delivery_slots;
+  v_pickup_location public.pickup_locations;
+  v_earliest DATE;
+  v_subtotal NUMERIC(10, 2);
+  v_delivery_fee NUMERIC(10, 2);
+  v_order public.orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF v_fulfillment_method = 'pickup' THEN
+    SELECT * INTO v_pickup_location FROM public.pickup_locations WHERE id = v_pickup_location_id AND active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose where you will collect your order.';
+    END IF;
+
+    v_delivery_address := v_pickup_location.name || E'\n' || v_pickup_location.address;
+    v_zone_id := NULL;
+  ELSE
+    v_shipping_address := public.snapshot_shipping_address(p_details->'shipping_address');
+    v_delivery_address := public.format_shipping_address(v_shipping_address);
+    v_pickup_location_id := NULL;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND v_proof_path IS NULL THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  -- The screenshot must be one the customer uploaded themselves: signed-in
+  -- customers upload into their own folder, guests into a folder under guests/.
+  IF v_proof_path IS NOT NULL THEN
+    IF v_user_id IS NOT NULL AND split_part(v_proof_path, '/', 1) <> v_user_id::TEXT THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF v_user_id IS NULL AND split_part(v_proof_path, '/', 1) <> 'guests' THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'payment-proofs' AND name = v_proof_path
+    ) THEN
+      RAISE EXCEPTION 'The payment screenshot could not be found. Please upload it again.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE payment_proof_path = v_proof_path) THEN
+      RAISE EXCEPTION 'This payment screenshot is already attached to another order.';
+    END IF;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Check the delivery slot. Locking the slot's row makes concurrent orders
+  -- for the same slot wait here, so the booking count below stays accurate
+  -- until this order has been written. Pickup orders book a slot too, as
+  -- they take the same kitchen time.
+  IF v_delivery_date IS NULL OR v_slot_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery date and time.';
+  END IF;
+
+  SELECT * INTO v_slot FROM public.delivery_slots WHERE id = v_slot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_slot.active OR v_slot.weekday <> extract(dow FROM v_delivery_date) THEN
+    RAISE EXCEPTION 'The chosen delivery time is not available. Please choose another.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.blackout_dates WHERE date = v_delivery_date) THEN
+    RAISE EXCEPTION 'We are not delivering on %. Please choose another date.', to_char(v_delivery_date, 'FMDay DD Mon');
+  END IF;
+
+  v_earliest := public.get_earliest_delivery_date(
+    ARRAY(SELECT l.product_id FROM jsonb_to_recordset(p_items) AS l(product_id UUID))
+  );
+  IF v_delivery_date < v_earliest THEN
+    RAISE EXCEPTION 'Some items in your cart need more notice. The earliest delivery date is %.', to_char(v_earliest, 'FMDay DD Mon');
+  END IF;
+
+  IF v_delivery_date > v_now::DATE + 120 THEN
+    RAISE EXCEPTION 'Deliveries can be booked up to 120 days ahead.';
+  END IF;
+
+  IF v_delivery_date = v_now::DATE AND v_slot.starts_at <= v_now::TIME THEN
+    RAISE EXCEPTION 'The chosen delivery time has already started. Please choose another.';
+  END IF;
+
+  IF public.count_slot_bookings(v_slot.id, v_delivery_date) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'The chosen delivery time is fully booked. Please choose another.';
+  END IF;
+
+  -- Re-check availability and price every line from the catalogue.
+  -- get_line_price() and get_personalization_surcharge() raise for anything
+  -- that can no longer be bought.
+  SELECT SUM(
+    (public.get_line_price(l.product_id, l.variant_id)
+      + public.get_personalization_surcharge(COALESCE(l.personalization, '{}'::JSONB))) * l.quantity
+  )
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER);
+
+  v_delivery_fee := public.calculate_delivery_fee(v_fulfillment_method, v_zone_id, v_subtotal);
+
+  IF v_promotion_code IS NOT NULL THEN
+    SELECT a.promotion_id, a.promotion_code, a.discount_amount
+    INTO v_promotion_id, v_promotion_code, v_discount
+    FROM public.apply_promotion(v_promotion_code, p_items, v_delivery_fee) a;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    fulfillment_method,
+    delivery_address,
+    shipping_address,
+    delivery_zone_id,
+    delivery_zone_name,
+    pickup_location_id,
+    delivery_date,
+    delivery_slot_id,
+    delivery_starts_at,
+    delivery_ends_at,
+    subtotal,
+    delivery_fee,
+    promotion_id,
+    promotion_code,
+    discount_amount,
+    total_amount,
+    payment_method,
+    payment_proof_path,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    v_fulfillment_method,
+    v_delivery_address,
+    v_shipping_address,
+    v_zone_id,
+    (SELECT name FROM public.delivery_zones WHERE id = v_zone_id),
+    v_pickup_location_id,
+    v_delivery_date,
+    v_slot.id,
+    v_slot.starts_at,
+    v_slot.ends_at,
+    v_subtotal,
+    v_delivery_fee,
+    v_promotion_id,
+    v_promotion_code,
+    v_discount,
+    v_subtotal + v_delivery_fee - v_discount,
+    v_payment_method,
+    v_proof_path,
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id, product_id, variant_id, variant_name, personalization, personalization_surcharge, quantity, price
+  )
+  SELECT
+    v_order.id,
+    l.product_id,
+    l.variant_id,
+    l.variant_name,
+    public.snapshot_personalization(l.personalization),
+    l.surcharge,
+    l.quantity,
+    l.base_price + l.surcharge
+  FROM (
+    SELECT
+      g.product_id,
+      g.variant_id,
+      pv.name AS variant_name,
+      COALESCE(g.personalization, '{}'::JSONB) AS personalization,
+      SUM(g.quantity) AS quantity,
+      public.get_line_price(g.product_id, g.variant_id) AS base_price,
+      public.get_personalization_surcharge(COALESCE(g.personalization, '{}'::JSONB)) AS surcharge
+    FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    LEFT JOIN public.product_variants pv ON pv.id = g.variant_id
+    GROUP BY g.product_id, g.variant_id, pv.name, COALESCE(g.personalization, '{}'::JSONB)
+  ) l;
+
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (v_promotion_id, v_order.id, v_user_id, v_discount);
+  END IF;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 7: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,712 @@
+-- ============================================================================
+--          INVENTORY
+-- Replaces the hand-toggled in_stock flag with stock counts. A product, or
+-- each variant of a product with variants, can have a stock_quantity. Stock
+-- is reserved when an order is placed and released if the order is
+-- cancelled, and every change is recorded in the 'stock_movements' ledger.
+--
+-- A NULL stock_quantity means stock is not tracked (made-to-order items)
+-- and the item is always available. in_stock is now kept up to date by
+-- triggers: an item goes out of stock when its count reaches zero, unless
+-- the product allows backorders.
+-- ============================================================================
+
+-- STEP 1: ADD STOCK COLUMNS
+-- For a product with variants the stock is kept on the variants, and the
+-- product's own stock_quantity is not used.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS stock_quantity INTEGER,
+  ADD COLUMN IF NOT EXISTS allow_backorder BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER NOT NULL DEFAULT 5 CHECK (low_stock_threshold >= 0);
+
+ALTER TABLE public.product_variants
+  ADD COLUMN IF NOT EXISTS stock_quantity INTEGER;
+
+COMMENT ON COLUMN public.products.stock_quantity IS 'Units on hand. NULL when stock is not tracked. Negative only for backorders.';
+COMMENT ON COLUMN public.products.allow_backorder IS 'Keep selling this product, and its variants, when the stock runs out.';
+COMMENT ON COLUMN public.products.low_stock_threshold IS 'Staff are alerted when the stock of this product, or of one of its variants, falls to this level.';
+COMMENT ON COLUMN public.products.in_stock IS 'Set by set_product_in_stock(). Do not write directly.';
+COMMENT ON COLUMN public.product_variants.stock_quantity IS 'Units on hand. NULL when stock is not tracked. Negative only for backorders.';
+COMMENT ON COLUMN public.product_variants.in_stock IS 'Set by set_product_variant_in_stock(). Do not write directly.';
+
+-- Items that were switched off by hand start out tracked with nothing in
+-- stock, so they stay unavailable. Everything else starts out untracked.
+UPDATE public.products SET stock_quantity = 0 WHERE NOT in_stock AND stock_quantity IS NULL;
+UPDATE public.product_variants SET stock_quantity = 0 WHERE NOT in_stock AND stock_quantity IS NULL;
+
+
+-- STEP 2: KEEP in_stock IN LINE WITH THE STOCK
+-- 2.1: A variant is in stock if it is untracked, has stock left, or its
+-- product allows backorders.
+CREATE OR REPLACE FUNCTION public.set_product_variant_in_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.in_stock := NEW.stock_quantity IS NULL
+    OR NEW.stock_quantity > 0
+    OR COALESCE((SELECT allow_backorder FROM public.products WHERE id = NEW.product_id), false);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_product_variant_in_stock ON public.product_variants;
+CREATE TRIGGER set_product_variant_in_stock
+BEFORE INSERT OR UPDATE ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.set_product_variant_in_stock();
+
+-- 2.2: A product with variants is in stock while any variant is. Any other
+-- product follows the same rule as a variant.
+CREATE OR REPLACE FUNCTION public.set_product_in_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = NEW.id) THEN
+    NEW.in_stock := EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = NEW.id AND in_stock);
+  ELSE
+    NEW.in_stock := NEW.stock_quantity IS NULL OR NEW.stock_quantity > 0 OR NEW.allow_backorder;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_product_in_stock ON public.products;
+CREATE TRIGGER set_product_in_stock
+BEFORE INSERT OR UPDATE ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.set_product_in_stock();
+
+-- 2.3: When a variant is added, removed or changes availability, its
+-- product is updated so that set_product_in_stock() runs again.
+CREATE OR REPLACE FUNCTION public.refresh_product_in_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.in_stock = NEW.in_stock THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.products
+  SET in_stock = in_stock
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_product_in_stock ON public.product_variants;
+CREATE TRIGGER refresh_product_in_stock
+AFTER INSERT OR UPDATE OR DELETE ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_product_in_stock();
+
+-- 2.4: Turning backorders on or off changes whether sold-out variants can
+-- be bought.
+CREATE OR REPLACE FUNCTION public.refresh_variants_in_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.product_variants SET in_stock = in_stock WHERE product_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_variants_in_stock ON public.products;
+CREATE TRIGGER refresh_variants_in_stock
+AFTER UPDATE OF allow_backorder ON public.products
+FOR EACH ROW
+WHEN (OLD.allow_backorder IS DISTINCT FROM NEW.allow_backorder)
+EXECUTE FUNCTION public.refresh_variants_in_stock();
+
+-- Bring every existing row in line.
+UPDATE public.product_variants SET in_stock = in_stock;
+UPDATE public.products SET in_stock = in_stock;
+
+
+-- STEP 3: CREATE THE 'stock_movements' TABLE
+-- "quantity" is the change in stock: positive for restocks and released
+-- orders, negative for sales and wastage. Adjustments (stock counts) can go
+-- either way. stock_after is the stock once the movement was applied.
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+    order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('restock', 'sale', 'cancellation', 'adjustment', 'wastage')),
+    quantity INTEGER NOT NULL CHECK (quantity <> 0),
+    stock_after INTEGER NOT NULL,
+    note TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.stock_movements IS 'A ledger of every change to product and variant stock.';
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_item ON public.stock_movements(product_id, variant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order ON public.stock_movements(order_id) WHERE order_id IS NOT NULL;
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Movements are only written by the functions below.
+DROP POLICY IF EXISTS "Staff can view stock movements" ON public.stock_movements;
+CREATE POLICY "Staff can view stock movements"
+ON public.stock_movements FOR SELECT TO authenticated
+USING (public.has_permission('products.edit'));
+
+
+-- STEP 4: MOVE STOCK
+-- 4.1: Applies a change to a product's or variant's stock and records it.
+-- The caller must already hold a lock on the row. Untracked items start
+-- being tracked from zero.
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  p_product_id UUID,
+  p_variant_id UUID,
+  p_kind TEXT,
+  p_quantity INTEGER,
+  p_order_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.stock_movements AS $$
+DECLARE
+  v_stock_after INTEGER;
+  v_movement public.stock_movements;
+BEGIN
+  IF p_variant_id IS NULL THEN
+    UPDATE public.products
+    SET stock_quantity = COALESCE(stock_quantity, 0) + p_quantity
+    WHERE id = p_product_id
+    RETURNING stock_quantity INTO v_stock_after;
+  ELSE
+    UPDATE public.product_variants
+    SET stock_quantity = COALESCE(stock_quantity, 0) + p_quantity
+    WHERE id = p_variant_id AND product_id = p_product_id
+    RETURNING stock_quantity INTO v_stock_after;
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, variant_id, order_id, kind, quantity, stock_after, note, created_by)
+  VALUES (p_product_id, p_variant_id, p_order_id, p_kind, p_quantity, v_stock_after, NULLIF(trim(p_note), ''), auth.uid())
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4.2: Staff restocks, stock counts and wastage.
+-- For 'restock' and 'wastage', p_quantity is the number of units added or
+-- thrown away. For 'adjustment', it is the stock counted on hand, and the
+-- difference is recorded. p_variant_id is required for products with
+-- variants.
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  p_product_id UUID,
+  p_kind TEXT,
+  p_quantity INTEGER,
+  p_variant_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.stock_movements AS $$
+DECLARE
+  v_product public.products;
+  v_stock INTEGER;
+  v_change INTEGER;
+BEGIN
+  IF NOT public.has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You do not have permission to change stock.';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 0 OR (p_kind <> 'adjustment' AND p_quantity = 0) THEN
+    RAISE EXCEPTION 'Please enter a quantity of at least 1.';
+  END IF;
+
+  SELECT * INTO v_product FROM public.products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found.';
+  END IF;
+
+  IF p_variant_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id) THEN
+      RAISE EXCEPTION '% has variants. Please choose which one to change.', v_product.name;
+    END IF;
+    v_stock := COALESCE(v_product.stock_quantity, 0);
+  ELSE
+    SELECT COALESCE(stock_quantity, 0) INTO v_stock
+    FROM public.product_variants
+    WHERE id = p_variant_id AND product_id = p_product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Variant not found.';
+    END IF;
+  END IF;
+
+  v_change := CASE p_kind
+    WHEN 'restock' THEN p_quantity
+    WHEN 'wastage' THEN -p_quantity
+    WHEN 'adjustment' THEN p_quantity - v_stock
+  END;
+
+  IF v_change IS NULL THEN
+    RAISE EXCEPTION 'Unknown stock change "%".', p_kind;
+  END IF;
+
+  IF p_kind = 'wastage' AND p_quantity > v_stock THEN
+    RAISE EXCEPTION 'Only % in stock.', GREATEST(v_stock, 0);
+  END IF;
+
+  IF v_change = 0 THEN
+    RAISE EXCEPTION 'The stock is already %.', v_stock;
+  END IF;
+
+  RETURN public.record_stock_movement(p_product_id, p_variant_id, p_kind, v_change, NULL, p_note);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4.3: Takes an order's units out of stock. Untracked items are skipped.
+-- Raises if there is not enough stock and the product does not allow
+-- backorders.
+CREATE OR REPLACE FUNCTION public.reserve_stock(p_order_id UUID, p_product_id UUID, p_variant_id UUID, p_quantity INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_product public.products;
+  v_variant public.product_variants;
+  v_stock INTEGER;
+BEGIN
+  SELECT * INTO v_product FROM public.products WHERE id = p_product_id FOR UPDATE;
+
+  IF p_variant_id IS NULL THEN
+    v_stock := v_product.stock_quantity;
+  ELSE
+    SELECT * INTO v_variant FROM public.product_variants WHERE id = p_variant_id FOR UPDATE;
+    v_stock := v_variant.stock_quantity;
+  END IF;
+
+  IF v_stock IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_stock < p_quantity AND NOT v_product.allow_backorder THEN
+    IF v_stock <= 0 THEN
+      RAISE EXCEPTION 'Some items are no longer available: %', concat_ws(' ', v_product.name, '(' || v_variant.name || ')');
+    END IF;
+    RAISE EXCEPTION 'Only % left of %. Please reduce the quantity in your cart.', v_stock,
+      concat_ws(' ', v_product.name, '(' || v_variant.name || ')');
+  END IF;
+
+  PERFORM public.record_stock_movement(p_product_id, p_variant_id, 'sale', -p_quantity, p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4.4: Puts back what an order reserved. Items whose stock has stopped
+-- being tracked since are left alone.
+CREATE OR REPLACE FUNCTION public.release_order_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_line RECORD;
+BEGIN
+  FOR v_line IN
+    SELECT m.product_id, m.variant_id, -SUM(m.quantity)::INTEGER AS quantity
+    FROM public.stock_movements m
+    WHERE m.order_id = NEW.id AND m.kind IN ('sale', 'cancellation')
+    GROUP BY m.product_id, m.variant_id
+    HAVING SUM(m.quantity) < 0
+    ORDER BY m.product_id, m.variant_id
+  LOOP
+    IF v_line.variant_id IS NULL THEN
+      PERFORM 1 FROM public.products WHERE id = v_line.product_id AND stock_quantity IS NOT NULL FOR UPDATE;
+    ELSE
+      PERFORM 1 FROM public.product_variants WHERE id = v_line.variant_id AND stock_quantity IS NOT NULL FOR UPDATE;
+    END IF;
+
+    IF FOUND THEN
+      PERFORM public.record_stock_movement(v_line.product_id, v_line.variant_id, 'cancellation', v_line.quantity, NEW.id);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS release_order_stock ON public.orders;
+CREATE TRIGGER release_order_stock
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.release_order_stock();
+
+
+-- STEP 5: LIST STOCK FOR THE ADMIN DASHBOARD
+-- One row per thing that holds stock: each product without variants, and
+-- each variant. is_low is set for tracked items at or below the product's
+-- low_stock_threshold.
+CREATE OR REPLACE FUNCTION public.get_inventory()
+RETURNS TABLE (
+  product_id UUID,
+  variant_id UUID,
+  product_name TEXT,
+  variant_name TEXT,
+  image_url TEXT,
+  stock_quantity INTEGER,
+  low_stock_threshold INTEGER,
+  allow_backorder BOOLEAN,
+  in_stock BOOLEAN,
+  is_low BOOLEAN
+) AS $$
+BEGIN
+  IF NOT public.has_permission('products.edit') THEN
+    RAISE EXCEPTION 'You do not have permission to manage stock.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    pv.id,
+    p.name,
+    pv.name,
+    COALESCE(pv.image_url, p.image_url),
+    COALESCE(pv.stock_quantity, CASE WHEN pv.id IS NULL THEN p.stock_quantity END),
+    p.low_stock_threshold,
+    p.allow_backorder,
+    COALESCE(pv.in_stock, p.in_stock),
+    COALESCE(COALESCE(pv.stock_quantity, CASE WHEN pv.id IS NULL THEN p.stock_quantity END) <= p.low_stock_threshold, false)
+  FROM public.products p
+  LEFT JOIN public.product_variants pv ON pv.product_id = p.id
+  ORDER BY p.name, pv.position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 6: TRACK STOCK PER VARIANT IN save_product_variants()
+-- Variants now take a "track_stock" flag instead of "in_stock". Turning it
+-- on starts the variant at zero, so stock is added with a restock. The
+-- stock of a variant that stays tracked is not changed here.
+CREATE OR REPLACE FUNCTION public.save_product_variants(p_product_id UUID, p_groups JSONB, p_variants JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_base_price NUMERIC(10, 2);
+  v_invalid TEXT;
+BEGIN
+  SELECT price INTO v_base_price FROM public.products WHERE id = p_product_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found.';
+  END IF;
+
+  DELETE FROM public.product_option_groups WHERE product_id = p_product_id;
+
+  INSERT INTO public.product_option_groups (product_id, name, choices, position)
+  SELECT p_product_id, trim(g.value->>'name'), ARRAY(SELECT jsonb_array_elements_text(g.value->'choices')), g.ordinality
+  FROM jsonb_array_elements(COALESCE(p_groups, '[]'::JSONB)) WITH ORDINALITY AS g;
+
+  -- Every variant must pick exactly one listed choice from every group.
+  SELECT string_agg(v.value->>'options', ', ')
+  INTO v_invalid
+  FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+  WHERE (SELECT count(*) FROM jsonb_object_keys(v.value->'options'))
+        <> (SELECT count(*) FROM public.product_option_groups WHERE product_id = p_product_id)
+     OR EXISTS (
+       SELECT 1
+       FROM public.product_option_groups g
+       WHERE g.product_id = p_product_id
+         AND NOT ((v.value->'options'->>g.name) = ANY (g.choices))
+     );
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'These variants do not match the options: %', v_invalid;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+    WHERE COALESCE((v.value->>'price')::NUMERIC, v_base_price + COALESCE((v.value->>'price_modifier')::NUMERIC, 0)) < 0
+  ) THEN
+    RAISE EXCEPTION 'A variant cannot cost less than nothing.';
+  END IF;
+
+  DELETE FROM public.product_variants pv
+  WHERE pv.product_id = p_product_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+      WHERE v.value->'options' = pv.options
+    );
+
+  INSERT INTO public.product_variants (product_id, options, name, price, price_modifier, stock_quantity, image_url, position)
+  SELECT
+    p_product_id,
+    v.value->'options',
+    (
+      SELECT string_agg(v.value->'options'->>g.name, ' / ' ORDER BY g.position)
+      FROM public.product_option_groups g
+      WHERE g.product_id = p_product_id
+    ),
+    (v.value->>'price')::NUMERIC,
+    COALESCE((v.value->>'price_modifier')::NUMERIC, 0),
+    CASE WHEN COALESCE((v.value->>'track_stock')::BOOLEAN, false) THEN 0 END,
+    NULLIF(v.value->>'image_url', ''),
+    v.ordinality
+  FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) WITH ORDINALITY AS v
+  ON CONFLICT (product_id, options) DO UPDATE SET
+    name = EXCLUDED.name,
+    price = EXCLUDED.price,
+    price_modifier = EXCLUDED.price_modifier,
+    stock_quantity = CASE WHEN EXCLUDED.stock_quantity IS NOT NULL THEN COALESCE(public.product_variants.stock_quantity, 0) END,
+    image_url = EXCLUDED.image_url,
+    position = EXCLUDED.position;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 7: RESERVE STOCK IN place_order()
+-- Stock is taken when the order is placed, and put back by
+-- release_order_stock() if it is cancelled. Everything else is unchanged.
+CREATE OR REPLACE FUNCTION public.place_order(p_items JSONB, p_details JSONB)
+RETURNS public.orders AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_fulfillment_method TEXT := COALESCE(p_details->>'fulfillment_method', 'delivery');
+  v_zone_id UUID := NULLIF(trim(p_details->>'delivery_zone_id'), '')::UUID;
+  v_pickup_location_id UUID := NULLIF(trim(p_details->>'pickup_location_id'), '')::UUID;
+  v_shipping_address JSONB;
+  v_delivery_address TEXT;
+  v_payment_method TEXT := COALESCE(p_details->>'payment_method', 'mpesa_till');
+  v_receipt_number TEXT := NULLIF(upper(trim(p_details->>'mpesa_receipt_number')), '');
+  v_proof_path TEXT := NULLIF(trim(p_details->>'payment_proof_path'), '');
+  v_delivery_date DATE := NULLIF(trim(p_details->>'delivery_date'), '')::DATE;
+  v_slot_id UUID := NULLIF(trim(p_details->>'delivery_slot_id'), '')::UUID;
+  v_promotion_code TEXT := NULLIF(upper(trim(p_details->>'promotion_code')), '');
+  v_promotion_id UUID;
+  v_discount NUMERIC(10, 2) := 0;
+  v_now TIMESTAMP := public.bakery_local_now();
+  v_slot public.delivery_slots;
+  v_pickup_location public.pickup_locations;
+  v_earliest DATE;
+  v_subtotal NUMERIC(10, 2);
+  v_delivery_fee NUMERIC(10, 2);
+  v_order public.orders;
+  v_line RECORD;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty.';
+  END IF;
+
+  IF COALESCE(trim(p_details->>'customer_phone'), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required.';
+  END IF;
+
+  IF v_fulfillment_method = 'pickup' THEN
+    SELECT * INTO v_pickup_location FROM public.pickup_locations WHERE id = v_pickup_location_id AND active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please choose where you will collect your order.';
+    END IF;
+
+    v_delivery_address := v_pickup_location.name || E'\n' || v_pickup_location.address;
+    v_zone_id := NULL;
+  ELSE
+    v_shipping_address := public.snapshot_shipping_address(p_details->'shipping_address');
+    v_delivery_address := public.format_shipping_address(v_shipping_address);
+    v_pickup_location_id := NULL;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' AND v_proof_path IS NULL THEN
+    RAISE EXCEPTION 'A payment screenshot is required when paying by Till number.';
+  END IF;
+
+  -- The screenshot must be one the customer uploaded themselves: signed-in
+  -- customers upload into their own folder, guests into a folder under guests/.
+  IF v_proof_path IS NOT NULL THEN
+    IF v_user_id IS NOT NULL AND split_part(v_proof_path, '/', 1) <> v_user_id::TEXT THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF v_user_id IS NULL AND split_part(v_proof_path, '/', 1) <> 'guests' THEN
+      RAISE EXCEPTION 'The payment screenshot does not belong to you.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects WHERE bucket_id = 'payment-proofs' AND name = v_proof_path
+    ) THEN
+      RAISE EXCEPTION 'The payment screenshot could not be found. Please upload it again.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE payment_proof_path = v_proof_path) THEN
+      RAISE EXCEPTION 'This payment screenshot is already attached to another order.';
+    END IF;
+  END IF;
+
+  IF v_payment_method = 'mpesa_till' THEN
+    IF v_receipt_number IS NULL THEN
+      RAISE EXCEPTION 'The M-Pesa confirmation code is required when paying by Till number.';
+    END IF;
+
+    IF v_receipt_number !~ '^[A-Z0-9]{10}$' THEN
+      RAISE EXCEPTION '"%" is not a valid M-Pesa confirmation code.', v_receipt_number;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.orders WHERE mpesa_receipt_number = v_receipt_number) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+  ELSE
+    -- STK push orders get their receipt from the M-Pesa callback.
+    v_receipt_number := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    WHERE l.product_id IS NULL OR l.quantity IS NULL OR l.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every item in your cart must have a quantity of at least 1.';
+  END IF;
+
+  -- Check the delivery slot. Locking the slot's row makes concurrent orders
+  -- for the same slot wait here, so the booking count below stays accurate
+  -- until this order has been written. Pickup orders book a slot too, as
+  -- they take the same kitchen time.
+  IF v_delivery_date IS NULL OR v_slot_id IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery date and time.';
+  END IF;
+
+  SELECT * INTO v_slot FROM public.delivery_slots WHERE id = v_slot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_slot.active OR v_slot.weekday <> extract(dow FROM v_delivery_date) THEN
+    RAISE EXCEPTION 'The chosen delivery time is not available. Please choose another.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.blackout_dates WHERE date = v_delivery_date) THEN
+    RAISE EXCEPTION 'We are not delivering on %. Please choose another date.', to_char(v_delivery_date, 'FMDay DD Mon');
+  END IF;
+
+  v_earliest := public.get_earliest_delivery_date(
+    ARRAY(SELECT l.product_id FROM jsonb_to_recordset(p_items) AS l(product_id UUID))
+  );
+  IF v_delivery_date < v_earliest THEN
+    RAISE EXCEPTION 'Some items in your cart need more notice. The earliest delivery date is %.', to_char(v_earliest, 'FMDay DD Mon');
+  END IF;
+
+  IF v_delivery_date > v_now::DATE + 120 THEN
+    RAISE EXCEPTION 'Deliveries can be booked up to 120 days ahead.';
+  END IF;
+
+  IF v_delivery_date = v_now::DATE AND v_slot.starts_at <= v_now::TIME THEN
+    RAISE EXCEPTION 'The chosen delivery time has already started. Please choose another.';
+  END IF;
+
+  IF public.count_slot_bookings(v_slot.id, v_delivery_date) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'The chosen delivery time is fully booked. Please choose another.';
+  END IF;
+
+  -- Re-check availability and price every line from the catalogue.
+  -- get_line_price() and get_personalization_surcharge() raise for anything
+  -- that can no longer be bought.
+  SELECT SUM(
+    (public.get_line_price(l.product_id, l.variant_id)
+      + public.get_personalization_surcharge(COALESCE(l.personalization, '{}'::JSONB))) * l.quantity
+  )
+  INTO v_subtotal
+  FROM jsonb_to_recordset(p_items) AS l(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER);
+
+  v_delivery_fee := public.calculate_delivery_fee(v_fulfillment_method, v_zone_id, v_subtotal);
+
+  IF v_promotion_code IS NOT NULL THEN
+    SELECT a.promotion_id, a.promotion_code, a.discount_amount
+    INTO v_promotion_id, v_promotion_code, v_discount
+    FROM public.apply_promotion(v_promotion_code, p_items, v_delivery_fee) a;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id,
+    customer_name,
+    customer_phone,
+    fulfillment_method,
+    delivery_address,
+    shipping_address,
+    delivery_zone_id,
+    delivery_zone_name,
+    pickup_location_id,
+    delivery_date,
+    delivery_slot_id,
+    delivery_starts_at,
+    delivery_ends_at,
+    subtotal,
+    delivery_fee,
+    promotion_id,
+    promotion_code,
+    discount_amount,
+    total_amount,
+    payment_method,
+    payment_proof_path,
+    mpesa_receipt_number
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(trim(p_details->>'customer_name'), ''), 'Guest Customer'),
+    trim(p_details->>'customer_phone'),
+    v_fulfillment_method,
+    v_delivery_address,
+    v_shipping_address,
+    v_zone_id,
+    (SELECT name FROM public.delivery_zones WHERE id = v_zone_id),
+    v_pickup_location_id,
+    v_delivery_date,
+    v_slot.id,
+    v_slot.starts_at,
+    v_slot.ends_at,
+    v_subtotal,
+    v_delivery_fee,
+    v_promotion_id,
+    v_promotion_code,
+    v_discount,
+    v_subtotal + v_delivery_fee - v_discount,
+    v_payment_method,
+    v_proof_path,
+    v_receipt_number
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id, product_id, variant_id, variant_name, personalization, personalization_surcharge, quantity, price
+  )
+  SELECT
+    v_order.id,
+    l.product_id,
+    l.variant_id,
+    l.variant_name,
+    public.snapshot_personalization(l.personalization),
+    l.surcharge,
+    l.quantity,
+    l.base_price + l.surcharge
+  FROM (
+    SELECT
+      g.product_id,
+      g.variant_id,
+      pv.name AS variant_name,
+      COALESCE(g.personalization, '{}'::JSONB) AS personalization,
+      SUM(g.quantity) AS quantity,
+      public.get_line_price(g.product_id, g.variant_id) AS base_price,
+      public.get_personalization_surcharge(COALESCE(g.personalization, '{}'::JSONB)) AS surcharge
+    FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+    LEFT JOIN public.product_variants pv ON pv.id = g.variant_id
+    GROUP BY g.product_id, g.variant_id, pv.name, COALESCE(g.personalization, '{}'::JSONB)
+  ) l;
+
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (v_promotion_id, v_order.id, v_user_id, v_discount);
+  END IF;
+
+  -- Reserve stock for the order. Lines are taken in a fixed order so that
+  -- two orders for the same items lock them in the same order.
+  FOR v_line IN
+    SELECT g.product_id, g.variant_id, SUM(g.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, quantity INTEGER)
+    GROUP BY g.product_id, g.variant_id
+    ORDER BY g.product_id, g.variant_id
+  LOOP
+    PERFORM public.reserve_stock(v_order.id, v_line.product_id, v_line.variant_id, v_line.quantity);
+  END LOOP;
+
+  -- The order now holds the cart's contents.
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM public.cart_items WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 8: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,192 @@
+-- ============================================================================
+--          SALES ANALYTICS
+-- Reports for the admin dashboard overview. Each function aggregates one
+-- view of the orders placed between two dates, inclusive, in the bakery's
+-- time zone, so the browser never has to load every order.
+--
+-- Revenue is the order total (after discounts, including delivery) of
+-- orders that were not cancelled or refunded. Product and category figures
+-- use the line prices, before order discounts and delivery fees.
+-- ============================================================================
+
+-- STEP 1: ADD THE 'analytics.view' PERMISSION
+INSERT INTO public.permissions (key, description) VALUES
+  ('analytics.view', 'See sales reports on the dashboard overview')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'analytics.view'),
+  ('staff', 'analytics.view')
+ON CONFLICT DO NOTHING;
+
+
+-- STEP 2: SHARED CHECKS
+-- 2.1: Raises unless the caller may see reports and the dates make sense.
+CREATE OR REPLACE FUNCTION public.check_analytics_period(p_from DATE, p_to DATE)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.has_permission('analytics.view') THEN
+    RAISE EXCEPTION 'You do not have permission to view sales reports.';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'Please choose a start date on or before the end date.';
+  END IF;
+
+  IF p_to - p_from > 731 THEN
+    RAISE EXCEPTION 'Reports can cover up to two years at a time.';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- 2.2: The day an order was placed, in the bakery's time zone.
+CREATE OR REPLACE FUNCTION public.order_local_date(p_created_at TIMESTAMP WITH TIME ZONE)
+RETURNS DATE AS $$
+  SELECT (p_created_at AT TIME ZONE 'Africa/Nairobi')::DATE;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_orders_local_date ON public.orders (public.order_local_date(created_at));
+
+
+-- STEP 3: REPORTS
+-- 3.1: Headline figures. A signed-in customer counts as new if their first
+-- order that was not cancelled or refunded falls in the period, and as
+-- returning if they had ordered before it. Guest orders are counted apart,
+-- as guests cannot be told apart.
+CREATE OR REPLACE FUNCTION public.get_sales_summary(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  order_count BIGINT,
+  revenue NUMERIC,
+  average_order_value NUMERIC,
+  items_sold BIGINT,
+  discount_total NUMERIC,
+  cancelled_count BIGINT,
+  new_customers BIGINT,
+  returning_customers BIGINT,
+  guest_orders BIGINT
+) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  RETURN QUERY
+  WITH period_orders AS (
+    SELECT o.id, o.user_id, o.status, o.total_amount, o.discount_amount
+    FROM public.orders o
+    WHERE public.order_local_date(o.created_at) BETWEEN p_from AND p_to
+  ),
+  sales AS (
+    SELECT po.* FROM period_orders po WHERE po.status NOT IN ('cancelled', 'refunded')
+  ),
+  customers AS (
+    SELECT
+      s.user_id,
+      (
+        SELECT min(public.order_local_date(f.created_at))
+        FROM public.orders f
+        WHERE f.user_id = s.user_id AND f.status NOT IN ('cancelled', 'refunded')
+      ) AS first_order_date
+    FROM sales s
+    WHERE s.user_id IS NOT NULL
+    GROUP BY s.user_id
+  )
+  SELECT
+    (SELECT count(*) FROM sales),
+    (SELECT COALESCE(SUM(s.total_amount), 0) FROM sales s),
+    (SELECT COALESCE(round(AVG(s.total_amount), 2), 0) FROM sales s),
+    (SELECT COALESCE(SUM(i.quantity), 0)::BIGINT FROM public.order_items i JOIN sales s ON s.id = i.order_id),
+    (SELECT COALESCE(SUM(s.discount_amount), 0) FROM sales s),
+    (SELECT count(*) FROM period_orders po WHERE po.status IN ('cancelled', 'refunded')),
+    (SELECT count(*) FROM customers c WHERE c.first_order_date >= p_from),
+    (SELECT count(*) FROM customers c WHERE c.first_order_date < p_from),
+    (SELECT count(*) FROM sales s WHERE s.user_id IS NULL);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3.2: Revenue and orders for every day in the period, including days
+-- without any.
+CREATE OR REPLACE FUNCTION public.get_revenue_by_day(p_from DATE, p_to DATE)
+RETURNS TABLE (day DATE, order_count BIGINT, revenue NUMERIC) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  RETURN QUERY
+  SELECT d.day::DATE, count(o.id), COALESCE(SUM(o.total_amount), 0)
+  FROM generate_series(p_from, p_to, INTERVAL '1 day') AS d(day)
+  LEFT JOIN public.orders o
+    ON public.order_local_date(o.created_at) = d.day::DATE
+   AND o.status NOT IN ('cancelled', 'refunded')
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3.3: How many of the period's orders are in each status now.
+CREATE OR REPLACE FUNCTION public.get_orders_by_status(p_from DATE, p_to DATE)
+RETURNS TABLE (status public.order_status, order_count BIGINT) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  RETURN QUERY
+  SELECT o.status, count(*)
+  FROM public.orders o
+  WHERE public.order_local_date(o.created_at) BETWEEN p_from AND p_to
+  GROUP BY o.status
+  ORDER BY o.status;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3.4: The best-selling products, by 'revenue' or by 'units'. A NULL
+-- p_limit returns every product sold in the period.
+CREATE OR REPLACE FUNCTION public.get_top_products(
+  p_from DATE,
+  p_to DATE,
+  p_order_by TEXT DEFAULT 'revenue',
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (product_id UUID, product_name TEXT, units BIGINT, revenue NUMERIC) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  IF p_order_by NOT IN ('revenue', 'units') THEN
+    RAISE EXCEPTION 'Products can be ranked by revenue or units, not "%".', p_order_by;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.name, SUM(i.quantity)::BIGINT AS units, SUM(i.price * i.quantity) AS revenue
+  FROM public.order_items i
+  JOIN public.orders o ON o.id = i.order_id
+  JOIN public.products p ON p.id = i.product_id
+  WHERE public.order_local_date(o.created_at) BETWEEN p_from AND p_to
+    AND o.status NOT IN ('cancelled', 'refunded')
+  GROUP BY p.id, p.name
+  ORDER BY
+    CASE WHEN p_order_by = 'units' THEN SUM(i.quantity) END DESC NULLS LAST,
+    SUM(i.price * i.quantity) DESC,
+    p.name
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3.5: Sales split by each product's current category. Products without a
+-- category are grouped under a NULL category_id.
+CREATE OR REPLACE FUNCTION public.get_sales_by_category(p_from DATE, p_to DATE)
+RETURNS TABLE (category_id UUID, category_name TEXT, units BIGINT, revenue NUMERIC) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  RETURN QUERY
+  SELECT c.id, COALESCE(c.name, 'Uncategorised'), SUM(i.quantity)::BIGINT, SUM(i.price * i.quantity)
+  FROM public.order_items i
+  JOIN public.orders o ON o.id = i.order_id
+  JOIN public.products p ON p.id = i.product_id
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  WHERE public.order_local_date(o.created_at) BETWEEN p_from AND p_to
+    AND o.status NOT IN ('cancelled', 'refunded')
+  GROUP BY c.id, c.name
+  ORDER BY SUM(i.price * i.quantity) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,120 @@
+-- ============================================================================
+--          PRODUCT SEARCH
+-- Moves the catalogue listing to the database: full-text search on product
+-- names and descriptions, category and price filters, sorting and paging in
+-- one call, so the shop never has to load the whole catalogue.
+-- ============================================================================
+
+-- STEP 1: INDEX PRODUCTS FOR FULL-TEXT SEARCH
+-- Matches in the name rank above matches in the description.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  ) STORED;
+
+COMMENT ON COLUMN public.products.search_vector IS 'Generated from the name and description for search_products().';
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_price ON public.products (price);
+CREATE INDEX IF NOT EXISTS idx_products_created_at ON public.products (created_at DESC);
+
+
+-- STEP 2: SEARCH THE CATALOGUE
+-- Every word of p_query must match, and the last may be partly typed, so
+-- "choc cak" finds "Chocolate Cake". p_sort is one of 'relevance' (the
+-- default while searching, otherwise the same as 'newest'), 'newest',
+-- 'price_asc', 'price_desc' or 'rating'. Each row carries total_count, the
+-- number of matches across all pages.
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_include_out_of_stock BOOLEAN DEFAULT false,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price NUMERIC,
+  image_url TEXT,
+  in_stock BOOLEAN,
+  category_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  variant_count BIGINT,
+  rating_avg NUMERIC,
+  rating_count BIGINT,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_tsquery TSQUERY;
+  v_sort TEXT := COALESCE(p_sort, 'relevance');
+BEGIN
+  IF v_sort NOT IN ('relevance', 'newest', 'price_asc', 'price_desc', 'rating') THEN
+    RAISE EXCEPTION 'Products cannot be sorted by "%".', v_sort;
+  END IF;
+
+  IF p_limit IS NULL OR p_limit < 1 OR p_limit > 100 THEN
+    RAISE EXCEPTION 'Please ask for between 1 and 100 products at a time.';
+  END IF;
+
+  -- Each word becomes a prefix match. Words that are all punctuation or
+  -- stop words ("the", "and") leave nothing to search for.
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO v_tsquery
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF v_tsquery IS NOT NULL AND numnode(v_tsquery) = 0 THEN
+    v_tsquery := NULL;
+  END IF;
+
+  IF v_sort = 'relevance' AND v_tsquery IS NULL THEN
+    v_sort := 'newest';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.image_url,
+    p.in_stock,
+    p.category_id,
+    p.created_at,
+    (SELECT count(*) FROM public.product_variants v WHERE v.product_id = p.id),
+    r.rating_avg,
+    COALESCE(r.rating_count, 0),
+    count(*) OVER ()
+  FROM public.products p
+  LEFT JOIN LATERAL (
+    SELECT round(AVG(rv.rating), 1) AS rating_avg, count(*) AS rating_count
+    FROM public.reviews rv
+    WHERE rv.product_id = p.id
+  ) r ON true
+  WHERE (v_tsquery IS NULL OR p.search_vector @@ v_tsquery)
+    AND (p_category_id IS NULL OR p.category_id = p_category_id)
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (p_include_out_of_stock OR p.in_stock)
+  ORDER BY
+    CASE WHEN v_sort = 'relevance' THEN ts_rank(p.search_vector, v_tsquery) END DESC NULLS LAST,
+    CASE WHEN v_sort = 'price_asc' THEN p.price END ASC NULLS LAST,
+    CASE WHEN v_sort = 'price_desc' THEN p.price END DESC NULLS LAST,
+    CASE WHEN v_sort = 'rating' THEN r.rating_avg END DESC NULLS LAST,
+    CASE WHEN v_sort = 'rating' THEN r.rating_count END DESC NULLS LAST,
+    p.created_at DESC,
+    p.id
+  LIMIT p_limit
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+
+-- STEP 3: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
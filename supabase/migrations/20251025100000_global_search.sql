@@ -0,0 +1,195 @@
+-- ============================================================================
+--          GLOBAL SEARCH
+-- One search for the Ctrl/Cmd+K palette. Customers find products and
+-- categories; staff who can see orders also find orders by customer name,
+-- phone number or the start of the order ID.
+-- ============================================================================
+
+-- STEP 1: SHARE THE SEARCH QUERY PARSING
+-- 1.1: Turns what was typed into a query where every word must match and
+-- may be partly typed, so "choc cak" finds "Chocolate Cake". Returns NULL
+-- when nothing is left to search for, e.g. only punctuation or stop words
+-- ("the", "and").
+CREATE OR REPLACE FUNCTION public.prefix_tsquery(p_query TEXT)
+RETURNS TSQUERY AS $$
+DECLARE
+  v_tsquery TSQUERY;
+BEGIN
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO v_tsquery
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF v_tsquery IS NOT NULL AND numnode(v_tsquery) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_tsquery;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- 1.2: search_products() now uses prefix_tsquery(). Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_include_out_of_stock BOOLEAN DEFAULT false,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price NUMERIC,
+  image_url TEXT,
+  in_stock BOOLEAN,
+  category_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  variant_count BIGINT,
+  rating_avg NUMERIC,
+  rating_count BIGINT,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_tsquery TSQUERY;
+  v_sort TEXT := COALESCE(p_sort, 'relevance');
+BEGIN
+  IF v_sort NOT IN ('relevance', 'newest', 'price_asc', 'price_desc', 'rating') THEN
+    RAISE EXCEPTION 'Products cannot be sorted by "%".', v_sort;
+  END IF;
+
+  IF p_limit IS NULL OR p_limit < 1 OR p_limit > 100 THEN
+    RAISE EXCEPTION 'Please ask for between 1 and 100 products at a time.';
+  END IF;
+
+  v_tsquery := public.prefix_tsquery(p_query);
+
+  IF v_sort = 'relevance' AND v_tsquery IS NULL THEN
+    v_sort := 'newest';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.image_url,
+    p.in_stock,
+    p.category_id,
+    p.created_at,
+    (SELECT count(*) FROM public.product_variants v WHERE v.product_id = p.id),
+    r.rating_avg,
+    COALESCE(r.rating_count, 0),
+    count(*) OVER ()
+  FROM public.products p
+  LEFT JOIN LATERAL (
+    SELECT round(AVG(rv.rating), 1) AS rating_avg, count(*) AS rating_count
+    FROM public.reviews rv
+    WHERE rv.product_id = p.id
+  ) r ON true
+  WHERE (v_tsquery IS NULL OR p.search_vector @@ v_tsquery)
+    AND (p_category_id IS NULL OR p.category_id = p_category_id)
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (p_include_out_of_stock OR p.in_stock)
+  ORDER BY
+    CASE WHEN v_sort = 'relevance' THEN ts_rank(p.search_vector, v_tsquery) END DESC NULLS LAST,
+    CASE WHEN v_sort = 'price_asc' THEN p.price END ASC NULLS LAST,
+    CASE WHEN v_sort = 'price_desc' THEN p.price END DESC NULLS LAST,
+    CASE WHEN v_sort = 'rating' THEN r.rating_avg END DESC NULLS LAST,
+    CASE WHEN v_sort = 'rating' THEN r.rating_count END DESC NULLS LAST,
+    p.created_at DESC,
+    p.id
+  LIMIT p_limit
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+
+-- STEP 2: SEARCH EVERYTHING
+-- Up to p_limit results of each kind: 'product', 'category' and, for staff
+-- with 'orders.view', 'order'. The columns are shared by every kind:
+--   product:  title = name, subtitle = category, price, image_url, status = 'in_stock' or 'out_of_stock'
+--   category: title = name, subtitle = description, image_url, slug
+--   order:    title = customer name, subtitle = phone, price = total, status
+CREATE OR REPLACE FUNCTION public.search_everything(p_query TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  title TEXT,
+  subtitle TEXT,
+  image_url TEXT,
+  price NUMERIC,
+  slug TEXT,
+  status TEXT
+) AS $$
+DECLARE
+  v_query TEXT := trim(COALESCE(p_query, ''));
+  v_tsquery TSQUERY := public.prefix_tsquery(p_query);
+  v_like TEXT;
+  v_order_id TEXT;
+  v_digits TEXT;
+BEGIN
+  IF p_limit IS NULL OR p_limit < 1 OR p_limit > 20 THEN
+    RAISE EXCEPTION 'Please ask for between 1 and 20 results of each kind.';
+  END IF;
+
+  IF length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_like := '%' || replace(replace(replace(v_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  IF v_tsquery IS NOT NULL THEN
+    RETURN QUERY
+    SELECT 'product', p.id, p.name, c.name, p.image_url, p.price, NULL::TEXT,
+      CASE WHEN p.in_stock THEN 'in_stock' ELSE 'out_of_stock' END
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    WHERE p.search_vector @@ v_tsquery
+    ORDER BY p.in_stock DESC, ts_rank(p.search_vector, v_tsquery) DESC, p.name
+    LIMIT p_limit;
+  END IF;
+
+  RETURN QUERY
+  SELECT 'category', c.id, c.name, c.description, c.image_url, NULL::NUMERIC, c.slug, NULL::TEXT
+  FROM public.categories c
+  WHERE c.name ILIKE v_like
+  ORDER BY c.sort_order, c.name
+  LIMIT p_limit;
+
+  IF NOT public.has_permission('orders.view') THEN
+    RETURN;
+  END IF;
+
+  -- "#3f2a" or "3f2a9c10" match the start of an order ID. Phone numbers
+  -- match on their digits alone, without a leading 0, so "0712 345 678"
+  -- also finds "+254712345678".
+  v_order_id := lower(ltrim(v_query, '#'));
+  IF v_order_id !~ '^[0-9a-f-]{4,36}$' THEN
+    v_order_id := NULL;
+  END IF;
+
+  v_digits := ltrim(regexp_replace(v_query, '[^0-9]', '', 'g'), '0');
+  IF length(v_digits) < 4 OR v_query ~ '[[:alpha:]]' THEN
+    v_digits := NULL;
+  END IF;
+
+  RETURN QUERY
+  SELECT 'order', o.id, o.customer_name, o.customer_phone, NULL::TEXT, o.total_amount, NULL::TEXT, o.status::TEXT
+  FROM public.orders o
+  WHERE o.customer_name ILIKE v_like
+     OR (v_order_id IS NOT NULL AND o.id::TEXT LIKE v_order_id || '%')
+     OR (v_digits IS NOT NULL AND regexp_replace(o.customer_phone, '[^0-9]', '', 'g') LIKE '%' || v_digits || '%')
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+
+-- STEP 3: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,309 @@
+-- ============================================================================
+--          REVIEW MODERATION
+-- Reviews now wait in a moderation queue before they are published, carry
+-- a "verified purchase" flag when the author has received the product, and
+-- can include photos. Staff can approve or hide a review and reply to it
+-- on behalf of the store, and customers can report reviews.
+--
+-- Store-wide choices, such as whether only verified buyers may review, are
+-- kept in the new single-row 'store_settings' table.
+-- ============================================================================
+
+-- STEP 1: ADD THE 'reviews.moderate' PERMISSION
+INSERT INTO public.permissions (key, description) VALUES
+  ('reviews.moderate', 'Approve, hide and reply to product reviews, and handle reports')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'reviews.moderate'),
+  ('staff', 'reviews.moderate')
+ON CONFLICT DO NOTHING;
+
+
+-- STEP 2: CREATE THE 'store_settings' TABLE
+-- There is exactly one row. Read it with SELECT * FROM store_settings.
+CREATE TABLE IF NOT EXISTS public.store_settings (
+    id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+    require_verified_reviews BOOLEAN NOT NULL DEFAULT false,
+    moderate_reviews BOOLEAN NOT NULL DEFAULT true,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+COMMENT ON TABLE public.store_settings IS 'Store-wide settings. Always exactly one row.';
+COMMENT ON COLUMN public.store_settings.require_verified_reviews IS 'Only customers with a delivered order for a product may review it.';
+COMMENT ON COLUMN public.store_settings.moderate_reviews IS 'New reviews wait for a moderator before they are published.';
+
+INSERT INTO public.store_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view store settings" ON public.store_settings;
+CREATE POLICY "Anyone can view store settings"
+ON public.store_settings FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Moderators can update review settings" ON public.store_settings;
+CREATE POLICY "Moderators can update review settings"
+ON public.store_settings FOR UPDATE TO authenticated
+USING (public.has_permission('reviews.moderate'))
+WITH CHECK (public.has_permission('reviews.moderate'));
+
+CREATE OR REPLACE FUNCTION public.stamp_store_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS stamp_store_settings ON public.store_settings;
+CREATE TRIGGER stamp_store_settings
+BEFORE UPDATE ON public.store_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_store_settings();
+
+
+-- STEP 3: ADD MODERATION COLUMNS TO 'reviews'
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'hidden')),
+  ADD COLUMN IF NOT EXISTS verified_purchase BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS photo_paths TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(photo_paths) <= 4),
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reply TEXT,
+  ADD COLUMN IF NOT EXISTS replied_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS replied_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.reviews.status IS 'pending until a moderator approves or hides it. Only approved reviews are public.';
+COMMENT ON COLUMN public.reviews.verified_purchase IS 'Set by prepare_review(): the author has a delivered order for this product.';
+COMMENT ON COLUMN public.reviews.photo_paths IS 'Paths in the public review-photos bucket, under the author''s folder.';
+COMMENT ON COLUMN public.reviews.reply IS 'The store''s public reply, shown under the review.';
+
+CREATE INDEX IF NOT EXISTS idx_reviews_status ON public.reviews(status, created_at DESC);
+
+-- 3.1: Reviews written before moderation existed were already public.
+UPDATE public.reviews SET status = 'approved' WHERE moderated_at IS NULL AND status = 'pending';
+
+-- 3.2: Whether a customer has received a product.
+CREATE OR REPLACE FUNCTION public.has_received_product(p_user_id UUID, p_product_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.order_items i
+    JOIN public.orders o ON o.id = i.order_id
+    WHERE o.user_id = p_user_id
+      AND i.product_id = p_product_id
+      AND o.status = 'delivered'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only used by the triggers below, so customers cannot look up what others
+-- have bought.
+REVOKE EXECUTE ON FUNCTION public.has_received_product(UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+UPDATE public.reviews SET verified_purchase = public.has_received_product(user_id, product_id);
+
+-- 3.3: Whether the signed-in customer may review a product, for the review
+-- form. Always true unless verified reviews are required.
+CREATE OR REPLACE FUNCTION public.can_review_product(p_product_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    NOT COALESCE((SELECT require_verified_reviews FROM public.store_settings), false)
+    OR public.has_received_product(auth.uid(), p_product_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 4: CHECK AND STAMP REVIEWS
+-- New reviews are checked against the store settings and start out pending
+-- unless moderation is off. Only moderators may change the status or the
+-- reply, and a moderator's changes are stamped with who made them.
+CREATE OR REPLACE FUNCTION public.prepare_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_settings public.store_settings;
+  v_is_moderator BOOLEAN := public.has_permission('reviews.moderate');
+BEGIN
+  SELECT * INTO v_settings FROM public.store_settings;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verified_purchase := public.has_received_product(NEW.user_id, NEW.product_id);
+
+    IF COALESCE(v_settings.require_verified_reviews, false) AND NOT NEW.verified_purchase THEN
+      RAISE EXCEPTION 'Only customers who have received this product can review it.';
+    END IF;
+
+    NEW.status := CASE WHEN COALESCE(v_settings.moderate_reviews, true) THEN 'pending' ELSE 'approved' END;
+    NEW.reply := NULL;
+    NEW.moderated_at := NULL;
+    NEW.moderated_by := NULL;
+    NEW.replied_at := NULL;
+    NEW.replied_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.user_id := OLD.user_id;
+  NEW.product_id := OLD.product_id;
+  NEW.verified_purchase := OLD.verified_purchase OR public.has_received_product(OLD.user_id, OLD.product_id);
+
+  IF NOT v_is_moderator THEN
+    NEW.status := OLD.status;
+    NEW.reply := OLD.reply;
+    NEW.moderated_at := OLD.moderated_at;
+    NEW.moderated_by := OLD.moderated_by;
+    NEW.replied_at := OLD.replied_at;
+    NEW.replied_by := OLD.replied_by;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.moderated_at := now();
+    NEW.moderated_by := auth.uid();
+  END IF;
+
+  NEW.reply := NULLIF(trim(NEW.reply), '');
+  IF NEW.reply IS DISTINCT FROM OLD.reply THEN
+    NEW.replied_at := CASE WHEN NEW.reply IS NULL THEN NULL ELSE now() END;
+    NEW.replied_by := CASE WHEN NEW.reply IS NULL THEN NULL ELSE auth.uid() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_review ON public.reviews;
+CREATE TRIGGER prepare_review
+BEFORE INSERT OR UPDATE ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_review();
+
+-- 4.1: Reviews written before the order arrived become verified once it does.
+CREATE OR REPLACE FUNCTION public.verify_reviews_on_delivery()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered' AND NEW.user_id IS NOT NULL THEN
+    UPDATE public.reviews r
+    SET verified_purchase = true
+    WHERE r.user_id = NEW.user_id
+      AND NOT r.verified_purchase
+      AND r.product_id IN (SELECT i.product_id FROM public.order_items i WHERE i.order_id = NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS verify_reviews_on_delivery ON public.orders;
+CREATE TRIGGER verify_reviews_on_delivery
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.verify_reviews_on_delivery();
+
+
+-- STEP 5: UPDATE THE RLS POLICIES FOR 'reviews'
+-- 5.1: Only approved reviews are public. Authors can see their own while
+-- they wait, and moderators can see everything.
+DROP POLICY IF EXISTS "Public can read all reviews" ON public.reviews;
+DROP POLICY IF EXISTS "Public can read approved reviews" ON public.reviews;
+CREATE POLICY "Public can read approved reviews"
+ON public.reviews FOR SELECT
+USING (status = 'approved');
+
+DROP POLICY IF EXISTS "Users can read their own reviews" ON public.reviews;
+CREATE POLICY "Users can read their own reviews"
+ON public.reviews FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Moderators can read all reviews" ON public.reviews;
+CREATE POLICY "Moderators can read all reviews"
+ON public.reviews FOR SELECT TO authenticated
+USING (public.has_permission('reviews.moderate'));
+
+-- 5.2: Moderators approve, hide and reply by updating the review.
+DROP POLICY IF EXISTS "Moderators can update reviews" ON public.reviews;
+CREATE POLICY "Moderators can update reviews"
+ON public.reviews FOR UPDATE TO authenticated
+USING (public.has_permission('reviews.moderate'))
+WITH CHECK (public.has_permission('reviews.moderate'));
+
+
+-- STEP 6: CREATE THE 'review_reports' TABLE
+CREATE TABLE IF NOT EXISTS public.review_reports (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    review_id UUID NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+    reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'off_topic', 'fake', 'other')),
+    details TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    CONSTRAINT unique_reporter_review UNIQUE (review_id, reporter_id)
+);
+COMMENT ON TABLE public.review_reports IS 'Reviews customers have reported. Resolved when a moderator approves or hides the review.';
+
+CREATE INDEX IF NOT EXISTS idx_review_reports_open ON public.review_reports(review_id) WHERE resolved_at IS NULL;
+
+ALTER TABLE public.review_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can report reviews" ON public.review_reports;
+CREATE POLICY "Users can report reviews"
+ON public.review_reports FOR INSERT TO authenticated
+WITH CHECK (reporter_id = auth.uid() AND resolved_at IS NULL);
+
+DROP POLICY IF EXISTS "Users can view their own reports" ON public.review_reports;
+CREATE POLICY "Users can view their own reports"
+ON public.review_reports FOR SELECT TO authenticated
+USING (reporter_id = auth.uid());
+
+DROP POLICY IF EXISTS "Moderators can view all reports" ON public.review_reports;
+CREATE POLICY "Moderators can view all reports"
+ON public.review_reports FOR SELECT TO authenticated
+USING (public.has_permission('reviews.moderate'));
+
+-- 6.1: Approving or hiding a review deals with its open reports. Setting a
+-- published review to approved again is how a moderator dismisses reports.
+CREATE OR REPLACE FUNCTION public.resolve_review_reports()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    UPDATE public.review_reports
+    SET resolved_at = now(), resolved_by = auth.uid()
+    WHERE review_id = NEW.id AND resolved_at IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS resolve_review_reports ON public.reviews;
+CREATE TRIGGER resolve_review_reports
+AFTER UPDATE OF status ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.resolve_review_reports();
+
+
+-- STEP 7: CREATE A PUBLIC BUCKET FOR REVIEW PHOTOS
+-- Photos are public like the reviews they belong to. Each customer uploads
+-- into a folder named after their user ID.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('review-photos', 'review-photos', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload their own review photos" ON storage.objects;
+CREATE POLICY "Users can upload their own review photos"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK ( bucket_id = 'review-photos' AND (storage.foldername(name))[1] = auth.uid()::TEXT );
+
+DROP POLICY IF EXISTS "Users can delete their own review photos" ON storage.objects;
+CREATE POLICY "Users can delete their own review photos"
+ON storage.objects FOR DELETE TO authenticated
+USING ( bucket_id = 'review-photos' AND (storage.foldername(name))[1] = auth.uid()::TEXT );
+
+DROP POLICY IF EXISTS "Moderators can delete review photos" ON storage.objects;
+CREATE POLICY "Moderators can delete review photos"
+ON storage.objects FOR DELETE TO authenticated
+USING ( bucket_id = 'review-photos' AND public.has_permission('reviews.moderate') );
+
+
+-- STEP 8: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,174 @@
+-- ============================================================================
+--          PRODUCT RATINGS
+-- Keeps each product's average rating and number of published reviews on
+-- the product itself, so listings can show and sort by them without reading
+-- every review. Only approved reviews count.
+-- ============================================================================
+
+-- STEP 1: ADD THE RATING COLUMNS TO PRODUCTS
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS rating_avg NUMERIC(2, 1),
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_products_rating ON public.products (rating_avg DESC NULLS LAST, rating_count DESC);
+
+-- 1.1: Recounts one product's published reviews. rating_avg is NULL while
+-- a product has none.
+CREATE OR REPLACE FUNCTION public.refresh_product_rating(p_product_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.products p
+  SET rating_avg = r.rating_avg,
+      rating_count = r.rating_count
+  FROM (
+    SELECT round(AVG(rating), 1) AS rating_avg, count(*)::INTEGER AS rating_count
+    FROM public.reviews
+    WHERE product_id = p_product_id AND status = 'approved'
+  ) r
+  WHERE p.id = p_product_id
+    AND (p.rating_avg IS DISTINCT FROM r.rating_avg OR p.rating_count <> r.rating_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_product_rating(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 1.2: Fill in the ratings for existing reviews.
+UPDATE public.products p
+SET rating_avg = r.rating_avg,
+    rating_count = r.rating_count
+FROM (
+  SELECT product_id, round(AVG(rating), 1) AS rating_avg, count(*)::INTEGER AS rating_count
+  FROM public.reviews
+  WHERE status = 'approved'
+  GROUP BY product_id
+) r
+WHERE p.id = r.product_id;
+
+
+-- STEP 2: KEEP THE RATINGS UP TO DATE
+-- Reviews are added, edited, approved, hidden and deleted one at a time, so
+-- a row trigger recounting the affected product is cheap enough.
+CREATE OR REPLACE FUNCTION public.update_product_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_product_rating(NEW.product_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.product_id IS DISTINCT FROM NEW.product_id) THEN
+    PERFORM public.refresh_product_rating(OLD.product_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_product_rating ON public.reviews;
+CREATE TRIGGER update_product_rating
+AFTER INSERT OR DELETE OR UPDATE OF rating, status, product_id ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_product_rating();
+
+
+-- STEP 3: SORT AND SHOW THE CATALOGUE BY THE STORED RATINGS
+-- search_products() now reads the rating columns instead of averaging the
+-- reviews, which also leaves out reviews that are not published. Otherwise
+-- unchanged.
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_include_out_of_stock BOOLEAN DEFAULT false,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price NUMERIC,
+  image_url TEXT,
+  in_stock BOOLEAN,
+  category_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  variant_count BIGINT,
+  rating_avg NUMERIC,
+  rating_count BIGINT,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_tsquery TSQUERY;
+  v_sort TEXT := COALESCE(p_sort, 'relevance');
+BEGIN
+  IF v_sort NOT IN ('relevance', 'newest', 'price_asc', 'price_desc', 'rating') THEN
+    RAISE EXCEPTION 'Products cannot be sorted by "%".', v_sort;
+  END IF;
+
+  IF p_limit IS NULL OR p_limit < 1 OR p_limit > 100 THEN
+    RAISE EXCEPTION 'Please ask for between 1 and 100 products at a time.';
+  END IF;
+
+  v_tsquery := public.prefix_tsquery(p_query);
+
+  IF v_sort = 'relevance' AND v_tsquery IS NULL THEN
+    v_sort := 'newest';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.image_url,
+    p.in_stock,
+    p.category_id,
+    p.created_at,
+    (SELECT count(*) FROM public.product_variants v WHERE v.product_id = p.id),
+    p.rating_avg,
+    p.rating_count::BIGINT,
+    count(*) OVER ()
+  FROM public.products p
+  WHERE (v_tsquery IS NULL OR p.search_vector @@ v_tsquery)
+    AND (p_category_id IS NULL OR p.category_id = p_category_id)
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (p_include_out_of_stock OR p.in_stock)
+  ORDER BY
+    CASE WHEN v_sort = 'relevance' THEN ts_rank(p.search_vector, v_tsquery) END DESC NULLS LAST,
+    CASE WHEN v_sort = 'price_asc' THEN p.price END ASC NULLS LAST,
+    CASE WHEN v_sort = 'price_desc' THEN p.price END DESC NULLS LAST,
+    CASE WHEN v_sort = 'rating' THEN p.rating_avg END DESC NULLS LAST,
+    CASE WHEN v_sort = 'rating' THEN p.rating_count END DESC NULLS LAST,
+    p.created_at DESC,
+    p.id
+  LIMIT p_limit
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+
+-- STEP 4: RATING DISTRIBUTION
+-- How many published reviews gave a product each number of stars, with a
+-- row for every rating from 5 down to 1 even when nobody chose it.
+CREATE OR REPLACE FUNCTION public.get_rating_distribution(p_product_id UUID)
+RETURNS TABLE (
+  rating INTEGER,
+  review_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.rating, count(r.id)
+  FROM generate_series(5, 1, -1) AS s(rating)
+  LEFT JOIN public.reviews r
+    ON r.product_id = p_product_id AND r.status = 'approved' AND r.rating = s.rating
+  GROUP BY s.rating
+  ORDER BY s.rating DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+
+-- STEP 5: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,84 @@
+-- ============================================================================
+--          REVIEW EDITS
+-- Customers can change their own review. Edits are stamped so the review
+-- can be marked as edited, and a published review goes back for approval
+-- when the store moderates reviews.
+-- ============================================================================
+
+-- STEP 1: ADD 'edited_at' TO 'reviews'
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.reviews.edited_at IS 'When the rating, comment or photos last changed after the review was posted.';
+
+
+-- STEP 2: STAMP EDITS
+-- prepare_review() now sets edited_at and sends edited reviews back to
+-- pending. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.prepare_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_settings public.store_settings;
+  v_is_moderator BOOLEAN := public.has_permission('reviews.moderate');
+  v_is_edited BOOLEAN;
+BEGIN
+  SELECT * INTO v_settings FROM public.store_settings;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verified_purchase := public.has_received_product(NEW.user_id, NEW.product_id);
+
+    IF COALESCE(v_settings.require_verified_reviews, false) AND NOT NEW.verified_purchase THEN
+      RAISE EXCEPTION 'Only customers who have received this product can review it.';
+    END IF;
+
+    NEW.status := CASE WHEN COALESCE(v_settings.moderate_reviews, true) THEN 'pending' ELSE 'approved' END;
+    NEW.reply := NULL;
+    NEW.moderated_at := NULL;
+    NEW.moderated_by := NULL;
+    NEW.replied_at := NULL;
+    NEW.replied_by := NULL;
+    NEW.edited_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.user_id := OLD.user_id;
+  NEW.product_id := OLD.product_id;
+  NEW.verified_purchase := OLD.verified_purchase OR public.has_received_product(OLD.user_id, OLD.product_id);
+
+  v_is_edited := NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.comment IS DISTINCT FROM OLD.comment
+    OR NEW.photo_paths IS DISTINCT FROM OLD.photo_paths;
+  NEW.edited_at := CASE WHEN v_is_edited THEN now() ELSE OLD.edited_at END;
+
+  IF NOT v_is_moderator THEN
+    -- An edited review is checked again before the changes are public.
+    NEW.status := CASE
+      WHEN v_is_edited AND OLD.status = 'approved' AND COALESCE(v_settings.moderate_reviews, true) THEN 'pending'
+      ELSE OLD.status
+    END;
+    NEW.reply := OLD.reply;
+    NEW.moderated_at := OLD.moderated_at;
+    NEW.moderated_by := OLD.moderated_by;
+    NEW.replied_at := OLD.replied_at;
+    NEW.replied_by := OLD.replied_by;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.moderated_at := now();
+    NEW.moderated_by := auth.uid();
+  END IF;
+
+  NEW.reply := NULLIF(trim(NEW.reply), '');
+  IF NEW.reply IS DISTINCT FROM OLD.reply THEN
+    NEW.replied_at := CASE WHEN NEW.reply IS NULL THEN NULL ELSE now() END;
+    NEW.replied_by := CASE WHEN NEW.reply IS NULL THEN NULL ELSE auth.uid() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 3: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
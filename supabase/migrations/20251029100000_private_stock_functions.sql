@@ -0,0 +1,19 @@
+-- ============================================================================
+--          PRIVATE STOCK FUNCTIONS
+-- record_stock_movement() and reserve_stock() change stock without checking
+-- who is asking, and were left callable through the API, so anyone could
+-- move any product's stock and write to the ledger. Staff go through
+-- adjust_stock(), which checks products.edit, and orders through
+-- place_order(); both run as the owner and keep working.
+-- ============================================================================
+
+-- STEP 1: ONLY OTHER FUNCTIONS MAY MOVE STOCK
+REVOKE EXECUTE ON FUNCTION public.record_stock_movement(UUID, UUID, TEXT, INTEGER, UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_stock(UUID, UUID, UUID, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+
+
+-- STEP 2: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,115 @@
+-- ============================================================================
+--          STAFF ORDER UPDATES
+-- "Staff can update orders" let anyone with orders.approve or orders.fulfil
+-- write every column of every order, including its totals, payment status,
+-- M-Pesa receipt and owner; only the status was checked, by a trigger.
+-- Staff now change orders only through update_order_status() and
+-- reconcile_mpesa_payments(), which run as the owner and check permissions
+-- themselves.
+-- ============================================================================
+
+-- STEP 1: NO DIRECT UPDATES
+DROP POLICY IF EXISTS "Staff can update orders" ON public.orders;
+
+
+-- STEP 2: CHANGE STATUSES AS THE OWNER
+-- update_order_status() used to rely on the policy above. It now checks that
+-- the caller is order staff, and enforce_order_status_transition() still
+-- checks the permission for the particular change. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders;
+BEGIN
+  IF NOT (public.has_permission('orders.approve') OR public.has_permission('orders.fulfil')) THEN
+    RAISE EXCEPTION 'You do not have permission to update orders.';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(trim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', '', true);
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 3: CONFIRM PAYMENTS AS THE OWNER
+-- reconcile_mpesa_payments() already checks orders.approve. Otherwise
+-- unchanged.
+CREATE OR REPLACE FUNCTION public.reconcile_mpesa_payments(p_matches JSONB)
+RETURNS SETOF public.orders AS $$
+DECLARE
+  v_match RECORD;
+  v_receipt_number TEXT;
+  v_order public.orders;
+BEGIN
+  IF NOT public.has_permission('orders.approve') THEN
+    RAISE EXCEPTION 'You do not have permission to confirm payments.';
+  END IF;
+
+  FOR v_match IN
+    SELECT * FROM jsonb_to_recordset(p_matches) AS m(order_id UUID, receipt_number TEXT, amount NUMERIC)
+  LOOP
+    v_receipt_number := upper(trim(v_match.receipt_number));
+
+    SELECT * INTO v_order FROM public.orders WHERE id = v_match.order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order % not found.', v_match.order_id;
+    END IF;
+
+    IF v_order.payment_status = 'paid' THEN
+      RAISE EXCEPTION 'Order % has already been paid.', left(v_order.id::TEXT, 8);
+    END IF;
+
+    IF v_match.amount IS NULL OR v_match.amount < v_order.total_amount THEN
+      RAISE EXCEPTION 'Order % is for Ksh % but the statement shows Ksh %.',
+        left(v_order.id::TEXT, 8), v_order.total_amount, v_match.amount;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE mpesa_receipt_number = v_receipt_number AND id <> v_order.id
+    ) THEN
+      RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+    END IF;
+
+    UPDATE public.orders
+    SET payment_status = 'paid',
+        mpesa_receipt_number = v_receipt_number,
+        paid_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+    IF v_order.status = 'pending' THEN
+      PERFORM set_config(
+        'app.order_status_note',
+        format('Matched to M-Pesa statement (receipt %s).', v_receipt_number),
+        true
+      );
+      UPDATE public.orders SET status = 'payment_verified' WHERE id = v_order.id
+      RETURNING * INTO v_order;
+      PERFORM set_config('app.order_status_note', '', true);
+    END IF;
+
+    RETURN NEXT v_order;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
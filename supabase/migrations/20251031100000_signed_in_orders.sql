@@ -0,0 +1,17 @@
+-- ============================================================================
+--          SIGNED-IN ORDERS
+-- Before place_order(), only signed-in customers could create orders: the
+-- insert policy required auth.uid() = user_id. place_order() runs as the
+-- owner and also accepted visitors who were not signed in, and since it
+-- reserves stock, anyone could hold every product's stock with orders that
+-- are never paid. The cart already asks customers to sign in before
+-- checkout, so visitors lose nothing.
+-- ============================================================================
+
+-- STEP 1: ONLY SIGNED-IN CUSTOMERS MAY PLACE ORDERS
+REVOKE EXECUTE ON FUNCTION public.place_order(JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, JSONB) TO authenticated;
+
+
+-- STEP 2: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
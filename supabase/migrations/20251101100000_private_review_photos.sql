@@ -0,0 +1,118 @@
+-- ============================================================================
+--          PRIVATE REVIEW PHOTOS
+-- Review photos were public, so anything uploaded to the bucket could be
+-- seen by anyone who guessed its path, even before a moderator approved the
+-- review or after they hid it. The bucket is now private and the app shows
+-- photos through short-lived signed URLs. A photo can be read by its author,
+-- by moderators, and by anyone once it belongs to an approved review.
+--
+-- Object layout:
+--   <user id>/<file>           uploaded by the review's author
+-- ============================================================================
+
+-- STEP 1: MAKE THE BUCKET PRIVATE
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'review-photos';
+
+COMMENT ON COLUMN public.reviews.photo_paths IS 'Paths in the private review-photos bucket, under the author''s folder.';
+
+-- Looks up the reviews a photo belongs to, for the storage policy below.
+CREATE INDEX IF NOT EXISTS idx_reviews_photo_paths ON public.reviews USING GIN (photo_paths);
+
+
+-- STEP 2: WHO CAN READ A PHOTO
+DROP POLICY IF EXISTS "Review photos are visible with their review" ON storage.objects;
+CREATE POLICY "Review photos are visible with their review"
+ON storage.objects FOR SELECT TO anon, authenticated
+USING (
+  bucket_id = 'review-photos'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+    OR public.has_permission('reviews.moderate')
+    OR EXISTS (
+      SELECT 1 FROM public.reviews r
+      WHERE r.status = 'approved' AND objects.name = ANY (r.photo_paths)
+    )
+  )
+);
+
+
+-- STEP 3: PHOTOS MUST BE THE AUTHOR'S OWN
+-- prepare_review() now refuses photo paths outside the author's folder, so a
+-- review cannot publish someone else's upload. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.prepare_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_settings public.store_settings;
+  v_is_moderator BOOLEAN := public.has_permission('reviews.moderate');
+  v_is_edited BOOLEAN;
+  v_author UUID := CASE WHEN TG_OP = 'INSERT' THEN NEW.user_id ELSE OLD.user_id END;
+BEGIN
+  SELECT * INTO v_settings FROM public.store_settings;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.photo_paths) AS path
+    WHERE split_part(path, '/', 1) IS DISTINCT FROM v_author::TEXT
+  ) THEN
+    RAISE EXCEPTION 'Review photos must be uploaded by the review''s author.';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verified_purchase := public.has_received_product(NEW.user_id, NEW.product_id);
+
+    IF COALESCE(v_settings.require_verified_reviews, false) AND NOT NEW.verified_purchase THEN
+      RAISE EXCEPTION 'Only customers who have received this product can review it.';
+    END IF;
+
+    NEW.status := CASE WHEN COALESCE(v_settings.moderate_reviews, true) THEN 'pending' ELSE 'approved' END;
+    NEW.reply := NULL;
+    NEW.moderated_at := NULL;
+    NEW.moderated_by := NULL;
+    NEW.replied_at := NULL;
+    NEW.replied_by := NULL;
+    NEW.edited_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.user_id := OLD.user_id;
+  NEW.product_id := OLD.product_id;
+  NEW.verified_purchase := OLD.verified_purchase OR public.has_received_product(OLD.user_id, OLD.product_id);
+
+  v_is_edited := NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.comment IS DISTINCT FROM OLD.comment
+    OR NEW.photo_paths IS DISTINCT FROM OLD.photo_paths;
+  NEW.edited_at := CASE WHEN v_is_edited THEN now() ELSE OLD.edited_at END;
+
+  IF NOT v_is_moderator THEN
+    -- An edited review is checked again before the changes are public.
+    NEW.status := CASE
+      WHEN v_is_edited AND OLD.status = 'approved' AND COALESCE(v_settings.moderate_reviews, true) THEN 'pending'
+      ELSE OLD.status
+    END;
+    NEW.reply := OLD.reply;
+    NEW.moderated_at := OLD.moderated_at;
+    NEW.moderated_by := OLD.moderated_by;
+    NEW.replied_at := OLD.replied_at;
+    NEW.replied_by := OLD.replied_by;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.moderated_at := now();
+    NEW.moderated_by := auth.uid();
+  END IF;
+
+  NEW.reply := NULLIF(trim(NEW.reply), '');
+  IF NEW.reply IS DISTINCT FROM OLD.reply THEN
+    NEW.replied_at := CASE WHEN NEW.reply IS NULL THEN NULL ELSE now() END;
+    NEW.replied_by := CASE WHEN NEW.reply IS NULL THEN NULL ELSE auth.uid() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,97 @@
+-- ============================================================================
+--          MODERATORS CANNOT REWRITE REVIEWS
+-- The "Moderators can update reviews" policy lets moderators update any
+-- column, so one could change a customer's rating or words and have them
+-- published under the customer's name. Moderators still publish, hide and
+-- reply, and may remove photos, but the rest of a review is the author's.
+-- ============================================================================
+
+-- STEP 1: KEEP THE AUTHOR'S RATING, COMMENT AND PHOTOS
+-- prepare_review() now ignores changes a moderator makes to someone else's
+-- rating and comment, and to their photos unless photos are only removed.
+-- Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.prepare_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_settings public.store_settings;
+  v_is_moderator BOOLEAN := public.has_permission('reviews.moderate');
+  v_is_edited BOOLEAN;
+  v_author UUID := CASE WHEN TG_OP = 'INSERT' THEN NEW.user_id ELSE OLD.user_id END;
+BEGIN
+  SELECT * INTO v_settings FROM public.store_settings;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.photo_paths) AS path
+    WHERE split_part(path, '/', 1) IS DISTINCT FROM v_author::TEXT
+  ) THEN
+    RAISE EXCEPTION 'Review photos must be uploaded by the review''s author.';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verified_purchase := public.has_received_product(NEW.user_id, NEW.product_id);
+
+    IF COALESCE(v_settings.require_verified_reviews, false) AND NOT NEW.verified_purchase THEN
+      RAISE EXCEPTION 'Only customers who have received this product can review it.';
+    END IF;
+
+    NEW.status := CASE WHEN COALESCE(v_settings.moderate_reviews, true) THEN 'pending' ELSE 'approved' END;
+    NEW.reply := NULL;
+    NEW.moderated_at := NULL;
+    NEW.moderated_by := NULL;
+    NEW.replied_at := NULL;
+    NEW.replied_by := NULL;
+    NEW.edited_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.user_id := OLD.user_id;
+  NEW.product_id := OLD.product_id;
+  NEW.verified_purchase := OLD.verified_purchase OR public.has_received_product(OLD.user_id, OLD.product_id);
+
+  -- Moderators publish, hide and reply to reviews, but the stars and words
+  -- stay the customer's. The only change they can make is taking photos away.
+  IF v_is_moderator AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    NEW.rating := OLD.rating;
+    NEW.comment := OLD.comment;
+    IF NOT NEW.photo_paths <@ OLD.photo_paths THEN
+      NEW.photo_paths := OLD.photo_paths;
+    END IF;
+  END IF;
+
+  v_is_edited := NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.comment IS DISTINCT FROM OLD.comment
+    OR NEW.photo_paths IS DISTINCT FROM OLD.photo_paths;
+  NEW.edited_at := CASE WHEN v_is_edited THEN now() ELSE OLD.edited_at END;
+
+  IF NOT v_is_moderator THEN
+    -- An edited review is checked again before the changes are public.
+    NEW.status := CASE
+      WHEN v_is_edited AND OLD.status = 'approved' AND COALESCE(v_settings.moderate_reviews, true) THEN 'pending'
+      ELSE OLD.status
+    END;
+    NEW.reply := OLD.reply;
+    NEW.moderated_at := OLD.moderated_at;
+    NEW.moderated_by := OLD.moderated_by;
+    NEW.replied_at := OLD.replied_at;
+    NEW.replied_by := OLD.replied_by;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.moderated_at := now();
+    NEW.moderated_by := auth.uid();
+  END IF;
+
+  NEW.reply := NULLIF(trim(NEW.reply), '');
+  IF NEW.reply IS DISTINCT FROM OLD.reply THEN
+    NEW.replied_at := CASE WHEN NEW.reply IS NULL THEN NULL ELSE now() END;
+    NEW.replied_by := CASE WHEN NEW.reply IS NULL THEN NULL ELSE auth.uid() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 2: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,113 @@
+-- ============================================================================
+--          ADMIN SAFEGUARDS
+-- Two admins demoting or disabling each other at the same time could each
+-- see the other still active and both succeed, leaving no active admin. The
+-- active admins' profiles are now locked before they are counted. Deleting
+-- a user also no longer deletes the audit log rows about them.
+-- ============================================================================
+
+-- STEP 1: KEEP THE AUDIT LOG WHEN A USER IS DELETED
+-- Rows about a deleted user stay, with user_id cleared.
+ALTER TABLE public.user_audit_log
+  ALTER COLUMN user_id DROP NOT NULL,
+  DROP CONSTRAINT IF EXISTS user_audit_log_user_id_fkey,
+  ADD CONSTRAINT user_audit_log_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.user_audit_log.user_id IS 'The user who was changed. NULL once their account is deleted.';
+
+
+-- STEP 2: LOCK THE ACTIVE ADMINS BEFORE COUNTING THEM
+-- protect_last_admin() now locks every active admin's profile, so a second
+-- change waits for the first to commit and then counts what it left.
+-- Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.protect_last_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only matters when an active admin stops being one.
+  IF OLD.role <> 'admin' OR OLD.disabled_at IS NOT NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role = 'admin' AND NEW.disabled_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM public.profiles
+  WHERE role = 'admin' AND disabled_at IS NULL
+  ORDER BY id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE role = 'admin' AND disabled_at IS NULL AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'This is the last active admin. Make someone else an admin first.';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+
+-- STEP 3: TAKE THE SAME LOCKS BEFORE CHANGING A PROFILE
+-- The trigger above runs once the changed profile is already locked, so two
+-- admins changing each other could each hold one lock and wait for the
+-- other's. Taking every active admin's lock first, in the same order, makes
+-- the second change wait instead. Otherwise unchanged.
+
+-- 3.1: Change a user's role.
+CREATE OR REPLACE FUNCTION public.admin_set_user_role(p_user_id UUID, p_role public.app_role)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users.';
+  END IF;
+
+  PERFORM 1 FROM public.profiles
+  WHERE role = 'admin' AND disabled_at IS NULL
+  ORDER BY id
+  FOR UPDATE;
+
+  UPDATE public.profiles SET role = p_role WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found.';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3.2: Disable or re-enable an account.
+CREATE OR REPLACE FUNCTION public.admin_set_user_disabled(p_user_id UUID, p_disabled BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users.';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_disabled THEN
+    RAISE EXCEPTION 'You cannot disable your own account.';
+  END IF;
+
+  PERFORM 1 FROM public.profiles
+  WHERE role = 'admin' AND disabled_at IS NULL
+  ORDER BY id
+  FOR UPDATE;
+
+  UPDATE public.profiles
+  SET disabled_at = CASE WHEN p_disabled THEN COALESCE(disabled_at, now()) END
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found.';
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_disabled THEN 'infinity'::TIMESTAMPTZ END
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,124 @@
+-- ============================================================================
+--          RECONCILE PAYMENTS ROW BY ROW
+-- reconcile_mpesa_payments() stopped at the first bad row, so one stale match
+-- undid every other payment in the batch. Each row is now confirmed on its
+-- own and the function reports which rows failed and why.
+--
+-- A receipt is also only attached to the order it pays for. Either the
+-- customer entered that code at checkout, or the order has no code yet and
+-- the statement line names the customer's phone number or the order's
+-- reference. A code can no longer replace the one a customer entered, or be
+-- taken from an STK push made for another order.
+--
+-- Each match is now:
+--   { "order_id": UUID, "receipt_number": TEXT, "amount": NUMERIC,
+--     "details": TEXT }   -- the statement's "Details" column
+-- ============================================================================
+
+-- STEP 1: CONFIRM EACH PAYMENT ON ITS OWN
+-- The return type changes, so the old function is dropped first.
+DROP FUNCTION IF EXISTS public.reconcile_mpesa_payments(JSONB);
+
+CREATE FUNCTION public.reconcile_mpesa_payments(p_matches JSONB)
+RETURNS TABLE (order_id UUID, receipt_number TEXT, error TEXT) AS $$
+DECLARE
+  v_match RECORD;
+  v_receipt_number TEXT;
+  v_details TEXT;
+  v_phone TEXT;
+  v_order public.orders;
+BEGIN
+  IF NOT public.has_permission('orders.approve') THEN
+    RAISE EXCEPTION 'You do not have permission to confirm payments.';
+  END IF;
+
+  FOR v_match IN
+    SELECT * FROM jsonb_to_recordset(p_matches) AS m(order_id UUID, receipt_number TEXT, amount NUMERIC, details TEXT)
+  LOOP
+    v_receipt_number := upper(trim(v_match.receipt_number));
+    order_id := v_match.order_id;
+    receipt_number := v_receipt_number;
+    error := NULL;
+
+    -- A failed row only rolls back its own changes.
+    BEGIN
+      SELECT * INTO v_order FROM public.orders o WHERE o.id = v_match.order_id FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order % not found.', v_match.order_id;
+      END IF;
+
+      IF v_order.payment_status = 'paid' THEN
+        RAISE EXCEPTION 'Order % has already been paid.', left(v_order.id::TEXT, 8);
+      END IF;
+
+      IF v_match.amount IS NULL OR v_match.amount < v_order.total_amount THEN
+        RAISE EXCEPTION 'Order % is for Ksh % but the statement shows Ksh %.',
+          left(v_order.id::TEXT, 8), v_order.total_amount, v_match.amount;
+      END IF;
+
+      IF v_order.mpesa_receipt_number IS NOT NULL AND v_order.mpesa_receipt_number <> v_receipt_number THEN
+        RAISE EXCEPTION 'Order % was paid with M-Pesa code %, not %.',
+          left(v_order.id::TEXT, 8), v_order.mpesa_receipt_number, v_receipt_number;
+      END IF;
+
+      -- Without the customer's own code, the statement line must name them.
+      -- Statements mask the middle of the phone number, as in 254712***678.
+      IF v_order.mpesa_receipt_number IS NULL THEN
+        v_details := lower(COALESCE(v_match.details, ''));
+        v_phone := right(regexp_replace(v_order.customer_phone, '\D', '', 'g'), 9);
+
+        IF NOT (
+          position(left(v_order.id::TEXT, 8) IN v_details) > 0
+          OR (
+            length(v_phone) = 9
+            AND EXISTS (
+              SELECT 1 FROM regexp_matches(v_details, '[0-9*]{9,}', 'g') AS token
+              WHERE v_phone LIKE replace(right(token[1], 9), '*', '_')
+                AND length(replace(right(token[1], 9), '*', '')) >= 5
+            )
+          )
+        ) THEN
+          RAISE EXCEPTION 'The statement line for % does not show the phone number or reference of order %.',
+            v_receipt_number, left(v_order.id::TEXT, 8);
+        END IF;
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM public.orders o
+        WHERE o.mpesa_receipt_number = v_receipt_number AND o.id <> v_order.id
+      ) OR EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.mpesa_receipt_number = v_receipt_number AND p.order_id <> v_order.id
+      ) THEN
+        RAISE EXCEPTION 'The M-Pesa code % has already been used for another order.', v_receipt_number;
+      END IF;
+
+      UPDATE public.orders
+      SET payment_status = 'paid',
+          mpesa_receipt_number = v_receipt_number,
+          paid_at = now()
+      WHERE id = v_order.id
+      RETURNING * INTO v_order;
+
+      IF v_order.status = 'pending' THEN
+        PERFORM set_config(
+          'app.order_status_note',
+          format('Matched to M-Pesa statement (receipt %s).', v_receipt_number),
+          true
+        );
+        UPDATE public.orders SET status = 'payment_verified' WHERE id = v_order.id;
+        PERFORM set_config('app.order_status_note', '', true);
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 2: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,73 @@
+-- ============================================================================
+--          PASS ON THE DEFAULT ADDRESS
+-- Deleting the default address passed the default on to another address,
+-- but setting is_default to false on it left the customer with none. The
+-- default is now passed on in the same statement either way, and a
+-- customer's only address stays their default.
+-- ============================================================================
+
+-- STEP 1: PASS ON THE DEFAULT WHEN IT IS DELETED OR UNSET
+-- The trigger's own updates, such as clearing the old default when another
+-- address is chosen, run at a deeper pg_trigger_depth() and are left alone.
+-- Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.handle_default_address()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_WHEN = 'AFTER' THEN
+    IF pg_trigger_depth() = 1 AND OLD.is_default AND (TG_OP = 'DELETE' OR NOT NEW.is_default) THEN
+      -- Another change to the same address book waits for this one.
+      PERFORM 1 FROM public.user_addresses
+      WHERE user_id = OLD.user_id
+      ORDER BY id
+      FOR UPDATE;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM public.user_addresses WHERE user_id = OLD.user_id AND is_default
+      ) THEN
+        UPDATE public.user_addresses SET is_default = true
+        WHERE id = (
+          SELECT id FROM public.user_addresses
+          WHERE user_id = OLD.user_id AND id <> OLD.id
+          ORDER BY created_at DESC
+          LIMIT 1
+        );
+      END IF;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.user_addresses WHERE user_id = NEW.user_id AND is_default
+  ) THEN
+    NEW.is_default := true;
+  END IF;
+
+  -- There is nothing to pass the default on to.
+  IF TG_OP = 'UPDATE' AND OLD.is_default AND NOT NEW.is_default AND pg_trigger_depth() = 1
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_addresses WHERE user_id = NEW.user_id AND id <> NEW.id
+    )
+  THEN
+    NEW.is_default := true;
+  END IF;
+
+  IF NEW.is_default THEN
+    UPDATE public.user_addresses SET is_default = false
+    WHERE user_id = NEW.user_id AND is_default AND id <> NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_addresses_pass_on_default ON public.user_addresses;
+CREATE TRIGGER user_addresses_pass_on_default
+AFTER DELETE OR UPDATE OF is_default ON public.user_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_default_address();
+
+COMMENT ON COLUMN public.user_addresses.is_default IS 'Preselected at checkout. Exactly one per customer with saved addresses.';
+
+
+-- STEP 2: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
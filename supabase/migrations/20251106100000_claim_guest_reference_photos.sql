@@ -0,0 +1,138 @@
+-- ============================================================================
+--          CLAIM GUEST REFERENCE PHOTOS
+-- Reference photos uploaded as a guest stay under guests/<random uuid>/, and
+-- only staff could read that folder. Once the customer signed in and their
+-- cart was merged, they could no longer see their own photos, on the cart or
+-- on the order placed from it.
+--
+-- merge_guest_cart() now makes the signed-in customer the owner of the guest
+-- photos on the lines it merges, and customers can read the photos they own.
+-- The objects keep their paths, as the Storage API cannot move a file on
+-- behalf of the database.
+-- ============================================================================
+
+-- STEP 1: CUSTOMERS CAN READ THE GUEST PHOTOS THEY CLAIMED
+DROP POLICY IF EXISTS "Users can view reference photos they claimed" ON storage.objects;
+CREATE POLICY "Users can view reference photos they claimed"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'personalization-references'
+  AND (storage.foldername(name))[1] = 'guests'
+  AND owner_id = auth.uid()::TEXT
+);
+
+
+-- STEP 2: CLAIM THE PHOTOS WHEN THE GUEST CART IS MERGED
+-- Only photos no one has claimed yet are taken. The function now runs as the
+-- owner so it can update storage.objects. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to save your cart.';
+  END IF;
+
+  UPDATE storage.objects o
+  SET owner = v_user_id, owner_id = v_user_id::TEXT
+  FROM jsonb_to_recordset(p_items) AS g(personalization JSONB)
+  WHERE o.bucket_id = 'personalization-references'
+    AND o.name = trim(g.personalization->>'reference_image_path')
+    AND split_part(o.name, '/', 1) = 'guests'
+    AND o.owner_id IS NULL;
+
+  INSERT INTO public.cart_items (user_id, product_id, variant_id, personalization, quantity)
+  SELECT v_user_id, p.id, pv.id, COALESCE(g.personalization, '{}'::JSONB), LEAST(SUM(g.quantity), 99)
+  FROM jsonb_to_recordset(p_items) AS g(product_id UUID, variant_id UUID, personalization JSONB, quantity INTEGER)
+  JOIN public.products p ON p.id = g.product_id AND p.in_stock
+  LEFT JOIN public.product_variants pv ON pv.id = g.variant_id AND pv.product_id = p.id AND pv.in_stock
+  WHERE g.quantity > 0
+    AND (
+      (g.variant_id IS NULL AND NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p.id))
+      OR pv.id IS NOT NULL
+    )
+  GROUP BY p.id, pv.id, COALESCE(g.personalization, '{}'::JSONB)
+  ON CONFLICT (user_id, product_id, variant_id, personalization)
+  DO UPDATE SET quantity = LEAST(public.cart_items.quantity + EXCLUDED.quantity, 99);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+
+-- STEP 3: ONLY USE GUEST PHOTOS THAT ARE YOURS
+-- A signed-in customer could use any photo under guests/, including one they
+-- would not be able to see afterwards. Guests may now only use unclaimed
+-- guest photos, and signed-in customers only their own folder or the guest
+-- photos they claimed. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.get_personalization_surcharge(p_personalization JSONB)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_colour_theme_id UUID := NULLIF(p_personalization->>'colour_theme_id', '')::UUID;
+  v_dietary_ids UUID[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_personalization->'dietary_ids', '[]'::JSONB))::UUID);
+  v_reference_path TEXT := NULLIF(trim(p_personalization->>'reference_image_path'), '');
+  v_reference_owner TEXT;
+  v_surcharge NUMERIC(10, 2) := 0;
+BEGIN
+  IF p_personalization IS NULL OR p_personalization = '{}'::JSONB THEN
+    RETURN 0;
+  END IF;
+
+  IF char_length(COALESCE(p_personalization->>'inscription', '')) > 50 THEN
+    RAISE EXCEPTION 'Cake inscriptions can be at most 50 characters long.';
+  END IF;
+
+  IF char_length(COALESCE(p_personalization->>'notes', '')) > 500 THEN
+    RAISE EXCEPTION 'Personalization notes can be at most 500 characters long.';
+  END IF;
+
+  IF v_colour_theme_id IS NOT NULL THEN
+    SELECT v_surcharge + surcharge INTO v_surcharge
+    FROM public.personalization_options
+    WHERE id = v_colour_theme_id AND kind = 'colour_theme' AND active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The chosen colour theme is no longer available.';
+    END IF;
+  END IF;
+
+  IF cardinality(v_dietary_ids) > 0 THEN
+    IF (
+      SELECT count(*) FROM public.personalization_options
+      WHERE id = ANY (v_dietary_ids) AND kind = 'dietary' AND active
+    ) <> cardinality(v_dietary_ids) THEN
+      RAISE EXCEPTION 'One of the chosen dietary options is no longer available.';
+    END IF;
+
+    v_surcharge := v_surcharge + (
+      SELECT COALESCE(SUM(surcharge), 0) FROM public.personalization_options WHERE id = ANY (v_dietary_ids)
+    );
+  END IF;
+
+  IF v_reference_path IS NOT NULL THEN
+    IF split_part(v_reference_path, '/', 1) NOT IN ('guests', COALESCE(auth.uid()::TEXT, 'guests')) THEN
+      RAISE EXCEPTION 'The reference photo does not belong to you.';
+    END IF;
+
+    SELECT owner_id INTO v_reference_owner
+    FROM storage.objects
+    WHERE bucket_id = 'personalization-references' AND name = v_reference_path;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A reference photo could not be found. Please upload it again.';
+    END IF;
+
+    -- Guest photos are claimed by the customer who signs in with them.
+    IF split_part(v_reference_path, '/', 1) = 'guests'
+      AND v_reference_owner IS DISTINCT FROM auth.uid()::TEXT
+    THEN
+      RAISE EXCEPTION 'The reference photo does not belong to you.';
+    END IF;
+  END IF;
+
+  RETURN v_surcharge;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+
+-- STEP 4: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,145 @@
+-- ============================================================================
+--          PAID SALES IN ANALYTICS
+-- The sales reports counted every order that was not cancelled or refunded,
+-- so unpaid orders showed up as revenue: abandoned M-Pesa pushes, and Till
+-- orders still waiting for staff to check the payment. A sale now needs a
+-- confirmed payment: either the payment was recorded (payment_status is
+-- 'paid'), or staff verified it and moved the order past 'pending'.
+-- Cancelled and refunded orders are still left out.
+-- ============================================================================
+
+-- STEP 1: WHAT COUNTS AS A SALE
+CREATE OR REPLACE FUNCTION public.is_paid_sale(p_status public.order_status, p_payment_status TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT p_status NOT IN ('cancelled', 'refunded')
+    AND (p_payment_status = 'paid' OR p_status <> 'pending');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+
+-- STEP 2: REPORTS
+-- 2.1: Headline figures. A signed-in customer counts as new if their first
+-- paid order falls in the period, and as returning if they had one before
+-- it. Guest orders are counted apart, as guests cannot be told apart.
+-- Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.get_sales_summary(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  order_count BIGINT,
+  revenue NUMERIC,
+  average_order_value NUMERIC,
+  items_sold BIGINT,
+  discount_total NUMERIC,
+  cancelled_count BIGINT,
+  new_customers BIGINT,
+  returning_customers BIGINT,
+  guest_orders BIGINT
+) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  RETURN QUERY
+  WITH period_orders AS (
+    SELECT o.id, o.user_id, o.status, o.payment_status, o.total_amount, o.discount_amount
+    FROM public.orders o
+    WHERE public.order_local_date(o.created_at) BETWEEN p_from AND p_to
+  ),
+  sales AS (
+    SELECT po.* FROM period_orders po WHERE public.is_paid_sale(po.status, po.payment_status)
+  ),
+  customers AS (
+    SELECT
+      s.user_id,
+      (
+        SELECT min(public.order_local_date(f.created_at))
+        FROM public.orders f
+        WHERE f.user_id = s.user_id AND public.is_paid_sale(f.status, f.payment_status)
+      ) AS first_order_date
+    FROM sales s
+    WHERE s.user_id IS NOT NULL
+    GROUP BY s.user_id
+  )
+  SELECT
+    (SELECT count(*) FROM sales),
+    (SELECT COALESCE(SUM(s.total_amount), 0) FROM sales s),
+    (SELECT COALESCE(round(AVG(s.total_amount), 2), 0) FROM sales s),
+    (SELECT COALESCE(SUM(i.quantity), 0)::BIGINT FROM public.order_items i JOIN sales s ON s.id = i.order_id),
+    (SELECT COALESCE(SUM(s.discount_amount), 0) FROM sales s),
+    (SELECT count(*) FROM period_orders po WHERE po.status IN ('cancelled', 'refunded')),
+    (SELECT count(*) FROM customers c WHERE c.first_order_date >= p_from),
+    (SELECT count(*) FROM customers c WHERE c.first_order_date < p_from),
+    (SELECT count(*) FROM sales s WHERE s.user_id IS NULL);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2.2: Revenue and paid orders for every day in the period, including
+-- days without any. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.get_revenue_by_day(p_from DATE, p_to DATE)
+RETURNS TABLE (day DATE, order_count BIGINT, revenue NUMERIC) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  RETURN QUERY
+  SELECT d.day::DATE, count(o.id), COALESCE(SUM(o.total_amount), 0)
+  FROM generate_series(p_from, p_to, INTERVAL '1 day') AS d(day)
+  LEFT JOIN public.orders o
+    ON public.order_local_date(o.created_at) = d.day::DATE
+   AND public.is_paid_sale(o.status, o.payment_status)
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2.3: The best-selling products, by 'revenue' or by 'units'. A NULL
+-- p_limit returns every product sold in the period. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.get_top_products(
+  p_from DATE,
+  p_to DATE,
+  p_order_by TEXT DEFAULT 'revenue',
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (product_id UUID, product_name TEXT, units BIGINT, revenue NUMERIC) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  IF p_order_by NOT IN ('revenue', 'units') THEN
+    RAISE EXCEPTION 'Products can be ranked by revenue or units, not "%".', p_order_by;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.name, SUM(i.quantity)::BIGINT AS units, SUM(i.price * i.quantity) AS revenue
+  FROM public.order_items i
+  JOIN public.orders o ON o.id = i.order_id
+  JOIN public.products p ON p.id = i.product_id
+  WHERE public.order_local_date(o.created_at) BETWEEN p_from AND p_to
+    AND public.is_paid_sale(o.status, o.payment_status)
+  GROUP BY p.id, p.name
+  ORDER BY
+    CASE WHEN p_order_by = 'units' THEN SUM(i.quantity) END DESC NULLS LAST,
+    SUM(i.price * i.quantity) DESC,
+    p.name
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2.4: Sales split by each product's current category. Products without a
+-- category are grouped under a NULL category_id. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.get_sales_by_category(p_from DATE, p_to DATE)
+RETURNS TABLE (category_id UUID, category_name TEXT, units BIGINT, revenue NUMERIC) AS $$
+BEGIN
+  PERFORM public.check_analytics_period(p_from, p_to);
+
+  RETURN QUERY
+  SELECT c.id, COALESCE(c.name, 'Uncategorised'), SUM(i.quantity)::BIGINT, SUM(i.price * i.quantity)
+  FROM public.order_items i
+  JOIN public.orders o ON o.id = i.order_id
+  JOIN public.products p ON p.id = i.product_id
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  WHERE public.order_local_date(o.created_at) BETWEEN p_from AND p_to
+    AND public.is_paid_sale(o.status, o.payment_status)
+  GROUP BY c.id, c.name
+  ORDER BY SUM(i.price * i.quantity) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 3: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
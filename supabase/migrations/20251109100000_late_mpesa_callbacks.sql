@@ -0,0 +1,127 @@
+-- ============================================================================
+--          LATE M-PESA CALLBACKS
+-- A successful STK push callback always marked its order as paid and wrote
+-- the receipt onto it, even when the order had already been paid by an
+-- earlier push, or had been cancelled (by staff, or by
+-- release_unpaid_orders()). A duplicate push could replace the receipt
+-- already recorded, and a late one brought a cancelled order back.
+--
+-- The order is now only updated while it is unpaid, not cancelled or
+-- refunded, and the receipt is not already on another order or replacing
+-- the order's own. Otherwise the payment is still recorded as succeeded,
+-- since the customer's money did arrive, and a note on the order asks staff
+-- to check it and refund the customer if needed.
+-- ============================================================================
+
+-- STEP 1: ONLY SETTLE ORDERS THAT ARE STILL WAITING FOR PAYMENT
+-- Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.record_mpesa_callback(
+  p_checkout_request_id TEXT,
+  p_result_code INTEGER,
+  p_result_desc TEXT,
+  p_receipt_number TEXT,
+  p_amount NUMERIC,
+  p_raw_callback JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_payment public.payments;
+  v_order public.orders;
+  v_other_order TEXT;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE checkout_request_id = p_checkout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No payment found for CheckoutRequestID %', p_checkout_request_id;
+  END IF;
+
+  IF v_payment.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  -- 1032 means the customer dismissed the prompt on their phone.
+  IF p_result_code <> 0 THEN
+    UPDATE public.payments
+    SET status = CASE WHEN p_result_code = 1032 THEN 'cancelled' ELSE 'failed' END,
+        result_code = p_result_code,
+        result_desc = p_result_desc,
+        raw_callback = p_raw_callback
+    WHERE id = v_payment.id;
+    RETURN;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < v_payment.amount THEN
+    UPDATE public.payments
+    SET status = 'failed',
+        result_code = p_result_code,
+        result_desc = format('Paid %s but %s was due.', p_amount, v_payment.amount),
+        mpesa_receipt_number = p_receipt_number,
+        raw_callback = p_raw_callback
+    WHERE id = v_payment.id;
+    RETURN;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'succeeded',
+      result_code = p_result_code,
+      result_desc = p_result_desc,
+      mpesa_receipt_number = p_receipt_number,
+      raw_callback = p_raw_callback
+  WHERE id = v_payment.id;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_payment.order_id FOR UPDATE;
+
+  SELECT left(id::TEXT, 8) INTO v_other_order
+  FROM public.orders
+  WHERE mpesa_receipt_number = p_receipt_number AND id <> v_order.id;
+
+  IF v_order.payment_status <> 'unpaid'
+    OR v_order.status IN ('cancelled', 'refunded')
+    OR (v_order.mpesa_receipt_number IS NOT NULL AND v_order.mpesa_receipt_number <> p_receipt_number)
+    OR v_other_order IS NOT NULL
+  THEN
+    INSERT INTO public.order_notes (order_id, author_id, body)
+    VALUES (
+      v_order.id,
+      NULL,
+      format(
+        'M-Pesa payment %s of Ksh %s was not applied to this order because %s. Check it and refund the customer if needed.',
+        p_receipt_number,
+        p_amount,
+        CASE
+          WHEN v_order.payment_status = 'paid' THEN 'it was already paid'
+          WHEN v_order.status IN ('cancelled', 'refunded') THEN format('it was %s', v_order.status)
+          WHEN v_other_order IS NOT NULL THEN format('the code is recorded against order %s', v_other_order)
+          ELSE format('it has M-Pesa code %s', v_order.mpesa_receipt_number)
+        END
+      )
+    );
+    RETURN;
+  END IF;
+
+  UPDATE public.orders
+  SET payment_status = 'paid',
+      mpesa_receipt_number = p_receipt_number,
+      paid_at = now()
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  -- Verify the order automatically; the history trigger records the change.
+  IF v_order.status = 'pending' THEN
+    PERFORM set_config(
+      'app.order_status_note',
+      format('M-Pesa payment confirmed automatically (receipt %s).', p_receipt_number),
+      true
+    );
+    UPDATE public.orders SET status = 'payment_verified' WHERE id = v_order.id;
+    PERFORM set_config('app.order_status_note', '', true);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- STEP 2: Reload the schema cache.
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,168 @@
+-- ============================================================================
+--          ORDERS RLS
+-- Customers only see their own orders, and never write to them directly:
+-- orders are placed through place_order(), by guests too. Unpaid orders are
+-- released by release_unpaid_orders(). Staff change them only through
+-- update_order_status() and reconcile_mpesa_payments(). Run with
+-- `supabase test db`; everything is rolled back afterwards.
+-- ============================================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(18);
+
+-- STEP 1: TWO CUSTOMERS, A BAKER, A STAFF MEMBER AND AN ORDER EACH
+-- Creating the users creates their profiles, as customers.
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'amina@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'brian@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'baker@example.com'),
+  ('44444444-4444-4444-4444-444444444444', 'staff@example.com');
+
+UPDATE public.profiles SET role = 'baker' WHERE id = '33333333-3333-3333-3333-333333333333';
+UPDATE public.profiles SET role = 'staff' WHERE id = '44444444-4444-4444-4444-444444444444';
+
+INSERT INTO public.orders (id, user_id, customer_name, customer_phone, delivery_address, subtotal, delivery_fee, total_amount) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'Amina', '0711111111', 'Kilimani', 2500, 200, 2700),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222', 'Brian', '0722222222', 'Westlands', 1200, 200, 1400);
+
+
+-- STEP 2: A CUSTOMER
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT id FROM public.orders $$,
+  $$ VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'::UUID) $$,
+  'A customer sees only their own orders'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.order_status_history WHERE order_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  'A customer cannot read the history of another customer''s order'
+);
+
+SELECT is_empty(
+  $$ UPDATE public.orders SET total_amount = 1 WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' RETURNING id $$,
+  'A customer cannot update another customer''s order'
+);
+
+SELECT is_empty(
+  $$ UPDATE public.orders SET total_amount = 1 WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' RETURNING id $$,
+  'A customer cannot change the total of their own order'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM public.orders WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' RETURNING id $$,
+  'A customer cannot delete their own order'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.orders (user_id, customer_name, customer_phone, delivery_address, subtotal, delivery_fee, total_amount)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'Amina', '0711111111', 'Kilimani', 1, 0, 1) $$,
+  '42501',
+  NULL,
+  'A customer cannot insert an order without place_order()'
+);
+
+
+-- STEP 3: A VISITOR WHO IS NOT SIGNED IN
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.orders $$,
+  'A visitor sees no orders'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.place_order('[]', '{}') $$,
+  'Your cart is empty.',
+  'A visitor can place orders, which place_order() checks itself'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.release_unpaid_orders() $$,
+  '42501',
+  NULL,
+  'A visitor cannot release unpaid orders'
+);
+
+
+-- STEP 4: STAFF WITH orders.view
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT count(*) FROM public.orders $$,
+  $$ VALUES (2::BIGINT) $$,
+  'Staff who can view orders see every customer''s orders'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM public.orders WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' RETURNING id $$,
+  'Staff without orders.delete cannot delete orders'
+);
+
+SELECT is_empty(
+  $$ UPDATE public.orders SET total_amount = 1 WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' RETURNING id $$,
+  'A baker cannot change an order''s total'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.update_order_status('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'payment_verified') $$,
+  'You do not have permission to mark orders as "payment_verified".',
+  'A baker cannot verify payments'
+);
+
+
+-- STEP 5: STAFF WITH orders.approve AND orders.fulfil
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ UPDATE public.orders
+     SET payment_status = 'paid', mpesa_receipt_number = 'QJK4ABCD12', total_amount = 1
+     WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'
+     RETURNING id $$,
+  'Staff cannot mark an order as paid, or change its total, directly'
+);
+
+SELECT results_eq(
+  $$ SELECT status::TEXT FROM public.update_order_status('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'payment_verified') $$,
+  $$ VALUES ('payment_verified') $$,
+  'Staff change an order''s status through update_order_status()'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT payment_status, mpesa_receipt_number, total_amount FROM public.orders WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  $$ VALUES ('unpaid', NULL::TEXT, 2700::NUMERIC) $$,
+  'Nobody changed the order''s payment or total'
+);
+
+
+-- STEP 6: UNPAID ORDERS ARE RELEASED
+-- An M-Pesa push from an hour ago that was never completed. Brian's Till
+-- order is new, and Amina's has been verified.
+INSERT INTO public.orders (id, user_id, customer_name, customer_phone, delivery_address, subtotal, delivery_fee, total_amount, payment_method, created_at) VALUES
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', '22222222-2222-2222-2222-222222222222', 'Brian', '0722222222', 'Westlands', 900, 200, 1100, 'mpesa_stk', now() - INTERVAL '1 hour');
+
+SELECT results_eq(
+  $$ SELECT public.release_unpaid_orders() $$,
+  $$ VALUES (1) $$,
+  'Only the abandoned M-Pesa push is released'
+);
+
+SELECT results_eq(
+  $$ SELECT status::TEXT FROM public.orders WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' $$,
+  $$ VALUES ('cancelled') $$,
+  'The abandoned order is cancelled'
+);
+
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,112 @@
+-- ============================================================================
+--          PRODUCTS RLS
+-- Everyone can browse the catalogue, but only staff with products.edit may
+-- change it, and only while their account is enabled. Run with
+-- `supabase test db`; everything is rolled back afterwards.
+-- ============================================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- STEP 1: A CUSTOMER, A BAKER, A STAFF MEMBER AND A PRODUCT
+-- Creating the users creates their profiles, as customers. Bakers can see
+-- orders but not edit the catalogue.
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'amina@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'baker@example.com'),
+  ('44444444-4444-4444-4444-444444444444', 'staff@example.com');
+
+UPDATE public.profiles SET role = 'baker' WHERE id = '33333333-3333-3333-3333-333333333333';
+UPDATE public.profiles SET role = 'staff' WHERE id = '44444444-4444-4444-4444-444444444444';
+
+INSERT INTO public.products (id, name, price) VALUES
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'Chocolate Cake', 2500);
+
+
+-- STEP 2: A VISITOR WHO IS NOT SIGNED IN
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$ SELECT name FROM public.products WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' $$,
+  $$ VALUES ('Chocolate Cake') $$,
+  'A visitor can browse the catalogue'
+);
+
+SELECT is_empty(
+  $$ UPDATE public.products SET price = 1 WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' RETURNING id $$,
+  'A visitor cannot update products'
+);
+
+
+-- STEP 3: A CUSTOMER
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ UPDATE public.products SET price = 1 WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' RETURNING id $$,
+  'A customer cannot update products'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.products (name, price) VALUES ('Free Cake', 0) $$,
+  '42501',
+  NULL,
+  'A customer cannot create products'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM public.products WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' RETURNING id $$,
+  'A customer cannot delete products'
+);
+
+
+-- STEP 4: STAFF WITHOUT products.edit
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ UPDATE public.products SET price = 1 WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' RETURNING id $$,
+  'A baker cannot update products'
+);
+
+
+-- STEP 5: STAFF WITH products.edit
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ UPDATE public.products SET price = 2800 WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' RETURNING price $$,
+  $$ VALUES (2800::NUMERIC) $$,
+  'Staff with products.edit can update products'
+);
+
+
+-- STEP 6: THE SAME STAFF MEMBER, ONCE DISABLED
+-- Disabled without a session, as protect_profile_role() only lets
+-- users.manage disable accounts.
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+UPDATE public.profiles SET disabled_at = now() WHERE id = '44444444-4444-4444-4444-444444444444';
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ UPDATE public.products SET price = 1 WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' RETURNING id $$,
+  'A disabled staff member cannot update products'
+);
+
+
+-- STEP 7: NOTHING ABOVE CHANGED THE PRODUCT EXCEPT THE STAFF MEMBER
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT price FROM public.products WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' $$,
+  $$ VALUES (2800::NUMERIC) $$,
+  'Only the enabled staff member''s change was saved'
+);
+
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,65 @@
+-- ============================================================================
+--          SALES ANALYTICS
+-- The sales reports only count orders whose payment was confirmed, either
+-- recorded as paid or verified by staff. Run with `supabase test db`;
+-- everything is rolled back afterwards.
+-- ============================================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+-- STEP 1: A STAFF MEMBER, A PRODUCT AND FOUR ORDERS PLACED TODAY
+--   aaaa  paid by M-Pesa push and verified             counts
+--   bbbb  a Till order still waiting for staff          left out
+--   cccc  a Till order staff verified by hand           counts
+--   dddd  paid, then cancelled                          left out
+INSERT INTO auth.users (id, email) VALUES
+  ('44444444-4444-4444-4444-444444444444', 'staff@example.com');
+
+UPDATE public.profiles SET role = 'staff' WHERE id = '44444444-4444-4444-4444-444444444444';
+
+INSERT INTO public.products (id, name, price) VALUES
+  ('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', 'Chocolate Cake', 2500);
+
+INSERT INTO public.orders (id, customer_name, customer_phone, delivery_address, subtotal, delivery_fee, total_amount, status, payment_method, payment_status) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Amina', '0711111111', 'Kilimani', 2500, 200, 2700, 'payment_verified', 'mpesa_stk', 'paid'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Brian', '0722222222', 'Westlands', 2500, 200, 2700, 'pending', 'mpesa_till', 'unpaid'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'Chebet', '0733333333', 'Karen', 800, 200, 1000, 'payment_verified', 'mpesa_till', 'unpaid'),
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', 'Daudi', '0744444444', 'Lavington', 2500, 200, 2700, 'cancelled', 'mpesa_stk', 'paid');
+
+INSERT INTO public.order_items (order_id, product_id, quantity, price) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', 1, 2500),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', 1, 2500),
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', 1, 2500);
+
+
+-- STEP 2: THE REPORTS
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT order_count, revenue
+     FROM public.get_sales_summary(public.order_local_date(now()), public.order_local_date(now())) $$,
+  $$ VALUES (2::BIGINT, 3700::NUMERIC) $$,
+  'The summary leaves out the unpaid and the cancelled order'
+);
+
+SELECT results_eq(
+  $$ SELECT revenue
+     FROM public.get_revenue_by_day(public.order_local_date(now()), public.order_local_date(now())) $$,
+  $$ VALUES (3700::NUMERIC) $$,
+  'Daily revenue leaves out the unpaid and the cancelled order'
+);
+
+SELECT results_eq(
+  $$ SELECT units
+     FROM public.get_top_products(public.order_local_date(now()), public.order_local_date(now())) $$,
+  $$ VALUES (1::BIGINT) $$,
+  'Top products only count units from paid orders'
+);
+
+
+SELECT * FROM finish();
+ROLLBACK;